@@ -1,21 +1,19 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useEffect } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { useToast } from "@/hooks/use-toast"
-import useApi from "@/hooks/use-api"
+import useQuery from "@/hooks/use-query"
 import QRCodeGenerator from "@/components/qr-code-generator"
-import type { Table as TableType } from "@/lib/api"
+import apiService, { type Table as TableType } from "@/lib/api"
 
 export default function QRCodesPage() {
   const { toast } = useToast()
-  const { isLoading, error, executeApiCall, api } = useApi()
-  const [tables, setTables] = useState<TableType[]>([])
-
-  // Load tables on component mount
-  useEffect(() => {
-    loadTables()
-  }, [])
+  const {
+    data: tables = [],
+    isLoading,
+    error,
+  } = useQuery<TableType[]>(["tables"], (options) => apiService.tables.getAll(undefined, undefined, options))
 
   // Show error toast if API error occurs
   useEffect(() => {
@@ -28,14 +26,6 @@ export default function QRCodesPage() {
     }
   }, [error, toast])
 
-  // Load all tables from API
-  const loadTables = async () => {
-    const result = await executeApiCall(() => api.tables.getAll())
-    if (result) {
-      setTables(result)
-    }
-  }
-
   return (
     <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
       <div className="flex items-center justify-between">
@@ -1,6 +1,6 @@
 import type { ReactNode } from "react"
 import Link from "next/link"
-import { Coffee, LayoutDashboard, MenuIcon, ShoppingBag, Users } from "lucide-react"
+import { ChefHat, Coffee, LayoutDashboard, MenuIcon, Percent, Printer, ShoppingBag, Users, Wallet } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
@@ -42,10 +42,26 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
                     <ShoppingBag className="h-5 w-5" />
                     Orders
                   </Link>
+                  <Link href="/dashboard/payments" className="flex items-center gap-2 px-2 py-1 text-lg font-semibold">
+                    <Wallet className="h-5 w-5" />
+                    Payments
+                  </Link>
+                  <Link href="/kitchen" className="flex items-center gap-2 px-2 py-1 text-lg font-semibold">
+                    <ChefHat className="h-5 w-5" />
+                    Kitchen
+                  </Link>
                   <Link href="/dashboard/products" className="flex items-center gap-2 px-2 py-1 text-lg font-semibold">
                     <Coffee className="h-5 w-5" />
                     Products
                   </Link>
+                  <Link href="/dashboard/pricing" className="flex items-center gap-2 px-2 py-1 text-lg font-semibold">
+                    <Percent className="h-5 w-5" />
+                    Pricing
+                  </Link>
+                  <Link href="/dashboard/printers" className="flex items-center gap-2 px-2 py-1 text-lg font-semibold">
+                    <Printer className="h-5 w-5" />
+                    Printers
+                  </Link>
                   <Link href="/dashboard/users" className="flex items-center gap-2 px-2 py-1 text-lg font-semibold">
                     <Users className="h-5 w-5" />
                     Users
@@ -64,9 +80,21 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
                 <Link href="/dashboard/orders" className="text-sm font-medium transition-colors hover:text-primary">
                   Orders
                 </Link>
+                <Link href="/dashboard/payments" className="text-sm font-medium transition-colors hover:text-primary">
+                  Payments
+                </Link>
+                <Link href="/kitchen" className="text-sm font-medium transition-colors hover:text-primary">
+                  Kitchen
+                </Link>
                 <Link href="/dashboard/products" className="text-sm font-medium transition-colors hover:text-primary">
                   Products
                 </Link>
+                <Link href="/dashboard/pricing" className="text-sm font-medium transition-colors hover:text-primary">
+                  Pricing
+                </Link>
+                <Link href="/dashboard/printers" className="text-sm font-medium transition-colors hover:text-primary">
+                  Printers
+                </Link>
                 <Link href="/dashboard/users" className="text-sm font-medium transition-colors hover:text-primary">
                   Users
                 </Link>
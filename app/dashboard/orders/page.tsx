@@ -7,121 +7,234 @@ import {
   Dialog,
   DialogContent,
   DialogDescription,
-  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { ArrowDown, ArrowUp, StickyNote } from "lucide-react"
+import type { AdjustmentFormValues } from "@/components/adjustment-form"
+import { CreateOrderForm } from "@/components/create-order-form"
+import { OrderDetails } from "@/components/order-details"
+import { OrderTypeBadge } from "@/components/order-type-badge"
+import { ScheduledOrdersLane } from "@/components/scheduled-orders-lane"
+import { SplitBillDialog } from "@/components/split-bill-dialog"
+import { StatusBadge } from "@/components/status-badge"
 import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/hooks/use-auth"
 import useApi from "@/hooks/use-api"
-import type { Order, Product, Table as TableType, OrderItem } from "@/lib/api"
+import useQuery from "@/hooks/use-query"
+import useOutbox from "@/hooks/use-outbox"
+import useOrderEvents from "@/hooks/use-order-events"
+import usePricingRules from "@/hooks/use-pricing-rules"
+import useCafeSettings from "@/hooks/use-cafe-settings"
+import useMoney from "@/hooks/use-money"
+import usePrinting from "@/hooks/use-printing"
+import useTableMoves from "@/hooks/use-table-moves"
+import offlineOutbox from "@/lib/offline-outbox"
+import queryCache from "@/lib/query-cache"
+import { checkTransition, getNextTransition, getStatusInfo, isManagerRole } from "@/lib/order-lifecycle"
+import { getUnitPrice } from "@/lib/modifiers"
+import { getOrderLocation, ORDER_TYPE_INFO, ORDER_TYPES } from "@/lib/order-types"
+import { getBalance } from "@/lib/payments"
+import type {
+  AddOrderItemRequest,
+  CreateOrderRequest,
+  ManualDiscountRequest,
+  Order,
+  OrderPageQuery,
+  OrderSortField,
+  OrderStatus,
+  OrderType,
+  PagedResult,
+  Product,
+  RefundReasonCode,
+  RefundRequest,
+  SortOrder,
+  Table as TableType,
+  VoidReasonCode,
+  VoidRequest,
+} from "@/lib/api"
+
+const PAGE_SIZE = 20
+
+/**
+ * Page numbers to show in the pagination bar, with "ellipsis" for skipped ranges
+ */
+const getPageNumbers = (page: number, totalPages: number): (number | "ellipsis")[] => {
+  const pages: (number | "ellipsis")[] = []
+  for (let p = 1; p <= totalPages; p++) {
+    if (p === 1 || p === totalPages || Math.abs(p - page) <= 1) {
+      pages.push(p)
+    } else if (pages[pages.length - 1] !== "ellipsis") {
+      pages.push("ellipsis")
+    }
+  }
+  return pages
+}
 
 export default function OrdersPage() {
   const { toast } = useToast()
   const { isLoading, error, executeApiCall, api } = useApi()
-  const [orders, setOrders] = useState<Order[]>([])
-  const [tables, setTables] = useState<TableType[]>([])
-  const [products, setProducts] = useState<Product[]>([])
+  const { user } = useAuth()
+  const { data: tables = [] } = useQuery<TableType[]>(["tables"], (options) =>
+    api.tables.getAll(undefined, undefined, options),
+  )
+  const { data: products = [] } = useQuery<Product[]>(["products"], (options) => api.products.getAll(undefined, options))
+  const { rules: pricingRules } = usePricingRules()
+  const { settings, isSaving: isSavingSettings, updateSettings } = useCafeSettings()
+  const { formatMoney } = useMoney()
+  const printing = usePrinting()
+  const tableMoves = useTableMoves()
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
   const [isOrderDetailsOpen, setIsOrderDetailsOpen] = useState(false)
   const [isCreateOrderOpen, setIsCreateOrderOpen] = useState(false)
-  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [currentStatus, setCurrentStatus] = useState<string>("all")
-  const [statusLoading, setStatusLoading] = useState<boolean>(false)
-
   const [selectedTableFilter, setSelectedTableFilter] = useState<number | null>(null)
-  const [filteredOrders, setFilteredOrders] = useState<Order[]>([])
-
-  // New order form state
-  const [newOrder, setNewOrder] = useState({
-    tableId: 0,
-    guestName: "",
-    items: [] as { productId: number; quantity: number }[],
+  // Orders being paid in the checkout
+  const [paymentOrders, setPaymentOrders] = useState<Order[]>([])
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false)
+
+  // Server-side filters, sort order and page of the orders list
+  const [filters, setFilters] = useState({ type: "all", from: "", to: "", guestName: "", minTotal: "" })
+  const [guestNameFilter, setGuestNameFilter] = useState("")
+  const [sort, setSort] = useState<{ sortBy: OrderSortField; sortOrder: SortOrder }>({
+    sortBy: "orderDate",
+    sortOrder: "desc",
   })
-  const [selectedProduct, setSelectedProduct] = useState<number | null>(null)
-  const [selectedQuantity, setSelectedQuantity] = useState<number>(1)
+  const [page, setPage] = useState(1)
+
+  const orderQuery: OrderPageQuery = {
+    page,
+    pageSize: PAGE_SIZE,
+    status: currentStatus === "all" ? undefined : (currentStatus as OrderStatus),
+    type: filters.type === "all" ? undefined : (filters.type as OrderType),
+    tableId: selectedTableFilter ?? undefined,
+    // Date inputs are local calendar days; send the whole day as an ISO range
+    from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+    guestName: guestNameFilter || undefined,
+    minTotal: filters.minTotal ? Number(filters.minTotal) : undefined,
+    ...sort,
+  }
+  const {
+    data: orderPage,
+    isLoading: ordersLoading,
+    error: ordersError,
+    retryAttempt,
+    setData: setOrderPage,
+  } = useQuery<PagedResult<Order>>(["orders", orderQuery], (options) => api.orders.getPage(orderQuery, options))
+  const orders = orderPage?.items ?? []
+  const totalPages = orderPage?.totalPages ?? 0
+
+  // Pre-orders waiting for their fire time, shown in their own lane above the list
+  const { data: scheduledOrders = [] } = useQuery<Order[]>(["orders", { status: "scheduled" }], (options) =>
+    api.orders.getByStatus("scheduled", options),
+  )
 
-  // Load orders, tables, and products on component mount
-  useEffect(() => {
-    loadOrders()
-    loadTables()
-    loadProducts()
-  }, [])
+  // Mutations waiting in the offline outbox, shown as "pending sync" in the list
+  const { entries: outboxEntries, pendingCount, failedCount, isSyncing, isOnline, sync, discard } = useOutbox()
+  const pendingOrders =
+    page === 1 && (currentStatus === "all" || currentStatus === "new")
+      ? outboxEntries.flatMap((entry) =>
+          entry.type === "createOrder" &&
+          (!selectedTableFilter || entry.payload.tableId === selectedTableFilter) &&
+          (filters.type === "all" || (entry.payload.type ?? "dine_in") === filters.type)
+            ? [{ ...entry, payload: entry.payload }]
+            : [],
+        )
+      : []
+  // Refetch the list whenever orders change elsewhere (other devices, the kitchen)
+  const { status: realtimeStatus } = useOrderEvents(() => queryCache.invalidate("orders"))
+
+  const pendingItemCounts = outboxEntries.reduce<Record<number, number>>((counts, entry) => {
+    if (entry.type === "addItem") {
+      counts[entry.payload.orderId] = (counts[entry.payload.orderId] || 0) + entry.payload.quantity
+    }
+    return counts
+  }, {})
 
   // Show error toast if API error occurs
   useEffect(() => {
-    if (error) {
+    const message = error || ordersError || printing.error || tableMoves.error || tableMoves.tableStatusError
+    if (message) {
       toast({
         title: "Error",
-        description: error,
+        description: message,
         variant: "destructive",
       })
     }
-  }, [error, toast])
+  }, [error, ordersError, printing.error, tableMoves.error, tableMoves.tableStatusError, toast])
 
-  // Load all orders from API
-  const loadOrders = async () => {
-    const result = await executeApiCall(() => api.orders.getAll())
-    if (result) {
-      setOrders(result)
-    }
+  // Apply the guest name filter once typing pauses instead of on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setGuestNameFilter(filters.guestName.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [filters.guestName])
+
+  // Update a filter and go back to the first page
+  const updateFilters = (changes: Partial<typeof filters>) => {
+    setFilters({ ...filters, ...changes })
+    setPage(1)
   }
 
-  // Load orders by status
-  const loadOrdersByStatus = async (status: string) => {
-    setCurrentStatus(status)
-
-    if (status === "all") {
-      await loadOrders()
-      return
-    }
-
-    setStatusLoading(true)
-    try {
-      const result = await executeApiCall(() => api.orders.getByStatus(status as any))
-      if (result) {
-        setOrders(result)
-      }
-    } finally {
-      setStatusLoading(false)
-    }
+  // Clear all filters
+  const clearFilters = () => {
+    setFilters({ type: "all", from: "", to: "", guestName: "", minTotal: "" })
+    setSelectedTableFilter(null)
+    setPage(1)
   }
 
-  // Load all tables from API
-  const loadTables = async () => {
-    const result = await executeApiCall(() => api.tables.getAll())
-    if (result) {
-      setTables(result)
-    }
+  // Sort by a column, toggling the direction when it is already the sort column
+  const handleSort = (sortBy: OrderSortField) => {
+    setSort({
+      sortBy,
+      sortOrder: sort.sortBy === sortBy && sort.sortOrder === "desc" ? "asc" : "desc",
+    })
+    setPage(1)
   }
 
-  // Load all products from API
-  const loadProducts = async () => {
-    const result = await executeApiCall(() => api.products.getAll())
-    if (result) {
-      setProducts(result)
+  // Replace an order on the current page with its updated version
+  const replaceOrder = (updated: Order) => {
+    if (orderPage) {
+      setOrderPage({ ...orderPage, items: orderPage.items.map((order) => (order.id === updated.id ? updated : order)) })
     }
   }
 
-  // Filter orders by selected table
-  useEffect(() => {
-    if (selectedTableFilter === null) {
-      // Show all orders when no specific table is selected
-      setFilteredOrders(orders)
-    } else {
-      // Filter by selected table
-      setFilteredOrders(orders.filter((order) => order.tableId === selectedTableFilter))
+  // Remove an order from the current page
+  const removeOrder = (orderId: number) => {
+    if (orderPage) {
+      setOrderPage({ ...orderPage, items: orderPage.items.filter((order) => order.id !== orderId) })
     }
-  }, [orders, selectedTableFilter])
+  }
 
   // Handle tab change
   const handleTabChange = (value: string) => {
-    loadOrdersByStatus(value)
+    setCurrentStatus(value)
+    setPage(1)
+  }
+
+  // Change how long before they are due scheduled orders go to the kitchen
+  const handleSaveLeadTime = async (leadTimeMinutes: number) => {
+    if (await updateSettings({ scheduling: { leadTimeMinutes } })) {
+      toast({
+        title: "Success",
+        description: `Scheduled orders now go to the kitchen ${leadTimeMinutes} minutes before they are due`,
+      })
+    }
   }
 
   // Handle viewing order details
@@ -134,125 +247,121 @@ export default function OrdersPage() {
     }
   }
 
-  // Handle updating order status
-  const handleUpdateStatus = async (
-    orderId: number,
-    newStatus: "new" | "preparing" | "ready" | "delivered" | "paid",
-  ) => {
-    const result = await executeApiCall(() => api.orders.updateStatus(orderId, newStatus))
-
-    if (result) {
-      // Update the order in the list
-      setOrders(orders.map((order) => (order.id === orderId ? result : order)))
+  // Open the checkout for one order, or for all open orders of a table
+  const openPayment = (ordersToPay: Order[]) => {
+    setPaymentOrders(ordersToPay)
+    setIsPaymentOpen(true)
+  }
 
-      // If we're viewing by status and the status changed, we might need to refresh
-      if (currentStatus !== "all" && currentStatus !== newStatus) {
-        // Order no longer belongs in this status view, remove it
-        setOrders(orders.filter((order) => order.id !== orderId))
-      }
+  // Settle everything the filtered table still owes
+  const handleSettleTable = async () => {
+    if (!selectedTableFilter) return
 
-      // Update the selected order if it's open
-      if (selectedOrder && selectedOrder.id === orderId) {
-        setSelectedOrder(result)
-      }
+    const tableOrders = await executeApiCall((options) => api.orders.getByTable(selectedTableFilter, options))
+    if (!tableOrders) return
 
+    const unpaid = tableOrders.filter((order) => getBalance(order) > 0)
+    if (unpaid.length === 0) {
       toast({
-        title: "Success",
-        description: `Order status updated to ${newStatus}`,
+        title: "Nothing to Pay",
+        description: "All orders of this table have been paid",
       })
+      return
     }
+    openPayment(unpaid)
   }
 
-  // Handle deleting an order
-  const handleDeleteOrder = async () => {
-    if (!selectedOrder) return
-
-    await executeApiCall(() => api.orders.delete(selectedOrder.id))
-
-    // Remove the order from the list
-    setOrders(orders.filter((order) => order.id !== selectedOrder.id))
-
-    // Reset selected order and close dialogs
-    setSelectedOrder(null)
-    setIsOrderDetailsOpen(false)
-    setIsDeleteDialogOpen(false)
-
-    toast({
-      title: "Success",
-      description: "Order deleted successfully",
-    })
-  }
-
-  // Add product to new order
-  const handleAddProductToOrder = () => {
-    if (!selectedProduct || selectedQuantity <= 0) return
-
-    // Check if product already exists in the order
-    const existingItemIndex = newOrder.items.findIndex((item) => item.productId === selectedProduct)
-
-    if (existingItemIndex >= 0) {
-      // Update quantity if product already exists
-      const updatedItems = [...newOrder.items]
-      updatedItems[existingItemIndex].quantity += selectedQuantity
-      setNewOrder({ ...newOrder, items: updatedItems })
-    } else {
-      // Add new product to order
-      setNewOrder({
-        ...newOrder,
-        items: [...newOrder.items, { productId: selectedProduct, quantity: selectedQuantity }],
+  // Take over the orders updated by a payment
+  const handlePaid = (paidOrders: Order[]) => {
+    if (orderPage) {
+      setOrderPage({
+        ...orderPage,
+        items: orderPage.items.map((order) => paidOrders.find((paid) => paid.id === order.id) ?? order),
       })
     }
-
-    // Reset selection
-    setSelectedProduct(null)
-    setSelectedQuantity(1)
+    const paidSelected = selectedOrder && paidOrders.find((paid) => paid.id === selectedOrder.id)
+    if (paidSelected) {
+      setSelectedOrder(paidSelected)
+    }
   }
 
-  // Remove product from new order
-  const handleRemoveProductFromOrder = (productId: number) => {
-    setNewOrder({
-      ...newOrder,
-      items: newOrder.items.filter((item) => item.productId !== productId),
-    })
-  }
+  // Handle updating order status
+  const handleUpdateStatus = async (orderId: number, newStatus: OrderStatus) => {
+    // Check the change against the order lifecycle before sending it
+    const order = orders.find((candidate) => candidate.id === orderId) ?? selectedOrder
 
-  // Create new order
-  const handleCreateOrder = async () => {
-    if (newOrder.tableId === 0 || newOrder.items.length === 0) {
+    // An order is only paid once its balance is settled, so take the payment instead
+    if (newStatus === "paid" && order && getBalance(order) > 0) {
+      openPayment([order])
+      return
+    }
+
+    const rejection = order && checkTransition(order.status, newStatus, user?.role)
+    if (rejection) {
       toast({
-        title: "Validation Error",
-        description: "Please select a table and add at least one item",
+        title: "Status Not Changed",
+        description: rejection.message,
         variant: "destructive",
       })
       return
     }
 
-    const result = await executeApiCall(() => api.orders.create(newOrder))
+    const result = await executeApiCall(() => api.orders.updateStatus(orderId, newStatus))
 
     if (result) {
-      // Add the new order to the list if we're viewing all orders or new orders
-      if (currentStatus === "all" || currentStatus === "new") {
-        setOrders([result, ...orders])
+      // Update the order in the list; the page is refetched in the background
+      if (currentStatus !== "all" && currentStatus !== newStatus) {
+        // Order no longer belongs in this status view, remove it
+        removeOrder(orderId)
+      } else {
+        replaceOrder(result)
       }
 
-      // Reset form and close dialog
-      setNewOrder({
-        tableId: 0,
-        guestName: "",
-        items: [],
-      })
-      setIsCreateOrderOpen(false)
+      // Update the selected order if it's open
+      if (selectedOrder && selectedOrder.id === orderId) {
+        setSelectedOrder(result)
+      }
 
       toast({
         title: "Success",
-        description: "Order created successfully",
+        description: `Order status updated to ${getStatusInfo(newStatus).label}`,
       })
     }
   }
 
+  // Create new order
+  const handleCreateOrder = async (orderData: CreateOrderRequest) => {
+    const result = await executeApiCall((options) => offlineOutbox.createOrder(orderData, options))
+
+    if (result) {
+      // The orders list is refetched automatically once the order has been created
+      setIsCreateOrderOpen(false)
+
+      toast(
+        result.queued
+          ? {
+              title: "Saved Offline",
+              description: "The server cannot be reached. The order will be sent as soon as the connection returns.",
+            }
+          : {
+              title: "Success",
+              description: "Order created successfully",
+            },
+      )
+    }
+  }
+
   // Add item to existing order
-  const handleAddItemToOrder = async (orderId: number, productId: number, quantity: number) => {
-    const result = await executeApiCall(() => api.orders.addItem(orderId, { productId, quantity }))
+  const handleAddItemToOrder = async (orderId: number, item: AddOrderItemRequest) => {
+    const result = await executeApiCall((options) => offlineOutbox.addItem(orderId, item, options))
+
+    if (result?.queued) {
+      toast({
+        title: "Saved Offline",
+        description: "The item will be added as soon as the connection returns.",
+      })
+      return
+    }
 
     if (result && selectedOrder) {
       // Refresh the order details
@@ -261,7 +370,7 @@ export default function OrdersPage() {
         setSelectedOrder(updatedOrder)
 
         // Also update in the orders list
-        setOrders(orders.map((order) => (order.id === orderId ? updatedOrder : order)))
+        replaceOrder(updatedOrder)
 
         toast({
           title: "Success",
@@ -282,7 +391,7 @@ export default function OrdersPage() {
         setSelectedOrder(updatedOrder)
 
         // Also update in the orders list
-        setOrders(orders.map((order) => (order.id === orderId ? updatedOrder : order)))
+        replaceOrder(updatedOrder)
 
         toast({
           title: "Success",
@@ -292,45 +401,271 @@ export default function OrdersPage() {
     }
   }
 
-  // Remove item from existing order
-  const handleRemoveItem = async (orderId: number, itemId: number) => {
-    await executeApiCall(() => api.orders.removeItem(orderId, itemId))
+  // Update the note of an order
+  const handleUpdateNote = async (orderId: number, note: string) => {
+    const updatedOrder = await executeApiCall((options) => api.orders.updateNote(orderId, note, options))
+
+    if (updatedOrder) {
+      setSelectedOrder(updatedOrder)
+      replaceOrder(updatedOrder)
+
+      toast({
+        title: "Success",
+        description: note ? "Order note saved" : "Order note removed",
+      })
+    }
+  }
+
+  // Apply or remove the promo code of an order
+  const handleApplyPromoCode = async (orderId: number, promoCode: string | null): Promise<boolean> => {
+    const updatedOrder = await executeApiCall((options) => api.orders.applyPromoCode(orderId, promoCode, options))
+
+    if (updatedOrder) {
+      setSelectedOrder(updatedOrder)
+      replaceOrder(updatedOrder)
+
+      toast({
+        title: "Success",
+        description: promoCode ? `Promo code ${promoCode} applied` : "Promo code removed",
+      })
+    }
+    return !!updatedOrder
+  }
+
+  // Exchange the PIN of a manager for an approval; managers approve their own actions and pass no PIN
+  const requestApproval = async (pin?: string): Promise<{ approvalToken?: string } | null> => {
+    if (!pin) {
+      return {}
+    }
+    const approval = await executeApiCall((options) => api.auth.requestApproval(pin, options))
+    return approval && { approvalToken: approval.approvalToken }
+  }
+
+  // Grant a manual discount; staff need a manager to approve it with their PIN first
+  const handleSetManualDiscount = async (
+    orderId: number,
+    discount: Omit<ManualDiscountRequest, "approvalToken">,
+    pin?: string,
+  ): Promise<boolean> => {
+    const approval = await requestApproval(pin)
+    if (!approval) {
+      return false
+    }
+
+    const updatedOrder = await executeApiCall((options) =>
+      api.orders.setManualDiscount(orderId, { ...discount, ...approval }, options),
+    )
+
+    if (updatedOrder) {
+      setSelectedOrder(updatedOrder)
+      replaceOrder(updatedOrder)
+
+      toast({
+        title: "Success",
+        description: "Discount applied",
+      })
+    }
+    return !!updatedOrder
+  }
+
+  // Show an order after a void or refund; a voided order leaves the tab of its old status
+  const showAdjustedOrder = (updatedOrder: Order, message: string) => {
+    setSelectedOrder(updatedOrder)
+    if (currentStatus !== "all" && currentStatus !== updatedOrder.status) {
+      removeOrder(updatedOrder.id)
+    } else {
+      replaceOrder(updatedOrder)
+    }
+
+    toast({
+      title: "Success",
+      description: message,
+    })
+  }
+
+  // Void an order or one of its items before payment; staff need a manager to approve it
+  const handleVoid = async (
+    orderId: number,
+    itemId: number | null,
+    values: AdjustmentFormValues,
+    pin?: string,
+  ): Promise<boolean> => {
+    const approval = await requestApproval(pin)
+    if (!approval) {
+      return false
+    }
+
+    const request: VoidRequest = {
+      itemId: itemId ?? undefined,
+      reasonCode: values.reasonCode as VoidReasonCode,
+      note: values.note,
+      ...approval,
+    }
+    const updatedOrder = await executeApiCall((options) => api.orders.void(orderId, request, options))
+
+    if (updatedOrder) {
+      showAdjustedOrder(updatedOrder, itemId === null ? `Order #${orderId} voided` : "Item voided")
+    }
+    return !!updatedOrder
+  }
 
-    if (selectedOrder) {
+  // Refund a paid order or one of its items; staff need a manager to approve it
+  const handleRefund = async (
+    orderId: number,
+    itemId: number | null,
+    values: AdjustmentFormValues,
+    pin?: string,
+  ): Promise<boolean> => {
+    const approval = await requestApproval(pin)
+    if (!approval) {
+      return false
+    }
+
+    const request: RefundRequest = {
+      itemId: itemId ?? undefined,
+      reasonCode: values.reasonCode as RefundReasonCode,
+      note: values.note,
+      method: values.method ?? "cash",
+      ...approval,
+    }
+    const updatedOrder = await executeApiCall((options) => api.orders.refund(orderId, request, options))
+
+    if (updatedOrder) {
+      const refund = updatedOrder.adjustments?.[updatedOrder.adjustments.length - 1]
+      showAdjustedOrder(updatedOrder, `Refunded ${formatMoney(refund?.amount ?? 0)}`)
+    }
+    return !!updatedOrder
+  }
+
+  // Get the name of a table for messages
+  const getTableName = (tableId: number): string => {
+    return tables.find((table) => table.id === tableId)?.name ?? `Table ${tableId}`
+  }
+
+  // Move the order to the table its guests moved to
+  const handleTransfer = async (orderId: number, tableId: number): Promise<boolean> => {
+    if (selectedOrder?.id !== orderId) return false
+
+    const movedOrder = await tableMoves.transferOrder(selectedOrder, tableId)
+    if (movedOrder) {
+      setSelectedOrder(movedOrder)
+      replaceOrder(movedOrder)
+      toast({
+        title: "Success",
+        description: `Order #${orderId} moved to ${getTableName(tableId)}`,
+      })
+    }
+    return !!movedOrder
+  }
+
+  // Join two tables: their open orders become one order on the table the guests join
+  const handleMergeTables = async (fromTableId: number, toTableId: number): Promise<boolean> => {
+    const mergedOrder = await tableMoves.mergeTables(fromTableId, toTableId)
+    if (mergedOrder) {
+      setSelectedOrder(mergedOrder)
+      replaceOrder(mergedOrder)
+      toast({
+        title: "Success",
+        description: `${getTableName(fromTableId)} merged into order #${mergedOrder.id} on ${getTableName(toTableId)}`,
+      })
+    }
+    return !!mergedOrder
+  }
+
+  // Move the selected items to a new order
+  const handleSplit = async (orderId: number, itemIds: number[], tableId?: number): Promise<boolean> => {
+    if (selectedOrder?.id !== orderId) return false
+
+    const result = await tableMoves.splitOrder(selectedOrder, itemIds, tableId)
+    if (result) {
+      setSelectedOrder(result.order)
+      replaceOrder(result.order)
+      toast({
+        title: "Success",
+        description: `${itemIds.length} item(s) moved to new order #${result.newOrder.id}`,
+      })
+    }
+    return !!result
+  }
+
+  // Remove the manual discount of an order
+  const handleRemoveManualDiscount = async (orderId: number) => {
+    const updatedOrder = await executeApiCall((options) => api.orders.removeManualDiscount(orderId, options))
+
+    if (updatedOrder) {
+      setSelectedOrder(updatedOrder)
+      replaceOrder(updatedOrder)
+
+      toast({
+        title: "Success",
+        description: "Discount removed",
+      })
+    }
+  }
+
+  // Update the special instructions of an item
+  const handleUpdateItemNote = async (orderId: number, itemId: number, note: string) => {
+    const result = await executeApiCall((options) => api.orders.updateItemNote(orderId, itemId, note, options))
+
+    if (result && selectedOrder) {
       // Refresh the order details
       const updatedOrder = await executeApiCall(() => api.orders.getById(orderId))
       if (updatedOrder) {
         setSelectedOrder(updatedOrder)
 
         // Also update in the orders list
-        setOrders(orders.map((order) => (order.id === orderId ? updatedOrder : order)))
+        replaceOrder(updatedOrder)
 
         toast({
           title: "Success",
-          description: "Item removed from order",
+          description: note ? "Item note saved" : "Item note removed",
         })
       }
     }
   }
 
-  // Get product name by ID
-  const getProductName = (productId: number): string => {
-    const product = products.find((p) => p.id === productId)
-    return product ? product.name : `Product #${productId}`
+  // Print the receipt on the receipt printer, or through the browser if there is none
+  const handlePrintReceipt = async (order: Order) => {
+    const result = await printing.printReceipt(order)
+
+    if (result) {
+      toast({
+        title: "Receipt printed",
+        description: result.usedFallback
+          ? `${result.printer.name} could not be reached; the receipt was printed through the browser`
+          : `Order #${order.id} was printed on ${result.printer.name}`,
+      })
+    }
   }
 
-  // Get product price by ID
-  const getProductPrice = (productId: number): number => {
-    const product = products.find((p) => p.id === productId)
-    return product ? product.price : 0
+  // Send the items to the printers of their stations, e.g. drinks to the bar and food to the kitchen
+  const handlePrintKitchenTickets = async (order: Order) => {
+    const result = await printing.printKitchenTickets(order)
+    if (!result) return
+
+    const stations = result.printed.map(({ printer, usedFallback }) =>
+      usedFallback ? `${printer.name} (through the browser)` : printer.name,
+    )
+    const unrouted = result.unrouted.map((item) => item.productName).join(", ")
+
+    if (stations.length > 0) {
+      toast({
+        title: "Kitchen tickets printed",
+        description: `Sent to ${stations.join(", ")}` + (unrouted ? `. No printer takes ${unrouted}` : ""),
+      })
+    } else {
+      toast({
+        title: "Nothing printed",
+        description: `No printer takes ${unrouted}. Set up the printers on the Printers page.`,
+        variant: "destructive",
+      })
+    }
   }
 
-  // Calculate subtotal for new order
-  const calculateSubtotal = (): number => {
-    return newOrder.items.reduce((total, item) => {
-      const price = getProductPrice(item.productId)
-      return total + price * item.quantity
-    }, 0)
+  // Get the unit price of an item that has not been sent yet, including its options
+  const getItemPrice = (item: AddOrderItemRequest): number => {
+    const product = products.find((p) => p.id === item.productId)
+    return product ? getUnitPrice(product, item.modifiers) : 0
   }
 
   // Format date/time
@@ -339,67 +674,69 @@ export default function OrdersPage() {
     return date.toLocaleString()
   }
 
-  // Get status badge
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "new":
-        return <Badge className="bg-blue-500">New</Badge>
-      case "preparing":
-        return <Badge className="bg-yellow-500">Preparing</Badge>
-      case "ready":
-        return <Badge className="bg-green-500">Ready</Badge>
-      case "delivered":
-        return <Badge className="bg-purple-500">Delivered</Badge>
-      case "paid":
-        return <Badge className="bg-gray-500">Paid</Badge>
-      default:
-        return <Badge>Unknown</Badge>
-    }
-  }
-
-  // Handle quick status update
-  const handleQuickStatusUpdate = async (orderId: number, currentStatus: string) => {
-    let newStatus: "preparing" | "ready" | "delivered" | "paid"
-
-    switch (currentStatus) {
-      case "new":
-        newStatus = "preparing"
-        break
-      case "preparing":
-        newStatus = "ready"
-        break
-      case "ready":
-        newStatus = "delivered"
-        break
-      case "delivered":
-        newStatus = "paid"
-        break
-      default:
-        return
+  // Handle quick status update: advance the order one step along the lifecycle
+  const handleQuickStatusUpdate = async (order: Order) => {
+    const transition = getNextTransition(order.status, user?.role)
+    if (transition) {
+      await handleUpdateStatus(order.id, transition.to)
     }
+  }
 
-    const result = await executeApiCall(() => api.orders.updateStatus(orderId, newStatus))
-
-    if (result) {
-      setOrders(orders.map((order) => (order.id === orderId ? result : order)))
-
-      toast({
-        title: "Success",
-        description: `Order status updated to ${newStatus}`,
-      })
+  // Render the button that advances an order to its next status, if the user may do so
+  const renderNextStatusButton = (order: Order) => {
+    const transition = getNextTransition(order.status, user?.role)
+    if (!transition) {
+      return null
     }
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={(e) => {
+          e.stopPropagation()
+          handleUpdateStatus(order.id, transition.to)
+        }}
+      >
+        {transition.to === "paid" && getBalance(order) > 0 ? "Take Payment" : transition.label}
+      </Button>
+    )
   }
 
+  // Render a column header that sorts the list when clicked
+  const renderSortableHead = (field: OrderSortField, label: string) => (
+    <TableHead>
+      <button type="button" className="flex items-center gap-1 hover:text-foreground" onClick={() => handleSort(field)}>
+        {label}
+        {sort.sortBy === field &&
+          (sort.sortOrder === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  )
+
   return (
     <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-3xl font-bold tracking-tight">Orders</h2>
+        <div className="flex items-center gap-3">
+          <h2 className="text-3xl font-bold tracking-tight">Orders</h2>
+          {realtimeStatus === "live" ? (
+            <Badge variant="outline" className="border-green-500 text-green-700">
+              Live
+            </Badge>
+          ) : realtimeStatus === "polling" ? (
+            <Badge variant="outline" className="border-yellow-500 text-yellow-700">
+              Auto-refresh
+            </Badge>
+          ) : null}
+        </div>
         <div className="flex items-center gap-4">
           <div className="flex items-center gap-2">
             <Label htmlFor="table-filter">Filter by Table:</Label>
             <Select
               value={selectedTableFilter?.toString() || "all"}
-              onValueChange={(value) => setSelectedTableFilter(value === "all" ? null : Number(value))}
+              onValueChange={(value) => {
+                setSelectedTableFilter(value === "all" ? null : Number(value))
+                setPage(1)
+              }}
             >
               <SelectTrigger className="w-[180px]" id="table-filter">
                 <SelectValue placeholder="All Tables" />
@@ -414,531 +751,356 @@ export default function OrdersPage() {
               </SelectContent>
             </Select>
           </div>
+          {selectedTableFilter && (
+            <Button variant="outline" onClick={handleSettleTable} disabled={isLoading}>
+              Settle Table
+            </Button>
+          )}
           <Button onClick={() => setIsCreateOrderOpen(true)}>Create New Order</Button>
         </div>
       </div>
 
-      <Tabs defaultValue="all" className="space-y-4" onValueChange={handleTabChange}>
+      {outboxEntries.length > 0 && (
+        <div className="flex items-center justify-between rounded-md border border-yellow-500 bg-yellow-50 p-3 text-sm text-yellow-800">
+          <span>
+            {pendingCount} change{pendingCount === 1 ? "" : "s"} waiting to sync
+            {!isOnline && " (offline)"}
+            {failedCount > 0 && `, ${failedCount} rejected by the server`}
+          </span>
+          <Button variant="outline" size="sm" onClick={sync} disabled={isSyncing || pendingCount === 0}>
+            {isSyncing ? "Syncing..." : "Sync Now"}
+          </Button>
+        </div>
+      )}
+
+      <Tabs value={currentStatus} className="space-y-4" onValueChange={handleTabChange}>
         <TabsList>
           <TabsTrigger value="all">All Orders</TabsTrigger>
+          <TabsTrigger value="scheduled">Scheduled</TabsTrigger>
           <TabsTrigger value="new">New</TabsTrigger>
           <TabsTrigger value="preparing">Preparing</TabsTrigger>
           <TabsTrigger value="ready">Ready</TabsTrigger>
           <TabsTrigger value="delivered">Delivered</TabsTrigger>
           <TabsTrigger value="paid">Paid</TabsTrigger>
+          <TabsTrigger value="voided">Voided</TabsTrigger>
         </TabsList>
+      </Tabs>
 
-        <TabsContent value="all" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>All Orders</CardTitle>
-              <CardDescription>Manage your cafe orders</CardDescription>
-            </CardHeader>
-            <CardContent>
-              {isLoading ? (
-                <div className="flex justify-center p-8">Loading orders...</div>
-              ) : orders.length === 0 ? (
-                <div className="text-center p-8 text-muted-foreground">No orders found</div>
-              ) : (
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Order ID</TableHead>
-                      <TableHead>Table</TableHead>
-                      <TableHead>Items</TableHead>
-                      <TableHead>Total</TableHead>
-                      <TableHead>Date/Time</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {filteredOrders.map((order: Order) => (
-                      <TableRow
-                        key={order.id}
-                        className="cursor-pointer hover:bg-muted/50"
-                        onClick={() => handleQuickStatusUpdate(order.id, order.status)}
-                      >
-                        <TableCell className="font-medium">#{order.id}</TableCell>
-                        <TableCell>Table {order.tableId}</TableCell>
-                        <TableCell>{order.items.length} items</TableCell>
-                        <TableCell>${order.total.toFixed(2)}</TableCell>
-                        <TableCell>{formatDateTime(order.orderDate)}</TableCell>
-                        <TableCell>{getStatusBadge(order.status)}</TableCell>
-                        <TableCell className="text-right">
-                          <div className="flex gap-2">
-                            {order.status !== "paid" && (
-                              <>
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={(e) => {
-                                    e.stopPropagation()
-                                    handleQuickStatusUpdate(order.id, order.status)
-                                  }}
-                                >
-                                  {order.status === "new" && "Start Preparing"}
-                                  {order.status === "preparing" && "Mark Ready"}
-                                  {order.status === "ready" && "Mark Delivered"}
-                                  {order.status === "delivered" && "Mark Paid"}
-                                </Button>
-                                <Button
-                                  variant="default"
-                                  size="sm"
-                                  onClick={(e) => {
-                                    e.stopPropagation()
-                                    handleUpdateStatus(order.id, "paid")
-                                  }}
-                                  className="bg-green-600 hover:bg-green-700"
-                                >
-                                  Mark as Paid
-                                </Button>
-                              </>
-                            )}
-                            {order.status === "paid" && <Badge className="bg-green-600">Paid</Badge>}
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={(e) => {
-                                e.stopPropagation()
-                                handleViewOrder(order)
-                              }}
-                            >
-                              View Details
-                            </Button>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              )}
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        {["new", "preparing", "ready", "delivered", "paid"].map((status) => (
-          <TabsContent key={status} value={status} className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle className="capitalize">{status} Orders</CardTitle>
-                <CardDescription>Manage your {status} orders</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {statusLoading || isLoading ? (
-                  <div className="flex justify-center p-8">Loading {status} orders...</div>
-                ) : orders.length === 0 ? (
-                  <div className="text-center p-8 text-muted-foreground">No {status} orders found</div>
-                ) : (
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Order ID</TableHead>
-                        <TableHead>Table</TableHead>
-                        <TableHead>Items</TableHead>
-                        <TableHead>Total</TableHead>
-                        <TableHead>Date/Time</TableHead>
-                        <TableHead>Status</TableHead>
-                        <TableHead className="text-right">Actions</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {filteredOrders.map((order: Order) => (
-                        <TableRow
-                          key={order.id}
-                          className="cursor-pointer hover:bg-muted/50"
-                          onClick={() => handleQuickStatusUpdate(order.id, order.status)}
+      {(scheduledOrders.length > 0 || currentStatus === "scheduled") && (
+        <ScheduledOrdersLane
+          orders={scheduledOrders}
+          leadTimeMinutes={settings.scheduling.leadTimeMinutes}
+          canEditLeadTime={isManagerRole(user?.role)}
+          isSaving={isSavingSettings}
+          onSaveLeadTime={handleSaveLeadTime}
+          onSendNow={(order) => handleUpdateStatus(order.id, "new")}
+          onView={handleViewOrder}
+        />
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="grid gap-1">
+          <Label htmlFor="filter-type">Type</Label>
+          <Select value={filters.type} onValueChange={(value) => updateFilters({ type: value })}>
+            <SelectTrigger className="w-[160px]" id="filter-type">
+              <SelectValue placeholder="All Types" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              {ORDER_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {ORDER_TYPE_INFO[type].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="filter-from">From</Label>
+          <Input
+            id="filter-from"
+            type="date"
+            className="w-[160px]"
+            value={filters.from}
+            onChange={(e) => updateFilters({ from: e.target.value })}
+          />
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="filter-to">To</Label>
+          <Input
+            id="filter-to"
+            type="date"
+            className="w-[160px]"
+            value={filters.to}
+            onChange={(e) => updateFilters({ to: e.target.value })}
+          />
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="filter-guest">Guest Name</Label>
+          <Input
+            id="filter-guest"
+            placeholder="Search guests"
+            className="w-[180px]"
+            value={filters.guestName}
+            onChange={(e) => updateFilters({ guestName: e.target.value })}
+          />
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="filter-min-total">Min Total</Label>
+          <Input
+            id="filter-min-total"
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="0.00"
+            className="w-[120px]"
+            value={filters.minTotal}
+            onChange={(e) => updateFilters({ minTotal: e.target.value })}
+          />
+        </div>
+        <Button variant="ghost" onClick={clearFilters}>
+          Clear Filters
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="capitalize">{currentStatus === "all" ? "All" : currentStatus} Orders</CardTitle>
+          <CardDescription>
+            {orderPage
+              ? `${orderPage.totalCount} order${orderPage.totalCount === 1 ? "" : "s"} found`
+              : "Manage your cafe orders"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {ordersLoading ? (
+            <div className="flex justify-center p-8">
+              Loading orders...
+              {retryAttempt && ` (attempt ${retryAttempt.attempt} of ${retryAttempt.maxAttempts})`}
+            </div>
+          ) : orders.length === 0 && pendingOrders.length === 0 ? (
+            <div className="text-center p-8 text-muted-foreground">No orders found</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {renderSortableHead("id", "Order ID")}
+                  {renderSortableHead("tableId", "Table / Type")}
+                  <TableHead>Items</TableHead>
+                  {renderSortableHead("total", "Total")}
+                  {renderSortableHead("orderDate", "Date/Time")}
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingOrders.map((entry) => (
+                  <TableRow key={entry.id} className="bg-yellow-50/50">
+                    <TableCell className="font-medium text-muted-foreground">—</TableCell>
+                    <TableCell>{getOrderLocation(entry.payload)}</TableCell>
+                    <TableCell>{entry.payload.items.length} items</TableCell>
+                    <TableCell>
+                      {formatMoney(
+                        entry.payload.items.reduce((total, item) => total + getItemPrice(item) * item.quantity, 0),
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDateTime(entry.createdAt)}</TableCell>
+                    <TableCell>
+                      {entry.status === "failed" ? (
+                        <Badge variant="destructive" title={entry.lastError}>
+                          Sync failed
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="border-yellow-500 text-yellow-700">
+                          Pending sync
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {entry.status === "failed" && (
+                        <Button variant="ghost" size="sm" onClick={() => discard(entry)}>
+                          Discard
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {orders.map((order: Order) => (
+                  <TableRow
+                    key={order.id}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => handleQuickStatusUpdate(order)}
+                  >
+                    <TableCell className="font-medium">#{order.id}</TableCell>
+                    <TableCell>
+                      {order.tableId ? (
+                        getOrderLocation(order)
+                      ) : (
+                        <div className="space-y-1">
+                          <OrderTypeBadge order={order} />
+                          <p className="text-xs text-muted-foreground">
+                            {order.customer?.name}
+                            {order.pickupTime &&
+                              ` · ${new Date(order.pickupTime).toLocaleTimeString([], {
+                                hour: "2-digit",
+                                minute: "2-digit",
+                              })}`}
+                          </p>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {order.items.length} items
+                      {pendingItemCounts[order.id] && (
+                        <Badge variant="outline" className="ml-2 border-yellow-500 text-yellow-700">
+                          +{pendingItemCounts[order.id]} pending sync
+                        </Badge>
+                      )}
+                      {(order.note || order.items.some((item) => item.note)) && (
+                        <p className="mt-1 flex max-w-[240px] items-center gap-1 text-xs font-medium text-amber-700">
+                          <StickyNote className="h-3 w-3 shrink-0" />
+                          <span className="truncate">{order.note || "Special instructions"}</span>
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {formatMoney(order.total)}
+                      {!!order.amountPaid && getBalance(order) > 0 && (
+                        <p className="text-xs text-muted-foreground">{formatMoney(getBalance(order))} due</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {formatDateTime(order.orderDate)}
+                      {order.readyAt && (
+                        <p className="text-xs text-cyan-700">Ready at {formatDateTime(order.readyAt)}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <StatusBadge status={order.status} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex gap-2">
+                        {renderNextStatusButton(order)}
+                        {order.status === "paid" && <Badge className="bg-green-600">Paid</Badge>}
+                        {!!order.refundedAmount && <Badge variant="destructive">Refunded</Badge>}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleViewOrder(order)
+                          }}
                         >
-                          <TableCell className="font-medium">#{order.id}</TableCell>
-                          <TableCell>Table {order.tableId}</TableCell>
-                          <TableCell>{order.items.length} items</TableCell>
-                          <TableCell>${order.total.toFixed(2)}</TableCell>
-                          <TableCell>{formatDateTime(order.orderDate)}</TableCell>
-                          <TableCell>{getStatusBadge(order.status)}</TableCell>
-                          <TableCell className="text-right">
-                            <div className="flex gap-2">
-                              {order.status !== "paid" && (
-                                <>
-                                  <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={(e) => {
-                                      e.stopPropagation()
-                                      handleQuickStatusUpdate(order.id, order.status)
-                                    }}
-                                  >
-                                    {order.status === "new" && "Start Preparing"}
-                                    {order.status === "preparing" && "Mark Ready"}
-                                    {order.status === "ready" && "Mark Delivered"}
-                                    {order.status === "delivered" && "Mark Paid"}
-                                  </Button>
-                                  <Button
-                                    variant="default"
-                                    size="sm"
-                                    onClick={(e) => {
-                                      e.stopPropagation()
-                                      handleUpdateStatus(order.id, "paid")
-                                    }}
-                                    className="bg-green-600 hover:bg-green-700"
-                                  >
-                                    Mark as Paid
-                                  </Button>
-                                </>
-                              )}
-                              {order.status === "paid" && <Badge className="bg-green-600">Paid</Badge>}
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={(e) => {
-                                  e.stopPropagation()
-                                  handleViewOrder(order)
-                                }}
-                              >
-                                View Details
-                              </Button>
-                            </div>
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
+                          View Details
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {totalPages > 1 && (
+            <Pagination className="mt-4">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    className={page <= 1 ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                    onClick={() => setPage(Math.max(page - 1, 1))}
+                  />
+                </PaginationItem>
+                {getPageNumbers(page, totalPages).map((pageNumber, index) =>
+                  pageNumber === "ellipsis" ? (
+                    <PaginationItem key={`ellipsis-${index}`}>
+                      <PaginationEllipsis />
+                    </PaginationItem>
+                  ) : (
+                    <PaginationItem key={pageNumber}>
+                      <PaginationLink
+                        className="cursor-pointer"
+                        isActive={pageNumber === page}
+                        onClick={() => setPage(pageNumber)}
+                      >
+                        {pageNumber}
+                      </PaginationLink>
+                    </PaginationItem>
+                  ),
                 )}
-              </CardContent>
-            </Card>
-          </TabsContent>
-        ))}
-      </Tabs>
+                <PaginationItem>
+                  <PaginationNext
+                    className={page >= totalPages ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                    onClick={() => setPage(Math.min(page + 1, totalPages))}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </CardContent>
+      </Card>
 
       {/* Order Details Dialog */}
       <Dialog open={isOrderDetailsOpen} onOpenChange={setIsOrderDetailsOpen}>
         <DialogContent className="sm:max-w-[700px] max-h-[80vh] overflow-y-auto">
-          <DialogHeader>
+          <DialogHeader className="sr-only">
             <DialogTitle>Order #{selectedOrder?.id}</DialogTitle>
-            <DialogDescription>
-              Table {selectedOrder?.tableId} • {selectedOrder && formatDateTime(selectedOrder.orderDate)}
-            </DialogDescription>
+            <DialogDescription>Items, status and history of the order</DialogDescription>
           </DialogHeader>
-          <p className="text-muted-foreground">
-            Guest: <strong>{selectedOrder?.guestName}</strong>
-          </p>
-          <div className="grid gap-4 py-4">
-            <div className="flex items-center justify-between">
-              <h3 className="font-medium">Status</h3>
-              {selectedOrder && getStatusBadge(selectedOrder.status)}
-            </div>
-
-            {/* Order Items Table */}
-            <div className="border rounded-md">
-              <div className="p-4 border-b bg-muted/50">
-                <h4 className="font-medium">Order Items</h4>
-              </div>
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Item</TableHead>
-                    <TableHead className="text-right">Qty</TableHead>
-                    <TableHead className="text-right">Price</TableHead>
-                    <TableHead className="text-right">Subtotal</TableHead>
-                    {selectedOrder?.status === "new" && <TableHead></TableHead>}
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {selectedOrder?.items.map((item: OrderItem) => (
-                    <TableRow key={item.id}>
-                      <TableCell className="font-medium">{item.productName}</TableCell>
-                      <TableCell className="text-right">{item.quantity}</TableCell>
-                      <TableCell className="text-right">${item.price.toFixed(2)}</TableCell>
-                      <TableCell className="text-right">${(item.price * item.quantity).toFixed(2)}</TableCell>
-                      {selectedOrder.status === "new" && (
-                        <TableCell>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleRemoveItem(selectedOrder.id, item.id)}
-                            className="text-red-600 hover:text-red-700"
-                          >
-                            Remove
-                          </Button>
-                        </TableCell>
-                      )}
-                    </TableRow>
-                  ))}
-                  <TableRow className="border-t-2">
-                    <TableCell colSpan={selectedOrder?.status === "new" ? 3 : 3} className="text-right font-medium">
-                      Total
-                    </TableCell>
-                    <TableCell className="text-right font-bold text-lg">${selectedOrder?.total.toFixed(2)}</TableCell>
-                    {selectedOrder?.status === "new" && <TableCell></TableCell>}
-                  </TableRow>
-                </TableBody>
-              </Table>
-            </div>
-
-            {/* Add item to order (only for new orders) */}
-            {selectedOrder?.status === "new" && (
-              <div className="border rounded-md p-4 bg-muted/20">
-                <h3 className="font-medium mb-3">Add Item to Order</h3>
-                <div className="flex items-end gap-2">
-                  <div className="flex-1">
-                    <Label htmlFor="add-product" className="text-sm font-medium">
-                      Product
-                    </Label>
-                    <Select onValueChange={(value) => setSelectedProduct(Number(value))}>
-                      <SelectTrigger id="add-product" className="mt-1">
-                        <SelectValue placeholder="Select a product" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {products.map((product) => (
-                          <SelectItem key={product.id} value={product.id.toString()}>
-                            {product.name} - ${product.price.toFixed(2)}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="w-20">
-                    <Label htmlFor="add-quantity" className="text-sm font-medium">
-                      Qty
-                    </Label>
-                    <Input
-                      id="add-quantity"
-                      type="number"
-                      min="1"
-                      value={selectedQuantity}
-                      onChange={(e) => setSelectedQuantity(Number(e.target.value))}
-                      className="mt-1"
-                    />
-                  </div>
-                  <Button
-                    onClick={() =>
-                      selectedOrder &&
-                      selectedProduct &&
-                      handleAddItemToOrder(selectedOrder.id, selectedProduct, selectedQuantity)
-                    }
-                    disabled={!selectedProduct || selectedQuantity < 1}
-                    className="mb-0"
-                  >
-                    Add Item
-                  </Button>
-                </div>
-              </div>
-            )}
-          </div>
-
-          <DialogFooter className="flex flex-col sm:flex-row gap-2 pt-4 border-t">
-            {/* Status Update Buttons */}
-            {selectedOrder?.status === "new" && (
-              <Button
-                className="w-full sm:w-auto"
-                onClick={() => selectedOrder && handleUpdateStatus(selectedOrder.id, "preparing")}
-                disabled={isLoading}
-              >
-                Start Preparing
-              </Button>
-            )}
-            {selectedOrder?.status === "preparing" && (
-              <Button
-                className="w-full sm:w-auto"
-                onClick={() => selectedOrder && handleUpdateStatus(selectedOrder.id, "ready")}
-                disabled={isLoading}
-              >
-                Mark as Ready
-              </Button>
-            )}
-            {selectedOrder?.status === "ready" && (
-              <Button
-                className="w-full sm:w-auto"
-                onClick={() => selectedOrder && handleUpdateStatus(selectedOrder.id, "delivered")}
-                disabled={isLoading}
-              >
-                Mark as Delivered
-              </Button>
-            )}
-            {selectedOrder?.status === "delivered" && (
-              <Button
-                className="w-full sm:w-auto"
-                onClick={() => selectedOrder && handleUpdateStatus(selectedOrder.id, "paid")}
-                disabled={isLoading}
-              >
-                Mark as Paid
-              </Button>
-            )}
-
-            {/* Cancel Order Button - only for new orders */}
-            {selectedOrder?.status === "new" && (
-              <Button
-                variant="destructive"
-                className="w-full sm:w-auto"
-                onClick={() => {
-                  setIsOrderDetailsOpen(false)
-                  setIsDeleteDialogOpen(true)
-                }}
-                disabled={isLoading}
-              >
-                Cancel Order
-              </Button>
-            )}
-
-            <Button variant="outline" className="w-full sm:w-auto" onClick={() => setIsOrderDetailsOpen(false)}>
-              Close
-            </Button>
-          </DialogFooter>
+          {selectedOrder && (
+            <OrderDetails
+              order={selectedOrder}
+              products={products}
+              userRole={user?.role}
+              isUpdating={isLoading || tableMoves.isMoving}
+              onUpdateStatus={handleUpdateStatus}
+              onAddItem={handleAddItemToOrder}
+              onUpdateNote={handleUpdateNote}
+              onUpdateItemNote={handleUpdateItemNote}
+              onApplyPromoCode={handleApplyPromoCode}
+              onSetManualDiscount={handleSetManualDiscount}
+              onRemoveManualDiscount={handleRemoveManualDiscount}
+              onTakePayment={(order) => openPayment([order])}
+              onPrintReceipt={handlePrintReceipt}
+              onPrintKitchenTickets={handlePrintKitchenTickets}
+              isPrinting={printing.isPrinting}
+              onVoid={handleVoid}
+              onRefund={handleRefund}
+              tables={tables}
+              onTransfer={handleTransfer}
+              onMergeTables={handleMergeTables}
+              onSplit={handleSplit}
+              onClose={() => setIsOrderDetailsOpen(false)}
+            />
+          )}
         </DialogContent>
       </Dialog>
 
       {/* Create Order Dialog */}
       <Dialog open={isCreateOrderOpen} onOpenChange={setIsCreateOrderOpen}>
-        <DialogContent className="sm:max-w-[600px]">
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Create New Order</DialogTitle>
             <DialogDescription>Create a new order for a table</DialogDescription>
           </DialogHeader>
-          <div className="grid gap-4 py-4">
-            {/* Guest Name Input */}
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="guestName" className="text-right">
-                Guest Name
-              </Label>
-              <Input
-                id="guestName"
-                className="col-span-3"
-                value={newOrder.guestName}
-                onChange={(e) => setNewOrder({ ...newOrder, guestName: e.target.value })}
-                placeholder="Enter guest name"
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="table" className="text-right">
-                Table
-              </Label>
-              <Select
-                value={newOrder.tableId ? newOrder.tableId.toString() : undefined}
-                onValueChange={(value) => setNewOrder({ ...newOrder, tableId: Number(value) })}
-              >
-                <SelectTrigger className="col-span-3">
-                  <SelectValue placeholder="Select a table" />
-                </SelectTrigger>
-                <SelectContent>
-                  {tables
-                    .filter((table) => table.status === "available")
-                    .map((table) => (
-                      <SelectItem key={table.id} value={table.id.toString()}>
-                        {table.name} (Capacity: {table.capacity})
-                      </SelectItem>
-                    ))}
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="grid gap-2">
-              <Label>Items</Label>
-              <div className="border rounded-md p-4">
-                <div className="space-y-2">
-                  <div className="flex items-end gap-2">
-                    <div className="flex-1">
-                      <Label htmlFor="product" className="mb-2">
-                        Product
-                      </Label>
-                      <Select onValueChange={(value) => setSelectedProduct(Number(value))}>
-                        <SelectTrigger id="product">
-                          <SelectValue placeholder="Select a product" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {products.map((product) => (
-                            <SelectItem key={product.id} value={product.id.toString()}>
-                              {product.name} - ${product.price.toFixed(2)}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="w-20">
-                      <Label htmlFor="quantity" className="mb-2">
-                        Qty
-                      </Label>
-                      <Input
-                        id="quantity"
-                        type="number"
-                        min="1"
-                        value={selectedQuantity}
-                        onChange={(e) => setSelectedQuantity(Number(e.target.value))}
-                      />
-                    </div>
-                    <Button onClick={handleAddProductToOrder} disabled={!selectedProduct || selectedQuantity < 1}>
-                      Add
-                    </Button>
-                  </div>
-                </div>
-                <div className="mt-4">
-                  {newOrder.items.length === 0 ? (
-                    <p className="text-sm text-muted-foreground">No items added yet</p>
-                  ) : (
-                    <div className="space-y-2">
-                      {newOrder.items.map((item) => (
-                        <div key={item.productId} className="flex items-center justify-between">
-                          <div>
-                            <span className="font-medium">{getProductName(item.productId)}</span>
-                            <span className="text-sm text-muted-foreground ml-2">
-                              ${getProductPrice(item.productId).toFixed(2)} x {item.quantity}
-                            </span>
-                          </div>
-                          <div className="flex items-center">
-                            <span className="font-medium mr-4">
-                              ${(getProductPrice(item.productId) * item.quantity).toFixed(2)}
-                            </span>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleRemoveProductFromOrder(item.productId)}
-                            >
-                              Remove
-                            </Button>
-                          </div>
-                        </div>
-                      ))}
-                      <div className="flex items-center justify-between pt-2 mt-2 border-t">
-                        <span className="font-bold">Total:</span>
-                        <span className="font-bold">${calculateSubtotal().toFixed(2)}</span>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </div>
-            </div>
-          </div>
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={() => setIsCreateOrderOpen(false)}>
-              Cancel
-            </Button>
-            <Button
-              type="submit"
-              onClick={handleCreateOrder}
-              disabled={isLoading || newOrder.tableId === 0 || newOrder.items.length === 0}
-            >
-              {isLoading ? "Creating..." : "Create Order"}
-            </Button>
-          </DialogFooter>
+          <CreateOrderForm
+            tables={tables}
+            products={products}
+            pricingRules={pricingRules}
+            settings={settings}
+            onSubmit={handleCreateOrder}
+            onCancel={() => setIsCreateOrderOpen(false)}
+            isLoading={isLoading}
+          />
         </DialogContent>
       </Dialog>
 
-      {/* Delete Confirmation Dialog */}
-      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
-        <DialogContent className="sm:max-w-[425px]">
-          <DialogHeader>
-            <DialogTitle>Cancel Order</DialogTitle>
-            <DialogDescription>
-              Are you sure you want to cancel Order #{selectedOrder?.id}? This action cannot be undone.
-            </DialogDescription>
-          </DialogHeader>
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
-              Keep Order
-            </Button>
-            <Button type="button" variant="destructive" onClick={handleDeleteOrder} disabled={isLoading}>
-              {isLoading ? "Cancelling..." : "Cancel Order"}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      {/* Checkout Dialog */}
+      <SplitBillDialog
+        orders={paymentOrders}
+        open={isPaymentOpen}
+        onOpenChange={setIsPaymentOpen}
+        onPaid={handlePaid}
+      />
     </div>
   )
 }
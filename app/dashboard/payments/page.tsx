@@ -0,0 +1,326 @@
+"use client"
+
+import { useState } from "react"
+import { RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useDailyPayments, useDailySales } from "@/hooks/use-payments"
+import useMoney from "@/hooks/use-money"
+import { getReasonLabel } from "@/lib/adjustments"
+import { roundMoney, summarizeTenders } from "@/lib/payments"
+import { describeTax } from "@/lib/totals"
+import type { Payment, PaymentMethod } from "@/lib/api"
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  voucher: "Voucher",
+}
+
+// Today in the YYYY-MM-DD format of date inputs, in local time
+const getToday = (): string => {
+  const now = new Date()
+  const month = String(now.getMonth() + 1).padStart(2, "0")
+  const day = String(now.getDate()).padStart(2, "0")
+  return `${now.getFullYear()}-${month}-${day}`
+}
+
+// Card approval or voucher code of a payment
+const getTenderReference = (payment: Payment): string => {
+  if (payment.cardAuthorization) {
+    const { brand, last4, authCode } = payment.cardAuthorization
+    return `${brand ?? "Card"} •••• ${last4 ?? "----"} · Auth ${authCode}`
+  }
+  return payment.voucherCode ?? ""
+}
+
+export default function PaymentsPage() {
+  const { currency, formatMoney } = useMoney()
+  const [date, setDate] = useState(getToday)
+  const [openingFloat, setOpeningFloat] = useState("")
+  const [countedCash, setCountedCash] = useState("")
+  const { payments, refunds, isLoading, error, refetch } = useDailyPayments(date)
+  const sales = useDailySales(date)
+
+  const summary = summarizeTenders(payments, refunds)
+  const floatValue = roundMoney(Number.parseFloat(openingFloat) || 0, currency.decimals)
+  const expectedInDrawer = roundMoney(floatValue + summary.expectedCash)
+  const countedValue = roundMoney(Number.parseFloat(countedCash) || 0, currency.decimals)
+  const variance = countedCash ? roundMoney(countedValue - expectedInDrawer) : null
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-3xl font-bold tracking-tight">Payments</h2>
+        <div className="flex items-center gap-2">
+          <Input type="date" className="w-[170px]" value={date} onChange={(e) => setDate(e.target.value)} />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => {
+              refetch()
+              sales.refetch()
+            }}
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span className="sr-only">Refresh</span>
+          </Button>
+        </div>
+      </div>
+
+      {(error || sales.error) && <p className="text-sm text-red-500">{error || sales.error}</p>}
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {(["cash", "card", "voucher"] as PaymentMethod[]).map((method) => (
+          <Card key={method}>
+            <CardHeader className="pb-2">
+              <CardDescription>{METHOD_LABELS[method]}</CardDescription>
+              <CardTitle className="text-2xl">{formatMoney(summary.byMethod[method].amount)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-xs text-muted-foreground">
+              {summary.byMethod[method].count} payments · {formatMoney(summary.byMethod[method].tips)} tips
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total</CardDescription>
+            <CardTitle className="text-2xl">{formatMoney(summary.total.amount)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            {summary.total.count} payments · {formatMoney(summary.total.tips)} tips
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cash Reconciliation</CardTitle>
+          <CardDescription>Count the drawer at the end of the day and compare it with the cash taken.</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="opening-float">Opening Float</Label>
+              <Input
+                id="opening-float"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="counted-cash">Counted Cash</Label>
+              <Input
+                id="counted-cash"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={countedCash}
+                onChange={(e) => setCountedCash(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Opening float</span>
+              <span>{formatMoney(floatValue)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Cash sales</span>
+              <span>{formatMoney(summary.byMethod.cash.amount)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Cash tips</span>
+              <span>{formatMoney(summary.byMethod.cash.tips)}</span>
+            </div>
+            <div className="flex justify-between text-muted-foreground">
+              <span>Change given (already deducted)</span>
+              <span>{formatMoney(summary.changeGiven)}</span>
+            </div>
+            {summary.refundsByMethod.cash > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Cash refunds</span>
+                <span>-{formatMoney(summary.refundsByMethod.cash)}</span>
+              </div>
+            )}
+            <div className="flex justify-between border-t pt-2 font-medium">
+              <span>Expected in drawer</span>
+              <span>{formatMoney(expectedInDrawer)}</span>
+            </div>
+            {variance !== null && (
+              <div
+                className={`flex justify-between font-bold ${
+                  variance === 0 ? "text-green-600" : variance > 0 ? "text-amber-600" : "text-red-600"
+                }`}
+              >
+                <span>{variance === 0 ? "Balanced" : variance > 0 ? "Over" : "Short"}</span>
+                <span>{formatMoney(Math.abs(variance))}</span>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sales &amp; Tax</CardTitle>
+          <CardDescription>
+            Paid orders placed on this day, {sales.summary.orderCount} in total.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sales.isLoading ? (
+            <p className="py-6 text-center text-muted-foreground">Loading sales...</p>
+          ) : (
+            <Table>
+              <TableBody>
+                <TableRow>
+                  <TableCell>Sales at menu prices</TableCell>
+                  <TableCell className="text-right">{formatMoney(sales.summary.subtotal)}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>Discounts</TableCell>
+                  <TableCell className="text-right">-{formatMoney(sales.summary.discountTotal)}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell className="font-medium">Net sales excl. tax</TableCell>
+                  <TableCell className="text-right font-medium">{formatMoney(sales.summary.netSales)}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>Service charge</TableCell>
+                  <TableCell className="text-right">{formatMoney(sales.summary.serviceCharge)}</TableCell>
+                </TableRow>
+                {sales.summary.taxes.map((tax) => (
+                  <TableRow key={describeTax(tax)}>
+                    <TableCell>
+                      {describeTax(tax)}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        on {formatMoney(tax.taxableAmount)} of sales
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(tax.amount)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-bold">Total taken</TableCell>
+                  <TableCell className="text-right font-bold">{formatMoney(sales.summary.total)}</TableCell>
+                </TableRow>
+                {sales.summary.refundTotal > 0 && (
+                  <TableRow>
+                    <TableCell>Refunded on these orders</TableCell>
+                    <TableCell className="text-right">-{formatMoney(sales.summary.refundTotal)}</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payments Taken</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="py-6 text-center text-muted-foreground">Loading payments...</p>
+          ) : payments.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground">No payments were taken on this day.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Tender</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Tip</TableHead>
+                  <TableHead className="text-right">Tendered</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead>Taken By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell>
+                      {new Date(payment.createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                    </TableCell>
+                    <TableCell>
+                      #{payment.orderId}
+                      {payment.tableId && ` · Table ${payment.tableId}`}
+                    </TableCell>
+                    <TableCell>
+                      <div>{METHOD_LABELS[payment.method]}</div>
+                      <div className="text-xs text-muted-foreground">{getTenderReference(payment)}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(payment.amount)}</TableCell>
+                    <TableCell className="text-right">{payment.tip ? formatMoney(payment.tip) : "-"}</TableCell>
+                    <TableCell className="text-right">
+                      {payment.tendered ? formatMoney(payment.tendered) : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {payment.change ? formatMoney(payment.change) : "-"}
+                    </TableCell>
+                    <TableCell>{payment.createdBy?.name ?? "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {refunds.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Refunds Given</CardTitle>
+            <CardDescription>{formatMoney(summary.refundTotal)} handed back on this day.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Tender</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Approved By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {refunds.map((refund) => (
+                  <TableRow key={refund.id}>
+                    <TableCell>
+                      {new Date(refund.createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                    </TableCell>
+                    <TableCell>
+                      #{refund.orderId}
+                      {refund.tableId && ` · Table ${refund.tableId}`}
+                    </TableCell>
+                    <TableCell>
+                      <div>{getReasonLabel(refund)}</div>
+                      {refund.note && <div className="text-xs text-muted-foreground">{refund.note}</div>}
+                    </TableCell>
+                    <TableCell>{refund.method ? METHOD_LABELS[refund.method] : "-"}</TableCell>
+                    <TableCell className="text-right">{formatMoney(refund.amount)}</TableCell>
+                    <TableCell>{refund.approvedBy?.name ?? "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,271 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { PricingRuleForm } from "@/components/pricing-rule-form"
+import { TaxSettingsForm } from "@/components/tax-settings-form"
+import { CurrencySettingsForm } from "@/components/currency-settings-form"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/hooks/use-auth"
+import useApi from "@/hooks/use-api"
+import useQuery from "@/hooks/use-query"
+import usePricingRules from "@/hooks/use-pricing-rules"
+import useCafeSettings from "@/hooks/use-cafe-settings"
+import { isManagerRole } from "@/lib/order-lifecycle"
+import { describeRule, isRuleInEffect, PRICING_RULE_TYPE_LABELS } from "@/lib/pricing"
+import type { CreatePricingRuleRequest, PricingRule, Product, UpdateCafeSettingsRequest } from "@/lib/api"
+
+export default function PricingPage() {
+  const { toast } = useToast()
+  const { user } = useAuth()
+  const { api } = useApi()
+  const { data: products = [] } = useQuery<Product[]>(["products"], (options) => api.products.getAll(undefined, options))
+  const { rules, isLoading, isSaving, error, fieldErrors, clearError, createRule, updateRule, deleteRule } =
+    usePricingRules()
+  const cafeSettings = useCafeSettings()
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [selectedRule, setSelectedRule] = useState<PricingRule | null>(null)
+  const [ruleToDelete, setRuleToDelete] = useState<PricingRule | null>(null)
+
+  // Only managers and admins may change the rules; staff can look them up
+  const canEdit = isManagerRole(user?.role)
+  const now = new Date()
+
+  // Show error toast if API error occurs
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      })
+    }
+  }, [error, toast])
+
+  useEffect(() => {
+    if (cafeSettings.error) {
+      toast({
+        title: "Error",
+        description: cafeSettings.error,
+        variant: "destructive",
+      })
+    }
+  }, [cafeSettings.error, toast])
+
+  const openCreateDialog = () => {
+    clearError()
+    setSelectedRule(null)
+    setIsFormOpen(true)
+  }
+
+  const openEditDialog = (rule: PricingRule) => {
+    clearError()
+    setSelectedRule(rule)
+    setIsFormOpen(true)
+  }
+
+  // Create a rule, or save the rule being edited
+  const handleSubmit = async (data: CreatePricingRuleRequest) => {
+    const result = selectedRule ? await updateRule(selectedRule.id, data) : await createRule(data)
+
+    if (result) {
+      setIsFormOpen(false)
+      setSelectedRule(null)
+
+      toast({
+        title: "Success",
+        description: selectedRule ? "Pricing rule updated" : "Pricing rule created",
+      })
+    }
+  }
+
+  const handleToggleActive = async (rule: PricingRule, active: boolean) => {
+    const result = await updateRule(rule.id, { active })
+
+    if (result) {
+      toast({
+        title: "Success",
+        description: `${rule.name} ${active ? "activated" : "deactivated"}`,
+      })
+    }
+  }
+
+  const handleSaveSettings = async (settings: UpdateCafeSettingsRequest) => {
+    cafeSettings.clearError()
+    if (await cafeSettings.updateSettings(settings)) {
+      toast({
+        title: "Success",
+        description: settings.currency ? "Currency saved" : "Tax settings saved; open orders were updated",
+      })
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!ruleToDelete) return
+
+    if (await deleteRule(ruleToDelete.id)) {
+      toast({
+        title: "Success",
+        description: "Pricing rule deleted",
+      })
+    }
+    setRuleToDelete(null)
+  }
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">Pricing</h2>
+        {canEdit && <Button onClick={openCreateDialog}>Add Rule</Button>}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Discounts</CardTitle>
+          <CardDescription>
+            Every order line gets the best discount of the rules in effect. Rules with a promo code only apply once the
+            code is entered.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="py-6 text-center text-muted-foreground">Loading pricing rules...</p>
+          ) : rules.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground">No pricing rules yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Conditions</TableHead>
+                  <TableHead>Active</TableHead>
+                  {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">
+                      {rule.name}
+                      {isRuleInEffect(rule, { at: now, promoCode: rule.promoCode }) && rule.schedule && (
+                        <Badge className="ml-2 bg-green-600">On now</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{PRICING_RULE_TYPE_LABELS[rule.type]}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {describeRule(rule, cafeSettings.settings.currency)}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.active}
+                        disabled={!canEdit || isSaving}
+                        onCheckedChange={(active) => handleToggleActive(rule, active)}
+                      />
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => openEditDialog(rule)}>
+                          Edit
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setRuleToDelete(rule)}>
+                          Delete
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tax &amp; Service Charge</CardTitle>
+          <CardDescription>
+            How tax and service charge are added to orders. Changes apply to open orders nobody has paid for yet.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TaxSettingsForm
+            settings={cafeSettings.settings}
+            onSubmit={handleSaveSettings}
+            isLoading={cafeSettings.isSaving}
+            disabled={!canEdit}
+            serverErrors={cafeSettings.fieldErrors}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Currency</CardTitle>
+          <CardDescription>How prices and amounts are shown on the menu, bills and reports.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CurrencySettingsForm
+            currency={cafeSettings.settings.currency}
+            onSubmit={handleSaveSettings}
+            isLoading={cafeSettings.isSaving}
+            disabled={!canEdit}
+            serverErrors={cafeSettings.fieldErrors}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Rule Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>{selectedRule ? "Edit Pricing Rule" : "Add Pricing Rule"}</DialogTitle>
+            <DialogDescription>Set the discount and when it applies.</DialogDescription>
+          </DialogHeader>
+          <PricingRuleForm
+            key={selectedRule?.id ?? "new"}
+            initialData={selectedRule ?? undefined}
+            products={products}
+            onSubmit={handleSubmit}
+            onCancel={() => setIsFormOpen(false)}
+            isLoading={isSaving}
+            submitLabel={selectedRule ? "Update Rule" : "Create Rule"}
+            serverErrors={fieldErrors}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Confirm Deletion</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {ruleToDelete?.name}? Orders that already got its discount keep it.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setRuleToDelete(null)}>
+              Cancel
+            </Button>
+            <Button type="button" variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? "Deleting..." : "Delete Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,276 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { PrinterForm } from "@/components/printer-form"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/hooks/use-auth"
+import useCafeSettings from "@/hooks/use-cafe-settings"
+import { isManagerRole } from "@/lib/order-lifecycle"
+import { printTicket } from "@/lib/printers"
+import { buildTestTicket } from "@/lib/tickets"
+import type { Printer, PrintSettings } from "@/lib/api"
+
+export default function PrintersPage() {
+  const { toast } = useToast()
+  const { user } = useAuth()
+  const { settings, isLoading, isSaving, error, fieldErrors, clearError, updateSettings } = useCafeSettings()
+  const [receiptHeader, setReceiptHeader] = useState(settings.printing.receiptHeader)
+  const [receiptFooter, setReceiptFooter] = useState(settings.printing.receiptFooter)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [selectedPrinter, setSelectedPrinter] = useState<Printer | null>(null)
+  const [printerToDelete, setPrinterToDelete] = useState<Printer | null>(null)
+
+  // Only managers and admins may change the printers; staff can run a test print
+  const canEdit = isManagerRole(user?.role)
+  const printers = settings.printing.printers
+
+  // Show the saved receipt texts once the settings have loaded or changed
+  useEffect(() => {
+    setReceiptHeader(settings.printing.receiptHeader)
+    setReceiptFooter(settings.printing.receiptFooter)
+  }, [settings.printing])
+
+  // Show error toast if API error occurs
+  useEffect(() => {
+    const message = error || fieldErrors?.["printing.printers"] || fieldErrors?.["printing.receipt"]
+    if (message) {
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      })
+    }
+  }, [error, fieldErrors, toast])
+
+  // Printers and receipt texts are saved together with the other cafe settings
+  const savePrinting = async (printing: PrintSettings, message: string): Promise<boolean> => {
+    clearError()
+    const result = await updateSettings({ printing })
+
+    if (result) {
+      toast({
+        title: "Success",
+        description: message,
+      })
+    }
+    return !!result
+  }
+
+  const openCreateDialog = () => {
+    setSelectedPrinter(null)
+    setIsFormOpen(true)
+  }
+
+  const openEditDialog = (printer: Printer) => {
+    setSelectedPrinter(printer)
+    setIsFormOpen(true)
+  }
+
+  // Add a printer, or save the printer being edited
+  const handleSubmit = async (printer: Printer) => {
+    const next = selectedPrinter
+      ? printers.map((p) => (p.id === selectedPrinter.id ? printer : p))
+      : [...printers, printer]
+
+    if (await savePrinting({ ...settings.printing, printers: next }, `${printer.name} saved`)) {
+      setIsFormOpen(false)
+      setSelectedPrinter(null)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!printerToDelete) return
+
+    const next = printers.filter((p) => p.id !== printerToDelete.id)
+    await savePrinting({ ...settings.printing, printers: next }, `${printerToDelete.name} removed`)
+    setPrinterToDelete(null)
+  }
+
+  const handleSaveReceiptText = async () => {
+    await savePrinting({ ...settings.printing, receiptHeader, receiptFooter }, "Receipt text saved")
+  }
+
+  const handleTestPrint = async (printer: Printer) => {
+    try {
+      const result = await printTicket(buildTestTicket(printer), printer)
+      toast({
+        title: "Test page printed",
+        description: result.usedFallback
+          ? `${printer.name} could not be reached; the test page was printed through the browser`
+          : `The test page was sent to ${printer.name}`,
+      })
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Printing failed",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">Printers</h2>
+        {canEdit && <Button onClick={openCreateDialog}>Add Printer</Button>}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Printers</CardTitle>
+          <CardDescription>
+            Receipts go to the first printer that prints them, or to the print dialog of the browser if there is
+            none. Kitchen tickets are split by product category, so drinks can go to the bar and food to the kitchen.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="py-6 text-center text-muted-foreground">Loading printers...</p>
+          ) : printers.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground">No printers yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Connection</TableHead>
+                  <TableHead>Paper</TableHead>
+                  <TableHead>Prints</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {printers.map((printer) => (
+                  <TableRow key={printer.id}>
+                    <TableCell className="font-medium">{printer.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {printer.connection === "network" ? printer.address : "Browser print dialog"}
+                    </TableCell>
+                    <TableCell>{printer.paperWidth}mm</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {printer.printsReceipts && <Badge>Receipts</Badge>}
+                        {printer.categories.map((category) => (
+                          <Badge key={category} variant="outline" className="capitalize">
+                            {category}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleTestPrint(printer)}>
+                        Test Print
+                      </Button>
+                      {canEdit && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => openEditDialog(printer)}>
+                            Edit
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setPrinterToDelete(printer)}>
+                            Delete
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Receipt Text</CardTitle>
+          <CardDescription>Printed at the top and bottom of every receipt.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="receipt-header">Header</Label>
+              <Textarea
+                id="receipt-header"
+                rows={3}
+                placeholder="Name and address of the cafe"
+                value={receiptHeader}
+                onChange={(e) => setReceiptHeader(e.target.value)}
+                disabled={!canEdit}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="receipt-footer">Footer</Label>
+              <Textarea
+                id="receipt-footer"
+                rows={3}
+                placeholder="e.g. Thank you for your visit!"
+                value={receiptFooter}
+                onChange={(e) => setReceiptFooter(e.target.value)}
+                disabled={!canEdit}
+              />
+            </div>
+          </div>
+          {canEdit && (
+            <div className="flex justify-end">
+              <Button onClick={handleSaveReceiptText} disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save Receipt Text"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Printer Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>{selectedPrinter ? "Edit Printer" : "Add Printer"}</DialogTitle>
+            <DialogDescription>Set how the printer is reached and what it prints.</DialogDescription>
+          </DialogHeader>
+          <PrinterForm
+            key={selectedPrinter?.id ?? "new"}
+            initialData={selectedPrinter ?? undefined}
+            onSubmit={handleSubmit}
+            onCancel={() => setIsFormOpen(false)}
+            isLoading={isSaving}
+            submitLabel={selectedPrinter ? "Update Printer" : "Add Printer"}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!printerToDelete} onOpenChange={(open) => !open && setPrinterToDelete(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Confirm Deletion</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to remove {printerToDelete?.name}? Its categories will no longer be printed.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPrinterToDelete(null)}>
+              Cancel
+            </Button>
+            <Button type="button" variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? "Removing..." : "Remove Printer"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
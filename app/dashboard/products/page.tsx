@@ -1,7 +1,5 @@
 "use client"
 
-import type React from "react"
-
 import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
@@ -13,13 +11,11 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { Input } from "@/components/ui/input"
-import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Textarea } from "@/components/ui/textarea"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
 import useApi from "@/hooks/use-api"
+import useMoney from "@/hooks/use-money"
+import { ProductForm } from "@/components/product-form"
 import type { Product } from "@/lib/api"
 
 interface ProductCardProps {
@@ -29,6 +25,8 @@ interface ProductCardProps {
 }
 
 function ProductCard({ product, onEdit, onDelete }: ProductCardProps) {
+  const { formatMoney } = useMoney()
+
   return (
     <Card>
       <CardHeader className="p-4 pb-2">
@@ -46,7 +44,7 @@ function ProductCard({ product, onEdit, onDelete }: ProductCardProps) {
       </CardHeader>
       <CardContent className="p-4 pt-2">
         <p className="text-sm text-muted-foreground">{product.description}</p>
-        <div className="mt-2 text-lg font-bold">${product.price.toFixed(2)}</div>
+        <div className="mt-2 text-lg font-bold">{formatMoney(product.price)}</div>
       </CardContent>
       <CardFooter className="p-4 flex justify-between">
         <Button variant="outline" size="sm" onClick={onEdit}>
@@ -62,51 +60,30 @@ function ProductCard({ product, onEdit, onDelete }: ProductCardProps) {
 
 export default function ProductsPage() {
   const { toast } = useToast()
-  const { isLoading, error, executeApiCall, api } = useApi()
+  const { isLoading, error, apiError, fieldErrors, clearError, executeApiCall, api } = useApi()
   const [products, setProducts] = useState<Product[]>([])
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
-  const [imageFile, setImageFile] = useState<File | null>(null)
-  const [imagePreview, setImagePreview] = useState<string | null>(null)
   const [currentCategory, setCurrentCategory] = useState<string>("all")
   const [categoryLoading, setCategoryLoading] = useState<boolean>(false)
 
-  // Form state for new product
-  const [newProduct, setNewProduct] = useState({
-    name: "",
-    description: "",
-    price: 0,
-    category: "",
-    imageUrl: "",
-  })
-
-  // Form state for editing product
-  const [editProduct, setEditProduct] = useState({
-    id: 0,
-    name: "",
-    description: "",
-    price: 0,
-    category: "",
-    imageUrl: "",
-  })
-
   // Load products on component mount
   useEffect(() => {
     loadProducts()
   }, [])
 
-  // Show error toast if API error occurs
+  // Show error toast if API error occurs (validation errors are shown next to the form fields)
   useEffect(() => {
-    if (error) {
+    if (error && !apiError?.isValidationError) {
       toast({
         title: "Error",
         description: error,
         variant: "destructive",
       })
     }
-  }, [error, toast])
+  }, [error, apiError, toast])
 
   // Load all products from API
   const loadProducts = async () => {
@@ -141,48 +118,16 @@ export default function ProductsPage() {
     loadProductsByCategory(value)
   }
 
-  // Handle image file selection
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>, isForNewProduct: boolean) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      setImageFile(file)
-
-      // Create a preview URL
-      const reader = new FileReader()
-      reader.onloadend = () => {
-        const preview = reader.result as string
-        setImagePreview(preview)
-
-        // Update the form state with the preview URL
-        if (isForNewProduct) {
-          setNewProduct({ ...newProduct, imageUrl: preview })
-        } else {
-          setEditProduct({ ...editProduct, imageUrl: preview })
-        }
-      }
-      reader.readAsDataURL(file)
-    }
-  }
-
   // Handle creating a new product
-  const handleCreateProduct = async () => {
-    // Validate form
-    if (!newProduct.name || !newProduct.category || newProduct.price <= 0) {
-      toast({
-        title: "Validation Error",
-        description: "Please fill in all required fields and ensure price is greater than 0",
-        variant: "destructive",
-      })
-      return
-    }
-
+  const handleCreateProduct = async (data: Partial<Product>) => {
     const result = await executeApiCall(() =>
       api.products.create({
-        name: newProduct.name,
-        description: newProduct.description,
-        price: newProduct.price,
-        category: newProduct.category,
-        imageUrl: newProduct.imageUrl,
+        name: data.name || "",
+        description: data.description || "",
+        price: data.price || 0,
+        category: data.category || "",
+        imageUrl: data.imageUrl,
+        modifierGroups: data.modifierGroups,
       }),
     )
 
@@ -193,16 +138,6 @@ export default function ProductsPage() {
         setProducts([...products, result])
       }
 
-      // Reset form and close dialog
-      setNewProduct({
-        name: "",
-        description: "",
-        price: 0,
-        category: "",
-        imageUrl: "",
-      })
-      setImageFile(null)
-      setImagePreview(null)
       setIsCreateDialogOpen(false)
 
       toast({
@@ -213,30 +148,23 @@ export default function ProductsPage() {
   }
 
   // Handle updating a product
-  const handleUpdateProduct = async () => {
-    // Validate form
-    if (!editProduct.name || !editProduct.category || editProduct.price <= 0) {
-      toast({
-        title: "Validation Error",
-        description: "Please fill in all required fields and ensure price is greater than 0",
-        variant: "destructive",
-      })
-      return
-    }
+  const handleUpdateProduct = async (data: Partial<Product>) => {
+    if (!selectedProduct) return
 
     const result = await executeApiCall(() =>
-      api.products.update(editProduct.id, {
-        name: editProduct.name,
-        description: editProduct.description,
-        price: editProduct.price,
-        category: editProduct.category,
-        imageUrl: editProduct.imageUrl,
+      api.products.update(selectedProduct.id, {
+        name: data.name,
+        description: data.description,
+        price: data.price,
+        category: data.category,
+        imageUrl: data.imageUrl,
+        modifierGroups: data.modifierGroups,
       }),
     )
 
     if (result) {
       // If the category changed and we're viewing by category, we might need to refresh
-      const categoryChanged = selectedProduct?.category !== result.category
+      const categoryChanged = selectedProduct.category !== result.category
 
       if (categoryChanged && currentCategory !== "all" && currentCategory !== result.category) {
         // Product no longer belongs in this category view, remove it
@@ -246,18 +174,7 @@ export default function ProductsPage() {
         setProducts(products.map((product) => (product.id === result.id ? result : product)))
       }
 
-      // Reset form and close dialog
-      setEditProduct({
-        id: 0,
-        name: "",
-        description: "",
-        price: 0,
-        category: "",
-        imageUrl: "",
-      })
       setSelectedProduct(null)
-      setImageFile(null)
-      setImagePreview(null)
       setIsEditDialogOpen(false)
 
       toast({
@@ -286,18 +203,16 @@ export default function ProductsPage() {
     })
   }
 
+  // Open create dialog
+  const openCreateDialog = () => {
+    clearError()
+    setIsCreateDialogOpen(true)
+  }
+
   // Open edit dialog for a product
   const openEditDialog = (product: Product) => {
+    clearError()
     setSelectedProduct(product)
-    setEditProduct({
-      id: product.id,
-      name: product.name,
-      description: product.description,
-      price: product.price,
-      category: product.category,
-      imageUrl: product.imageUrl,
-    })
-    setImagePreview(product.imageUrl)
     setIsEditDialogOpen(true)
   }
 
@@ -311,7 +226,7 @@ export default function ProductsPage() {
     <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
       <div className="flex items-center justify-between">
         <h2 className="text-3xl font-bold tracking-tight">Products</h2>
-        <Button onClick={() => setIsCreateDialogOpen(true)}>Add New Product</Button>
+        <Button onClick={openCreateDialog}>Add New Product</Button>
       </div>
 
       <Tabs defaultValue="all" className="space-y-4" onValueChange={handleTabChange}>
@@ -366,189 +281,38 @@ export default function ProductsPage() {
 
       {/* Create Product Dialog */}
       <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[560px]">
           <DialogHeader>
             <DialogTitle>Add New Product</DialogTitle>
             <DialogDescription>Create a new product for your menu.</DialogDescription>
           </DialogHeader>
-          <div className="grid gap-4 py-4">
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="new-name" className="text-right">
-                Name
-              </Label>
-              <Input
-                id="new-name"
-                placeholder="Product name"
-                className="col-span-3"
-                value={newProduct.name}
-                onChange={(e) => setNewProduct({ ...newProduct, name: e.target.value })}
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="new-description" className="text-right">
-                Description
-              </Label>
-              <Textarea
-                id="new-description"
-                placeholder="Product description"
-                className="col-span-3"
-                value={newProduct.description}
-                onChange={(e) => setNewProduct({ ...newProduct, description: e.target.value })}
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="new-price" className="text-right">
-                Price
-              </Label>
-              <Input
-                id="new-price"
-                type="number"
-                step="0.01"
-                placeholder="0.00"
-                className="col-span-3"
-                value={newProduct.price || ""}
-                onChange={(e) => setNewProduct({ ...newProduct, price: Number.parseFloat(e.target.value) || 0 })}
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="new-category" className="text-right">
-                Category
-              </Label>
-              <Select
-                value={newProduct.category}
-                onValueChange={(value) => setNewProduct({ ...newProduct, category: value })}
-              >
-                <SelectTrigger className="col-span-3">
-                  <SelectValue placeholder="Select a category" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="coffee">Coffee</SelectItem>
-                  <SelectItem value="pastry">Pastry</SelectItem>
-                  <SelectItem value="dessert">Dessert</SelectItem>
-                  <SelectItem value="food">Food</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="new-image" className="text-right">
-                Image
-              </Label>
-              <div className="col-span-3">
-                <Input id="new-image" type="file" accept="image/*" onChange={(e) => handleImageChange(e, true)} />
-                {imagePreview && (
-                  <div className="mt-2">
-                    <img
-                      src={imagePreview || "/placeholder.svg"}
-                      alt="Product preview"
-                      className="h-20 w-20 object-cover rounded-md"
-                    />
-                  </div>
-                )}
-              </div>
-            </div>
-          </div>
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-              Cancel
-            </Button>
-            <Button type="submit" onClick={handleCreateProduct} disabled={isLoading}>
-              {isLoading ? "Creating..." : "Create Product"}
-            </Button>
-          </DialogFooter>
+          <ProductForm
+            onSubmit={handleCreateProduct}
+            onCancel={() => setIsCreateDialogOpen(false)}
+            isLoading={isLoading}
+            submitLabel="Create Product"
+            serverErrors={fieldErrors}
+          />
         </DialogContent>
       </Dialog>
 
       {/* Edit Product Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[560px]">
           <DialogHeader>
             <DialogTitle>Edit Product</DialogTitle>
             <DialogDescription>Update product information.</DialogDescription>
           </DialogHeader>
-          <div className="grid gap-4 py-4">
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="edit-name" className="text-right">
-                Name
-              </Label>
-              <Input
-                id="edit-name"
-                placeholder="Product name"
-                className="col-span-3"
-                value={editProduct.name}
-                onChange={(e) => setEditProduct({ ...editProduct, name: e.target.value })}
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="edit-description" className="text-right">
-                Description
-              </Label>
-              <Textarea
-                id="edit-description"
-                placeholder="Product description"
-                className="col-span-3"
-                value={editProduct.description}
-                onChange={(e) => setEditProduct({ ...editProduct, description: e.target.value })}
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="edit-price" className="text-right">
-                Price
-              </Label>
-              <Input
-                id="edit-price"
-                type="number"
-                step="0.01"
-                placeholder="0.00"
-                className="col-span-3"
-                value={editProduct.price || ""}
-                onChange={(e) => setEditProduct({ ...editProduct, price: Number.parseFloat(e.target.value) || 0 })}
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="edit-category" className="text-right">
-                Category
-              </Label>
-              <Select
-                value={editProduct.category}
-                onValueChange={(value) => setEditProduct({ ...editProduct, category: value })}
-              >
-                <SelectTrigger className="col-span-3">
-                  <SelectValue placeholder="Select a category" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="coffee">Coffee</SelectItem>
-                  <SelectItem value="pastry">Pastry</SelectItem>
-                  <SelectItem value="dessert">Dessert</SelectItem>
-                  <SelectItem value="food">Food</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="edit-image" className="text-right">
-                Image
-              </Label>
-              <div className="col-span-3">
-                <Input id="edit-image" type="file" accept="image/*" onChange={(e) => handleImageChange(e, false)} />
-                {imagePreview && (
-                  <div className="mt-2">
-                    <img
-                      src={imagePreview || "/placeholder.svg"}
-                      alt="Product preview"
-                      className="h-20 w-20 object-cover rounded-md"
-                    />
-                  </div>
-                )}
-              </div>
-            </div>
-          </div>
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={() => setIsEditDialogOpen(false)}>
-              Cancel
-            </Button>
-            <Button type="submit" onClick={handleUpdateProduct} disabled={isLoading}>
-              {isLoading ? "Updating..." : "Update Product"}
-            </Button>
-          </DialogFooter>
+          {selectedProduct && (
+            <ProductForm
+              initialData={selectedProduct}
+              onSubmit={handleUpdateProduct}
+              onCancel={() => setIsEditDialogOpen(false)}
+              isLoading={isLoading}
+              submitLabel="Update Product"
+              serverErrors={fieldErrors}
+            />
+          )}
         </DialogContent>
       </Dialog>
 
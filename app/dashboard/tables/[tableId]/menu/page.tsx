@@ -21,6 +21,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/hooks/use-toast"
 import useApi from "@/hooks/use-api"
+import useMoney from "@/hooks/use-money"
 import type { Product } from "@/lib/api"
 
 interface CartItem extends Product {
@@ -28,6 +29,7 @@ interface CartItem extends Product {
 }
 
 export default function MenuPage() {
+  const { formatMoney } = useMoney()
   const { toast } = useToast()
   const router = useRouter()
   const searchParams = useSearchParams()
@@ -281,7 +283,7 @@ export default function MenuPage() {
                         />
                         <div>
                           <div className="font-medium">{item.name}</div>
-                          <div className="text-sm text-muted-foreground">${item.price.toFixed(2)} each</div>
+                          <div className="text-sm text-muted-foreground">{formatMoney(item.price)} each</div>
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -303,7 +305,7 @@ export default function MenuPage() {
                 </div>
                 <div className="flex items-center justify-between font-bold text-lg pt-4 border-t">
                   <span>Total:</span>
-                  <span>${getTotalPrice().toFixed(2)}</span>
+                  <span>{formatMoney(getTotalPrice())}</span>
                 </div>
                 {!selectedTable && (
                   <div className="pt-4">
@@ -347,6 +349,8 @@ interface MenuProductCardProps {
 }
 
 function MenuProductCard({ product, onAddToCart }: MenuProductCardProps) {
+  const { formatMoney } = useMoney()
+
   return (
     <Card>
       <CardHeader className="p-4 pb-2">
@@ -364,7 +368,7 @@ function MenuProductCard({ product, onAddToCart }: MenuProductCardProps) {
       </CardHeader>
       <CardContent className="p-4 pt-2">
         <p className="text-sm text-muted-foreground">{product.description}</p>
-        <div className="mt-2 text-lg font-bold">${product.price.toFixed(2)}</div>
+        <div className="mt-2 text-lg font-bold">{formatMoney(product.price)}</div>
       </CardContent>
       <CardFooter className="p-4">
         <Button className="w-full" onClick={onAddToCart}>
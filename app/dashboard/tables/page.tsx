@@ -18,6 +18,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { QrCode, Download } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import useApi from "@/hooks/use-api"
+import useQuery from "@/hooks/use-query"
 import type { Table } from "@/lib/api"
 
 // QR Code component
@@ -62,7 +63,13 @@ function QRCodeDisplay({ tableId, tableName }: { tableId: number; tableName: str
 export default function TablesPage() {
   const { toast } = useToast()
   const { isLoading, error, executeApiCall, api } = useApi()
-  const [tables, setTables] = useState<Table[]>([])
+  const {
+    data: tables = [],
+    isLoading: tablesLoading,
+    error: tablesError,
+    retryAttempt,
+    setData: setTables,
+  } = useQuery<Table[]>(["tables"], (options) => api.tables.getAll(undefined, undefined, options))
   const [selectedTable, setSelectedTable] = useState<Table | null>(null)
   const [showQRCode, setShowQRCode] = useState<Table | null>(null)
   const [newTable, setNewTable] = useState({
@@ -71,29 +78,17 @@ export default function TablesPage() {
     status: "available" as const,
   })
 
-  // Load tables on component mount
-  useEffect(() => {
-    loadTables()
-  }, [])
-
   // Show error toast if API error occurs
   useEffect(() => {
-    if (error) {
+    const message = error || tablesError
+    if (message) {
       toast({
         title: "Error",
-        description: error,
+        description: message,
         variant: "destructive",
       })
     }
-  }, [error, toast])
-
-  // Load all tables from API
-  const loadTables = async () => {
-    const result = await executeApiCall(() => api.tables.getAll())
-    if (result) {
-      setTables(result)
-    }
-  }
+  }, [error, tablesError, toast])
 
   // Handle table click to show details
   const handleTableClick = (table: Table) => {
@@ -116,7 +111,7 @@ export default function TablesPage() {
     )
 
     if (result) {
-      setTables([...tables, result])
+      setTables((current = []) => [...current, result])
       toast({
         title: "Success",
         description: "Table created successfully",
@@ -137,7 +132,7 @@ export default function TablesPage() {
 
     if (result) {
       // Update tables list with the updated table
-      setTables(tables.map((table) => (table.id === tableId ? result : table)))
+      setTables((current = []) => current.map((table) => (table.id === tableId ? result : table)))
       setSelectedTable(null)
 
       toast({
@@ -221,8 +216,11 @@ export default function TablesPage() {
           <TabsTrigger value="reserved">Reserved</TabsTrigger>
         </TabsList>
         <TabsContent value="all" className="space-y-4">
-          {isLoading ? (
-            <div className="flex justify-center p-8">Loading tables...</div>
+          {tablesLoading ? (
+            <div className="flex justify-center p-8">
+              Loading tables...
+              {retryAttempt && ` (attempt ${retryAttempt.attempt} of ${retryAttempt.maxAttempts})`}
+            </div>
           ) : (
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
               {tables.map((table) => (
@@ -263,8 +261,11 @@ export default function TablesPage() {
         </TabsContent>
         {["available", "occupied", "reserved"].map((status) => (
           <TabsContent key={status} value={status} className="space-y-4">
-            {isLoading ? (
-              <div className="flex justify-center p-8">Loading tables...</div>
+            {tablesLoading ? (
+              <div className="flex justify-center p-8">
+                Loading tables...
+                {retryAttempt && ` (attempt ${retryAttempt.attempt} of ${retryAttempt.maxAttempts})`}
+              </div>
             ) : (
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
                 {tables
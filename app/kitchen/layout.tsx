@@ -0,0 +1,11 @@
+import type { ReactNode } from "react"
+
+import { AuthGuard } from "@/components/auth-guard"
+
+interface KitchenLayoutProps {
+  children: ReactNode
+}
+
+export default function KitchenLayout({ children }: KitchenLayoutProps) {
+  return <AuthGuard>{children}</AuthGuard>
+}
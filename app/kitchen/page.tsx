@@ -0,0 +1,339 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, ChefHat, Maximize, Minimize } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useToast } from "@/hooks/use-toast"
+import useApi from "@/hooks/use-api"
+import useQuery from "@/hooks/use-query"
+import useOrderEvents from "@/hooks/use-order-events"
+import queryCache from "@/lib/query-cache"
+import { getStatusInfo } from "@/lib/order-lifecycle"
+import { getOrderLocation } from "@/lib/order-types"
+import { formatModifiers } from "@/lib/modifiers"
+import { getKitchenTime } from "@/lib/scheduling"
+import type { Order, OrderStatus } from "@/lib/api"
+
+/** Tickets older than this turn amber */
+const WARNING_AFTER_MS = 10 * 60 * 1000
+/** Tickets older than this turn red */
+const LATE_AFTER_MS = 15 * 60 * 1000
+
+const DONE_ITEMS_STORAGE_KEY = "kds_done_items"
+
+/**
+ * Items ticked off per order. The backend has no per-item state, so this lives on the device.
+ */
+type DoneItems = Record<number, number[]>
+
+const loadDoneItems = (): DoneItems => {
+  try {
+    return JSON.parse(localStorage.getItem(DONE_ITEMS_STORAGE_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Format elapsed time as m:ss, or h:mm:ss for very old tickets
+ */
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, "0")
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`
+}
+
+/**
+ * Colours of a ticket by its age
+ */
+const getTicketStyle = (elapsedMs: number): string => {
+  if (elapsedMs >= LATE_AFTER_MS) {
+    return "border-red-500 bg-red-950/60"
+  }
+  if (elapsedMs >= WARNING_AFTER_MS) {
+    return "border-amber-400 bg-amber-950/60"
+  }
+  return "border-slate-600 bg-slate-800"
+}
+
+export default function KitchenPage() {
+  const { toast } = useToast()
+  const { error, executeApiCall, api } = useApi()
+
+  const newOrdersQuery = useQuery<Order[]>(["orders", { status: "new" }], (options) =>
+    api.orders.getByStatus("new", options),
+  )
+  const preparingOrdersQuery = useQuery<Order[]>(["orders", { status: "preparing" }], (options) =>
+    api.orders.getByStatus("preparing", options),
+  )
+
+  const [now, setNow] = useState(() => Date.now())
+  const [doneItems, setDoneItems] = useState<DoneItems>({})
+  const [bumpingIds, setBumpingIds] = useState<number[]>([])
+  const [isFullscreen, setIsFullscreen] = useState(false)
+
+  // Oldest ticket first; scheduled orders count from when they were sent to the kitchen
+  const tickets = [...(newOrdersQuery.data ?? []), ...(preparingOrdersQuery.data ?? [])].sort(
+    (a, b) => Date.parse(getKitchenTime(a)) - Date.parse(getKitchenTime(b)),
+  )
+  const isLoading = newOrdersQuery.isLoading || preparingOrdersQuery.isLoading
+  const loadError = newOrdersQuery.error || preparingOrdersQuery.error
+
+  // New orders and changes from the floor show up without a refresh
+  const { status: realtimeStatus } = useOrderEvents(() => queryCache.invalidate("orders"))
+
+  // Tick the ticket timers
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Restore ticked-off items
+  useEffect(() => {
+    setDoneItems(loadDoneItems())
+  }, [])
+
+  // Follow the browser's fullscreen state (it can also be left with Escape)
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement)
+    document.addEventListener("fullscreenchange", handleChange)
+    return () => document.removeEventListener("fullscreenchange", handleChange)
+  }, [])
+
+  // Show error toast if API error occurs
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      })
+    }
+  }, [error, toast])
+
+  /**
+   * Store the ticked-off items, forgetting orders that are no longer on screen
+   */
+  const saveDoneItems = (next: DoneItems) => {
+    const visibleIds = new Set(tickets.map((order) => order.id))
+    const pruned = Object.fromEntries(Object.entries(next).filter(([orderId]) => visibleIds.has(Number(orderId))))
+    setDoneItems(pruned)
+    localStorage.setItem(DONE_ITEMS_STORAGE_KEY, JSON.stringify(pruned))
+  }
+
+  const toggleItemDone = (orderId: number, itemId: number) => {
+    const current = doneItems[orderId] || []
+    saveDoneItems({
+      ...doneItems,
+      [orderId]: current.includes(itemId) ? current.filter((id) => id !== itemId) : [...current, itemId],
+    })
+  }
+
+  /**
+   * Move a ticket to the next status, taking it off its current list right away
+   */
+  const moveTicket = async (order: Order, status: OrderStatus) => {
+    setBumpingIds((ids) => [...ids, order.id])
+    const result = await executeApiCall((options) => api.orders.updateStatus(order.id, status, options))
+    setBumpingIds((ids) => ids.filter((id) => id !== order.id))
+
+    if (result) {
+      const removeTicket = (orders: Order[] | undefined) => (orders ?? []).filter((item) => item.id !== order.id)
+      newOrdersQuery.setData(removeTicket)
+      preparingOrdersQuery.setData((orders) =>
+        status === "preparing" ? [...removeTicket(orders), result] : removeTicket(orders),
+      )
+
+      if (status === "ready") {
+        toast({
+          title: "Order Ready",
+          description: `Order #${order.id} for ${getOrderLocation(order)} is ready`,
+        })
+      }
+    }
+  }
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen()
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {
+        // Fullscreen may be blocked, e.g. inside an iframe
+      })
+    }
+  }
+
+  const lateCount = tickets.filter((order) => now - Date.parse(getKitchenTime(order)) >= LATE_AFTER_MS).length
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100">
+      {/* Header */}
+      <header className="sticky top-0 z-10 flex items-center justify-between border-b border-slate-700 bg-slate-900/95 px-6 py-3">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="icon" className="h-12 w-12 text-slate-300 hover:bg-slate-800">
+            <Link href="/dashboard/orders">
+              <ArrowLeft className="h-6 w-6" />
+              <span className="sr-only">Back to orders</span>
+            </Link>
+          </Button>
+          <ChefHat className="h-8 w-8 text-orange-400" />
+          <h1 className="text-2xl font-bold">Kitchen</h1>
+          <span className="text-lg text-slate-400">
+            {tickets.length} open{lateCount > 0 && <span className="ml-2 text-red-400">{lateCount} late</span>}
+          </span>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="flex items-center gap-2 text-sm text-slate-400">
+            <span
+              className={`inline-block h-2 w-2 rounded-full ${
+                realtimeStatus === "live"
+                  ? "bg-green-500"
+                  : realtimeStatus === "polling"
+                    ? "bg-yellow-500"
+                    : "bg-slate-500"
+              }`}
+            />
+            {realtimeStatus === "live" ? "Live" : realtimeStatus === "polling" ? "Auto-refresh" : "Connecting"}
+          </span>
+          <span className="text-2xl font-semibold tabular-nums">
+            {new Date(now).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-12 w-12 text-slate-300 hover:bg-slate-800"
+            onClick={toggleFullscreen}
+          >
+            {isFullscreen ? <Minimize className="h-6 w-6" /> : <Maximize className="h-6 w-6" />}
+            <span className="sr-only">{isFullscreen ? "Exit full screen" : "Full screen"}</span>
+          </Button>
+        </div>
+      </header>
+
+      {/* Tickets */}
+      <main className="p-6">
+        {isLoading ? (
+          <div className="p-16 text-center text-2xl text-slate-400">Loading tickets...</div>
+        ) : loadError && tickets.length === 0 ? (
+          <div className="p-16 text-center text-2xl text-red-400">{loadError}</div>
+        ) : tickets.length === 0 ? (
+          <div className="p-16 text-center text-2xl text-slate-400">All caught up. No open orders.</div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-4">
+            {tickets.map((order) => {
+              const elapsed = now - Date.parse(getKitchenTime(order))
+              const done = doneItems[order.id] || []
+              const isBumping = bumpingIds.includes(order.id)
+
+              return (
+                <div
+                  key={order.id}
+                  className={`flex flex-col rounded-lg border-2 ${getTicketStyle(elapsed)}`}
+                >
+                  <div className="flex items-start justify-between border-b border-slate-700 p-4">
+                    <div>
+                      <div className="text-2xl font-bold">{getOrderLocation(order)}</div>
+                      <div className="text-sm text-slate-400">
+                        #{order.id}
+                        {order.guestName && ` · ${order.guestName}`}
+                      </div>
+                      {order.pickupTime && (
+                        <div className="text-sm font-semibold text-amber-300">
+                          Pickup{" "}
+                          {new Date(order.pickupTime).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                        </div>
+                      )}
+                      {order.readyAt && !order.pickupTime && (
+                        <div className="text-sm font-semibold text-cyan-300">
+                          Ready at{" "}
+                          {new Date(order.readyAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                        </div>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <div
+                        className={`text-2xl font-bold tabular-nums ${
+                          elapsed >= LATE_AFTER_MS ? "animate-pulse text-red-300" : ""
+                        }`}
+                      >
+                        {formatElapsed(elapsed)}
+                      </div>
+                      <div
+                        className={`text-sm font-semibold uppercase ${
+                          order.status === "new" ? "text-blue-300" : "text-yellow-300"
+                        }`}
+                      >
+                        {getStatusInfo(order.status).label}
+                      </div>
+                    </div>
+                  </div>
+
+                  {order.note && (
+                    <div className="border-b border-slate-700 bg-amber-400 px-4 py-2 text-lg font-bold text-slate-900">
+                      {order.note}
+                    </div>
+                  )}
+
+                  <ul className="flex-1 divide-y divide-slate-700">
+                    {order.items.map((item) => {
+                      const isDone = done.includes(item.id)
+                      return (
+                        <li key={item.id}>
+                          <label className="flex cursor-pointer items-center gap-4 px-4 py-3 text-lg">
+                            <Checkbox
+                              checked={isDone}
+                              onCheckedChange={() => toggleItemDone(order.id, item.id)}
+                              className="h-7 w-7 border-slate-400"
+                            />
+                            <span className={isDone || item.voided ? "text-slate-500 line-through" : ""}>
+                              <span className="font-bold">{item.quantity}×</span> {item.productName}
+                              {item.voided && <span className="ml-2 text-base font-bold text-red-400">VOID</span>}
+                              {item.modifiers && item.modifiers.length > 0 && (
+                                <span className="block text-base text-orange-200">
+                                  {formatModifiers(item.modifiers)}
+                                </span>
+                              )}
+                              {item.note && (
+                                <span className="mt-1 block rounded bg-amber-400/20 px-2 text-base font-bold text-amber-300">
+                                  ⚠ {item.note}
+                                </span>
+                              )}
+                            </span>
+                          </label>
+                        </li>
+                      )
+                    })}
+                  </ul>
+
+                  <div className="flex gap-2 p-4">
+                    {order.status === "new" && (
+                      <Button
+                        variant="secondary"
+                        className="h-14 flex-1 text-lg"
+                        onClick={() => moveTicket(order, "preparing")}
+                        disabled={isBumping}
+                      >
+                        Start
+                      </Button>
+                    )}
+                    <Button
+                      className="h-14 flex-1 bg-green-600 text-lg hover:bg-green-700"
+                      onClick={() => moveTicket(order, "ready")}
+                      disabled={isBumping}
+                    >
+                      {isBumping ? "Updating..." : "Bump to Ready"}
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -43,6 +43,12 @@ export default function LoginPage() {
     if (error) clearError()
   }
 
+  // Get the page to return to after login (only same-origin paths are accepted)
+  const getReturnUrl = (): string => {
+    const returnUrl = new URLSearchParams(window.location.search).get("returnUrl")
+    return returnUrl && returnUrl.startsWith("/") && !returnUrl.startsWith("//") ? returnUrl : "/dashboard"
+  }
+
   // Update the handleSubmit function to properly handle login
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -68,7 +74,7 @@ export default function LoginPage() {
         title: "Login Successful",
         description: "Welcome back to Cafe Manager!",
       })
-      router.push("/dashboard")
+      router.push(getReturnUrl())
     }
   }
 
@@ -15,28 +15,90 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/hooks/use-toast"
 import useApi from "@/hooks/use-api"
-import type { Product } from "@/lib/api"
+import useQuery from "@/hooks/use-query"
+import usePricingRules from "@/hooks/use-pricing-rules"
+import useCafeSettings from "@/hooks/use-cafe-settings"
+import useMoney from "@/hooks/use-money"
+import {
+  ITEM_NOTE_MAX_LENGTH,
+  ORDER_NOTE_MAX_LENGTH,
+  type CreateOrderRequest,
+  type ModifierSelection,
+  type Product,
+} from "@/lib/api"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { DiscountList } from "@/components/discount-list"
+import { ModifierSelector } from "@/components/modifier-selector"
+import { PromoCodeField } from "@/components/promo-code-field"
+import { TotalsSummary } from "@/components/totals-summary"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  formatModifiers,
+  getDefaultSelection,
+  getSelectionKey,
+  getUnitPrice,
+  resolveModifiers,
+  validateModifierSelection,
+} from "@/lib/modifiers"
+import { findPromoRule, priceOrder, toPricingLines } from "@/lib/pricing"
+import { calculateTotals } from "@/lib/totals"
+import { validateOrderType } from "@/lib/order-types"
+import { validateReadyTime } from "@/lib/scheduling"
 
 interface CartItem extends Product {
+  /** Identifies the cart line; the same product with other options or a note is a separate line */
+  cartKey: string
   quantity: number
+  modifiers: ModifierSelection[]
+  /** Special instructions for this line */
+  note: string
+  /** Price of one item including its options */
+  unitPrice: number
 }
 
 export default function MenuPage() {
+  const { formatMoney } = useMoney()
   const { toast } = useToast()
   const router = useRouter()
   // const searchParams = useSearchParams()
-  const { isLoading, error, executeApiCall, api } = useApi()
+  const { error, executeApiCall, api } = useApi()
 
-  const [products, setProducts] = useState<Product[]>([])
   const [cart, setCart] = useState<CartItem[]>([])
   const [isCartOpen, setIsCartOpen] = useState(false)
   const [selectedTable, setSelectedTable] = useState<string | null>(null)
   const [currentCategory, setCurrentCategory] = useState<string>("all")
-  const [categoryLoading, setCategoryLoading] = useState<boolean>(false)
   const [isPlacingOrder, setIsPlacingOrder] = useState(false)
   const [cartCustomerName, setCartCustomerName] = useState<string>("")
+  const [cartNote, setCartNote] = useState<string>("")
+  // Without a table from the QR code, the order is taken away now or picked up later
+  const [takeawayType, setTakeawayType] = useState<"takeaway" | "pickup">("takeaway")
+  const [cartPhone, setCartPhone] = useState<string>("")
+  const [cartPickupTime, setCartPickupTime] = useState<string>("")
+  const [checkoutErrors, setCheckoutErrors] = useState<Record<string, string>>({})
+  const [promoCode, setPromoCode] = useState<string | null>(null)
+  const [promoError, setPromoError] = useState<string | null>(null)
+  const { rules: pricingRules } = usePricingRules()
+  const { settings } = useCafeSettings()
+
+  // Product whose options are being chosen before it goes into the cart
+  const [customizingProduct, setCustomizingProduct] = useState<Product | null>(null)
+  const [customizeSelection, setCustomizeSelection] = useState<ModifierSelection[]>([])
+  const [customizeErrors, setCustomizeErrors] = useState<Record<string, string>>({})
+
+  // Products of the selected category, served from the shared cache
+  const {
+    data: products = [],
+    isLoading: productsLoading,
+    error: productsError,
+  } = useQuery<Product[]>(
+    currentCategory === "all" ? ["products"] : ["products", { category: currentCategory }],
+    (options) =>
+      currentCategory === "all"
+        ? api.products.getAll(undefined, options)
+        : api.products.getByCategory(currentCategory, options),
+  )
 
   // Get table and customer from URL parameters
   useEffect(() => {
@@ -49,90 +111,134 @@ export default function MenuPage() {
   }
 }, [])
 
-  // Load products on component mount
-  useEffect(() => {
-    loadProducts()
-  }, [])
-
   // Show error toast if API error occurs
   useEffect(() => {
-    if (error) {
+    const message = error || productsError
+    if (message) {
       toast({
         title: "Error",
-        description: error,
+        description: message,
         variant: "destructive",
       })
     }
-  }, [error, toast])
-
-  // Load all products from API
-  const loadProducts = async () => {
-    const result = await executeApiCall(() => api.products.getAll())
-    if (result) {
-      setProducts(result)
-    }
-  }
-
-  // Load products by category
-  const loadProductsByCategory = async (category: string) => {
-    setCurrentCategory(category)
-
-    if (category === "all") {
-      await loadProducts()
-      return
-    }
-
-    setCategoryLoading(true)
-    try {
-      const result = await executeApiCall(() => api.products.getByCategory(category))
-      if (result) {
-        setProducts(result)
-      }
-    } finally {
-      setCategoryLoading(false)
-    }
-  }
+  }, [error, productsError, toast])
 
   // Handle tab change
   const handleTabChange = (value: string) => {
-    loadProductsByCategory(value)
+    setCurrentCategory(value)
   }
 
-  const addToCart = (product: Product) => {
+  const addToCart = (product: Product, modifiers: ModifierSelection[] = []) => {
+    const selectionKey = getSelectionKey(product.id, modifiers)
     setCart((prevCart) => {
-      const existingItem = prevCart.find((item) => item.id === product.id)
+      // Merge into a line with the same options that has no instructions of its own
+      const existingItem = prevCart.find(
+        (item) => getSelectionKey(item.id, item.modifiers) === selectionKey && !item.note,
+      )
       if (existingItem) {
-        return prevCart.map((item) => (item.id === product.id ? { ...item, quantity: item.quantity + 1 } : item))
+        return prevCart.map((item) =>
+          item.cartKey === existingItem.cartKey ? { ...item, quantity: item.quantity + 1 } : item,
+        )
       } else {
-        return [...prevCart, { ...product, quantity: 1 }]
+        return [
+          ...prevCart,
+          {
+            ...product,
+            cartKey: `${selectionKey}#${Date.now()}`,
+            quantity: 1,
+            modifiers,
+            note: "",
+            unitPrice: getUnitPrice(product, modifiers),
+          },
+        ]
       }
     })
   }
 
-  const removeFromCart = (productId: number) => {
+  const increaseQuantity = (cartKey: string) => {
+    setCart((prevCart) =>
+      prevCart.map((item) => (item.cartKey === cartKey ? { ...item, quantity: item.quantity + 1 } : item)),
+    )
+  }
+
+  const updateItemNote = (cartKey: string, note: string) => {
+    setCart((prevCart) => prevCart.map((item) => (item.cartKey === cartKey ? { ...item, note } : item)))
+  }
+
+  const removeFromCart = (cartKey: string) => {
     setCart((prevCart) => {
-      const existingItem = prevCart.find((item) => item.id === productId)
+      const existingItem = prevCart.find((item) => item.cartKey === cartKey)
       if (existingItem && existingItem.quantity > 1) {
-        return prevCart.map((item) => (item.id === productId ? { ...item, quantity: item.quantity - 1 } : item))
+        return prevCart.map((item) => (item.cartKey === cartKey ? { ...item, quantity: item.quantity - 1 } : item))
       } else {
-        return prevCart.filter((item) => item.id !== productId)
+        return prevCart.filter((item) => item.cartKey !== cartKey)
       }
     })
   }
 
+  // Products with options open the options dialog first
+  const handleAddProduct = (product: Product) => {
+    if (product.modifierGroups && product.modifierGroups.length > 0) {
+      setCustomizingProduct(product)
+      setCustomizeSelection(getDefaultSelection(product))
+      setCustomizeErrors({})
+    } else {
+      addToCart(product)
+    }
+  }
+
+  const handleConfirmOptions = () => {
+    if (!customizingProduct) return
+
+    const selectionErrors = validateModifierSelection(customizingProduct, customizeSelection)
+    if (Object.keys(selectionErrors).length > 0) {
+      setCustomizeErrors(selectionErrors)
+      return
+    }
+
+    addToCart(customizingProduct, customizeSelection)
+    setCustomizingProduct(null)
+  }
+
   const getTotalItems = () => {
     return cart.reduce((total, item) => total + item.quantity, 0)
   }
 
-  const getTotalPrice = () => {
-    return cart.reduce((total, item) => total + item.price * item.quantity, 0)
+  // Discounts the order will get, such as happy hour or the promo code entered, and its totals;
+  // cart lines carry their product, as the menu may only have loaded one category
+  const lines = toPricingLines(
+    cart.map((item) => ({ productId: item.id, quantity: item.quantity, price: item.unitPrice })),
+    cart,
+  )
+  const pricing = priceOrder(lines, pricingRules, { at: new Date(), promoCode, decimals: settings.currency.decimals })
+  const totals = calculateTotals(lines, pricing, settings)
+
+  const handleApplyPromoCode = (code: string): boolean => {
+    if (!findPromoRule(pricingRules, code)) {
+      setPromoError(`Promo code ${code} is not valid`)
+      return false
+    }
+    setPromoCode(code)
+    setPromoError(null)
+    return true
+  }
+
+  // Clear the cart and the checkout details once the order has been sent
+  const resetCart = () => {
+    setCart([])
+    setCartCustomerName("")
+    setCartNote("")
+    setCartPhone("")
+    setCartPickupTime("")
+    setPromoCode(null)
+    setIsCartOpen(false)
   }
 
   const handleCheckout = async () => {
-    if (!selectedTable || cart.length === 0) {
+    if (cart.length === 0) {
       toast({
         title: "Cannot place order",
-        description: "Please ensure you have items in your cart and a table selected",
+        description: "Please add some items to your cart first",
         variant: "destructive",
       })
       return
@@ -147,34 +253,62 @@ export default function MenuPage() {
       return
     }
 
+    // Create order items from cart
+    const orderItems = cart.map((item) => ({
+      productId: item.id,
+      quantity: item.quantity,
+      modifiers: item.modifiers,
+      note: item.note.trim() || undefined,
+    }))
+    const orderData: CreateOrderRequest = selectedTable
+      ? {
+          type: "dine_in",
+          tableId: Number.parseInt(selectedTable),
+          guestName: cartCustomerName.trim(),
+          note: cartNote.trim() || undefined,
+          promoCode: promoCode ?? undefined,
+          items: orderItems,
+        }
+      : {
+          type: takeawayType,
+          customer: { name: cartCustomerName.trim(), phone: cartPhone.trim() },
+          // The time input is in local time
+          pickupTime:
+            takeawayType === "pickup" && cartPickupTime ? new Date(cartPickupTime).toISOString() : undefined,
+          note: cartNote.trim() || undefined,
+          promoCode: promoCode ?? undefined,
+          items: orderItems,
+        }
+
+    const orderErrors = validateOrderType(orderData)
+    const pickupTimeError = orderData.pickupTime && validateReadyTime(orderData.pickupTime)
+    if (pickupTimeError) {
+      orderErrors.pickupTime = pickupTimeError
+    }
+    setCheckoutErrors(orderErrors)
+    if (Object.keys(orderErrors).length > 0) {
+      return
+    }
+
+    if (!selectedTable) {
+      await handleTakeawayCheckout(orderData)
+      return
+    }
+
     setIsPlacingOrder(true)
 
     try {
-      // Create order items from cart
-      const orderItems = cart.map((item) => ({
-        productId: item.id,
-        quantity: item.quantity,
-      }))
-
       console.log("Placing order for table:", selectedTable)
       console.log("Customer name:", cartCustomerName.trim())
       console.log("Order items:", orderItems)
 
       // Create order with guest name
-      const result = await executeApiCall(() =>
-        api.orders.create({
-          tableId: Number.parseInt(selectedTable),
-          guestName: cartCustomerName.trim(),
-          items: orderItems,
-        }),
-      )
+      const result = await executeApiCall(() => api.orders.create(orderData))
 
       console.log("Order result:", result)
 
       // Always reset cart and redirect, regardless of API response
-      setCart([])
-      setCartCustomerName("")
-      setIsCartOpen(false)
+      resetCart()
 
       if (result) {
         toast({
@@ -197,9 +331,7 @@ export default function MenuPage() {
       console.error("Error placing order:", error)
 
       // Still reset cart and redirect even on error
-      setCart([])
-      setCartCustomerName("")
-      setIsCartOpen(false)
+      resetCart()
 
       toast({
         title: "Order Submission Error",
@@ -215,6 +347,26 @@ export default function MenuPage() {
     }
   }
 
+  // Takeaway and pickup orders have no table page to go to; the cart is kept if the order fails
+  const handleTakeawayCheckout = async (orderData: CreateOrderRequest) => {
+    setIsPlacingOrder(true)
+    const result = await executeApiCall(() => api.orders.create(orderData))
+    setIsPlacingOrder(false)
+
+    if (result) {
+      resetCart()
+      toast({
+        title: "Order Placed Successfully!",
+        description:
+          result.type === "pickup" && result.pickupTime
+            ? `Thank you ${result.customer?.name}! Order #${result.id} will be ready to pick up at ${new Date(
+                result.pickupTime,
+              ).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+            : `Thank you ${result.customer?.name}! We will call your name when order #${result.id} is ready`,
+      })
+    }
+  }
+
   const goBackToTable = () => {
     if (selectedTable) {
       router.push(`/table-orders/${selectedTable}`)
@@ -255,7 +407,7 @@ export default function MenuPage() {
         <div className="mx-auto max-w-6xl">
           <h1 className="text-3xl font-bold mb-6">Our Menu</h1>
 
-          {isLoading && !categoryLoading ? (
+          {productsLoading && currentCategory === "all" ? (
             <div className="flex justify-center p-8">Loading menu...</div>
           ) : (
             <Tabs defaultValue="all" className="space-y-6" onValueChange={handleTabChange}>
@@ -273,7 +425,7 @@ export default function MenuPage() {
                 ) : (
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                     {products.map((product) => (
-                      <MenuProductCard key={product.id} product={product} onAddToCart={() => addToCart(product)} />
+                      <MenuProductCard key={product.id} product={product} onAddToCart={() => handleAddProduct(product)} />
                     ))}
                   </div>
                 )}
@@ -281,14 +433,18 @@ export default function MenuPage() {
 
               {["coffee", "pastry", "dessert", "food"].map((category) => (
                 <TabsContent key={category} value={category} className="space-y-4">
-                  {categoryLoading ? (
+                  {productsLoading ? (
                     <div className="flex justify-center p-8">Loading {category} products...</div>
                   ) : products.length === 0 ? (
                     <div className="text-center p-8 text-muted-foreground">No {category} products available</div>
                   ) : (
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                       {products.map((product) => (
-                        <MenuProductCard key={product.id} product={product} onAddToCart={() => addToCart(product)} />
+                        <MenuProductCard
+                          key={product.id}
+                          product={product}
+                          onAddToCart={() => handleAddProduct(product)}
+                        />
                       ))}
                     </div>
                   )}
@@ -300,10 +456,12 @@ export default function MenuPage() {
       </main>
 
       <Dialog open={isCartOpen} onOpenChange={setIsCartOpen}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Your Order</DialogTitle>
-            <DialogDescription>Review your order {selectedTable && `for Table ${selectedTable}`}</DialogDescription>
+            <DialogDescription>
+              Review your order {selectedTable ? `for Table ${selectedTable}` : "to take away"}
+            </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
             {cart.length === 0 ? (
@@ -311,54 +469,128 @@ export default function MenuPage() {
             ) : (
               <>
                 <div className="space-y-4">
-                  {cart.map((item) => (
-                    <div key={item.id} className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <img
-                          src={item.imageUrl || "/placeholder.svg?height=100&width=100"}
-                          alt={item.name}
-                          className="h-10 w-10 rounded-md object-cover"
-                        />
-                        <div>
-                          <div className="font-medium">{item.name}</div>
-                          <div className="text-sm text-muted-foreground">${item.price.toFixed(2)} each</div>
+                  {cart.map((item, index) => (
+                    <div key={item.cartKey} className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <img
+                            src={item.imageUrl || "/placeholder.svg?height=100&width=100"}
+                            alt={item.name}
+                            className="h-10 w-10 rounded-md object-cover"
+                          />
+                          <div>
+                            <div className="font-medium">{item.name}</div>
+                            {item.modifiers.length > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                {formatModifiers(resolveModifiers(item, item.modifiers))}
+                              </div>
+                            )}
+                            <div className="text-sm text-muted-foreground">{formatMoney(item.unitPrice)} each</div>
+                            <DiscountList discounts={pricing.lineDiscounts[index]} />
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => removeFromCart(item.cartKey)}
+                            disabled={isPlacingOrder}
+                          >
+                            -
+                          </Button>
+                          <span>{item.quantity}</span>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => increaseQuantity(item.cartKey)}
+                            disabled={isPlacingOrder}
+                          >
+                            +
+                          </Button>
                         </div>
                       </div>
-                      <div className="flex items-center gap-2">
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          className="h-8 w-8"
-                          onClick={() => removeFromCart(item.id)}
-                          disabled={isPlacingOrder}
-                        >
-                          -
-                        </Button>
-                        <span>{item.quantity}</span>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          className="h-8 w-8"
-                          onClick={() => addToCart(item)}
-                          disabled={isPlacingOrder}
-                        >
-                          +
-                        </Button>
-                      </div>
+                      <Input
+                        placeholder="Special instructions, e.g. no ice"
+                        maxLength={ITEM_NOTE_MAX_LENGTH}
+                        value={item.note}
+                        onChange={(e) => updateItemNote(item.cartKey, e.target.value)}
+                        className="h-8 text-sm"
+                        disabled={isPlacingOrder}
+                      />
                     </div>
                   ))}
                 </div>
-                <div className="flex items-center justify-between font-bold text-lg pt-4 border-t">
-                  <span>Total:</span>
-                  <span>${getTotalPrice().toFixed(2)}</span>
-                </div>
-                {selectedTable && (
+                <PromoCodeField
+                  value={promoCode}
+                  onApply={handleApplyPromoCode}
+                  onRemove={() => setPromoCode(null)}
+                  error={promoError}
+                  disabled={isPlacingOrder}
+                />
+                <TotalsSummary totals={totals} className="pt-4 border-t" />
+                {selectedTable ? (
                   <div className="pt-4 border-t">
                     <div className="text-center">
                       <span className="text-sm text-muted-foreground">Order for: </span>
                       <span className="font-medium">Table {selectedTable}</span>
                     </div>
                   </div>
+                ) : (
+                  <div className="pt-4 border-t space-y-3">
+                    <RadioGroup
+                      value={takeawayType}
+                      onValueChange={(value) => setTakeawayType(value as "takeaway" | "pickup")}
+                      className="flex gap-6"
+                    >
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="takeaway" id="order-takeaway" />
+                        <Label htmlFor="order-takeaway" className="font-normal">
+                          Take away now
+                        </Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="pickup" id="order-pickup" />
+                        <Label htmlFor="order-pickup" className="font-normal">
+                          Pick up later
+                        </Label>
+                      </div>
+                    </RadioGroup>
+                    <div>
+                      <Label htmlFor="customer-phone" className="text-sm font-medium">
+                        Phone *
+                      </Label>
+                      <Input
+                        id="customer-phone"
+                        type="tel"
+                        placeholder="So we can reach you about your order"
+                        value={cartPhone}
+                        onChange={(e) => setCartPhone(e.target.value)}
+                        className="mt-1"
+                      />
+                      {checkoutErrors["customer.phone"] && (
+                        <p className="mt-1 text-xs text-red-500">{checkoutErrors["customer.phone"]}</p>
+                      )}
+                    </div>
+                    {takeawayType === "pickup" && (
+                      <div>
+                        <Label htmlFor="pickup-time" className="text-sm font-medium">
+                          Pickup Time *
+                        </Label>
+                        <Input
+                          id="pickup-time"
+                          type="datetime-local"
+                          value={cartPickupTime}
+                          onChange={(e) => setCartPickupTime(e.target.value)}
+                          className="mt-1"
+                        />
+                        {checkoutErrors.pickupTime && (
+                          <p className="mt-1 text-xs text-red-500">{checkoutErrors.pickupTime}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
                 )}
                 {cart.length > 0 && (
                   <div className="pt-4 border-t">
@@ -374,6 +606,17 @@ export default function MenuPage() {
                       className="mt-1"
                       required
                     />
+                    <Label htmlFor="order-note" className="mt-3 block text-sm font-medium">
+                      Note for the staff
+                    </Label>
+                    <Textarea
+                      id="order-note"
+                      placeholder="E.g. birthday candle, allergies"
+                      maxLength={ORDER_NOTE_MAX_LENGTH}
+                      value={cartNote}
+                      onChange={(e) => setCartNote(e.target.value)}
+                      className="mt-1"
+                    />
                   </div>
                 )}
               </>
@@ -382,7 +625,7 @@ export default function MenuPage() {
           <DialogFooter>
             <Button
               onClick={handleCheckout}
-              disabled={cart.length === 0 || !selectedTable || isPlacingOrder || !cartCustomerName.trim()}
+              disabled={cart.length === 0 || isPlacingOrder || !cartCustomerName.trim()}
               className="w-full"
             >
               {isPlacingOrder ? "Placing Order..." : "Place Order"}
@@ -390,6 +633,32 @@ export default function MenuPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!customizingProduct} onOpenChange={(open) => !open && setCustomizingProduct(null)}>
+        <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{customizingProduct?.name}</DialogTitle>
+            <DialogDescription>Choose your options</DialogDescription>
+          </DialogHeader>
+          {customizingProduct && (
+            <ModifierSelector
+              product={customizingProduct}
+              value={customizeSelection}
+              onChange={(value) => {
+                setCustomizeSelection(value)
+                setCustomizeErrors({})
+              }}
+              errors={customizeErrors}
+            />
+          )}
+          <DialogFooter>
+            <Button onClick={handleConfirmOptions} className="w-full">
+              Add to Order
+              {customizingProduct && ` · ${formatMoney(getUnitPrice(customizingProduct, customizeSelection))}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -401,6 +670,8 @@ interface MenuProductCardProps {
 }
 
 function MenuProductCard({ product, onAddToCart }: MenuProductCardProps) {
+  const { formatMoney } = useMoney()
+
   return (
     <Card>
       <CardHeader className="p-4 pb-2">
@@ -418,11 +689,11 @@ function MenuProductCard({ product, onAddToCart }: MenuProductCardProps) {
       </CardHeader>
       <CardContent className="p-4 pt-2">
         <p className="text-sm text-muted-foreground">{product.description}</p>
-        <div className="mt-2 text-lg font-bold">${product.price.toFixed(2)}</div>
+        <div className="mt-2 text-lg font-bold">{formatMoney(product.price)}</div>
       </CardContent>
       <CardFooter className="p-4">
         <Button className="w-full" onClick={onAddToCart}>
-          Add to Order
+          {product.modifierGroups && product.modifierGroups.length > 0 ? "Choose Options" : "Add to Order"}
         </Button>
       </CardFooter>
     </Card>
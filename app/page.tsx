@@ -46,7 +46,7 @@ export default function Home() {
                   </Link>
                   <Link href="/menu">
                     <Button size="lg" variant="outline">
-                      View Menu
+                      Order Takeaway
                     </Button>
                   </Link>
                 </div>
@@ -0,0 +1,170 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Coffee } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { useToast } from "@/hooks/use-toast"
+import { tokenService } from "@/lib/api"
+import apiConfig, { API_PROFILES, type ApiProfileName, type MockOptions } from "@/lib/config"
+import { resetMockDatabase } from "@/lib/mock-backend"
+
+/**
+ * Hidden settings screen for switching the backend the app talks to.
+ * Not linked from the navigation; open /settings directly.
+ */
+export default function SettingsPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [profile, setProfile] = useState<ApiProfileName>("production")
+  const [customUrl, setCustomUrl] = useState<string>("")
+  const [activeUrl, setActiveUrl] = useState<string>("")
+  const [mockOptions, setMockOptions] = useState<MockOptions>({ latencyMs: 300, errorRate: 0 })
+
+  // Read the current selection on mount (localStorage is only available in the browser)
+  useEffect(() => {
+    setProfile(apiConfig.getProfileName())
+    setCustomUrl(apiConfig.getCustomBaseUrl() || "")
+    setActiveUrl(apiConfig.getBaseUrl())
+    setMockOptions(apiConfig.getMockOptions())
+  }, [])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const isMock = API_PROFILES[profile].transport === "mock"
+    const trimmedUrl = isMock ? "" : customUrl.trim()
+    if (!trimmedUrl && !API_PROFILES[profile].baseUrl) {
+      toast({
+        title: "Validation Error",
+        description: `The ${API_PROFILES[profile].label} profile has no URL configured. Enter a custom URL.`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    apiConfig.setProfile(profile)
+    apiConfig.setCustomBaseUrl(trimmedUrl || null)
+    apiConfig.setMockOptions(mockOptions)
+
+    // A session token belongs to the backend that issued it
+    tokenService.removeToken()
+
+    toast({
+      title: "Settings Saved",
+      description: `Now using ${isMock ? "the mock backend" : apiConfig.getBaseUrl()}. Please log in again.`,
+    })
+    router.push("/login")
+  }
+
+  const handleReset = () => {
+    apiConfig.reset()
+    setProfile(apiConfig.getProfileName())
+    setCustomUrl("")
+    setActiveUrl(apiConfig.getBaseUrl())
+    setMockOptions(apiConfig.getMockOptions())
+  }
+
+  const handleResetMockData = () => {
+    resetMockDatabase()
+    toast({
+      title: "Mock Data Reset",
+      description: "The mock backend has been restored to its seed data",
+    })
+  }
+
+  return (
+    <div className="container flex min-h-screen w-screen flex-col items-center justify-center py-8">
+      <Link href="/" className="absolute left-4 top-4 md:left-8 md:top-8 flex items-center gap-2">
+        <Coffee className="h-6 w-6" />
+        <span className="font-bold">Cafe Manager</span>
+      </Link>
+      <div className="mx-auto flex w-full flex-col justify-center space-y-6 sm:w-[450px]">
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl">Backend Settings</CardTitle>
+            <CardDescription>
+              Currently connected to <span className="font-mono break-all">{activeUrl}</span>
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleSubmit}>
+            <CardContent className="grid gap-4">
+              <RadioGroup value={profile} onValueChange={(value) => setProfile(value as ApiProfileName)}>
+                {Object.values(API_PROFILES).map((option) => (
+                  <div key={option.name} className="flex items-start gap-3 rounded-md border p-3">
+                    <RadioGroupItem value={option.name} id={`profile-${option.name}`} className="mt-1" />
+                    <Label htmlFor={`profile-${option.name}`} className="grid gap-1 font-normal">
+                      <span className="font-medium">{option.label}</span>
+                      <span className="text-sm text-muted-foreground">{option.description}</span>
+                      <span className="text-xs font-mono text-muted-foreground break-all">
+                        {option.baseUrl || "Not configured"}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              {API_PROFILES[profile].transport === "mock" ? (
+                <div className="grid gap-4 rounded-md border p-3">
+                  <div className="grid gap-2">
+                    <Label htmlFor="mock-latency">Latency (ms)</Label>
+                    <Input
+                      id="mock-latency"
+                      type="number"
+                      min="0"
+                      value={mockOptions.latencyMs}
+                      onChange={(e) => setMockOptions({ ...mockOptions, latencyMs: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="mock-error-rate">Error rate (0 to 1)</Label>
+                    <Input
+                      id="mock-error-rate"
+                      type="number"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={mockOptions.errorRate}
+                      onChange={(e) => setMockOptions({ ...mockOptions, errorRate: Number(e.target.value) })}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Demo accounts: admin@cafe.test, manager@cafe.test and staff@cafe.test, password &quot;password&quot;.
+                  </p>
+                  <Button type="button" variant="outline" size="sm" onClick={handleResetMockData}>
+                    Reset Mock Data
+                  </Button>
+                </div>
+              ) : (
+                <div className="grid gap-2">
+                  <Label htmlFor="custom-url">Custom URL (optional)</Label>
+                  <Input
+                    id="custom-url"
+                    type="url"
+                    placeholder="http://192.168.1.20:5000/api"
+                    value={customUrl}
+                    onChange={(e) => setCustomUrl(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">Overrides the URL of the selected profile.</p>
+                </div>
+              )}
+            </CardContent>
+            <CardFooter className="flex justify-between gap-2">
+              <Button type="button" variant="outline" onClick={handleReset}>
+                Reset to Defaults
+              </Button>
+              <Button type="submit">Save</Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    </div>
+  )
+}
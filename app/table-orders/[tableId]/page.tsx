@@ -4,12 +4,17 @@ import { useState, useEffect } from "react"
 import { useParams, useRouter } from "next/navigation"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { RefreshCw, Coffee } from "lucide-react"
+import { StatusBadge } from "@/components/status-badge"
 import { useToast } from "@/hooks/use-toast"
 import useApi from "@/hooks/use-api"
+import useOrderEvents from "@/hooks/use-order-events"
+import useMoney from "@/hooks/use-money"
 import type { Order, Table as TableType } from "@/lib/api"
+import { applyOrderEvent, getEventTableId } from "@/lib/order-events"
+import { formatModifiers } from "@/lib/modifiers"
+import { getStatusInfo } from "@/lib/order-lifecycle"
 import {
   Dialog,
   DialogContent,
@@ -20,6 +25,7 @@ import {
 } from "@/components/ui/dialog"
 
 export default function TableOrdersPage() {
+  const { formatMoney } = useMoney()
   const params = useParams()
   const router = useRouter()
   const tableId = Number(params.tableId)
@@ -30,8 +36,6 @@ export default function TableOrdersPage() {
   const [table, setTable] = useState<TableType | null>(null)
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
   const [isOrderDetailsOpen, setIsOrderDetailsOpen] = useState(false)
-  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false)
-  const [isCancelling, setIsCancelling] = useState(false)
 
   // Load table info and orders on component mount
   useEffect(() => {
@@ -41,6 +45,26 @@ export default function TableOrdersPage() {
     }
   }, [tableId])
 
+  // Apply order changes for this table as they happen; only its orders are sent to the guest
+  const { status: realtimeStatus } = useOrderEvents((message) => {
+    if (message.type === "resync") {
+      loadTableOrders()
+      return
+    }
+    if (getEventTableId(message) !== tableId) {
+      return
+    }
+    setOrders((current) => applyOrderEvent(current, message))
+    if (message.type === "order.deleted") {
+      if (selectedOrder?.id === message.orderId) {
+        setIsOrderDetailsOpen(false)
+        setSelectedOrder(null)
+      }
+    } else if (selectedOrder?.id === message.order.id) {
+      setSelectedOrder(message.order)
+    }
+  }, !!tableId, tableId)
+
   // Show error toast if API error occurs
   useEffect(() => {
     if (error) {
@@ -52,9 +76,9 @@ export default function TableOrdersPage() {
     }
   }, [error, toast])
 
-  // Load table information
+  // Load table information; guests are not signed in, so a 401 must not send them to the login page
   const loadTableInfo = async () => {
-    const result = await executeApiCall(() => api.tables.getById(tableId))
+    const result = await executeApiCall((options) => api.tables.getById(tableId, { ...options, authRedirect: false }))
     if (result) {
       setTable(result)
     }
@@ -62,7 +86,9 @@ export default function TableOrdersPage() {
 
   // Load orders for this table
   const loadTableOrders = async () => {
-    const result = await executeApiCall(() => api.orders.getByTable(tableId))
+    const result = await executeApiCall((options) =>
+      api.orders.getByTable(tableId, { ...options, authRedirect: false }),
+    )
     if (result) {
       setOrders(result)
     }
@@ -85,62 +111,12 @@ export default function TableOrdersPage() {
     return date.toLocaleString()
   }
 
-  // Get status badge
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "new":
-        return <Badge className="bg-blue-500">New</Badge>
-      case "preparing":
-        return <Badge className="bg-yellow-500">Preparing</Badge>
-      case "ready":
-        return <Badge className="bg-green-500">Ready</Badge>
-      case "delivered":
-        return <Badge className="bg-purple-500">Delivered</Badge>
-      case "paid":
-        return <Badge className="bg-gray-500">Paid</Badge>
-      default:
-        return <Badge>Unknown</Badge>
-    }
-  }
-
   // Handle viewing order details
   const handleViewOrder = (order: Order) => {
     setSelectedOrder(order)
     setIsOrderDetailsOpen(true)
   }
 
-  // Handle cancelling an order
-  const handleCancelOrder = async () => {
-    if (!selectedOrder) return
-
-    setIsCancelling(true)
-
-    try {
-      await executeApiCall(() => api.orders.delete(selectedOrder.id))
-
-      // Remove the order from the list
-      setOrders(orders.filter((order) => order.id !== selectedOrder.id))
-
-      // Reset selected order and close dialogs
-      setSelectedOrder(null)
-      setIsOrderDetailsOpen(false)
-      setIsCancelDialogOpen(false)
-
-      toast({
-        title: "Order Cancelled",
-        description: `Order #${selectedOrder.id} has been cancelled successfully`,
-      })
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to cancel the order. Please try again or contact staff.",
-        variant: "destructive",
-      })
-    } finally {
-      setIsCancelling(false)
-    }
-  }
-
   // Show loading state while fetching data
   if (isLoading && !table) {
     return (
@@ -211,12 +187,12 @@ export default function TableOrdersPage() {
             ) : (
               <div className="space-y-6">
                 {/* Current/Active Orders */}
-                {orders.filter((order) => order.status !== "paid").length > 0 && (
+                {orders.filter((order) => getStatusInfo(order.status).isOpen).length > 0 && (
                   <div>
                     <h3 className="font-semibold text-lg mb-4 text-gray-900">Current Orders</h3>
                     <div className="space-y-4">
                       {orders
-                        .filter((order) => order.status !== "paid")
+                        .filter((order) => getStatusInfo(order.status).isOpen)
                         .map((order) => (
                           <Card
                             key={order.id}
@@ -233,11 +209,17 @@ export default function TableOrdersPage() {
                                   </p>
                                 </div>
                                 <div className="flex items-center gap-3">
-                                  {getStatusBadge(order.status)}
-                                  <span className="font-bold text-lg">${order.total.toFixed(2)}</span>
+                                  <StatusBadge status={order.status} />
+                                  <span className="font-bold text-lg">{formatMoney(order.total)}</span>
                                 </div>
                               </div>
 
+                              {order.note && (
+                                <div className="mb-4 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm font-medium text-amber-900">
+                                  Note: {order.note}
+                                </div>
+                              )}
+
                               {/* Order Items */}
                               <div className="space-y-3">
                                 <h5 className="font-medium">Items:</h5>
@@ -245,12 +227,25 @@ export default function TableOrdersPage() {
                                   {order.items.map((item) => (
                                     <div
                                       key={item.id}
-                                      className="flex justify-between items-center py-2 px-3 bg-gray-50 rounded-md"
+                                      className={`flex justify-between items-center py-2 px-3 bg-gray-50 rounded-md ${
+                                        item.voided ? "text-muted-foreground line-through" : ""
+                                      }`}
                                     >
                                       <span className="font-medium">
                                         {item.productName} x{item.quantity}
+                                        {item.voided && <span className="ml-2 text-xs">(removed)</span>}
+                                        {item.modifiers && item.modifiers.length > 0 && (
+                                          <span className="block text-xs font-normal text-muted-foreground">
+                                            {formatModifiers(item.modifiers)}
+                                          </span>
+                                        )}
+                                        {item.note && (
+                                          <span className="block text-xs font-semibold text-amber-700">
+                                            Note: {item.note}
+                                          </span>
+                                        )}
                                       </span>
-                                      <span className="font-semibold">${(item.price * item.quantity).toFixed(2)}</span>
+                                      <span className="font-semibold">{formatMoney(item.price * item.quantity)}</span>
                                     </div>
                                   ))}
                                 </div>
@@ -263,7 +258,7 @@ export default function TableOrdersPage() {
                 )}
 
                 {/* Order History */}
-                {orders.filter((order) => order.status === "paid").length > 0 && (
+                {orders.filter((order) => !getStatusInfo(order.status).isOpen).length > 0 && (
                   <div>
                     <h3 className="font-semibold text-lg mb-4 text-gray-900">Order History</h3>
                     <div className="bg-white rounded-lg shadow-md overflow-hidden">
@@ -280,15 +275,17 @@ export default function TableOrdersPage() {
                         </TableHeader>
                         <TableBody>
                           {orders
-                            .filter((order) => order.status === "paid")
+                            .filter((order) => !getStatusInfo(order.status).isOpen)
                             .map((order) => (
                               <TableRow key={order.id}>
                                 <TableCell className="font-medium">#{order.id}</TableCell>
                                 <TableCell>{order.guestName || "Guest"}</TableCell>
                                 <TableCell>{order.items.length} items</TableCell>
-                                <TableCell className="font-semibold">${order.total.toFixed(2)}</TableCell>
+                                <TableCell className="font-semibold">{formatMoney(order.total)}</TableCell>
                                 <TableCell>{formatDateTime(order.orderDate)}</TableCell>
-                                <TableCell>{getStatusBadge(order.status)}</TableCell>
+                                <TableCell>
+                                  <StatusBadge status={order.status} />
+                                </TableCell>
                               </TableRow>
                             ))}
                         </TableBody>
@@ -305,6 +302,22 @@ export default function TableOrdersPage() {
         <div className="text-center text-sm text-gray-600 bg-white/50 rounded-lg p-4">
           <p>Scan the QR code on your table to view real-time order updates</p>
           <p className="mt-1">Orders will appear here automatically as they are placed</p>
+          <p className="mt-1 flex items-center justify-center gap-2 text-xs">
+            <span
+              className={`inline-block h-2 w-2 rounded-full ${
+                realtimeStatus === "live"
+                  ? "bg-green-500"
+                  : realtimeStatus === "polling"
+                    ? "bg-yellow-500"
+                    : "bg-gray-400"
+              }`}
+            />
+            {realtimeStatus === "live"
+              ? "Live updates"
+              : realtimeStatus === "polling"
+                ? "Checking for updates regularly"
+                : "Connecting..."}
+          </p>
         </div>
       </div>
 
@@ -323,11 +336,17 @@ export default function TableOrdersPage() {
                   <p className="text-sm text-muted-foreground">Table {tableId}</p>
                 </div>
                 <div className="flex items-center gap-3">
-                  {getStatusBadge(selectedOrder.status)}
-                  <span className="font-bold text-lg">${selectedOrder.total.toFixed(2)}</span>
+                  <StatusBadge status={selectedOrder.status} />
+                  <span className="font-bold text-lg">{formatMoney(selectedOrder.total)}</span>
                 </div>
               </div>
 
+              {selectedOrder.note && (
+                <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm font-medium text-amber-900">
+                  Note: {selectedOrder.note}
+                </div>
+              )}
+
               {/* Order Items */}
               <div className="border rounded-md">
                 <div className="p-4 border-b bg-muted/50">
@@ -335,37 +354,39 @@ export default function TableOrdersPage() {
                 </div>
                 <div className="p-4 space-y-3">
                   {selectedOrder.items.map((item) => (
-                    <div key={item.id} className="flex justify-between items-center py-2 px-3 bg-gray-50 rounded-md">
+                    <div
+                      key={item.id}
+                      className={`flex justify-between items-center py-2 px-3 bg-gray-50 rounded-md ${
+                        item.voided ? "text-muted-foreground line-through" : ""
+                      }`}
+                    >
                       <div>
                         <span className="font-medium">{item.productName}</span>
                         <span className="text-sm text-muted-foreground ml-2">x{item.quantity}</span>
+                        {item.modifiers && item.modifiers.length > 0 && (
+                          <p className="text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                        )}
+                        {item.note && <p className="text-xs font-semibold text-amber-700">Note: {item.note}</p>}
                       </div>
                       <div className="text-right">
-                        <div className="font-semibold">${(item.price * item.quantity).toFixed(2)}</div>
-                        <div className="text-xs text-muted-foreground">${item.price.toFixed(2)} each</div>
+                        <div className="font-semibold">{formatMoney(item.price * item.quantity)}</div>
+                        <div className="text-xs text-muted-foreground">{formatMoney(item.price)} each</div>
                       </div>
                     </div>
                   ))}
                   <div className="flex justify-between items-center pt-3 mt-3 border-t border-gray-200">
                     <span className="font-bold text-lg">Total:</span>
-                    <span className="font-bold text-lg">${selectedOrder.total.toFixed(2)}</span>
+                    <span className="font-bold text-lg">{formatMoney(selectedOrder.total)}</span>
                   </div>
                 </div>
               </div>
             </div>
           )}
           <DialogFooter className="flex flex-col sm:flex-row gap-2">
-            {selectedOrder?.status === "new" && (
-              <Button
-                variant="destructive"
-                onClick={() => {
-                  setIsOrderDetailsOpen(false)
-                  setIsCancelDialogOpen(true)
-                }}
-                className="w-full sm:w-auto"
-              >
-                Cancel Order
-              </Button>
+            {selectedOrder && getStatusInfo(selectedOrder.status).isOpen && (
+              <p className="text-sm text-muted-foreground sm:mr-auto sm:self-center">
+                To change or cancel this order, please ask a member of staff.
+              </p>
             )}
             <Button variant="outline" onClick={() => setIsOrderDetailsOpen(false)} className="w-full sm:w-auto">
               Close
@@ -373,31 +394,6 @@ export default function TableOrdersPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
-
-      {/* Cancel Confirmation Dialog */}
-      <Dialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
-        <DialogContent className="sm:max-w-[425px]">
-          <DialogHeader>
-            <DialogTitle>Cancel Order</DialogTitle>
-            <DialogDescription>
-              Are you sure you want to cancel Order #{selectedOrder?.id}? This action cannot be undone.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="py-4">
-            <p className="text-sm text-muted-foreground">
-              This will permanently remove the order and you'll need to place a new order if you change your mind.
-            </p>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setIsCancelDialogOpen(false)} disabled={isCancelling}>
-              Keep Order
-            </Button>
-            <Button variant="destructive" onClick={handleCancelOrder} disabled={isCancelling}>
-              {isCancelling ? "Cancelling..." : "Cancel Order"}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
     </div>
   )
 }
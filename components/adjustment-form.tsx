@@ -0,0 +1,167 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import useMoney from "@/hooks/use-money"
+import { ITEM_NOTE_MAX_LENGTH, type AdjustmentKind, type PaymentMethod } from "@/lib/api"
+import { REFUND_REASONS, VOID_REASONS } from "@/lib/adjustments"
+
+/** What the form collects; the method is only set for refunds */
+export interface AdjustmentFormValues {
+  reasonCode: string
+  note?: string
+  method?: PaymentMethod
+}
+
+interface AdjustmentFormProps {
+  kind: AdjustmentKind
+  /** What is taken back, e.g. "2 × Latte" or "the whole order" */
+  target: string
+  /** Amount taken off the bill or handed back */
+  amount: number
+  /** Asks for a manager's PIN; managers approve their own voids and refunds */
+  requiresApproval: boolean
+  isSaving?: boolean
+  /** Called with the reason, and the PIN if approval is required */
+  onSubmit: (values: AdjustmentFormValues, pin?: string) => Promise<void>
+  onCancel: () => void
+}
+
+export function AdjustmentForm({
+  kind,
+  target,
+  amount,
+  requiresApproval,
+  isSaving = false,
+  onSubmit,
+  onCancel,
+}: AdjustmentFormProps) {
+  const { formatMoney } = useMoney()
+  const [reasonCode, setReasonCode] = useState("")
+  const [note, setNote] = useState("")
+  const [method, setMethod] = useState<PaymentMethod>("cash")
+  const [pin, setPin] = useState("")
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const reasons: Record<string, string> = kind === "void" ? VOID_REASONS : REFUND_REASONS
+  const action = kind === "void" ? "Void" : "Refund"
+
+  const handleSubmit = async () => {
+    const newErrors: Record<string, string> = {}
+    if (!reasonCode) {
+      newErrors.reasonCode = "Choose a reason"
+    } else if (reasonCode === "other" && !note.trim()) {
+      newErrors.note = "Describe the reason"
+    }
+    if (requiresApproval && pin.length < 4) {
+      newErrors.pin = "A manager needs to enter their PIN"
+    }
+    setErrors(newErrors)
+    if (Object.keys(newErrors).length > 0) return
+
+    await onSubmit(
+      { reasonCode, note: note.trim() || undefined, method: kind === "refund" ? method : undefined },
+      requiresApproval ? pin : undefined,
+    )
+    setPin("")
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border border-red-200 p-4">
+      <div>
+        <h3 className="font-medium">
+          {action} {target}
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          {kind === "void"
+            ? `${formatMoney(amount)} is taken off the bill. The line stays on the order, marked as voided.`
+            : `${formatMoney(amount)} is handed back to the guest.`}
+        </p>
+      </div>
+      <div className="grid gap-2 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="adjustment-reason">Reason</Label>
+          <Select value={reasonCode} onValueChange={setReasonCode}>
+            <SelectTrigger id="adjustment-reason">
+              <SelectValue placeholder="Choose a reason" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(reasons).map(([code, label]) => (
+                <SelectItem key={code} value={code}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errors.reasonCode && <p className="text-xs text-red-500">{errors.reasonCode}</p>}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="adjustment-note">Note</Label>
+          <Input
+            id="adjustment-note"
+            placeholder={reasonCode === "other" ? "What happened?" : "Optional"}
+            maxLength={ITEM_NOTE_MAX_LENGTH}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          {errors.note && <p className="text-xs text-red-500">{errors.note}</p>}
+        </div>
+      </div>
+      {kind === "refund" && (
+        <RadioGroup
+          value={method}
+          onValueChange={(next) => setMethod(next as PaymentMethod)}
+          className="flex gap-6"
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="cash" id="refund-cash" />
+            <Label htmlFor="refund-cash" className="font-normal">
+              Cash
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="card" id="refund-card" />
+            <Label htmlFor="refund-card" className="font-normal">
+              Card
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="voucher" id="refund-voucher" />
+            <Label htmlFor="refund-voucher" className="font-normal">
+              Voucher
+            </Label>
+          </div>
+        </RadioGroup>
+      )}
+      {requiresApproval && (
+        <div className="space-y-1">
+          <Label htmlFor="adjustment-pin">Manager PIN</Label>
+          <Input
+            id="adjustment-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            className="w-32"
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+          />
+          {errors.pin && <p className="text-xs text-red-500">{errors.pin}</p>}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button variant="destructive" size="sm" onClick={handleSubmit} disabled={isSaving}>
+          {requiresApproval ? `Approve ${action}` : action}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default AdjustmentForm
@@ -25,7 +25,7 @@ export function AuthGuard({ children }: AuthGuardProps) {
 
       if (!isPublicRoute && !isAuthenticated) {
         // Redirect to login if trying to access protected route without authentication
-        router.push("/login")
+        router.push(`/login?returnUrl=${encodeURIComponent(pathname)}`)
       } else if (pathname === "/login" && isAuthenticated) {
         // Redirect to dashboard if already logged in and trying to access login page
         router.push("/dashboard")
@@ -4,39 +4,121 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import type { Product, Table } from "@/lib/api"
+import { DiscountList } from "@/components/discount-list"
+import { ModifierSelector } from "@/components/modifier-selector"
+import { PromoCodeField } from "@/components/promo-code-field"
+import { TotalsSummary } from "@/components/totals-summary"
+import {
+  formatModifiers,
+  getDefaultSelection,
+  getSelectionKey,
+  getUnitPrice,
+  resolveModifiers,
+  validateModifierSelection,
+} from "@/lib/modifiers"
+import { DEFAULT_CAFE_SETTINGS } from "@/lib/cafe-settings"
+import { formatMoney } from "@/lib/money"
+import { findPromoRule, priceOrder, toPricingLines } from "@/lib/pricing"
+import { calculateTotals } from "@/lib/totals"
+import { ORDER_TYPE_INFO, ORDER_TYPES, validateOrderType } from "@/lib/order-types"
+import { validateReadyTime } from "@/lib/scheduling"
+import {
+  ITEM_NOTE_MAX_LENGTH,
+  ORDER_NOTE_MAX_LENGTH,
+  type AddOrderItemRequest,
+  type CafeSettings,
+  type CreateOrderRequest,
+  type ModifierSelection,
+  type OrderType,
+  type PricingRule,
+  type Product,
+  type Table,
+} from "@/lib/api"
 
 interface CreateOrderFormProps {
   tables: Table[]
   products: Product[]
-  onSubmit: (data: { tableId: number; items: { productId: number; quantity: number }[] }) => Promise<void>
+  /** Rules used to preview the discounts; the backend prices the order when it is created */
+  pricingRules?: PricingRule[]
+  /** Tax and service charge added to the preview */
+  settings?: CafeSettings
+  onSubmit: (data: CreateOrderRequest) => Promise<void>
   onCancel: () => void
   isLoading: boolean
 }
 
-export function CreateOrderForm({ tables, products, onSubmit, onCancel, isLoading }: CreateOrderFormProps) {
+export function CreateOrderForm({
+  tables,
+  products,
+  pricingRules = [],
+  settings = DEFAULT_CAFE_SETTINGS,
+  onSubmit,
+  onCancel,
+  isLoading,
+}: CreateOrderFormProps) {
+  const [type, setType] = useState<OrderType>("dine_in")
   const [tableId, setTableId] = useState<number>(0)
-  const [items, setItems] = useState<{ productId: number; quantity: number }[]>([])
+  const [guestName, setGuestName] = useState("")
+  const [customer, setCustomer] = useState({ name: "", phone: "", address: "" })
+  const [pickupTime, setPickupTime] = useState("")
+  // Empty makes the order now; pickup orders are ready at their pickup time
+  const [readyAt, setReadyAt] = useState("")
+  const [note, setNote] = useState("")
+  const [items, setItems] = useState<AddOrderItemRequest[]>([])
   const [selectedProduct, setSelectedProduct] = useState<number | null>(null)
   const [selectedQuantity, setSelectedQuantity] = useState<number>(1)
-  const [errors, setErrors] = useState<{ tableId?: string; items?: string }>({})
+  const [selectedModifiers, setSelectedModifiers] = useState<ModifierSelection[]>([])
+  const [selectedNote, setSelectedNote] = useState("")
+  const [modifierErrors, setModifierErrors] = useState<Record<string, string>>({})
+  const [promoCode, setPromoCode] = useState<string | null>(null)
+  const [promoError, setPromoError] = useState<string | null>(null)
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({})
+
+  const needsTable = ORDER_TYPE_INFO[type].needsTable
+
+  const product = products.find((p) => p.id === selectedProduct)
+
+  // Select a product, preselecting its required options
+  const handleSelectProduct = (productId: number) => {
+    const next = products.find((p) => p.id === productId)
+    setSelectedProduct(productId)
+    setSelectedModifiers(next ? getDefaultSelection(next) : [])
+    setModifierErrors({})
+  }
 
   // Add product to order
   const handleAddProduct = () => {
-    if (!selectedProduct || selectedQuantity <= 0) return
+    if (!product || selectedQuantity <= 0) return
+
+    const selectionErrors = validateModifierSelection(product, selectedModifiers)
+    if (Object.keys(selectionErrors).length > 0) {
+      setModifierErrors(selectionErrors)
+      return
+    }
 
-    // Check if product already exists in the order
-    const existingItemIndex = items.findIndex((item) => item.productId === selectedProduct)
+    // Check if the same product with the same options and note already exists in the order
+    const key = getSelectionKey(product.id, selectedModifiers)
+    const itemNote = selectedNote.trim() || undefined
+    const existingItemIndex = items.findIndex(
+      (item) => getSelectionKey(item.productId, item.modifiers) === key && item.note === itemNote,
+    )
 
     if (existingItemIndex >= 0) {
       // Update quantity if product already exists
       const updatedItems = [...items]
-      updatedItems[existingItemIndex].quantity += selectedQuantity
+      updatedItems[existingItemIndex] = {
+        ...updatedItems[existingItemIndex],
+        quantity: updatedItems[existingItemIndex].quantity + selectedQuantity,
+      }
       setItems(updatedItems)
     } else {
       // Add new product to order
-      setItems([...items, { productId: selectedProduct, quantity: selectedQuantity }])
+      setItems([
+        ...items,
+        { productId: product.id, quantity: selectedQuantity, modifiers: selectedModifiers, note: itemNote },
+      ])
     }
 
     // Clear any errors
@@ -47,11 +129,13 @@ export function CreateOrderForm({ tables, products, onSubmit, onCancel, isLoadin
     // Reset selection
     setSelectedProduct(null)
     setSelectedQuantity(1)
+    setSelectedModifiers([])
+    setSelectedNote("")
   }
 
-  // Remove product from order
-  const handleRemoveProduct = (productId: number) => {
-    setItems(items.filter((item) => item.productId !== productId))
+  // Remove a line from the order
+  const handleRemoveProduct = (index: number) => {
+    setItems(items.filter((_, itemIndex) => itemIndex !== index))
   }
 
   // Get product name by ID
@@ -60,27 +144,70 @@ export function CreateOrderForm({ tables, products, onSubmit, onCancel, isLoadin
     return product ? product.name : `Product #${productId}`
   }
 
-  // Get product price by ID
-  const getProductPrice = (productId: number): number => {
-    const product = products.find((p) => p.id === productId)
-    return product ? product.price : 0
+  // Get the unit price of a line including its options
+  const getItemPrice = (item: AddOrderItemRequest): number => {
+    const product = products.find((p) => p.id === item.productId)
+    return product ? getUnitPrice(product, item.modifiers) : 0
   }
 
-  // Calculate subtotal for order
-  const calculateSubtotal = (): number => {
-    return items.reduce((total, item) => {
-      const price = getProductPrice(item.productId)
-      return total + price * item.quantity
-    }, 0)
+  // Describe the options of a line
+  const getItemModifiers = (item: AddOrderItemRequest): string => {
+    const product = products.find((p) => p.id === item.productId)
+    return product ? formatModifiers(resolveModifiers(product, item.modifiers)) : ""
+  }
+
+  // Preview the discounts and totals the order will get
+  const lines = toPricingLines(
+    items.map((item) => ({ productId: item.productId, quantity: item.quantity, price: getItemPrice(item) })),
+    products,
+  )
+  const pricing = priceOrder(lines, pricingRules, { at: new Date(), promoCode, decimals: settings.currency.decimals })
+  const totals = calculateTotals(lines, pricing, settings)
+
+  // Apply a promo code if one of the rules has it
+  const handleApplyPromoCode = (code: string): boolean => {
+    if (!findPromoRule(pricingRules, code)) {
+      setPromoError(`Promo code ${code} is not valid`)
+      return false
+    }
+    setPromoCode(code)
+    setPromoError(null)
+    return true
   }
 
   // Handle form submission
   const handleSubmit = async () => {
-    // Validate form
-    const newErrors: { tableId?: string; items?: string } = {}
+    // The time inputs are in local time
+    const scheduledFor = type !== "pickup" && readyAt ? new Date(readyAt).toISOString() : undefined
+    const orderData: CreateOrderRequest = needsTable
+      ? {
+          type,
+          tableId: tableId || undefined,
+          guestName: guestName.trim() || undefined,
+          readyAt: scheduledFor,
+          note: note.trim() || undefined,
+          promoCode: promoCode ?? undefined,
+          items,
+        }
+      : {
+          type,
+          customer: {
+            name: customer.name.trim(),
+            phone: customer.phone.trim(),
+            address: type === "delivery" ? customer.address.trim() : undefined,
+          },
+          pickupTime: type === "pickup" && pickupTime ? new Date(pickupTime).toISOString() : undefined,
+          readyAt: scheduledFor,
+          note: note.trim() || undefined,
+          promoCode: promoCode ?? undefined,
+          items,
+        }
 
-    if (tableId === 0) {
-      newErrors.tableId = "Please select a table"
+    // Validate form
+    const newErrors: Record<string, string | undefined> = validateOrderType(orderData)
+    const readyTimeError = scheduledFor && validateReadyTime(scheduledFor)
+    if (readyTimeError) {
+      newErrors.readyAt = readyTimeError
     }
 
     if (items.length === 0) {
@@ -93,34 +220,173 @@ export function CreateOrderForm({ tables, products, onSubmit, onCancel, isLoadin
     }
 
     // Submit form
-    await onSubmit({ tableId, items })
+    await onSubmit(orderData)
   }
 
   return (
     <div className="grid gap-4">
       <div className="grid grid-cols-4 items-center gap-4">
-        <Label htmlFor="table" className="text-right">
-          Table
+        <Label htmlFor="orderType" className="text-right">
+          Type
         </Label>
-        <div className="col-span-3 space-y-1">
-          <Select value={tableId ? tableId.toString() : undefined} onValueChange={(value) => setTableId(Number(value))}>
-            <SelectTrigger className={errors.tableId ? "border-red-500" : ""}>
-              <SelectValue placeholder="Select a table" />
-            </SelectTrigger>
-            <SelectContent>
-              {tables
-                .filter((table) => table.status === "available")
-                .map((table) => (
-                  <SelectItem key={table.id} value={table.id.toString()}>
-                    {table.name} (Capacity: {table.capacity})
-                  </SelectItem>
-                ))}
-            </SelectContent>
-          </Select>
-          {errors.tableId && <p className="text-xs text-red-500">{errors.tableId}</p>}
-        </div>
+        <Select
+          value={type}
+          onValueChange={(value) => {
+            setType(value as OrderType)
+            setErrors({ items: errors.items })
+          }}
+        >
+          <SelectTrigger id="orderType" className="col-span-3">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ORDER_TYPES.map((orderType) => (
+              <SelectItem key={orderType} value={orderType}>
+                {ORDER_TYPE_INFO[orderType].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
+      {needsTable ? (
+        <>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="guestName" className="text-right">
+              Guest Name
+            </Label>
+            <Input
+              id="guestName"
+              className="col-span-3"
+              value={guestName}
+              onChange={(e) => setGuestName(e.target.value)}
+              placeholder="Enter guest name"
+            />
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="table" className="text-right">
+              Table
+            </Label>
+            <div className="col-span-3 space-y-1">
+              <Select
+                value={tableId ? tableId.toString() : undefined}
+                onValueChange={(value) => setTableId(Number(value))}
+              >
+                <SelectTrigger className={errors.tableId ? "border-red-500" : ""}>
+                  <SelectValue placeholder="Select a table" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tables
+                    .filter((table) => table.status === "available")
+                    .map((table) => (
+                      <SelectItem key={table.id} value={table.id.toString()}>
+                        {table.name} (Capacity: {table.capacity})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {errors.tableId && <p className="text-xs text-red-500">{errors.tableId}</p>}
+            </div>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="customerName" className="text-right">
+              Customer Name
+            </Label>
+            <div className="col-span-3 space-y-1">
+              <Input
+                id="customerName"
+                value={customer.name}
+                onChange={(e) => setCustomer({ ...customer, name: e.target.value })}
+                placeholder="Name to call out"
+                className={errors["customer.name"] ? "border-red-500" : ""}
+              />
+              {errors["customer.name"] && <p className="text-xs text-red-500">{errors["customer.name"]}</p>}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="customerPhone" className="text-right">
+              Phone
+            </Label>
+            <div className="col-span-3 space-y-1">
+              <Input
+                id="customerPhone"
+                type="tel"
+                value={customer.phone}
+                onChange={(e) => setCustomer({ ...customer, phone: e.target.value })}
+                placeholder="Phone number"
+                className={errors["customer.phone"] ? "border-red-500" : ""}
+              />
+              {errors["customer.phone"] && <p className="text-xs text-red-500">{errors["customer.phone"]}</p>}
+            </div>
+          </div>
+
+          {type === "delivery" && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="customerAddress" className="text-right">
+                Address
+              </Label>
+              <div className="col-span-3 space-y-1">
+                <Input
+                  id="customerAddress"
+                  value={customer.address}
+                  onChange={(e) => setCustomer({ ...customer, address: e.target.value })}
+                  placeholder="Street, building, floor"
+                  className={errors["customer.address"] ? "border-red-500" : ""}
+                />
+                {errors["customer.address"] && (
+                  <p className="text-xs text-red-500">{errors["customer.address"]}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {type === "pickup" && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="pickupTime" className="text-right">
+                Pickup Time
+              </Label>
+              <div className="col-span-3 space-y-1">
+                <Input
+                  id="pickupTime"
+                  type="datetime-local"
+                  value={pickupTime}
+                  onChange={(e) => setPickupTime(e.target.value)}
+                  className={errors.pickupTime ? "border-red-500" : ""}
+                />
+                {errors.pickupTime && <p className="text-xs text-red-500">{errors.pickupTime}</p>}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {type !== "pickup" && (
+        <div className="grid grid-cols-4 items-center gap-4">
+          <Label htmlFor="readyAt" className="text-right">
+            Ready At
+          </Label>
+          <div className="col-span-3 space-y-1">
+            <Input
+              id="readyAt"
+              type="datetime-local"
+              value={readyAt}
+              onChange={(e) => setReadyAt(e.target.value)}
+              className={errors.readyAt ? "border-red-500" : ""}
+            />
+            {errors.readyAt ? (
+              <p className="text-xs text-red-500">{errors.readyAt}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">Leave empty to send the order to the kitchen now</p>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="grid gap-2">
         <Label>Items</Label>
         <div className={`border rounded-md p-4 ${errors.items ? "border-red-500" : ""}`}>
@@ -131,8 +397,8 @@ export function CreateOrderForm({ tables, products, onSubmit, onCancel, isLoadin
                   Product
                 </Label>
                 <Select
-                  value={selectedProduct?.toString()}
-                  onValueChange={(value) => setSelectedProduct(Number(value))}
+                  value={selectedProduct?.toString() ?? ""}
+                  onValueChange={(value) => handleSelectProduct(Number(value))}
                 >
                   <SelectTrigger id="product">
                     <SelectValue placeholder="Select a product" />
@@ -140,7 +406,7 @@ export function CreateOrderForm({ tables, products, onSubmit, onCancel, isLoadin
                   <SelectContent>
                     {products.map((product) => (
                       <SelectItem key={product.id} value={product.id.toString()}>
-                        {product.name} - ${product.price.toFixed(2)}
+                        {product.name} - {formatMoney(product.price, settings.currency)}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -162,6 +428,27 @@ export function CreateOrderForm({ tables, products, onSubmit, onCancel, isLoadin
                 Add
               </Button>
             </div>
+            {product?.modifierGroups && product.modifierGroups.length > 0 && (
+              <div className="rounded-md bg-muted/50 p-3">
+                <ModifierSelector
+                  product={product}
+                  value={selectedModifiers}
+                  onChange={(value) => {
+                    setSelectedModifiers(value)
+                    setModifierErrors({})
+                  }}
+                  errors={modifierErrors}
+                />
+              </div>
+            )}
+            {selectedProduct && (
+              <Input
+                placeholder="Special instructions, e.g. no ice"
+                maxLength={ITEM_NOTE_MAX_LENGTH}
+                value={selectedNote}
+                onChange={(e) => setSelectedNote(e.target.value)}
+              />
+            )}
           </div>
           <div className="mt-4">
             {items.length === 0 ? (
@@ -171,34 +458,60 @@ export function CreateOrderForm({ tables, products, onSubmit, onCancel, isLoadin
               </div>
             ) : (
               <div className="space-y-2">
-                {items.map((item) => (
-                  <div key={item.productId} className="flex items-center justify-between">
+                {items.map((item, index) => (
+                  <div
+                    key={`${getSelectionKey(item.productId, item.modifiers)}-${item.note ?? ""}`}
+                    className="flex items-center justify-between"
+                  >
                     <div>
                       <span className="font-medium">{getProductName(item.productId)}</span>
                       <span className="text-sm text-muted-foreground ml-2">
-                        ${getProductPrice(item.productId).toFixed(2)} x {item.quantity}
+                        {formatMoney(getItemPrice(item), settings.currency)} x {item.quantity}
                       </span>
+                      {item.modifiers && item.modifiers.length > 0 && (
+                        <p className="text-xs text-muted-foreground">{getItemModifiers(item)}</p>
+                      )}
+                      {item.note && <p className="text-xs font-medium text-amber-700">Note: {item.note}</p>}
+                      <DiscountList discounts={pricing.lineDiscounts[index]} />
                     </div>
                     <div className="flex items-center">
                       <span className="font-medium mr-4">
-                        ${(getProductPrice(item.productId) * item.quantity).toFixed(2)}
+                        {formatMoney(getItemPrice(item) * item.quantity, settings.currency)}
                       </span>
-                      <Button variant="ghost" size="sm" onClick={() => handleRemoveProduct(item.productId)}>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemoveProduct(index)}>
                         Remove
                       </Button>
                     </div>
                   </div>
                 ))}
-                <div className="flex items-center justify-between pt-2 mt-2 border-t">
-                  <span className="font-bold">Total:</span>
-                  <span className="font-bold">${calculateSubtotal().toFixed(2)}</span>
-                </div>
+                <TotalsSummary totals={totals} className="pt-2 mt-2 border-t" />
               </div>
             )}
           </div>
         </div>
       </div>
 
+      <div className="grid gap-2">
+        <Label>Promo Code</Label>
+        <PromoCodeField
+          value={promoCode}
+          onApply={handleApplyPromoCode}
+          onRemove={() => setPromoCode(null)}
+          error={promoError}
+        />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="orderNote">Order Note</Label>
+        <Textarea
+          id="orderNote"
+          placeholder="Anything the kitchen or floor should know, e.g. birthday candle"
+          maxLength={ORDER_NOTE_MAX_LENGTH}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+      </div>
+
       <div className="flex justify-end space-x-2 pt-4">
         <Button type="button" variant="outline" onClick={onCancel}>
           Cancel
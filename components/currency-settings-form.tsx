@@ -0,0 +1,183 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { formatMoney, isSupportedLocale } from "@/lib/money"
+import type { CurrencySettings, UpdateCafeSettingsRequest } from "@/lib/api"
+
+interface CurrencySettingsFormProps {
+  currency: CurrencySettings
+  onSubmit: (settings: UpdateCafeSettingsRequest) => Promise<void>
+  isLoading: boolean
+  disabled?: boolean
+  serverErrors?: Record<string, string>
+}
+
+export function CurrencySettingsForm({
+  currency,
+  onSubmit,
+  isLoading,
+  disabled = false,
+  serverErrors,
+}: CurrencySettingsFormProps) {
+  const [code, setCode] = useState(currency.code)
+  const [symbol, setSymbol] = useState(currency.symbol)
+  const [symbolPosition, setSymbolPosition] = useState(currency.symbolPosition)
+  const [decimals, setDecimals] = useState(String(currency.decimals))
+  const [locale, setLocale] = useState(currency.locale)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // Show the saved currency once it has loaded or changed
+  useEffect(() => {
+    setCode(currency.code)
+    setSymbol(currency.symbol)
+    setSymbolPosition(currency.symbolPosition)
+    setDecimals(String(currency.decimals))
+    setLocale(currency.locale)
+  }, [currency])
+
+  // Show validation errors returned by the server next to the matching fields
+  useEffect(() => {
+    if (serverErrors) {
+      setErrors((prev) => ({ ...prev, ...serverErrors }))
+    }
+  }, [serverErrors])
+
+  const isValidDecimals = ["0", "1", "2", "3"].includes(decimals.trim())
+  const draft: CurrencySettings = {
+    code: code.trim().toUpperCase(),
+    symbol: symbol.trim(),
+    symbolPosition,
+    decimals: isValidDecimals ? Number(decimals) : currency.decimals,
+    locale: locale.trim(),
+  }
+
+  // Validate form before submission
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {}
+
+    if (!/^[A-Z]{3}$/.test(draft.code)) {
+      newErrors["currency.code"] = "Currency code must be 3 letters, e.g. EGP"
+    }
+
+    if (!draft.symbol) {
+      newErrors["currency.symbol"] = "Currency symbol is required"
+    }
+
+    if (!isValidDecimals) {
+      newErrors["currency.decimals"] = "Decimals must be between 0 and 3"
+    }
+
+    if (!isSupportedLocale(draft.locale)) {
+      newErrors["currency.locale"] = "Unknown locale"
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) return
+
+    await onSubmit({ currency: draft })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-1">
+          <Label htmlFor="currency-code">Currency Code</Label>
+          <Input
+            id="currency-code"
+            placeholder="e.g. EGP"
+            maxLength={3}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={disabled}
+            className={`uppercase ${errors["currency.code"] ? "border-red-500" : ""}`}
+          />
+          {errors["currency.code"] && <p className="text-xs text-red-500">{errors["currency.code"]}</p>}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="currency-symbol">Symbol</Label>
+          <Input
+            id="currency-symbol"
+            placeholder="e.g. EGP or $"
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value)}
+            disabled={disabled}
+            className={errors["currency.symbol"] ? "border-red-500" : ""}
+          />
+          {errors["currency.symbol"] && <p className="text-xs text-red-500">{errors["currency.symbol"]}</p>}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="currency-position">Symbol Position</Label>
+          <Select
+            value={symbolPosition}
+            onValueChange={(value) => setSymbolPosition(value as CurrencySettings["symbolPosition"])}
+            disabled={disabled}
+          >
+            <SelectTrigger id="currency-position">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="before">Before the amount</SelectItem>
+              <SelectItem value="after">After the amount</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-1">
+          <Label htmlFor="currency-decimals">Decimals</Label>
+          <Input
+            id="currency-decimals"
+            type="number"
+            min="0"
+            max="3"
+            value={decimals}
+            onChange={(e) => setDecimals(e.target.value)}
+            disabled={disabled}
+            className={errors["currency.decimals"] ? "border-red-500" : ""}
+          />
+          {errors["currency.decimals"] && <p className="text-xs text-red-500">{errors["currency.decimals"]}</p>}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="currency-locale">Number Format</Label>
+          <Input
+            id="currency-locale"
+            placeholder="e.g. en-EG"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value)}
+            disabled={disabled}
+            className={errors["currency.locale"] ? "border-red-500" : ""}
+          />
+          {errors["currency.locale"] && <p className="text-xs text-red-500">{errors["currency.locale"]}</p>}
+        </div>
+        <div className="space-y-1">
+          <Label>Preview</Label>
+          <p className="py-2 text-sm font-medium">{formatMoney(1234.5, draft)}</p>
+        </div>
+      </div>
+
+      {!disabled && (
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Saving..." : "Save Currency"}
+          </Button>
+        </div>
+      )}
+    </form>
+  )
+}
+
+export default CurrencySettingsForm
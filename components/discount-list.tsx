@@ -0,0 +1,29 @@
+"use client"
+
+import useMoney from "@/hooks/use-money"
+import { cn } from "@/lib/utils"
+import type { AppliedDiscount } from "@/lib/api"
+
+interface DiscountListProps {
+  discounts?: AppliedDiscount[]
+  className?: string
+}
+
+export function DiscountList({ discounts, className }: DiscountListProps) {
+  const { formatMoney } = useMoney()
+
+  if (!discounts || discounts.length === 0) {
+    return null
+  }
+  return (
+    <ul className={cn("text-xs text-green-700", className)}>
+      {discounts.map((discount) => (
+        <li key={discount.ruleId}>
+          {discount.name} -{formatMoney(discount.amount)}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default DiscountList
@@ -0,0 +1,110 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import type { ManualDiscountRequest, ManualDiscountType } from "@/lib/api"
+
+interface ManualDiscountFormProps {
+  /** Asks for a manager's PIN; managers approve their own discounts */
+  requiresApproval: boolean
+  isSaving?: boolean
+  /** Called with the discount, and the PIN if approval is required */
+  onSubmit: (discount: Omit<ManualDiscountRequest, "approvalToken">, pin?: string) => Promise<void>
+  onCancel: () => void
+}
+
+export function ManualDiscountForm({
+  requiresApproval,
+  isSaving = false,
+  onSubmit,
+  onCancel,
+}: ManualDiscountFormProps) {
+  const [type, setType] = useState<ManualDiscountType>("percentage")
+  const [value, setValue] = useState("")
+  const [reason, setReason] = useState("")
+  const [pin, setPin] = useState("")
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const handleSubmit = async () => {
+    const amount = Number.parseFloat(value)
+    const newErrors: Record<string, string> = {}
+    if (!(amount > 0) || (type === "percentage" && amount > 100)) {
+      newErrors.value = type === "percentage" ? "Enter a percentage between 0 and 100" : "Enter an amount"
+    }
+    if (!reason.trim()) {
+      newErrors.reason = "Give a reason for the discount"
+    }
+    if (requiresApproval && pin.length < 4) {
+      newErrors.pin = "A manager needs to enter their PIN"
+    }
+    setErrors(newErrors)
+    if (Object.keys(newErrors).length > 0) return
+
+    await onSubmit({ type, value: amount, reason: reason.trim() }, requiresApproval ? pin : undefined)
+    setPin("")
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <h3 className="font-medium">Manual Discount</h3>
+      <RadioGroup
+        value={type}
+        onValueChange={(next) => setType(next as ManualDiscountType)}
+        className="flex gap-6"
+      >
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="percentage" id="discount-percentage" />
+          <Label htmlFor="discount-percentage" className="font-normal">
+            Percentage
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="fixed" id="discount-fixed" />
+          <Label htmlFor="discount-fixed" className="font-normal">
+            Amount
+          </Label>
+        </div>
+      </RadioGroup>
+      <div className="grid grid-cols-[120px_1fr] gap-2">
+        <Input
+          type="number"
+          step={type === "percentage" ? "1" : "0.01"}
+          min="0"
+          placeholder={type === "percentage" ? "%" : "0.00"}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+        <Input placeholder="Reason, e.g. long wait" value={reason} onChange={(e) => setReason(e.target.value)} />
+      </div>
+      {(errors.value || errors.reason) && <p className="text-xs text-red-500">{errors.value || errors.reason}</p>}
+      {requiresApproval && (
+        <div className="space-y-1">
+          <Label htmlFor="manager-pin">Manager PIN</Label>
+          <Input
+            id="manager-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            className="w-32"
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+          />
+          {errors.pin && <p className="text-xs text-red-500">{errors.pin}</p>}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={isSaving}>
+          {requiresApproval ? "Approve Discount" : "Apply Discount"}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default ManualDiscountForm
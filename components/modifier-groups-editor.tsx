@@ -0,0 +1,138 @@
+"use client"
+
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { createModifierId } from "@/lib/modifiers"
+import type { ModifierGroup, ModifierOption } from "@/lib/api"
+
+interface ModifierGroupsEditorProps {
+  value: ModifierGroup[]
+  onChange: (groups: ModifierGroup[]) => void
+  error?: string
+}
+
+export function ModifierGroupsEditor({ value, onChange, error }: ModifierGroupsEditorProps) {
+  const updateGroup = (groupId: string, changes: Partial<ModifierGroup>) => {
+    onChange(value.map((group) => (group.id === groupId ? { ...group, ...changes } : group)))
+  }
+
+  const updateOption = (group: ModifierGroup, optionId: string, changes: Partial<ModifierOption>) => {
+    updateGroup(group.id, {
+      options: group.options.map((option) => (option.id === optionId ? { ...option, ...changes } : option)),
+    })
+  }
+
+  const addGroup = () => {
+    onChange([
+      ...value,
+      {
+        id: createModifierId(),
+        name: "",
+        selection: "single",
+        required: false,
+        options: [{ id: createModifierId(), name: "", priceDelta: 0 }],
+      },
+    ])
+  }
+
+  const addOption = (group: ModifierGroup) => {
+    updateGroup(group.id, { options: [...group.options, { id: createModifierId(), name: "", priceDelta: 0 }] })
+  }
+
+  return (
+    <div className="space-y-3">
+      {value.map((group) => (
+        <div key={group.id} className="space-y-3 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Group name, e.g. Size"
+              value={group.name}
+              onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter((candidate) => candidate.id !== group.id))}
+            >
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Remove group</span>
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <Select
+              value={group.selection}
+              onValueChange={(selection) => updateGroup(group.id, { selection: selection as ModifierGroup["selection"] })}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="single">Pick one</SelectItem>
+                <SelectItem value="multiple">Pick any</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`required-${group.id}`}
+                checked={group.required}
+                onCheckedChange={(required) => updateGroup(group.id, { required })}
+              />
+              <Label htmlFor={`required-${group.id}`}>Required</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {group.options.map((option) => (
+              <div key={option.id} className="flex items-center gap-2">
+                <Input
+                  placeholder="Option name"
+                  value={option.name}
+                  onChange={(e) => updateOption(group, option.id, { name: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="+0.00"
+                  className="w-24"
+                  value={option.priceDelta || ""}
+                  onChange={(e) =>
+                    updateOption(group, option.id, { priceDelta: Number.parseFloat(e.target.value) || 0 })
+                  }
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    updateGroup(group.id, { options: group.options.filter((candidate) => candidate.id !== option.id) })
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove option</span>
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="ghost" size="sm" onClick={() => addOption(group)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Option
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addGroup}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Modifier Group
+      </Button>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
+
+export default ModifierGroupsEditor
@@ -0,0 +1,101 @@
+"use client"
+
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import useMoney from "@/hooks/use-money"
+import { formatPriceDelta } from "@/lib/modifiers"
+import type { ModifierGroup, ModifierSelection, Product } from "@/lib/api"
+
+interface ModifierSelectorProps {
+  product: Product
+  value: ModifierSelection[]
+  onChange: (value: ModifierSelection[]) => void
+  /** Error message per group ID, see validateModifierSelection */
+  errors?: Record<string, string>
+}
+
+export function ModifierSelector({ product, value, onChange, errors = {} }: ModifierSelectorProps) {
+  const { currency } = useMoney()
+  const isSelected = (groupId: string, optionId: string) =>
+    value.some((selection) => selection.groupId === groupId && selection.optionId === optionId)
+
+  // Replace the choice of a single-select group
+  const selectOption = (group: ModifierGroup, optionId: string) => {
+    onChange([...value.filter((selection) => selection.groupId !== group.id), { groupId: group.id, optionId }])
+  }
+
+  // Toggle an option of a multi-select group
+  const toggleOption = (group: ModifierGroup, optionId: string, checked: boolean) => {
+    const others = value.filter((selection) => !(selection.groupId === group.id && selection.optionId === optionId))
+    onChange(checked ? [...others, { groupId: group.id, optionId }] : others)
+  }
+
+  return (
+    <div className="space-y-4">
+      {(product.modifierGroups || []).map((group) => {
+        const selected = value.find((selection) => selection.groupId === group.id)
+
+        return (
+          <div key={group.id} className="space-y-2">
+            <div className="flex items-baseline justify-between">
+              <h4 className="font-medium">{group.name}</h4>
+              <span className="text-xs text-muted-foreground">
+                {group.required ? "Required" : "Optional"}
+                {group.selection === "multiple" && " · pick any"}
+              </span>
+            </div>
+
+            {group.selection === "single" ? (
+              <RadioGroup value={selected?.optionId ?? ""} onValueChange={(optionId) => selectOption(group, optionId)}>
+                {group.options.map((option) => (
+                  <div key={option.id} className="flex items-center gap-2">
+                    <RadioGroupItem value={option.id} id={`${product.id}-${group.id}-${option.id}`} />
+                    <Label htmlFor={`${product.id}-${group.id}-${option.id}`} className="flex-1 font-normal">
+                      {option.name}
+                    </Label>
+                    <span className="text-sm text-muted-foreground">
+                      {formatPriceDelta(option.priceDelta, currency)}
+                    </span>
+                  </div>
+                ))}
+                {/* Optional groups can be cleared again */}
+                {!group.required && selected && (
+                  <button
+                    type="button"
+                    className="w-fit text-xs text-muted-foreground underline"
+                    onClick={() => onChange(value.filter((selection) => selection.groupId !== group.id))}
+                  >
+                    Clear
+                  </button>
+                )}
+              </RadioGroup>
+            ) : (
+              <div className="grid gap-2">
+                {group.options.map((option) => (
+                  <div key={option.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`${product.id}-${group.id}-${option.id}`}
+                      checked={isSelected(group.id, option.id)}
+                      onCheckedChange={(checked) => toggleOption(group, option.id, checked === true)}
+                    />
+                    <Label htmlFor={`${product.id}-${group.id}-${option.id}`} className="flex-1 font-normal">
+                      {option.name}
+                    </Label>
+                    <span className="text-sm text-muted-foreground">
+                      {formatPriceDelta(option.priceDelta, currency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {errors[group.id] && <p className="text-xs text-red-500">{errors[group.id]}</p>}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default ModifierSelector
@@ -0,0 +1,135 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Order, Table } from "@/lib/api"
+import { formatModifiers } from "@/lib/modifiers"
+import { getOrderLocation } from "@/lib/order-types"
+
+/** Transfer the order, merge the orders of another table into its table, or split items off */
+export type MoveKind = "transfer" | "merge" | "split"
+
+/** What the form collects; items are only selected when splitting */
+export interface MoveOrderFormValues {
+  tableId: number | null
+  itemIds: number[]
+}
+
+interface MoveOrderFormProps {
+  kind: MoveKind
+  order: Order
+  tables: Table[]
+  isSaving?: boolean
+  onSubmit: (values: MoveOrderFormValues) => Promise<void>
+  onCancel: () => void
+}
+
+// Splitting keeps the new order on the same table unless another one is chosen
+const SAME_TABLE = "same"
+
+export function MoveOrderForm({ kind, order, tables, isSaving = false, onSubmit, onCancel }: MoveOrderFormProps) {
+  const [tableId, setTableId] = useState<number | null>(null)
+  const [itemIds, setItemIds] = useState<number[]>([])
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const otherTables = tables.filter((table) => table.id !== order.tableId)
+  const items = order.items.filter((item) => !item.voided)
+  const location = getOrderLocation(order)
+
+  const toggleItem = (itemId: number) => {
+    setItemIds((current) => (current.includes(itemId) ? current.filter((id) => id !== itemId) : [...current, itemId]))
+  }
+
+  const handleSubmit = async () => {
+    const newErrors: Record<string, string> = {}
+    if (kind !== "split" && !tableId) {
+      newErrors.tableId = "Choose a table"
+    }
+    if (kind === "split") {
+      if (itemIds.length === 0) {
+        newErrors.itemIds = "Select the items to move"
+      } else if (itemIds.length === items.length) {
+        newErrors.itemIds = "Leave at least one item on the order"
+      }
+    }
+    setErrors(newErrors)
+    if (Object.keys(newErrors).length > 0) return
+
+    await onSubmit({ tableId, itemIds })
+  }
+
+  const titles: Record<MoveKind, string> = {
+    transfer: `Move order #${order.id} to another table`,
+    merge: `Merge another table into ${location}`,
+    split: `Split order #${order.id}`,
+  }
+  const descriptions: Record<MoveKind, string> = {
+    transfer: "The order and everything on it moves with the guests.",
+    merge: `All open orders of both tables become one order on ${location}. The other table is freed.`,
+    split: "The selected items move to a new order, e.g. for a guest who pays separately or changes tables.",
+  }
+  const actions: Record<MoveKind, string> = { transfer: "Move Order", merge: "Merge Tables", split: "Split Order" }
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div>
+        <h3 className="font-medium">{titles[kind]}</h3>
+        <p className="text-sm text-muted-foreground">{descriptions[kind]}</p>
+      </div>
+      {kind === "split" && (
+        <div className="space-y-1">
+          <Label>Items to move</Label>
+          <div className="space-y-2">
+            {items.map((item) => (
+              <label key={item.id} className="flex items-start gap-2 text-sm">
+                <Checkbox checked={itemIds.includes(item.id)} onCheckedChange={() => toggleItem(item.id)} />
+                <span>
+                  {item.quantity} × {item.productName}
+                  {item.modifiers && item.modifiers.length > 0 && (
+                    <span className="block text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</span>
+                  )}
+                </span>
+              </label>
+            ))}
+          </div>
+          {errors.itemIds && <p className="text-xs text-red-500">{errors.itemIds}</p>}
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label htmlFor="move-table">
+          {kind === "merge" ? "Table joining" : kind === "split" ? "Table of the new order" : "New table"}
+        </Label>
+        <Select
+          value={tableId ? String(tableId) : kind === "split" ? SAME_TABLE : ""}
+          onValueChange={(value) => setTableId(value === SAME_TABLE ? null : Number(value))}
+        >
+          <SelectTrigger id="move-table" className="w-60">
+            <SelectValue placeholder="Choose a table" />
+          </SelectTrigger>
+          <SelectContent>
+            {kind === "split" && <SelectItem value={SAME_TABLE}>Same as this order ({location})</SelectItem>}
+            {otherTables.map((table) => (
+              <SelectItem key={table.id} value={String(table.id)}>
+                {table.name} ({table.status})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {errors.tableId && <p className="text-xs text-red-500">{errors.tableId}</p>}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={isSaving}>
+          {actions[kind]}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default MoveOrderForm
@@ -3,33 +3,174 @@
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { Badge } from "@/components/ui/badge"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import type { Order, Product } from "@/lib/api"
+import { AdjustmentForm, type AdjustmentFormValues } from "@/components/adjustment-form"
+import { DiscountList } from "@/components/discount-list"
+import { ManualDiscountForm } from "@/components/manual-discount-form"
+import { MoveOrderForm, type MoveKind, type MoveOrderFormValues } from "@/components/move-order-form"
+import { ModifierSelector } from "@/components/modifier-selector"
+import { PromoCodeField } from "@/components/promo-code-field"
+import { StatusBadge } from "@/components/status-badge"
+import useMoney from "@/hooks/use-money"
+import {
+  ITEM_NOTE_MAX_LENGTH,
+  ORDER_NOTE_MAX_LENGTH,
+  type AddOrderItemRequest,
+  type AdjustmentKind,
+  type ManualDiscountRequest,
+  type ModifierSelection,
+  type Order,
+  type OrderStatus,
+  type Product,
+  type Table as TableType,
+  type UserRole,
+} from "@/lib/api"
+import {
+  canRefundItem,
+  canRefundOrder,
+  canVoidItem,
+  canVoidOrder,
+  describeAdjustment,
+  getItemRefundAmount,
+  getReasonLabel,
+  getRefundableAmount,
+} from "@/lib/adjustments"
+import {
+  canChangeItems as canChangeOrderItems,
+  getAllowedTransitions,
+  getStatusHistory,
+  getStatusInfo,
+  isManagerRole,
+} from "@/lib/order-lifecycle"
+import { formatModifiers, getDefaultSelection, validateModifierSelection } from "@/lib/modifiers"
+import { getOrderLocation } from "@/lib/order-types"
+import { getBalance, getLineTotal } from "@/lib/payments"
+import { describeManualDiscount } from "@/lib/pricing"
+import { canSplitOrder, canTransferOrder } from "@/lib/table-moves"
+import { describeTax, getOrderTotals } from "@/lib/totals"
 
 interface OrderDetailsProps {
   order: Order
   products: Product[]
-  onUpdateStatus: (orderId: number, status: string) => Promise<void>
-  onAddItem?: (orderId: number, productId: number, quantity: number) => Promise<void>
-  onRemoveItem?: (orderId: number, itemId: number) => Promise<void>
+  /** Role of the current user; only the status changes it may perform are offered */
+  userRole?: UserRole
+  /** Disables the actions while a change is being saved */
+  isUpdating?: boolean
+  onUpdateStatus: (orderId: number, status: OrderStatus) => Promise<void>
+  onAddItem?: (orderId: number, item: AddOrderItemRequest) => Promise<void>
+  onUpdateNote?: (orderId: number, note: string) => Promise<void>
+  onUpdateItemNote?: (orderId: number, itemId: number, note: string) => Promise<void>
+  /** Applies a promo code, or removes it with null; resolves to false if the code was rejected */
+  onApplyPromoCode?: (orderId: number, promoCode: string | null) => Promise<boolean>
+  /** Grants a manual discount; staff pass the PIN of the approving manager */
+  onSetManualDiscount?: (
+    orderId: number,
+    discount: Omit<ManualDiscountRequest, "approvalToken">,
+    pin?: string,
+  ) => Promise<boolean>
+  onRemoveManualDiscount?: (orderId: number) => Promise<void>
+  /** Voids the whole order, or the item, before payment; staff pass the PIN of the approving manager */
+  onVoid?: (orderId: number, itemId: number | null, values: AdjustmentFormValues, pin?: string) => Promise<boolean>
+  /** Refunds the whole order, or the item, after payment; staff pass the PIN of the approving manager */
+  onRefund?: (orderId: number, itemId: number | null, values: AdjustmentFormValues, pin?: string) => Promise<boolean>
+  /** Opens the checkout; offered while the order has a balance */
+  onTakePayment?: (order: Order) => void
+  onPrintReceipt?: (order: Order) => void
+  /** Sends the items to the bar and kitchen printers */
+  onPrintKitchenTickets?: (order: Order) => void
+  /** Disables the print buttons while a ticket is being printed */
+  isPrinting?: boolean
+  /** Tables to move, merge or split the order to */
+  tables?: TableType[]
+  /** Moves the order to another table; resolves to false if it failed */
+  onTransfer?: (orderId: number, tableId: number) => Promise<boolean>
+  /** Merges all open orders of the first table into the second */
+  onMergeTables?: (fromTableId: number, toTableId: number) => Promise<boolean>
+  /** Moves the items to a new order, on another table if one is given */
+  onSplit?: (orderId: number, itemIds: number[], tableId?: number) => Promise<boolean>
   onClose: () => void
-  onDelete?: () => void
 }
 
 export function OrderDetails({
   order,
   products,
+  userRole,
+  isUpdating = false,
   onUpdateStatus,
   onAddItem,
-  onRemoveItem,
+  onUpdateNote,
+  onUpdateItemNote,
+  onApplyPromoCode,
+  onSetManualDiscount,
+  onRemoveManualDiscount,
+  onVoid,
+  onRefund,
+  onTakePayment,
+  onPrintReceipt,
+  onPrintKitchenTickets,
+  isPrinting = false,
+  tables = [],
+  onTransfer,
+  onMergeTables,
+  onSplit,
   onClose,
-  onDelete,
 }: OrderDetailsProps) {
   const [selectedProduct, setSelectedProduct] = useState<number | null>(null)
   const [selectedQuantity, setSelectedQuantity] = useState<number>(1)
+  const [selectedModifiers, setSelectedModifiers] = useState<ModifierSelection[]>([])
+  const [selectedNote, setSelectedNote] = useState("")
+  // Note being edited: the order note, or the note of one item
+  const [editingNote, setEditingNote] = useState<{ itemId: number | null; text: string } | null>(null)
+  const [modifierErrors, setModifierErrors] = useState<Record<string, string>>({})
+  const [isDiscountFormOpen, setIsDiscountFormOpen] = useState(false)
+  // Void or refund being entered: of the whole order, or of one item
+  const [adjusting, setAdjusting] = useState<{ kind: AdjustmentKind; itemId: number | null } | null>(null)
+  const [moving, setMoving] = useState<MoveKind | null>(null)
+  const { currency, formatMoney } = useMoney()
+
+  const product = products.find((p) => p.id === selectedProduct)
+
+  // Select a product, preselecting its required options
+  const handleSelectProduct = (productId: number) => {
+    const next = products.find((p) => p.id === productId)
+    setSelectedProduct(productId)
+    setSelectedModifiers(next ? getDefaultSelection(next) : [])
+    setModifierErrors({})
+  }
+
+  // Add the selected product with its options
+  const handleAddItem = async () => {
+    if (!product || !onAddItem) return
+
+    const selectionErrors = validateModifierSelection(product, selectedModifiers)
+    if (Object.keys(selectionErrors).length > 0) {
+      setModifierErrors(selectionErrors)
+      return
+    }
+
+    await onAddItem(order.id, {
+      productId: product.id,
+      quantity: selectedQuantity,
+      modifiers: selectedModifiers,
+      note: selectedNote.trim() || undefined,
+    })
+    setSelectedNote("")
+  }
+
+  // Save the note being edited
+  const handleSaveNote = async () => {
+    if (!editingNote) return
+
+    if (editingNote.itemId === null) {
+      await onUpdateNote?.(order.id, editingNote.text.trim())
+    } else {
+      await onUpdateItemNote?.(order.id, editingNote.itemId, editingNote.text.trim())
+    }
+    setEditingNote(null)
+  }
 
   // Format date/time
   const formatDateTime = (dateString: string): string => {
@@ -37,53 +178,57 @@ export function OrderDetails({
     return date.toLocaleString()
   }
 
-  // Get status badge
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "new":
-        return <Badge className="bg-blue-500">New</Badge>
-      case "preparing":
-        return <Badge className="bg-yellow-500">Preparing</Badge>
-      case "ready":
-        return <Badge className="bg-green-500">Ready</Badge>
-      case "delivered":
-        return <Badge className="bg-purple-500">Delivered</Badge>
-      case "paid":
-        return <Badge className="bg-gray-500">Paid</Badge>
-      default:
-        return <Badge>Unknown</Badge>
+  const transitions = getAllowedTransitions(order.status, userRole)
+  const history = getStatusHistory(order)
+  // Notes stay editable until the order is closed
+  const canEditNotes = getStatusInfo(order.status).isOpen
+  const balance = getBalance(order)
+  const amountPaid = order.amountPaid ?? 0
+  // Discounts can be changed until the order is paid
+  const canDiscount = order.status !== "paid"
+  // Items can be added until the kitchen has started on the order; they are taken back through voids
+  const canChangeItems = canChangeOrderItems(order.status)
+  const totals = getOrderTotals(order)
+  const addedTaxes = totals.taxIncluded ? [] : totals.taxes
+
+  const handleSetManualDiscount = async (discount: Omit<ManualDiscountRequest, "approvalToken">, pin?: string) => {
+    if (await onSetManualDiscount?.(order.id, discount, pin)) {
+      setIsDiscountFormOpen(false)
+    }
+  }
+
+  const adjustingItem = order.items.find((item) => item.id === adjusting?.itemId)
+  const adjustments = order.adjustments ?? []
+  const refundedAmount = order.refundedAmount ?? 0
+
+  // What the void or refund being entered takes back
+  const getAdjustingAmount = (): number => {
+    if (adjusting?.kind === "refund") {
+      return adjustingItem ? getItemRefundAmount(order, adjustingItem, currency.decimals) : getRefundableAmount(order)
     }
+    return adjustingItem ? getLineTotal(adjustingItem) : order.total
   }
 
-  // Get next status based on current status
-  const getNextStatus = (currentStatus: string): string | null => {
-    switch (currentStatus) {
-      case "new":
-        return "preparing"
-      case "preparing":
-        return "ready"
-      case "ready":
-        return "delivered"
-      case "delivered":
-        return "paid"
-      default:
-        return null
+  const handleAdjust = async (values: AdjustmentFormValues, pin?: string) => {
+    if (!adjusting) return
+
+    const submit = adjusting.kind === "void" ? onVoid : onRefund
+    if (await submit?.(order.id, adjusting.itemId, values, pin)) {
+      setAdjusting(null)
     }
   }
 
-  // Get next status button label
-  const getNextStatusLabel = (currentStatus: string): string => {
-    switch (currentStatus) {
-      case "new":
-        return "Start Preparing"
-      case "preparing":
-        return "Mark as Ready"
-      case "ready":
-        return "Mark as Delivered"
-      case "delivered":
-        return "Mark as Paid"
-      default:
-        return "Update Status"
+  const handleMove = async ({ tableId, itemIds }: MoveOrderFormValues) => {
+    let moved: boolean | undefined
+    if (moving === "transfer" && tableId) {
+      moved = await onTransfer?.(order.id, tableId)
+    } else if (moving === "merge" && tableId && order.tableId) {
+      moved = await onMergeTables?.(tableId, order.tableId)
+    } else if (moving === "split") {
+      moved = await onSplit?.(order.id, itemIds, tableId ?? undefined)
+    }
+    if (moved) {
+      setMoving(null)
     }
   }
 
@@ -93,12 +238,89 @@ export function OrderDetails({
         <div>
           <h3 className="text-lg font-semibold">Order #{order.id}</h3>
           <p className="text-sm text-muted-foreground">
-            Table {order.tableId} • {formatDateTime(order.createdAt)}
+            {getOrderLocation(order)} • {formatDateTime(order.orderDate)}
           </p>
+          {order.guestName && (
+            <p className="text-sm text-muted-foreground">
+              Guest: <strong>{order.guestName}</strong>
+            </p>
+          )}
+          {order.customer && (
+            <p className="text-sm text-muted-foreground">
+              Phone: <strong>{order.customer.phone}</strong>
+              {order.customer.address && ` • ${order.customer.address}`}
+            </p>
+          )}
+          {order.pickupTime && (
+            <p className="text-sm text-muted-foreground">
+              Pickup: <strong>{formatDateTime(order.pickupTime)}</strong>
+            </p>
+          )}
+          {order.readyAt && !order.pickupTime && (
+            <p className="text-sm text-muted-foreground">
+              Ready at: <strong>{formatDateTime(order.readyAt)}</strong>
+            </p>
+          )}
+          {order.mergedOrderIds && order.mergedOrderIds.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Merged from {order.mergedOrderIds.map((id) => `#${id}`).join(", ")}
+            </p>
+          )}
+          {order.status === "scheduled" && order.fireAt && (
+            <p className="text-sm text-cyan-700">Goes to the kitchen at {formatDateTime(order.fireAt)}</p>
+          )}
         </div>
-        <div>{getStatusBadge(order.status)}</div>
+        <StatusBadge status={order.status} />
       </div>
 
+      {/* Order note */}
+      {editingNote?.itemId === null ? (
+        <div className="space-y-2">
+          <Label htmlFor="order-note">Order Note</Label>
+          <Textarea
+            id="order-note"
+            maxLength={ORDER_NOTE_MAX_LENGTH}
+            value={editingNote.text}
+            onChange={(e) => setEditingNote({ itemId: null, text: e.target.value })}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setEditingNote(null)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSaveNote} disabled={isUpdating}>
+              Save Note
+            </Button>
+          </div>
+        </div>
+      ) : order.note ? (
+        <div className="flex items-start justify-between gap-4 rounded-md border border-amber-300 bg-amber-50 p-3">
+          <p className="text-sm font-medium text-amber-900">
+            <span className="uppercase">Note:</span> {order.note}
+          </p>
+          {onUpdateNote && canEditNotes && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setEditingNote({ itemId: null, text: order.note || "" })}
+            >
+              Edit
+            </Button>
+          )}
+        </div>
+      ) : (
+        onUpdateNote &&
+        canEditNotes && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-fit"
+            onClick={() => setEditingNote({ itemId: null, text: "" })}
+          >
+            Add Order Note
+          </Button>
+        )
+      )}
+
       <div className="border rounded-md">
         <Table>
           <TableHeader>
@@ -112,33 +334,238 @@ export function OrderDetails({
           </TableHeader>
           <TableBody>
             {order.items.map((item) => (
-              <TableRow key={item.id}>
-                <TableCell>{item.productName}</TableCell>
-                <TableCell className="text-right">{item.quantity}</TableCell>
-                <TableCell className="text-right">${item.price.toFixed(2)}</TableCell>
-                <TableCell className="text-right">${(item.price * item.quantity).toFixed(2)}</TableCell>
+              <TableRow key={item.id} className={item.voided ? "text-muted-foreground" : undefined}>
                 <TableCell>
-                  {order.status === "new" && onRemoveItem && (
-                    <Button variant="ghost" size="sm" onClick={() => onRemoveItem(order.id, item.id)}>
-                      Remove
+                  <span className={item.voided ? "line-through" : undefined}>{item.productName}</span>
+                  {item.voided && <span className="ml-2 text-xs font-semibold uppercase text-red-600">Voided</span>}
+                  {item.refunded && (
+                    <span className="ml-2 text-xs font-semibold uppercase text-red-600">Refunded</span>
+                  )}
+                  {item.modifiers && item.modifiers.length > 0 && (
+                    <p className="text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                  )}
+                  {editingNote?.itemId === item.id ? (
+                    <div className="mt-1 flex items-center gap-2">
+                      <Input
+                        className="h-8"
+                        placeholder="Special instructions"
+                        maxLength={ITEM_NOTE_MAX_LENGTH}
+                        value={editingNote.text}
+                        onChange={(e) => setEditingNote({ itemId: item.id, text: e.target.value })}
+                      />
+                      <Button size="sm" onClick={handleSaveNote} disabled={isUpdating}>
+                        Save
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setEditingNote(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    item.note && <p className="text-xs font-semibold text-amber-700">Note: {item.note}</p>
+                  )}
+                  <DiscountList discounts={item.discounts} />
+                </TableCell>
+                <TableCell className="text-right">{item.quantity}</TableCell>
+                <TableCell className="text-right">{formatMoney(item.price)}</TableCell>
+                <TableCell className={`text-right ${item.voided ? "line-through" : ""}`}>
+                  {!item.voided && getLineTotal(item) < item.price * item.quantity && (
+                    <span className="mr-1 text-xs text-muted-foreground line-through">
+                      {formatMoney(item.price * item.quantity)}
+                    </span>
+                  )}
+                  {formatMoney(item.voided ? item.price * item.quantity : getLineTotal(item))}
+                </TableCell>
+                <TableCell className="whitespace-nowrap text-right">
+                  {onUpdateItemNote && canEditNotes && editingNote?.itemId !== item.id && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingNote({ itemId: item.id, text: item.note || "" })}
+                    >
+                      Note
+                    </Button>
+                  )}
+                  {onVoid && canVoidItem(order, item) && (
+                    <Button variant="ghost" size="sm" onClick={() => setAdjusting({ kind: "void", itemId: item.id })}>
+                      Void
+                    </Button>
+                  )}
+                  {onRefund && canRefundItem(order, item) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setAdjusting({ kind: "refund", itemId: item.id })}
+                    >
+                      Refund
                     </Button>
                   )}
                 </TableCell>
               </TableRow>
             ))}
+            {(totals.discountTotal > 0 || totals.serviceCharge > 0 || addedTaxes.length > 0) && (
+              <>
+                <TableRow>
+                  <TableCell colSpan={3} className="text-right text-muted-foreground">
+                    Subtotal
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">{formatMoney(totals.subtotal)}</TableCell>
+                  <TableCell></TableCell>
+                </TableRow>
+                {totals.ruleDiscount > 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-right text-green-700">
+                      Discounts{order.promoCode && ` (code ${order.promoCode})`}
+                    </TableCell>
+                    <TableCell className="text-right text-green-700">-{formatMoney(totals.ruleDiscount)}</TableCell>
+                    <TableCell></TableCell>
+                  </TableRow>
+                )}
+                {order.manualDiscount && totals.manualDiscount > 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-right text-green-700">
+                      {describeManualDiscount(order.manualDiscount, currency)}: {order.manualDiscount.reason}
+                      {order.manualDiscount.approvedBy && (
+                        <span className="block text-xs text-muted-foreground">
+                          Approved by {order.manualDiscount.approvedBy.name}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-green-700">-{formatMoney(totals.manualDiscount)}</TableCell>
+                    <TableCell className="text-right">
+                      {onRemoveManualDiscount && canDiscount && (
+                        <Button variant="ghost" size="sm" onClick={() => onRemoveManualDiscount(order.id)}>
+                          Remove
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {totals.serviceCharge > 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-right text-muted-foreground">
+                      Service charge
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatMoney(totals.serviceCharge)}
+                    </TableCell>
+                    <TableCell></TableCell>
+                  </TableRow>
+                )}
+                {addedTaxes.map((tax) => (
+                  <TableRow key={describeTax(tax)}>
+                    <TableCell colSpan={3} className="text-right text-muted-foreground">
+                      {describeTax(tax)}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">{formatMoney(tax.amount)}</TableCell>
+                    <TableCell></TableCell>
+                  </TableRow>
+                ))}
+              </>
+            )}
             <TableRow>
               <TableCell colSpan={3} className="text-right font-medium">
                 Total
               </TableCell>
-              <TableCell className="text-right font-bold">${order.total.toFixed(2)}</TableCell>
+              <TableCell className="text-right font-bold">{formatMoney(order.total)}</TableCell>
               <TableCell></TableCell>
             </TableRow>
+            {totals.taxIncluded &&
+              totals.taxes.map((tax) => (
+                <TableRow key={describeTax(tax)}>
+                  <TableCell colSpan={3} className="text-right text-xs text-muted-foreground">
+                    Includes {describeTax(tax)} on {formatMoney(tax.taxableAmount)}
+                  </TableCell>
+                  <TableCell className="text-right text-xs text-muted-foreground">{formatMoney(tax.amount)}</TableCell>
+                  <TableCell></TableCell>
+                </TableRow>
+              ))}
+            {amountPaid > 0 && (
+              <>
+                <TableRow>
+                  <TableCell colSpan={3} className="text-right text-muted-foreground">
+                    Paid
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">-{formatMoney(amountPaid)}</TableCell>
+                  <TableCell></TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell colSpan={3} className="text-right font-medium">
+                    Balance Due
+                  </TableCell>
+                  <TableCell className="text-right font-bold">{formatMoney(balance)}</TableCell>
+                  <TableCell></TableCell>
+                </TableRow>
+              </>
+            )}
+            {refundedAmount > 0 && (
+              <TableRow>
+                <TableCell colSpan={3} className="text-right text-red-600">
+                  Refunded
+                </TableCell>
+                <TableCell className="text-right text-red-600">{formatMoney(refundedAmount)}</TableCell>
+                <TableCell></TableCell>
+              </TableRow>
+            )}
           </TableBody>
         </Table>
       </div>
 
+      {/* Promo code and manual discount */}
+      {canDiscount && (onApplyPromoCode || onSetManualDiscount) && (
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          {onApplyPromoCode && (
+            <PromoCodeField
+              value={order.promoCode}
+              onApply={(code) => onApplyPromoCode(order.id, code)}
+              onRemove={async () => {
+                await onApplyPromoCode(order.id, null)
+              }}
+              disabled={isUpdating}
+            />
+          )}
+          {onSetManualDiscount && !order.manualDiscount && !isDiscountFormOpen && (
+            <Button variant="outline" size="sm" onClick={() => setIsDiscountFormOpen(true)}>
+              Add Discount
+            </Button>
+          )}
+        </div>
+      )}
+      {canDiscount && isDiscountFormOpen && (
+        <ManualDiscountForm
+          requiresApproval={!isManagerRole(userRole)}
+          isSaving={isUpdating}
+          onSubmit={handleSetManualDiscount}
+          onCancel={() => setIsDiscountFormOpen(false)}
+        />
+      )}
+
+      {adjusting && (
+        <AdjustmentForm
+          key={`${adjusting.kind}-${adjusting.itemId}`}
+          kind={adjusting.kind}
+          target={adjustingItem ? `${adjustingItem.quantity} × ${adjustingItem.productName}` : "the whole order"}
+          amount={getAdjustingAmount()}
+          requiresApproval={!isManagerRole(userRole)}
+          isSaving={isUpdating}
+          onSubmit={handleAdjust}
+          onCancel={() => setAdjusting(null)}
+        />
+      )}
+
+      {moving && (
+        <MoveOrderForm
+          key={moving}
+          kind={moving}
+          order={order}
+          tables={tables}
+          isSaving={isUpdating}
+          onSubmit={handleMove}
+          onCancel={() => setMoving(null)}
+        />
+      )}
+
       {/* Add item to order (only for new orders) */}
-      {order.status === "new" && onAddItem && (
+      {canChangeItems && onAddItem && (
         <div className="border rounded-md p-4">
           <h3 className="font-medium mb-2">Add Item</h3>
           <div className="flex items-end gap-2">
@@ -146,14 +573,14 @@ export function OrderDetails({
               <Label htmlFor="add-product" className="mb-2">
                 Product
               </Label>
-              <Select onValueChange={(value) => setSelectedProduct(Number(value))}>
+              <Select onValueChange={(value) => handleSelectProduct(Number(value))}>
                 <SelectTrigger id="add-product">
                   <SelectValue placeholder="Select a product" />
                 </SelectTrigger>
                 <SelectContent>
                   {products.map((product) => (
                     <SelectItem key={product.id} value={product.id.toString()}>
-                      {product.name} - ${product.price.toFixed(2)}
+                      {product.name} - {formatMoney(product.price)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -171,25 +598,170 @@ export function OrderDetails({
                 onChange={(e) => setSelectedQuantity(Number(e.target.value))}
               />
             </div>
-            <Button
-              onClick={() => selectedProduct && onAddItem(order.id, selectedProduct, selectedQuantity)}
-              disabled={!selectedProduct || selectedQuantity < 1}
-            >
+            <Button onClick={handleAddItem} disabled={!selectedProduct || selectedQuantity < 1}>
               Add
             </Button>
           </div>
+          {product?.modifierGroups && product.modifierGroups.length > 0 && (
+            <div className="mt-3 rounded-md bg-muted/50 p-3">
+              <ModifierSelector
+                product={product}
+                value={selectedModifiers}
+                onChange={(value) => {
+                  setSelectedModifiers(value)
+                  setModifierErrors({})
+                }}
+                errors={modifierErrors}
+              />
+            </div>
+          )}
+          {selectedProduct && (
+            <Input
+              className="mt-3"
+              placeholder="Special instructions, e.g. no ice"
+              maxLength={ITEM_NOTE_MAX_LENGTH}
+              value={selectedNote}
+              onChange={(e) => setSelectedNote(e.target.value)}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Voids and refunds */}
+      {adjustments.length > 0 && (
+        <div className="border rounded-md p-4">
+          <h3 className="font-medium mb-2">Voids &amp; Refunds</h3>
+          <ul className="space-y-2">
+            {adjustments.map((adjustment) => (
+              <li key={adjustment.id} className="flex items-start justify-between gap-4 text-sm">
+                <span>
+                  <span className="font-medium">{describeAdjustment(adjustment, order)}</span>
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {getReasonLabel(adjustment)}
+                    {adjustment.note && `: ${adjustment.note}`}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {formatDateTime(adjustment.createdAt)}
+                    {adjustment.createdBy && ` by ${adjustment.createdBy.name}`}
+                    {adjustment.approvedBy && `, approved by ${adjustment.approvedBy.name}`}
+                    {adjustment.method && `, in ${adjustment.method}`}
+                  </span>
+                </span>
+                <span className="whitespace-nowrap text-red-600">-{formatMoney(adjustment.amount)}</span>
+              </li>
+            ))}
+          </ul>
         </div>
       )}
 
+      {/* Status history */}
+      <div className="border rounded-md p-4">
+        <h3 className="font-medium mb-2">Status History</h3>
+        <ol className="space-y-2">
+          {history.map((change, index) => (
+            <li key={index} className="flex items-center justify-between gap-4 text-sm">
+              <span className="flex items-center gap-2">
+                <StatusBadge status={change.to} />
+                <span className="text-muted-foreground">
+                  {change.from ? `from ${getStatusInfo(change.from).label}` : "Order placed"}
+                  {change.changedBy && ` by ${change.changedBy.name}`}
+                </span>
+              </span>
+              <span className="text-muted-foreground">{formatDateTime(change.changedAt)}</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+
       <div className="flex flex-col sm:flex-row gap-2 justify-end mt-4">
-        {getNextStatus(order.status) && (
-          <Button className="w-full sm:w-auto" onClick={() => onUpdateStatus(order.id, getNextStatus(order.status)!)}>
-            {getNextStatusLabel(order.status)}
+        {onTakePayment && balance > 0 && (
+          <Button className="w-full sm:w-auto" onClick={() => onTakePayment(order)} disabled={isUpdating}>
+            Take Payment
+          </Button>
+        )}
+        {/* An order with a balance is closed by paying it, not by changing its status */}
+        {transitions
+          .filter((transition) => !(transition.to === "paid" && balance > 0 && onTakePayment))
+          .map((transition) => (
+            <Button
+              key={transition.to}
+              variant={transition.isReversal ? "outline" : "default"}
+              className="w-full sm:w-auto"
+              onClick={() => onUpdateStatus(order.id, transition.to)}
+              disabled={isUpdating}
+            >
+              {transition.label}
+            </Button>
+          ))}
+        {onVoid && canVoidOrder(order) && (
+          <Button
+            variant="destructive"
+            className="w-full sm:w-auto"
+            onClick={() => setAdjusting({ kind: "void", itemId: null })}
+            disabled={isUpdating}
+          >
+            Void Order
+          </Button>
+        )}
+        {onRefund && canRefundOrder(order) && (
+          <Button
+            variant="destructive"
+            className="w-full sm:w-auto"
+            onClick={() => setAdjusting({ kind: "refund", itemId: null })}
+            disabled={isUpdating}
+          >
+            Refund Order
+          </Button>
+        )}
+        {onTransfer && canTransferOrder(order) && (
+          <Button
+            variant="outline"
+            className="w-full sm:w-auto"
+            onClick={() => setMoving("transfer")}
+            disabled={isUpdating}
+          >
+            Move Table
+          </Button>
+        )}
+        {onMergeTables && order.tableId && canTransferOrder(order) && (
+          <Button
+            variant="outline"
+            className="w-full sm:w-auto"
+            onClick={() => setMoving("merge")}
+            disabled={isUpdating}
+          >
+            Merge Tables
+          </Button>
+        )}
+        {onSplit && canSplitOrder(order) && (
+          <Button
+            variant="outline"
+            className="w-full sm:w-auto"
+            onClick={() => setMoving("split")}
+            disabled={isUpdating}
+          >
+            Split Order
+          </Button>
+        )}
+        {onPrintKitchenTickets && order.items.some((item) => !item.voided) && (
+          <Button
+            variant="outline"
+            className="w-full sm:w-auto"
+            onClick={() => onPrintKitchenTickets(order)}
+            disabled={isPrinting}
+          >
+            Print Kitchen Tickets
           </Button>
         )}
-        {order.status === "new" && onDelete && (
-          <Button variant="destructive" className="w-full sm:w-auto" onClick={onDelete}>
-            Delete Order
+        {onPrintReceipt && (
+          <Button
+            variant="outline"
+            className="w-full sm:w-auto"
+            onClick={() => onPrintReceipt(order)}
+            disabled={isPrinting}
+          >
+            Print Receipt
           </Button>
         )}
         <Button variant="outline" className="w-full sm:w-auto" onClick={onClose}>
@@ -0,0 +1,16 @@
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { getOrderTypeInfo } from "@/lib/order-types"
+import type { Order } from "@/lib/api"
+
+interface OrderTypeBadgeProps {
+  order: Pick<Order, "type">
+  className?: string
+}
+
+export function OrderTypeBadge({ order, className }: OrderTypeBadgeProps) {
+  const info = getOrderTypeInfo(order)
+  return <Badge className={cn(info.badgeClassName, className)}>{info.label}</Badge>
+}
+
+export default OrderTypeBadge
@@ -0,0 +1,320 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PRICING_RULE_TYPE_LABELS, WEEKDAY_LABELS } from "@/lib/pricing"
+import type { CreatePricingRuleRequest, PricingRule, PricingRuleType, Product } from "@/lib/api"
+
+interface PricingRuleFormProps {
+  initialData?: PricingRule
+  products: Product[]
+  onSubmit: (data: CreatePricingRuleRequest) => Promise<void>
+  onCancel: () => void
+  isLoading: boolean
+  submitLabel: string
+  serverErrors?: Record<string, string>
+}
+
+// Fields rendered by the form; server errors for any other field are shown above the buttons
+const FORM_FIELDS = ["name", "type", "value", "buyQuantity", "getQuantity", "schedule", "promoCode"]
+
+export function PricingRuleForm({
+  initialData,
+  products,
+  onSubmit,
+  onCancel,
+  isLoading,
+  submitLabel,
+  serverErrors,
+}: PricingRuleFormProps) {
+  const [name, setName] = useState(initialData?.name ?? "")
+  const [type, setType] = useState<PricingRuleType>(initialData?.type ?? "percentage")
+  const [value, setValue] = useState(initialData?.value ? String(initialData.value) : "")
+  const [buyQuantity, setBuyQuantity] = useState(String(initialData?.buyQuantity ?? 2))
+  const [getQuantity, setGetQuantity] = useState(String(initialData?.getQuantity ?? 1))
+  const [category, setCategory] = useState(initialData?.category ?? "all")
+  const [productIds, setProductIds] = useState<number[]>(initialData?.productIds ?? [])
+  const [hasSchedule, setHasSchedule] = useState(!!initialData?.schedule)
+  const [days, setDays] = useState<number[]>(initialData?.schedule?.days ?? [])
+  const [startTime, setStartTime] = useState(initialData?.schedule?.startTime ?? "15:00")
+  const [endTime, setEndTime] = useState(initialData?.schedule?.endTime ?? "17:00")
+  const [promoCode, setPromoCode] = useState(initialData?.promoCode ?? "")
+  const [active, setActive] = useState(initialData?.active ?? true)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // Show validation errors returned by the server next to the matching fields
+  useEffect(() => {
+    if (serverErrors) {
+      setErrors((prev) => ({ ...prev, ...serverErrors }))
+    }
+  }, [serverErrors])
+
+  // Server errors that don't belong to a rendered field
+  const otherErrors = Object.entries(errors).filter(([field, message]) => message && !FORM_FIELDS.includes(field))
+
+  // Products the rule can be limited to, narrowed down by the chosen category
+  const eligibleProducts = category === "all" ? products : products.filter((p) => p.category === category)
+
+  const toggleDay = (day: number) => {
+    setDays(days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort())
+  }
+
+  const toggleProduct = (productId: number) => {
+    setProductIds(
+      productIds.includes(productId) ? productIds.filter((id) => id !== productId) : [...productIds, productId],
+    )
+  }
+
+  // Validate form before submission
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {}
+    const numericValue = Number.parseFloat(value)
+
+    if (!name.trim()) {
+      newErrors.name = "Name is required"
+    }
+
+    if (type === "percentage" && !(numericValue > 0 && numericValue <= 100)) {
+      newErrors.value = "Percentage must be between 0 and 100"
+    } else if (type === "fixed" && !(numericValue > 0)) {
+      newErrors.value = "Amount must be greater than 0"
+    } else if (type === "buy_x_get_y" && !(Number(buyQuantity) >= 1 && Number(getQuantity) >= 1)) {
+      newErrors.buyQuantity = "Buy and get quantities must be at least 1"
+    }
+
+    if (hasSchedule && (!startTime || !endTime)) {
+      newErrors.schedule = "Start and end time are required"
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  // Handle form submission; cleared conditions are sent as null so an update removes them
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) return
+
+    const isBuyXGetY = type === "buy_x_get_y"
+    await onSubmit({
+      name: name.trim(),
+      type,
+      value: isBuyXGetY ? 0 : Number.parseFloat(value),
+      buyQuantity: isBuyXGetY ? Number(buyQuantity) : undefined,
+      getQuantity: isBuyXGetY ? Number(getQuantity) : undefined,
+      category: category === "all" ? null : category,
+      productIds: productIds.filter((id) => eligibleProducts.some((p) => p.id === id)),
+      schedule: hasSchedule ? { days, startTime, endTime } : null,
+      promoCode: promoCode.trim().toUpperCase() || null,
+      active,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-4 items-center gap-4">
+        <Label htmlFor="rule-name" className="text-right">
+          Name
+        </Label>
+        <div className="col-span-3 space-y-1">
+          <Input
+            id="rule-name"
+            placeholder="e.g. Happy Hour"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={errors.name ? "border-red-500" : ""}
+          />
+          {errors.name && <p className="text-xs text-red-500">{errors.name}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 items-center gap-4">
+        <Label htmlFor="rule-type" className="text-right">
+          Discount
+        </Label>
+        <div className="col-span-3 flex gap-2">
+          <Select value={type} onValueChange={(next) => setType(next as PricingRuleType)}>
+            <SelectTrigger id="rule-type" className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PRICING_RULE_TYPE_LABELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {type === "buy_x_get_y" ? (
+            <>
+              <Input
+                type="number"
+                min="1"
+                className="w-20"
+                aria-label="Buy"
+                value={buyQuantity}
+                onChange={(e) => setBuyQuantity(e.target.value)}
+              />
+              <Input
+                type="number"
+                min="1"
+                className="w-20"
+                aria-label="Get free"
+                value={getQuantity}
+                onChange={(e) => setGetQuantity(e.target.value)}
+              />
+            </>
+          ) : (
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              className="w-28"
+              placeholder={type === "percentage" ? "%" : "0.00"}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          )}
+        </div>
+        {(errors.value || errors.buyQuantity) && (
+          <p className="col-span-3 col-start-2 text-xs text-red-500">{errors.value || errors.buyQuantity}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 items-center gap-4">
+        <Label htmlFor="rule-category" className="text-right">
+          Category
+        </Label>
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger id="rule-category" className="col-span-3">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All categories</SelectItem>
+            <SelectItem value="coffee">Coffee</SelectItem>
+            <SelectItem value="pastry">Pastry</SelectItem>
+            <SelectItem value="dessert">Dessert</SelectItem>
+            <SelectItem value="food">Food</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-4 gap-4">
+        <Label className="pt-1 text-right">Products</Label>
+        <div className="col-span-3 space-y-1">
+          <p className="text-xs text-muted-foreground">Leave empty to cover every product of the category.</p>
+          <div className="grid max-h-32 grid-cols-2 gap-1 overflow-y-auto rounded-md border p-2">
+            {eligibleProducts.map((product) => (
+              <label key={product.id} className="flex items-center gap-2 text-sm">
+                <Checkbox checked={productIds.includes(product.id)} onCheckedChange={() => toggleProduct(product.id)} />
+                {product.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-4">
+        <Label htmlFor="rule-schedule" className="pt-1 text-right">
+          Time Window
+        </Label>
+        <div className="col-span-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Switch id="rule-schedule" checked={hasSchedule} onCheckedChange={setHasSchedule} />
+            <span className="text-sm text-muted-foreground">
+              {hasSchedule ? "Only at these times" : "Any time"}
+            </span>
+          </div>
+          {hasSchedule && (
+            <>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={days.includes(day) ? "default" : "outline"}
+                    onClick={() => toggleDay(day)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  className="w-32"
+                  aria-label="Start time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  className="w-32"
+                  aria-label="End time"
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">No days selected means every day.</p>
+            </>
+          )}
+          {errors.schedule && <p className="text-xs text-red-500">{errors.schedule}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 items-center gap-4">
+        <Label htmlFor="rule-promo-code" className="text-right">
+          Promo Code
+        </Label>
+        <div className="col-span-3 space-y-1">
+          <Input
+            id="rule-promo-code"
+            placeholder="Optional, e.g. WELCOME10"
+            value={promoCode}
+            onChange={(e) => setPromoCode(e.target.value)}
+            className={`uppercase ${errors.promoCode ? "border-red-500" : ""}`}
+          />
+          {errors.promoCode && <p className="text-xs text-red-500">{errors.promoCode}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 items-center gap-4">
+        <Label htmlFor="rule-active" className="text-right">
+          Active
+        </Label>
+        <Switch id="rule-active" checked={active} onCheckedChange={setActive} />
+      </div>
+
+      {otherErrors.length > 0 && (
+        <div className="space-y-1">
+          {otherErrors.map(([field, message]) => (
+            <p key={field} className="text-xs text-red-500">
+              {message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? "Saving..." : submitLabel}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+export default PricingRuleForm
@@ -0,0 +1,182 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PAPER_WIDTHS, type Printer } from "@/lib/api"
+
+interface PrinterFormProps {
+  initialData?: Printer
+  onSubmit: (printer: Printer) => Promise<void>
+  onCancel: () => void
+  isLoading: boolean
+  submitLabel: string
+}
+
+const CATEGORIES = ["coffee", "pastry", "dessert", "food"]
+
+export function PrinterForm({ initialData, onSubmit, onCancel, isLoading, submitLabel }: PrinterFormProps) {
+  const [name, setName] = useState(initialData?.name ?? "")
+  const [connection, setConnection] = useState<Printer["connection"]>(initialData?.connection ?? "browser")
+  const [address, setAddress] = useState(initialData?.address ?? "http://localhost:9100/print")
+  const [paperWidth, setPaperWidth] = useState<Printer["paperWidth"]>(initialData?.paperWidth ?? 80)
+  const [printsReceipts, setPrintsReceipts] = useState(initialData?.printsReceipts ?? false)
+  const [categories, setCategories] = useState<string[]>(initialData?.categories ?? [])
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const toggleCategory = (category: string) => {
+    setCategories(
+      categories.includes(category) ? categories.filter((c) => c !== category) : [...categories, category],
+    )
+  }
+
+  // Validate form before submission
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {}
+
+    if (!name.trim()) {
+      newErrors.name = "Name is required"
+    }
+
+    if (connection === "network" && !/^https?:\/\/\S+$/.test(address.trim())) {
+      newErrors.address = "Enter the URL of the print server, e.g. http://192.168.1.20:9100/print"
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) return
+
+    await onSubmit({
+      id: initialData?.id ?? `printer-${Date.now().toString(36)}`,
+      name: name.trim(),
+      connection,
+      address: connection === "network" ? address.trim() : null,
+      paperWidth,
+      printsReceipts,
+      categories,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-4 items-center gap-4">
+        <Label htmlFor="printer-name" className="text-right">
+          Name
+        </Label>
+        <div className="col-span-3 space-y-1">
+          <Input
+            id="printer-name"
+            placeholder="e.g. Bar"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={errors.name ? "border-red-500" : ""}
+          />
+          {errors.name && <p className="text-xs text-red-500">{errors.name}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 items-center gap-4">
+        <Label htmlFor="printer-connection" className="text-right">
+          Connection
+        </Label>
+        <Select value={connection} onValueChange={(value) => setConnection(value as Printer["connection"])}>
+          <SelectTrigger id="printer-connection" className="col-span-3">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="browser">Print dialog of the browser</SelectItem>
+            <SelectItem value="network">ESC/POS through a print server</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {connection === "network" && (
+        <div className="grid grid-cols-4 items-center gap-4">
+          <Label htmlFor="printer-address" className="text-right">
+            Print Server
+          </Label>
+          <div className="col-span-3 space-y-1">
+            <Input
+              id="printer-address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              className={errors.address ? "border-red-500" : ""}
+            />
+            {errors.address && <p className="text-xs text-red-500">{errors.address}</p>}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 items-center gap-4">
+        <Label htmlFor="printer-paper" className="text-right">
+          Paper
+        </Label>
+        <Select
+          value={String(paperWidth)}
+          onValueChange={(value) => setPaperWidth(Number(value) as Printer["paperWidth"])}
+        >
+          <SelectTrigger id="printer-paper" className="col-span-3">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAPER_WIDTHS.map((width) => (
+              <SelectItem key={width} value={String(width)}>
+                {width}mm
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-4 items-center gap-4">
+        <Label htmlFor="printer-receipts" className="text-right">
+          Receipts
+        </Label>
+        <div className="col-span-3 flex items-center gap-2">
+          <Switch id="printer-receipts" checked={printsReceipts} onCheckedChange={setPrintsReceipts} />
+          <span className="text-sm text-muted-foreground">
+            {printsReceipts ? "Prints customer receipts" : "No receipts"}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-4">
+        <Label className="pt-1 text-right">Kitchen Tickets</Label>
+        <div className="col-span-3 space-y-1">
+          <div className="grid grid-cols-2 gap-1">
+            {CATEGORIES.map((category) => (
+              <label key={category} className="flex items-center gap-2 text-sm capitalize">
+                <Checkbox checked={categories.includes(category)} onCheckedChange={() => toggleCategory(category)} />
+                {category}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">Items of these categories are printed here.</p>
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? "Saving..." : submitLabel}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+export default PrinterForm
@@ -8,7 +8,9 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import type { Product } from "@/lib/api"
+import { ModifierGroupsEditor } from "@/components/modifier-groups-editor"
+import { validateModifierGroups } from "@/lib/modifiers"
+import type { ModifierGroup, Product } from "@/lib/api"
 
 interface ProductFormProps {
   initialData?: Partial<Product>
@@ -16,15 +18,27 @@ interface ProductFormProps {
   onCancel: () => void
   isLoading: boolean
   submitLabel: string
+  serverErrors?: Record<string, string>
 }
 
-export function ProductForm({ initialData = {}, onSubmit, onCancel, isLoading, submitLabel }: ProductFormProps) {
+// Fields rendered by the form; server errors for any other field are shown above the buttons
+const FORM_FIELDS = ["name", "description", "price", "category", "imageUrl", "modifierGroups"]
+
+export function ProductForm({
+  initialData = {},
+  onSubmit,
+  onCancel,
+  isLoading,
+  submitLabel,
+  serverErrors,
+}: ProductFormProps) {
   const [formData, setFormData] = useState<Partial<Product>>({
     name: "",
     description: "",
     price: 0,
     category: "",
     imageUrl: "",
+    modifierGroups: [],
     ...initialData,
   })
 
@@ -39,6 +53,16 @@ export function ProductForm({ initialData = {}, onSubmit, onCancel, isLoading, s
     }
   }, [initialData])
 
+  // Show validation errors returned by the server next to the matching fields
+  useEffect(() => {
+    if (serverErrors) {
+      setErrors((prev) => ({ ...prev, ...serverErrors }))
+    }
+  }, [serverErrors])
+
+  // Server errors that don't belong to a rendered field
+  const otherErrors = Object.entries(errors).filter(([field, message]) => message && !FORM_FIELDS.includes(field))
+
   // Handle form field changes
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target
@@ -71,6 +95,16 @@ export function ProductForm({ initialData = {}, onSubmit, onCancel, isLoading, s
     }
   }
 
+  // Handle modifier group changes
+  const handleModifierGroupsChange = (modifierGroups: ModifierGroup[]) => {
+    setFormData({ ...formData, modifierGroups })
+
+    // Clear error for this field
+    if (errors.modifierGroups) {
+      setErrors({ ...errors, modifierGroups: "" })
+    }
+  }
+
   // Handle image file selection
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -82,6 +116,7 @@ export function ProductForm({ initialData = {}, onSubmit, onCancel, isLoading, s
       reader.onloadend = () => {
         const preview = reader.result as string
         setImagePreview(preview)
+        setFormData((prev) => ({ ...prev, imageUrl: preview }))
       }
       reader.readAsDataURL(file)
     }
@@ -103,6 +138,11 @@ export function ProductForm({ initialData = {}, onSubmit, onCancel, isLoading, s
       newErrors.price = "Price must be greater than 0"
     }
 
+    const modifierGroupsError = validateModifierGroups(formData.modifierGroups)
+    if (modifierGroupsError) {
+      newErrors.modifierGroups = modifierGroupsError
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -139,14 +179,17 @@ export function ProductForm({ initialData = {}, onSubmit, onCancel, isLoading, s
         <Label htmlFor="description" className="text-right">
           Description
         </Label>
-        <Textarea
-          id="description"
-          name="description"
-          placeholder="Product description"
-          className="col-span-3"
-          value={formData.description || ""}
-          onChange={handleChange}
-        />
+        <div className="col-span-3 space-y-1">
+          <Textarea
+            id="description"
+            name="description"
+            placeholder="Product description"
+            value={formData.description || ""}
+            onChange={handleChange}
+            className={errors.description ? "border-red-500" : ""}
+          />
+          {errors.description && <p className="text-xs text-red-500">{errors.description}</p>}
+        </div>
       </div>
 
       <div className="grid grid-cols-4 items-center gap-4">
@@ -193,7 +236,15 @@ export function ProductForm({ initialData = {}, onSubmit, onCancel, isLoading, s
           Image
         </Label>
         <div className="col-span-3">
-          <Input id="image" name="image" type="file" accept="image/*" onChange={handleImageChange} />
+          <Input
+            id="image"
+            name="image"
+            type="file"
+            accept="image/*"
+            onChange={handleImageChange}
+            className={errors.imageUrl ? "border-red-500" : ""}
+          />
+          {errors.imageUrl && <p className="text-xs text-red-500">{errors.imageUrl}</p>}
           {imagePreview && (
             <div className="mt-2">
               <img
@@ -206,6 +257,27 @@ export function ProductForm({ initialData = {}, onSubmit, onCancel, isLoading, s
         </div>
       </div>
 
+      <div className="grid grid-cols-4 items-start gap-4">
+        <Label className="pt-2 text-right">Modifiers</Label>
+        <div className="col-span-3">
+          <ModifierGroupsEditor
+            value={formData.modifierGroups || []}
+            onChange={handleModifierGroupsChange}
+            error={errors.modifierGroups}
+          />
+        </div>
+      </div>
+
+      {otherErrors.length > 0 && (
+        <div className="space-y-1">
+          {otherErrors.map(([field, message]) => (
+            <p key={field} className="text-xs text-red-500">
+              {message}
+            </p>
+          ))}
+        </div>
+      )}
+
       <div className="flex justify-end space-x-2 pt-4">
         <Button type="button" variant="outline" onClick={onCancel}>
           Cancel
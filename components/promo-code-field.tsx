@@ -0,0 +1,68 @@
+"use client"
+
+import { useState } from "react"
+import { Tag, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+interface PromoCodeFieldProps {
+  /** Code currently applied, if any */
+  value?: string | null
+  /** Resolves to false if the code was rejected, so it stays in the input */
+  onApply: (code: string) => boolean | Promise<boolean>
+  onRemove: () => void | Promise<void>
+  error?: string | null
+  disabled?: boolean
+}
+
+export function PromoCodeField({ value, onApply, onRemove, error, disabled = false }: PromoCodeFieldProps) {
+  const [code, setCode] = useState("")
+
+  const handleApply = async () => {
+    if (!code.trim()) return
+    if (await onApply(code.trim().toUpperCase())) {
+      setCode("")
+    }
+  }
+
+  if (value) {
+    return (
+      <div className="flex items-center gap-2">
+        <Badge variant="secondary" className="gap-1">
+          <Tag className="h-3 w-3" />
+          {value}
+        </Badge>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onRemove()} disabled={disabled}>
+          <X className="h-3 w-3" />
+          <span className="sr-only">Remove promo code</span>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Promo code"
+          className="h-9 uppercase"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault()
+              handleApply()
+            }
+          }}
+        />
+        <Button type="button" variant="outline" size="sm" onClick={handleApply} disabled={disabled || !code.trim()}>
+          Apply
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
+
+export default PromoCodeField
@@ -0,0 +1,159 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CalendarClock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { OrderTypeBadge } from "@/components/order-type-badge"
+import useMoney from "@/hooks/use-money"
+import { getOrderLocation } from "@/lib/order-types"
+import { formatTimeUntil } from "@/lib/scheduling"
+import type { Order } from "@/lib/api"
+
+interface ScheduledOrdersLaneProps {
+  /** Orders waiting as scheduled, in any order */
+  orders: Order[]
+  leadTimeMinutes: number
+  /** Lets managers change the lead time */
+  canEditLeadTime?: boolean
+  isSaving?: boolean
+  onSaveLeadTime: (leadTimeMinutes: number) => Promise<void>
+  onSendNow: (order: Order) => void
+  onView: (order: Order) => void
+}
+
+const formatTime = (value: string): string => {
+  return new Date(value).toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" })
+}
+
+export function ScheduledOrdersLane({
+  orders,
+  leadTimeMinutes,
+  canEditLeadTime = false,
+  isSaving = false,
+  onSaveLeadTime,
+  onSendNow,
+  onView,
+}: ScheduledOrdersLaneProps) {
+  const { formatMoney } = useMoney()
+  const [now, setNow] = useState(() => Date.now())
+  const [leadTime, setLeadTime] = useState(String(leadTimeMinutes))
+  const [leadTimeError, setLeadTimeError] = useState<string | null>(null)
+
+  // Keep the countdowns current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Show the saved lead time once the settings have loaded or changed
+  useEffect(() => {
+    setLeadTime(String(leadTimeMinutes))
+  }, [leadTimeMinutes])
+
+  const handleSaveLeadTime = async () => {
+    const minutes = Number(leadTime)
+    if (leadTime.trim() === "" || !Number.isInteger(minutes) || minutes < 0 || minutes > 240) {
+      setLeadTimeError("Lead time must be between 0 and 240 minutes")
+      return
+    }
+    setLeadTimeError(null)
+    await onSaveLeadTime(minutes)
+  }
+
+  // Next to go to the kitchen first
+  const sorted = [...orders].sort((a, b) => Date.parse(a.fireAt ?? a.orderDate) - Date.parse(b.fireAt ?? b.orderDate))
+
+  return (
+    <Card className="border-cyan-300">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-cyan-600" />
+            Scheduled
+          </CardTitle>
+          <CardDescription>
+            Pre-orders wait here and go to the kitchen {leadTimeMinutes} minutes before they are due.
+          </CardDescription>
+        </div>
+        {canEditLeadTime && (
+          <div className="space-y-1">
+            <div className="flex items-end gap-2">
+              <div className="grid gap-1">
+                <Label htmlFor="lead-time" className="text-xs">
+                  Lead time (min)
+                </Label>
+                <Input
+                  id="lead-time"
+                  type="number"
+                  min="0"
+                  max="240"
+                  className="h-8 w-24"
+                  value={leadTime}
+                  onChange={(e) => setLeadTime(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSaveLeadTime}
+                disabled={isSaving || leadTime === String(leadTimeMinutes)}
+              >
+                Save
+              </Button>
+            </div>
+            {leadTimeError && <p className="text-xs text-red-500">{leadTimeError}</p>}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No scheduled orders</p>
+        ) : (
+          <div className="divide-y">
+            {sorted.map((order) => (
+              <div key={order.id} className="flex flex-wrap items-center justify-between gap-4 py-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">#{order.id}</span>
+                    {order.tableId ? (
+                      <span className="text-sm">{getOrderLocation(order)}</span>
+                    ) : (
+                      <OrderTypeBadge order={order} />
+                    )}
+                    {order.guestName && <span className="text-sm text-muted-foreground">{order.guestName}</span>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {order.items.length} items · {formatMoney(order.total)}
+                  </p>
+                </div>
+                <div className="text-right text-sm">
+                  {order.readyAt && (
+                    <div>
+                      Ready at <strong>{formatTime(order.readyAt)}</strong>
+                    </div>
+                  )}
+                  {order.fireAt && (
+                    <div className="text-muted-foreground">To the kitchen {formatTimeUntil(order.fireAt, now)}</div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => onSendNow(order)}>
+                    Send Now
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => onView(order)}>
+                    View Details
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ScheduledOrdersLane
@@ -0,0 +1,672 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import usePayments from "@/hooks/use-payments"
+import useMoney from "@/hooks/use-money"
+import { getCardTerminal, type CardTerminalStatus } from "@/lib/card-terminal"
+import { formatModifiers } from "@/lib/modifiers"
+import { getAmountStep, toAmountInput } from "@/lib/money"
+import {
+  getBalance,
+  getCashSuggestions,
+  getChange,
+  getChargedItems,
+  getItemsAmount,
+  getPaidQuantities,
+  getTotalBalance,
+  getUnpaidQuantity,
+  roundMoney,
+  splitEvenly,
+} from "@/lib/payments"
+import {
+  createIdempotencyKey,
+  type CreatePaymentRequest,
+  type CreateTablePaymentRequest,
+  type Order,
+  type PaidItem,
+  type Payment,
+  type PaymentMethod,
+  type PaymentResult,
+} from "@/lib/api"
+
+interface SplitBillDialogProps {
+  /** Orders to settle: one order, or all open orders of a table */
+  orders: Order[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Called with the updated orders after every payment */
+  onPaid: (orders: Order[]) => void
+}
+
+type SplitMode = "full" | "even" | "items" | "custom"
+
+/** How the guest pays, sent along with the amount */
+type Tender = Omit<CreateTablePaymentRequest, "amount">
+
+/**
+ * A payment on its way to the server. It keeps its idempotency key until it is recorded, so a card
+ * that was charged can have its payment sent again without being charged or recorded twice.
+ */
+interface PaymentSubmission {
+  send: (idempotencyKey: string) => Promise<PaymentResult | null>
+  idempotencyKey: string
+  /** Amount charged on the card terminal, tip included; null for cash and vouchers */
+  charged: number | null
+  /** Called once the payment is recorded */
+  onRecorded?: () => void
+}
+
+const TIP_PERCENTAGES = [10, 15, 20]
+
+const TERMINAL_MESSAGES: Record<CardTerminalStatus, string> = {
+  waiting_for_card: "Present, insert or tap the card on the terminal...",
+  processing: "Waiting for approval...",
+}
+
+/**
+ * Describe how a payment was made, e.g. "Visa •••• 4242" or "Voucher GIFT-20"
+ */
+const describeTender = (payment: Payment): string => {
+  if (payment.method === "card" && payment.cardAuthorization?.last4) {
+    return `${payment.cardAuthorization.brand ?? "Card"} •••• ${payment.cardAuthorization.last4}`
+  }
+  if (payment.method === "voucher") {
+    return `Voucher ${payment.voucherCode ?? ""}`.trim()
+  }
+  return payment.method === "cash" ? "Cash" : "Card"
+}
+
+export function SplitBillDialog({ orders, open, onOpenChange, onPaid }: SplitBillDialogProps) {
+  const { toast } = useToast()
+  const { currency, formatMoney } = useMoney()
+  const [updatedOrders, setUpdatedOrders] = useState<Record<number, Order>>({})
+  const [mode, setMode] = useState<SplitMode>("full")
+  const [method, setMethod] = useState<PaymentMethod>("cash")
+  const [guestCount, setGuestCount] = useState(2)
+  const [guestsPaid, setGuestsPaid] = useState(0)
+  const [selectedItems, setSelectedItems] = useState<Record<string, number>>({})
+  const [customAmount, setCustomAmount] = useState("")
+  const [tip, setTip] = useState("")
+  const [tendered, setTendered] = useState("")
+  const [voucherCode, setVoucherCode] = useState("")
+  const [terminalStatus, setTerminalStatus] = useState<CardTerminalStatus | null>(null)
+  const [terminalError, setTerminalError] = useState<string | null>(null)
+  // Card payment charged on the terminal that the server has not recorded yet
+  const [unrecorded, setUnrecorded] = useState<PaymentSubmission | null>(null)
+  const chargeController = useRef<AbortController | null>(null)
+
+  // Orders as returned by the latest payments
+  const currentOrders = orders.map((order) => updatedOrders[order.id] ?? order)
+  const { payments, isPaying, error, payOrder, payOrders, payTable } = usePayments(currentOrders, open)
+
+  const isTable = currentOrders.length > 1
+  const total = roundMoney(currentOrders.reduce((sum, order) => sum + order.total, 0))
+  const balance = getTotalBalance(currentOrders)
+  const paidQuantities = getPaidQuantities(payments)
+
+  // Start over whenever the checkout is opened
+  useEffect(() => {
+    if (open) {
+      setUpdatedOrders({})
+      setMode("full")
+      setGuestsPaid(0)
+      setSelectedItems({})
+      setCustomAmount("")
+      setMethod("cash")
+      setTerminalError(null)
+      setUnrecorded(null)
+      resetTender()
+    } else {
+      // Closing the checkout cancels a card charge that is still running
+      chargeController.current?.abort()
+    }
+  }, [open])
+
+  // Show error toast if a payment fails
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: "Payment Failed",
+        description: error,
+        variant: "destructive",
+      })
+    }
+  }, [error, toast])
+
+  /**
+   * Take over the orders returned by a payment
+   */
+  const applyResult = (result: PaymentResult) => {
+    setUpdatedOrders((current) => ({
+      ...current,
+      ...Object.fromEntries(result.orders.map((order) => [order.id, order])),
+    }))
+    onPaid(result.orders)
+  }
+
+  const resetTender = () => {
+    setTip("")
+    setTendered("")
+    setVoucherCode("")
+  }
+
+  const tipValue = roundMoney(Number.parseFloat(tip) || 0, currency.decimals)
+  const tenderedValue = roundMoney(Number.parseFloat(tendered) || 0, currency.decimals)
+
+  /**
+   * Collect the tender for an amount: charge the card on the terminal, or take the cash handed
+   * over or the voucher code
+   * @returns Tender to record, or null if the card was declined, the charge cancelled or the
+   * terminal could not be reached
+   */
+  const collectTender = async (amount: number): Promise<Tender | null> => {
+    const tipAmount = tipValue > 0 ? tipValue : undefined
+
+    if (method === "card") {
+      const controller = new AbortController()
+      chargeController.current = controller
+      setTerminalError(null)
+      try {
+        const result = await getCardTerminal().charge(
+          {
+            amount: roundMoney(amount + tipValue),
+            reference: isTable ? `Table ${currentOrders[0].tableId}` : `Order #${currentOrders[0].id}`,
+          },
+          { signal: controller.signal, onStatus: setTerminalStatus },
+        )
+        if (result.status === "declined") {
+          toast({ title: "Card Declined", description: result.reason, variant: "destructive" })
+        }
+        return result.status === "approved"
+          ? { method, tip: tipAmount, cardAuthorization: result.authorization }
+          : null
+      } catch (err) {
+        // No terminal driver is configured, or the terminal failed before charging the card
+        setTerminalError(err instanceof Error ? err.message : "The card terminal could not be reached")
+        return null
+      } finally {
+        chargeController.current = null
+        setTerminalStatus(null)
+      }
+    }
+
+    if (method === "voucher") {
+      return { method, tip: tipAmount, voucherCode: voucherCode.trim() }
+    }
+    return { method, tip: tipAmount, tendered: tenderedValue > 0 ? tenderedValue : undefined }
+  }
+
+  /**
+   * Send a payment to the server. A card payment that fails is kept, so it can be sent again with
+   * the same idempotency key instead of charging the card again.
+   * @returns True once the payment is recorded
+   */
+  const submitPayment = async (submission: PaymentSubmission): Promise<boolean> => {
+    const result = await submission.send(submission.idempotencyKey)
+    if (!result) {
+      setUnrecorded(submission.charged !== null ? submission : null)
+      return false
+    }
+    setUnrecorded(null)
+    applyResult(result)
+    resetTender()
+    submission.onRecorded?.()
+    return true
+  }
+
+  /**
+   * Pay an amount against the order, or spread it over the table's orders
+   * @param onRecorded - Called once the payment is recorded
+   */
+  const payAmount = async (amount: number, onRecorded?: () => void): Promise<void> => {
+    const tender = await collectTender(amount)
+    if (!tender) return
+
+    await submitPayment({
+      send: (idempotencyKey) =>
+        isTable
+          ? payTable({ amount, ...tender }, idempotencyKey)
+          : payOrder({ orderId: currentOrders[0].id, amount, ...tender }, idempotencyKey),
+      idempotencyKey: createIdempotencyKey(),
+      charged: tender.method === "card" ? roundMoney(amount + tipValue) : null,
+      onRecorded,
+    })
+  }
+
+  const handlePayFull = async () => {
+    await payAmount(balance)
+  }
+
+  // Each guest pays an equal share of what is left
+  const guestsLeft = Math.max(1, guestCount - guestsPaid)
+  const nextShare = splitEvenly(balance, guestsLeft, currency.decimals)[0] ?? 0
+
+  const handlePayShare = async () => {
+    await payAmount(nextShare, () => setGuestsPaid((count) => count + 1))
+  }
+
+  // Items selected per order, e.g. { "12:40": 1 } for one of item 40 of order 12
+  const getSelection = (order: Order): PaidItem[] =>
+    getChargedItems(order)
+      .map((item) => ({ itemId: item.id, quantity: selectedItems[`${order.id}:${item.id}`] || 0 }))
+      .filter((item) => item.quantity > 0)
+
+  // An order's remaining balance caps what its items can cost, e.g. after a custom payment
+  const getSelectionAmount = (order: Order): number =>
+    Math.min(getItemsAmount(order, getSelection(order), currency.decimals, paidQuantities), getBalance(order))
+
+  const selectedAmount = roundMoney(currentOrders.reduce((sum, order) => sum + getSelectionAmount(order), 0))
+
+  const changeItemQuantity = (order: Order, itemId: number, quantity: number) => {
+    setSelectedItems((current) => ({ ...current, [`${order.id}:${itemId}`]: quantity }))
+  }
+
+  const handlePayItems = async () => {
+    const tender = await collectTender(selectedAmount)
+    if (!tender) return
+
+    // Items of several orders are paid in one payment per order, all recorded by one request. The
+    // first one carries the tip and the cash handed over, so that tendered stays amount plus tip
+    // plus change on every payment.
+    const change = tender.tendered ? roundMoney(tender.tendered - selectedAmount - tipValue) : 0
+    const requests: CreatePaymentRequest[] = []
+    for (const order of currentOrders) {
+      const items = getSelection(order)
+      if (items.length === 0) continue
+
+      const amount = getSelectionAmount(order)
+      const orderTender: Tender =
+        requests.length === 0
+          ? { ...tender, tendered: tender.tendered && roundMoney(amount + tipValue + change) }
+          : { method: tender.method, cardAuthorization: tender.cardAuthorization, voucherCode: tender.voucherCode }
+      requests.push({ orderId: order.id, amount, items, ...orderTender })
+    }
+
+    await submitPayment({
+      send: (idempotencyKey) => payOrders(requests, idempotencyKey),
+      idempotencyKey: createIdempotencyKey(),
+      charged: tender.method === "card" ? roundMoney(selectedAmount + tipValue) : null,
+      onRecorded: () => setSelectedItems({}),
+    })
+  }
+
+  const customValue = roundMoney(Number.parseFloat(customAmount) || 0, currency.decimals)
+
+  const handlePayCustom = async () => {
+    await payAmount(customValue, () => setCustomAmount(""))
+  }
+
+  // Amount the pay button takes, depending on how the bill is split
+  const pendingAmount = { full: balance, even: nextShare, items: selectedAmount, custom: customValue }[mode]
+  const isPendingValid = pendingAmount > 0 && pendingAmount <= balance
+  const amountDue = roundMoney(pendingAmount + tipValue)
+  const change = tenderedValue > 0 ? getChange(amountDue, tenderedValue) : null
+
+  // What stops the tender from being taken, if anything
+  const tenderError =
+    method === "cash" && tenderedValue > 0 && change === null
+      ? `At least ${formatMoney(amountDue)} must be tendered`
+      : method === "voucher" && !voucherCode.trim()
+        ? "Enter the voucher code"
+        : null
+
+  const isBusy = isPaying || terminalStatus !== null
+
+  const handlePay = () => {
+    const handlers: Record<SplitMode, () => Promise<void>> = {
+      full: handlePayFull,
+      even: handlePayShare,
+      items: handlePayItems,
+      custom: handlePayCustom,
+    }
+    return handlers[mode]()
+  }
+
+  const payLabels: Record<SplitMode, string> = {
+    full: `Pay ${formatMoney(pendingAmount)}`,
+    even: `Pay Share of ${formatMoney(pendingAmount)}`,
+    items: `Pay Selected Items ${formatMoney(pendingAmount)}`,
+    custom: `Pay ${formatMoney(pendingAmount)}`,
+  }
+
+  return (
+    <Dialog
+      open={open}
+      // A charged card that has not been recorded must be recorded or discarded before closing
+      onOpenChange={(isOpen) => {
+        if (isOpen || !unrecorded) onOpenChange(isOpen)
+      }}
+    >
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isTable ? `Settle Table ${currentOrders[0]?.tableId}` : `Payment for Order #${currentOrders[0]?.id}`}
+          </DialogTitle>
+          <DialogDescription>
+            {isTable
+              ? `${currentOrders.length} open orders. Payments settle the oldest orders first.`
+              : "Take the payment in full or split the bill."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-2 rounded-md border p-3 text-center">
+          <div>
+            <div className="text-xs text-muted-foreground">Total</div>
+            <div className="font-semibold">{formatMoney(total)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">Paid</div>
+            <div className="font-semibold">{formatMoney(roundMoney(total - balance))}</div>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">Balance Due</div>
+            <div className="text-lg font-bold">{formatMoney(balance)}</div>
+          </div>
+        </div>
+
+        {balance === 0 ? (
+          <p className="py-6 text-center text-lg font-medium text-green-600">Paid in full. Thank you!</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Payment Method</Label>
+              <RadioGroup
+                value={method}
+                onValueChange={(value) => setMethod(value as PaymentMethod)}
+                className="flex gap-6"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="cash" id="method-cash" />
+                  <Label htmlFor="method-cash" className="font-normal">
+                    Cash
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="card" id="method-card" />
+                  <Label htmlFor="method-card" className="font-normal">
+                    Card
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="voucher" id="method-voucher" />
+                  <Label htmlFor="method-voucher" className="font-normal">
+                    Voucher
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <Tabs value={mode} onValueChange={(value) => setMode(value as SplitMode)}>
+              <TabsList className="grid w-full grid-cols-4">
+                <TabsTrigger value="full">Full</TabsTrigger>
+                <TabsTrigger value="even">Evenly</TabsTrigger>
+                <TabsTrigger value="items">By Item</TabsTrigger>
+                <TabsTrigger value="custom">Custom</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="full" className="space-y-4 pt-2">
+                <p className="text-sm text-muted-foreground">Pay the remaining balance in one payment.</p>
+              </TabsContent>
+
+              <TabsContent value="even" className="space-y-4 pt-2">
+                <div className="flex items-center gap-4">
+                  <Label htmlFor="guest-count">Split between</Label>
+                  <Input
+                    id="guest-count"
+                    type="number"
+                    min={guestsPaid + 1}
+                    max="20"
+                    className="w-20"
+                    value={guestCount}
+                    onChange={(e) => setGuestCount(Math.max(guestsPaid + 1, Number(e.target.value) || 1))}
+                  />
+                  <span className="text-sm text-muted-foreground">guests</span>
+                </div>
+                <p className="text-sm">
+                  Guest {guestsPaid + 1} of {guestCount} pays <strong>{formatMoney(nextShare)}</strong>
+                </p>
+              </TabsContent>
+
+              <TabsContent value="items" className="space-y-4 pt-2">
+                {currentOrders.map((order) => (
+                  <div key={order.id} className="space-y-2">
+                    {isTable && <h4 className="text-sm font-medium">Order #{order.id}</h4>}
+                    {getChargedItems(order).map((item) => {
+                      const unpaid = getUnpaidQuantity(item, paidQuantities)
+                      const selected = selectedItems[`${order.id}:${item.id}`] || 0
+                      return (
+                        <div key={item.id} className="flex items-center justify-between gap-2">
+                          <div className={unpaid === 0 ? "text-muted-foreground line-through" : ""}>
+                            <span className="font-medium">{item.productName}</span>
+                            <span className="ml-2 text-sm text-muted-foreground">{formatMoney(item.price)} each</span>
+                            {item.modifiers && item.modifiers.length > 0 && (
+                              <p className="text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                            )}
+                          </div>
+                          {unpaid > 0 ? (
+                            <div className="flex items-center gap-2">
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => changeItemQuantity(order, item.id, selected - 1)}
+                                disabled={selected === 0}
+                              >
+                                -
+                              </Button>
+                              <span className="w-10 text-center text-sm">
+                                {selected}/{unpaid}
+                              </span>
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => changeItemQuantity(order, item.id, selected + 1)}
+                                disabled={selected >= unpaid}
+                              >
+                                +
+                              </Button>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Paid</span>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="custom" className="space-y-4 pt-2">
+                <div className="space-y-1">
+                  <Label htmlFor="custom-amount">Amount</Label>
+                  <Input
+                    id="custom-amount"
+                    type="number"
+                    step={getAmountStep(currency)}
+                    min="0.01"
+                    max={balance}
+                    placeholder={toAmountInput(0, currency)}
+                    value={customAmount}
+                    onChange={(e) => setCustomAmount(e.target.value)}
+                  />
+                  {customValue > balance && (
+                    <p className="text-xs text-red-500">The amount exceeds the balance of {formatMoney(balance)}</p>
+                  )}
+                </div>
+              </TabsContent>
+            </Tabs>
+
+            <div className="space-y-3 rounded-md border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="tip">Tip</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="tip"
+                    type="number"
+                    step={getAmountStep(currency)}
+                    min="0"
+                    placeholder={toAmountInput(0, currency)}
+                    className="w-28"
+                    value={tip}
+                    onChange={(e) => setTip(e.target.value)}
+                  />
+                  {TIP_PERCENTAGES.map((percentage) => (
+                    <Button
+                      key={percentage}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={!isPendingValid}
+                      onClick={() => {
+                        const amount = roundMoney((pendingAmount * percentage) / 100, currency.decimals)
+                        setTip(toAmountInput(amount, currency))
+                      }}
+                    >
+                      {percentage}%
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {method === "cash" && (
+                <div className="space-y-1">
+                  <Label htmlFor="tendered">Cash Tendered</Label>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      id="tendered"
+                      type="number"
+                      step={getAmountStep(currency)}
+                      min="0"
+                      placeholder={toAmountInput(amountDue, currency)}
+                      className="w-28"
+                      value={tendered}
+                      onChange={(e) => setTendered(e.target.value)}
+                    />
+                    {isPendingValid &&
+                      getCashSuggestions(amountDue).map((suggestion) => (
+                        <Button
+                          key={suggestion}
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setTendered(toAmountInput(suggestion, currency))}
+                        >
+                          {formatMoney(suggestion)}
+                        </Button>
+                      ))}
+                  </div>
+                  {change !== null && (
+                    <p className="text-sm">
+                      Change due: <strong>{formatMoney(change)}</strong>
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {method === "voucher" && (
+                <div className="space-y-1">
+                  <Label htmlFor="voucher-code">Voucher Code</Label>
+                  <Input
+                    id="voucher-code"
+                    placeholder="e.g. GIFT-1234"
+                    value={voucherCode}
+                    onChange={(e) => setVoucherCode(e.target.value)}
+                  />
+                </div>
+              )}
+
+              {method === "card" && (
+                <p className="text-sm text-muted-foreground">
+                  {terminalStatus
+                    ? TERMINAL_MESSAGES[terminalStatus]
+                    : `${formatMoney(amountDue)} will be charged on the card terminal.`}
+                </p>
+              )}
+              {method === "card" && terminalError && <p className="text-xs text-red-500">{terminalError}</p>}
+
+              {tenderError && <p className="text-xs text-red-500">{tenderError}</p>}
+            </div>
+
+            {unrecorded && (
+              <div className="space-y-2 rounded-md border border-red-200 bg-red-50 p-3">
+                <p className="text-sm text-red-700">
+                  The card was charged {formatMoney(unrecorded.charged ?? 0)}, but the payment could not be recorded.
+                  Record it again; the card is not charged a second time.
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => submitPayment(unrecorded)} disabled={isPaying}>
+                    Record Payment
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setUnrecorded(null)} disabled={isPaying}>
+                    Discard (refund on the terminal)
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                className="flex-1"
+                onClick={handlePay}
+                disabled={isBusy || !!unrecorded || !isPendingValid || !!tenderError}
+              >
+                {isBusy
+                  ? "Processing..."
+                  : tipValue > 0
+                    ? `${payLabels[mode]} + ${formatMoney(tipValue)} Tip`
+                    : payLabels[mode]}
+              </Button>
+              {terminalStatus && (
+                <Button variant="outline" onClick={() => chargeController.current?.abort()}>
+                  Cancel Card
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+
+        {payments.length > 0 && (
+          <div className="space-y-1 border-t pt-3">
+            <h4 className="text-sm font-medium">Payments</h4>
+            {payments.map((payment) => (
+              <div key={payment.id} className="flex justify-between text-sm text-muted-foreground">
+                <span>
+                  {new Date(payment.createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} ·{" "}
+                  {describeTender(payment)}
+                  {isTable && ` · Order #${payment.orderId}`}
+                  {payment.items && " · by item"}
+                  {payment.tip ? ` · ${formatMoney(payment.tip)} tip` : ""}
+                  {payment.change ? ` · ${formatMoney(payment.change)} change` : ""}
+                </span>
+                <span>{formatMoney(payment.amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {balance === 0 ? "Done" : "Close"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default SplitBillDialog
@@ -0,0 +1,15 @@
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { getStatusInfo } from "@/lib/order-lifecycle"
+
+interface StatusBadgeProps {
+  status: string
+  className?: string
+}
+
+export function StatusBadge({ status, className }: StatusBadgeProps) {
+  const info = getStatusInfo(status)
+  return <Badge className={cn(info.badgeClassName, className)}>{info.label}</Badge>
+}
+
+export default StatusBadge
@@ -0,0 +1,202 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import type { CafeSettings, UpdateCafeSettingsRequest } from "@/lib/api"
+
+interface TaxSettingsFormProps {
+  settings: CafeSettings
+  onSubmit: (settings: UpdateCafeSettingsRequest) => Promise<void>
+  isLoading: boolean
+  disabled?: boolean
+  serverErrors?: Record<string, string>
+}
+
+const CATEGORIES = ["coffee", "pastry", "dessert", "food"]
+
+const isPercent = (value: string): boolean => {
+  const number = Number(value)
+  return value.trim() !== "" && number >= 0 && number <= 100
+}
+
+export function TaxSettingsForm({
+  settings,
+  onSubmit,
+  isLoading,
+  disabled = false,
+  serverErrors,
+}: TaxSettingsFormProps) {
+  const [label, setLabel] = useState(settings.tax.label)
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(settings.tax.pricesIncludeTax)
+  const [defaultRate, setDefaultRate] = useState(String(settings.tax.defaultRate))
+  // Empty means the category pays the default rate
+  const [categoryRates, setCategoryRates] = useState<Record<string, string>>({})
+  const [serviceChargeRate, setServiceChargeRate] = useState(String(settings.serviceChargeRate))
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // Show the saved settings once they have loaded or changed
+  useEffect(() => {
+    setLabel(settings.tax.label)
+    setPricesIncludeTax(settings.tax.pricesIncludeTax)
+    setDefaultRate(String(settings.tax.defaultRate))
+    const rates = Object.entries(settings.tax.categoryRates).map(([category, rate]) => [category, String(rate)])
+    setCategoryRates(Object.fromEntries(rates))
+    setServiceChargeRate(String(settings.serviceChargeRate))
+  }, [settings])
+
+  // Show validation errors returned by the server next to the matching fields
+  useEffect(() => {
+    if (serverErrors) {
+      setErrors((prev) => ({ ...prev, ...serverErrors }))
+    }
+  }, [serverErrors])
+
+  // Validate form before submission
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {}
+
+    if (!label.trim()) {
+      newErrors["tax.label"] = "Tax name is required"
+    }
+
+    if (!isPercent(defaultRate)) {
+      newErrors["tax.defaultRate"] = "Rate must be between 0 and 100"
+    }
+
+    if (!Object.values(categoryRates).every((rate) => !rate.trim() || isPercent(rate))) {
+      newErrors["tax.categoryRates"] = "Rates must be between 0 and 100"
+    }
+
+    if (!isPercent(serviceChargeRate)) {
+      newErrors.serviceChargeRate = "Service charge must be between 0 and 100"
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) return
+
+    await onSubmit({
+      tax: {
+        label: label.trim(),
+        pricesIncludeTax,
+        defaultRate: Number(defaultRate),
+        categoryRates: Object.fromEntries(
+          Object.entries(categoryRates)
+            .filter(([, rate]) => rate.trim())
+            .map(([category, rate]) => [category, Number(rate)]),
+        ),
+      },
+      serviceChargeRate: Number(serviceChargeRate),
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="tax-label">Tax Name</Label>
+          <Input
+            id="tax-label"
+            placeholder="e.g. VAT"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            disabled={disabled}
+            className={errors["tax.label"] ? "border-red-500" : ""}
+          />
+          {errors["tax.label"] && <p className="text-xs text-red-500">{errors["tax.label"]}</p>}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="tax-default-rate">Standard Rate (%)</Label>
+          <Input
+            id="tax-default-rate"
+            type="number"
+            step="0.01"
+            min="0"
+            max="100"
+            value={defaultRate}
+            onChange={(e) => setDefaultRate(e.target.value)}
+            disabled={disabled}
+            className={errors["tax.defaultRate"] ? "border-red-500" : ""}
+          />
+          {errors["tax.defaultRate"] && <p className="text-xs text-red-500">{errors["tax.defaultRate"]}</p>}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="tax-inclusive"
+          checked={pricesIncludeTax}
+          onCheckedChange={setPricesIncludeTax}
+          disabled={disabled}
+        />
+        <Label htmlFor="tax-inclusive" className="font-normal">
+          {pricesIncludeTax ? "Menu prices include tax" : "Tax is added on top of menu prices"}
+        </Label>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Rates by Category (%)</Label>
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          {CATEGORIES.map((category) => (
+            <div key={category} className="space-y-1">
+              <Label htmlFor={`tax-rate-${category}`} className="text-xs capitalize text-muted-foreground">
+                {category}
+              </Label>
+              <Input
+                id={`tax-rate-${category}`}
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                placeholder={defaultRate}
+                value={categoryRates[category] ?? ""}
+                onChange={(e) => setCategoryRates({ ...categoryRates, [category]: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">Leave empty to use the standard rate.</p>
+        {errors["tax.categoryRates"] && <p className="text-xs text-red-500">{errors["tax.categoryRates"]}</p>}
+      </div>
+
+      <div className="space-y-1 sm:w-1/2">
+        <Label htmlFor="service-charge">Service Charge (%)</Label>
+        <Input
+          id="service-charge"
+          type="number"
+          step="0.01"
+          min="0"
+          max="100"
+          value={serviceChargeRate}
+          onChange={(e) => setServiceChargeRate(e.target.value)}
+          disabled={disabled}
+          className={errors.serviceChargeRate ? "border-red-500" : ""}
+        />
+        <p className="text-xs text-muted-foreground">Added to every order after discounts; 0 turns it off.</p>
+        {errors.serviceChargeRate && <p className="text-xs text-red-500">{errors.serviceChargeRate}</p>}
+      </div>
+
+      {!disabled && (
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Saving..." : "Save Tax Settings"}
+          </Button>
+        </div>
+      )}
+    </form>
+  )
+}
+
+export default TaxSettingsForm
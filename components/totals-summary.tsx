@@ -0,0 +1,64 @@
+"use client"
+
+import useMoney from "@/hooks/use-money"
+import { cn } from "@/lib/utils"
+import { describeTax, type OrderTotals } from "@/lib/totals"
+
+interface TotalsSummaryProps {
+  totals: OrderTotals
+  className?: string
+}
+
+export function TotalsSummary({ totals, className }: TotalsSummaryProps) {
+  const { formatMoney } = useMoney()
+  const addedTaxes = totals.taxIncluded ? [] : totals.taxes
+  const hasAdjustments = totals.discountTotal > 0 || totals.serviceCharge > 0 || addedTaxes.length > 0
+
+  return (
+    <div className={cn("space-y-1 text-sm", className)}>
+      {hasAdjustments && (
+        <div className="flex items-center justify-between text-muted-foreground">
+          <span>Subtotal:</span>
+          <span>{formatMoney(totals.subtotal)}</span>
+        </div>
+      )}
+      {totals.ruleDiscount > 0 && (
+        <div className="flex items-center justify-between text-green-700">
+          <span>Discounts:</span>
+          <span>-{formatMoney(totals.ruleDiscount)}</span>
+        </div>
+      )}
+      {totals.manualDiscount > 0 && (
+        <div className="flex items-center justify-between text-green-700">
+          <span>Order discount:</span>
+          <span>-{formatMoney(totals.manualDiscount)}</span>
+        </div>
+      )}
+      {totals.serviceCharge > 0 && (
+        <div className="flex items-center justify-between text-muted-foreground">
+          <span>Service charge:</span>
+          <span>{formatMoney(totals.serviceCharge)}</span>
+        </div>
+      )}
+      {addedTaxes.map((tax) => (
+        <div key={describeTax(tax)} className="flex items-center justify-between text-muted-foreground">
+          <span>{describeTax(tax)}:</span>
+          <span>{formatMoney(tax.amount)}</span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between border-t pt-2 text-base font-bold">
+        <span>Total:</span>
+        <span>{formatMoney(totals.total)}</span>
+      </div>
+      {totals.taxIncluded &&
+        totals.taxes.map((tax) => (
+          <div key={describeTax(tax)} className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Includes {describeTax(tax)}:</span>
+            <span>{formatMoney(tax.amount)}</span>
+          </div>
+        ))}
+    </div>
+  )
+}
+
+export default TotalsSummary
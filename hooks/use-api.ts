@@ -1,49 +1,141 @@
 "use client"
 
-import { useState, useCallback } from "react"
-import apiService, { handleApiError } from "@/lib/api"
+import { useState, useCallback, useEffect, useRef } from "react"
+import apiService, { ApiError, type RequestOptions } from "@/lib/api"
+
+/**
+ * Progress of an API call that is being retried
+ */
+export interface RetryAttempt {
+  attempt: number
+  maxAttempts: number
+}
+
+/**
+ * Options for a single executeApiCall invocation
+ */
+export interface ExecuteOptions {
+  /**
+   * Calls sharing a key supersede each other: starting a new one cancels the previous one, and
+   * the previous result is discarded even if it already arrived
+   */
+  key?: string
+}
 
 /**
  * Custom hook for making API calls with loading and error states
+ * Every call gets its own AbortController. Pending calls are cancelled when the component
+ * unmounts, and results of cancelled or superseded calls never reach state.
  * @returns Object with loading state, error state, and API methods
  */
 export function useApi() {
-  const [isLoading, setIsLoading] = useState(false)
-  const [error, setError] = useState(null)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [apiError, setApiError] = useState<ApiError | null>(null)
+  const [retryAttempt, setRetryAttempt] = useState<RetryAttempt | null>(null)
+
+  // Controllers of calls in flight, and the latest controller per supersession key
+  const controllersRef = useRef<Set<AbortController>>(new Set())
+  const latestByKeyRef = useRef<Map<string, AbortController>>(new Map())
+  const mountedRef = useRef(true)
+
+  // Cancel everything still in flight on unmount
+  useEffect(() => {
+    mountedRef.current = true
+    const controllers = controllersRef.current
+    return () => {
+      mountedRef.current = false
+      controllers.forEach((controller) => controller.abort())
+      controllers.clear()
+    }
+  }, [])
 
   /**
    * Execute an API call with loading and error handling
-   * @param apiCall - Function that returns a Promise
-   * @returns Promise with the result of the API call
+   * @param apiCall - Function that returns a Promise; pass the given options to the API method so
+   * the request can be cancelled and can report retry progress through retryAttempt
+   * @param executeOptions - Optional supersession key
+   * @returns Promise with the result of the API call, or null if it failed, was cancelled or was
+   * superseded
+   */
+  const executeApiCall = useCallback(
+    async <T>(apiCall: (options: RequestOptions) => Promise<T>, executeOptions?: ExecuteOptions): Promise<T | null> => {
+      const controller = new AbortController()
+      const key = executeOptions?.key
+      if (key) {
+        latestByKeyRef.current.get(key)?.abort()
+        latestByKeyRef.current.set(key, controller)
+      }
+      controllersRef.current.add(controller)
+
+      // A call is current until it is aborted (superseded or unmounted)
+      const isCurrent = () => mountedRef.current && !controller.signal.aborted
+
+      setPendingCount((count) => count + 1)
+      setApiError(null)
+      setRetryAttempt(null)
+
+      const options: RequestOptions = {
+        signal: controller.signal,
+        onRetry: (attempt, maxAttempts) => {
+          if (isCurrent()) {
+            setRetryAttempt({ attempt, maxAttempts })
+          }
+        },
+      }
+
+      try {
+        const result = await apiCall(options)
+        return isCurrent() ? result : null
+      } catch (err) {
+        const error = ApiError.from(err)
+        if (isCurrent() && error.code !== "canceled") {
+          console.error("API call error:", err)
+          setApiError(error)
+        }
+        return null
+      } finally {
+        controllersRef.current.delete(controller)
+        if (key && latestByKeyRef.current.get(key) === controller) {
+          latestByKeyRef.current.delete(key)
+        }
+        if (mountedRef.current) {
+          setPendingCount((count) => count - 1)
+          if (!controller.signal.aborted) {
+            setRetryAttempt(null)
+          }
+        }
+      }
+    },
+    [],
+  )
+
+  /**
+   * Cancel pending calls
+   * @param key - Only cancel the call with this supersession key; cancels every call if omitted
    */
-  const executeApiCall = useCallback(async (apiCall) => {
-    setIsLoading(true)
-    setError(null)
-
-    try {
-      const result = await apiCall()
-      return result
-    } catch (err) {
-      console.error("API call error:", err)
-      const errorMessage = handleApiError(err)
-      setError(errorMessage)
-      return null
-    } finally {
-      setIsLoading(false)
+  const cancel = useCallback((key?: string) => {
+    if (key) {
+      latestByKeyRef.current.get(key)?.abort()
+      return
     }
+    controllersRef.current.forEach((controller) => controller.abort())
   }, [])
 
   /**
    * Clear any existing error
    */
   const clearError = useCallback(() => {
-    setError(null)
+    setApiError(null)
   }, [])
 
   return {
-    isLoading,
-    error,
+    isLoading: pendingCount > 0,
+    error: apiError?.message ?? null,
+    apiError,
+    fieldErrors: apiError?.details,
+    retryAttempt,
     clearError,
+    cancel,
     executeApiCall,
     api: apiService,
   }
@@ -0,0 +1,45 @@
+"use client"
+
+import useApi from "./use-api"
+import useQuery from "./use-query"
+import queryCache from "@/lib/query-cache"
+import { DEFAULT_CAFE_SETTINGS } from "@/lib/cafe-settings"
+import type { CafeSettings, UpdateCafeSettingsRequest } from "@/lib/api"
+
+/**
+ * Custom hook for the cafe settings, used to work out totals and by managers to change tax and
+ * service charge
+ * @returns Object with the settings (the defaults until they have loaded), loading and error states,
+ * and a method to update them
+ */
+export function useCafeSettings() {
+  const { isLoading: isSaving, error, fieldErrors, clearError, executeApiCall, api } = useApi()
+  const settingsQuery = useQuery<CafeSettings>(["settings"], (options) => api.settings.get(options))
+
+  /**
+   * Update the cafe settings
+   * @param settingsData - Settings to change
+   * @returns Updated settings if successful, null otherwise
+   */
+  const updateSettings = async (settingsData: UpdateCafeSettingsRequest): Promise<CafeSettings | null> => {
+    const result = await executeApiCall((options) => api.settings.update(settingsData, options))
+    if (result) {
+      settingsQuery.setData(result)
+      // Open orders were priced again with the new settings
+      queryCache.invalidate("orders")
+    }
+    return result
+  }
+
+  return {
+    settings: settingsQuery.data ?? DEFAULT_CAFE_SETTINGS,
+    isLoading: settingsQuery.isLoading,
+    isSaving,
+    error: error || settingsQuery.error,
+    fieldErrors,
+    clearError,
+    updateSettings,
+  }
+}
+
+export default useCafeSettings
@@ -0,0 +1,20 @@
+"use client"
+
+import useCafeSettings from "./use-cafe-settings"
+import { formatMoney } from "@/lib/money"
+
+/**
+ * Custom hook to show amounts in the currency of the cafe
+ * @returns Object with the currency settings and formatMoney bound to them
+ */
+export function useMoney() {
+  const { settings } = useCafeSettings()
+  const currency = settings.currency
+
+  return {
+    currency,
+    formatMoney: (amount: number) => formatMoney(amount, currency),
+  }
+}
+
+export default useMoney
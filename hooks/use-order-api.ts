@@ -2,14 +2,17 @@
 
 import { useState, useEffect } from "react"
 import useApi from "./use-api"
-import type { Order } from "@/lib/api"
+import useOrderEvents from "./use-order-events"
+import type { AddOrderItemRequest, Order, OrderStatus } from "@/lib/api"
+import { applyOrderEvent } from "@/lib/order-events"
+import { getStatusInfo } from "@/lib/order-lifecycle"
 
 /**
  * Custom hook for managing orders with the API
  * @returns Object with orders, loading state, error state, and order management methods
  */
 export function useOrderApi() {
-  const { isLoading, error, executeApiCall, api } = useApi()
+  const { isLoading, error, apiError, fieldErrors, retryAttempt, clearError, cancel, executeApiCall, api } = useApi()
   const [orders, setOrders] = useState<Order[]>([])
   const [filteredOrders, setFilteredOrders] = useState<Order[]>([])
   const [currentStatus, setCurrentStatus] = useState<string | null>(null)
@@ -19,6 +22,15 @@ export function useOrderApi() {
     loadOrders()
   }, [])
 
+  // Keep the orders current with changes made elsewhere
+  const { status: realtimeStatus } = useOrderEvents((message) => {
+    if (message.type === "resync") {
+      loadOrders()
+    } else {
+      setOrders((current) => applyOrderEvent(current, message))
+    }
+  })
+
   // Filter orders when status changes
   useEffect(() => {
     if (currentStatus) {
@@ -32,7 +44,7 @@ export function useOrderApi() {
    * Load all orders from API
    */
   const loadOrders = async (): Promise<void> => {
-    const result = await executeApiCall(() => api.orders.getAll())
+    const result = await executeApiCall((options) => api.orders.getAll(undefined, options), { key: "orders" })
     if (result) {
       setOrders(result)
     }
@@ -42,9 +54,9 @@ export function useOrderApi() {
    * Load orders by status
    * @param status - Order status to filter by
    */
-  const loadOrdersByStatus = async (status: "new" | "preparing" | "ready" | "delivered" | "paid"): Promise<void> => {
+  const loadOrdersByStatus = async (status: OrderStatus): Promise<void> => {
     setCurrentStatus(status)
-    const result = await executeApiCall(() => api.orders.getByStatus(status))
+    const result = await executeApiCall((options) => api.orders.getByStatus(status, options), { key: "filtered-orders" })
     if (result) {
       setFilteredOrders(result)
     }
@@ -55,7 +67,7 @@ export function useOrderApi() {
    * @param tableId - Table ID to filter by
    */
   const loadOrdersByTable = async (tableId: number): Promise<void> => {
-    const result = await executeApiCall(() => api.orders.getByTable(tableId))
+    const result = await executeApiCall((options) => api.orders.getByTable(tableId, options), { key: "filtered-orders" })
     if (result) {
       setFilteredOrders(result)
     }
@@ -82,7 +94,8 @@ export function useOrderApi() {
   }): Promise<Order | null> => {
     const result = await executeApiCall(() => api.orders.create(orderData))
     if (result) {
-      setOrders([...orders, result])
+      // The created event may already have added the order
+      setOrders((current) => [...current.filter((order) => order.id !== result.id), result])
       return result
     }
     return null
@@ -96,11 +109,11 @@ export function useOrderApi() {
    */
   const updateOrderStatus = async (
     id: number,
-    status: "new" | "preparing" | "ready" | "delivered" | "paid",
+    status: OrderStatus,
   ): Promise<Order | null> => {
     const result = await executeApiCall(() => api.orders.updateStatus(id, status))
     if (result) {
-      setOrders(orders.map((order) => (order.id === id ? result : order)))
+      setOrders((current) => current.map((order) => (order.id === id ? result : order)))
       return result
     }
     return null
@@ -118,7 +131,7 @@ export function useOrderApi() {
     })
 
     if (success) {
-      setOrders(orders.filter((order) => order.id !== id))
+      setOrders((current) => current.filter((order) => order.id !== id))
       return true
     }
     return false
@@ -132,14 +145,14 @@ export function useOrderApi() {
    */
   const addItemToOrder = async (
     orderId: number,
-    item: { productId: number; quantity: number },
+    item: AddOrderItemRequest,
   ): Promise<any | null> => {
     const result = await executeApiCall(() => api.orders.addItem(orderId, item))
     if (result) {
       // Refresh the order to get updated total
       const updatedOrder = await getOrderById(orderId)
       if (updatedOrder) {
-        setOrders(orders.map((order) => (order.id === orderId ? updatedOrder : order)))
+        setOrders((current) => current.map((order) => (order.id === orderId ? updatedOrder : order)))
       }
       return result
     }
@@ -159,53 +172,23 @@ export function useOrderApi() {
       // Refresh the order to get updated total
       const updatedOrder = await getOrderById(orderId)
       if (updatedOrder) {
-        setOrders(orders.map((order) => (order.id === orderId ? updatedOrder : order)))
+        setOrders((current) => current.map((order) => (order.id === orderId ? updatedOrder : order)))
       }
       return result
     }
     return null
   }
 
-  /**
-   * Remove item from order
-   * @param orderId - Order ID
-   * @param itemId - Item ID
-   * @returns True if successful, false otherwise
-   */
-  const removeOrderItem = async (orderId: number, itemId: number): Promise<boolean> => {
-    const success = await executeApiCall(async () => {
-      await api.orders.removeItem(orderId, itemId)
-      return true
-    })
-
-    if (success) {
-      // Refresh the order to get updated total
-      const updatedOrder = await getOrderById(orderId)
-      if (updatedOrder) {
-        setOrders(orders.map((order) => (order.id === orderId ? updatedOrder : order)))
-      }
-      return true
-    }
-    return false
-  }
-
   /**
    * Get current order for table
    * @param tableId - Table ID
    * @returns Current order if found, null otherwise
    */
   const getCurrentOrderForTable = async (tableId: number): Promise<Order | null> => {
-    try {
-      const result = await executeApiCall(() => api.orders.getByTable(tableId))
-      if (result && result.length > 0) {
-        // Find the most recent active order (not paid)
-        const activeOrder = result.find((order) => order.status !== "paid")
-        return activeOrder || null
-      }
-      return null
-    } catch (error) {
-      return null
-    }
+    // No supersession key: a lookup must neither cancel nor be cancelled by loading the filtered list
+    const result = await executeApiCall((options) => api.orders.getByTable(tableId, options))
+    // Find the most recent active order (not paid or voided)
+    return result?.find((order) => getStatusInfo(order.status).isOpen) ?? null
   }
 
   /**
@@ -221,6 +204,12 @@ export function useOrderApi() {
     allOrders: orders,
     isLoading,
     error,
+    apiError,
+    fieldErrors,
+    retryAttempt,
+    realtimeStatus,
+    clearError,
+    cancel,
     loadOrders,
     loadOrdersByStatus,
     loadOrdersByTable,
@@ -230,7 +219,6 @@ export function useOrderApi() {
     deleteOrder,
     addItemToOrder,
     updateOrderItem,
-    removeOrderItem,
     getCurrentOrderForTable,
     resetStatusFilter,
     currentStatus,
@@ -0,0 +1,36 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import realtime, { type RealtimeMessage, type RealtimeStatus } from "@/lib/realtime"
+
+/**
+ * Custom hook for receiving realtime order events
+ * @param onMessage - Called with every order event, and with { type: "resync" } after a reconnect
+ * @param enabled - Set to false to stay unsubscribed
+ * @param tableId - Only receive the orders of this table, e.g. on the guest page
+ * @returns Object with the connection status
+ */
+export function useOrderEvents(onMessage: (message: RealtimeMessage) => void, enabled = true, tableId?: number) {
+  const [status, setStatus] = useState<RealtimeStatus>(realtime.getStatus(tableId))
+
+  // Always call the latest handler without resubscribing on every render
+  const handlerRef = useRef(onMessage)
+  handlerRef.current = onMessage
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+    const unsubscribeStatus = realtime.subscribeStatus(setStatus, tableId)
+    const unsubscribe = realtime.subscribe((message) => handlerRef.current(message), tableId)
+    setStatus(realtime.getStatus(tableId))
+    return () => {
+      unsubscribe()
+      unsubscribeStatus()
+    }
+  }, [enabled, tableId])
+
+  return { status }
+}
+
+export default useOrderEvents
@@ -0,0 +1,57 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import offlineOutbox, { type OutboxEntry } from "@/lib/offline-outbox"
+
+/**
+ * Custom hook for watching the offline outbox
+ * Starts the automatic replay and keeps track of the queued mutations and the connection state.
+ * @returns Object with the queued entries, sync state and outbox actions
+ */
+export function useOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [isOnline, setIsOnline] = useState(true)
+
+  useEffect(() => {
+    offlineOutbox.startAutoSync()
+    offlineOutbox.list().then(setEntries)
+    const unsubscribe = offlineOutbox.subscribe((state) => {
+      setEntries(state.entries)
+      setIsSyncing(state.isSyncing)
+    })
+
+    const updateOnline = () => setIsOnline(navigator.onLine)
+    updateOnline()
+    window.addEventListener("online", updateOnline)
+    window.addEventListener("offline", updateOnline)
+    return () => {
+      unsubscribe()
+      window.removeEventListener("online", updateOnline)
+      window.removeEventListener("offline", updateOnline)
+    }
+  }, [])
+
+  /**
+   * Replay pending mutations now
+   */
+  const sync = useCallback(() => offlineOutbox.sync(), [])
+
+  /**
+   * Drop a queued mutation
+   * @param entry - Entry to discard
+   */
+  const discard = useCallback((entry: OutboxEntry) => offlineOutbox.discard(entry), [])
+
+  return {
+    entries,
+    pendingCount: entries.filter((entry) => entry.status === "pending").length,
+    failedCount: entries.filter((entry) => entry.status === "failed").length,
+    isSyncing,
+    isOnline,
+    sync,
+    discard,
+  }
+}
+
+export default useOutbox
@@ -0,0 +1,161 @@
+"use client"
+
+import useApi from "./use-api"
+import useQuery from "./use-query"
+import { summarizeSales } from "@/lib/totals"
+import type {
+  CreatePaymentRequest,
+  CreateTablePaymentRequest,
+  Order,
+  Payment,
+  PaymentResult,
+  Refund,
+} from "@/lib/api"
+
+/**
+ * Custom hook for the payments of one order or of all open orders of a table
+ * @param orders - Orders being paid; more than one means the whole table is settled
+ * @param enabled - Set to false to skip loading, e.g. while the checkout is closed
+ * @returns Object with the recorded payments, loading and error states, and payment actions
+ */
+export function usePayments(orders: Order[], enabled = true) {
+  const { isLoading: isPaying, error, executeApiCall, api } = useApi()
+
+  const tableId = orders[0]?.tableId ?? undefined
+  const filter = orders.length > 1 ? { tableId } : { orderId: orders[0]?.id }
+  const paymentsQuery = useQuery<Payment[]>(["payments", filter], (options) => api.payments.getAll(filter, options), {
+    enabled: enabled && orders.length > 0,
+  })
+
+  // A table can have older, closed orders; only show payments of the orders being settled
+  const orderIds = orders.map((order) => order.id)
+  const payments = (paymentsQuery.data ?? []).filter((payment) => orderIds.includes(payment.orderId))
+
+  // Payments carry an idempotency key, so they are retried after a dropped connection and can be
+  // sent again after a failure without being recorded twice
+
+  /**
+   * Record a payment against one order
+   * @param paymentData - Order, amount, tender and the items paid for, if any
+   * @param idempotencyKey - Key of the payment; the same key for every attempt
+   * @returns The payment and the updated order, or null if it failed
+   */
+  const payOrder = (paymentData: CreatePaymentRequest, idempotencyKey: string): Promise<PaymentResult | null> => {
+    return executeApiCall((options) => api.payments.create(paymentData, { ...options, idempotencyKey }))
+  }
+
+  /**
+   * Record payments against several orders at once; either all of them are recorded or none
+   * @param paymentsData - One payment per order
+   * @param idempotencyKey - Key of the payments; the same key for every attempt
+   * @returns The payments and the updated orders, or null if it failed
+   */
+  const payOrders = (paymentsData: CreatePaymentRequest[], idempotencyKey: string): Promise<PaymentResult | null> => {
+    return executeApiCall((options) => api.payments.createMany(paymentsData, { ...options, idempotencyKey }))
+  }
+
+  /**
+   * Record a payment against the table, settling its oldest orders first
+   * @param paymentData - Amount and tender
+   * @param idempotencyKey - Key of the payment; the same key for every attempt
+   * @returns The payments and the updated orders, or null if it failed
+   */
+  const payTable = (paymentData: CreateTablePaymentRequest, idempotencyKey: string): Promise<PaymentResult | null> => {
+    // Takeaway, pickup and delivery orders have no table to settle
+    if (!tableId) {
+      return Promise.resolve(null)
+    }
+    return executeApiCall((options) => api.payments.payTable(tableId, paymentData, { ...options, idempotencyKey }))
+  }
+
+  return {
+    payments,
+    isLoading: paymentsQuery.isLoading,
+    isPaying,
+    error: error || paymentsQuery.error,
+    payOrder,
+    payOrders,
+    payTable,
+  }
+}
+
+// Start and end of a day in local time, as ISO 8601 timestamps
+const getDayRange = (date: string): { from: string; to: string } => {
+  const start = new Date(`${date}T00:00:00`)
+  if (Number.isNaN(start.getTime())) {
+    return { from: "", to: "" }
+  }
+  const end = new Date(start)
+  end.setDate(end.getDate() + 1)
+  return { from: start.toISOString(), to: end.toISOString() }
+}
+
+// Largest page the order list API serves; the sales report reads as many pages as the day has
+const SALES_REPORT_PAGE_SIZE = 100
+
+/**
+ * Custom hook for the payments taken and refunds given on one day, e.g. for the end-of-day cash reconciliation
+ * @param date - Day in YYYY-MM-DD format, in local time
+ * @returns Object with the payments and refunds of the day, loading and error states, and a refetch function
+ */
+export function useDailyPayments(date: string) {
+  const { api } = useApi()
+  const filter = getDayRange(date)
+
+  const paymentsQuery = useQuery<Payment[]>(["payments", filter], (options) => api.payments.getAll(filter, options), {
+    enabled: !!filter.from,
+  })
+  // Refunds are given on orders, so they are refreshed with them
+  const refundsQuery = useQuery<Refund[]>(
+    ["orders", "refunds", filter],
+    (options) => api.payments.getRefunds(filter, options),
+    { enabled: !!filter.from },
+  )
+
+  return {
+    payments: paymentsQuery.data ?? [],
+    refunds: refundsQuery.data ?? [],
+    isLoading: paymentsQuery.isLoading || refundsQuery.isLoading,
+    error: paymentsQuery.error || refundsQuery.error,
+    refetch: () => {
+      paymentsQuery.refetch()
+      refundsQuery.refetch()
+    },
+  }
+}
+
+/**
+ * Custom hook for the sales of one day with their tax and service charge, for the accountant
+ * @param date - Day in YYYY-MM-DD format, in local time; paid orders placed on that day are counted
+ * @returns Object with the sales summary of every paid order of the day, loading and error states
+ */
+export function useDailySales(date: string) {
+  const { api } = useApi()
+  const range = getDayRange(date)
+  // Sorted by ID so the pages stay the same while they are read
+  const query = { ...range, status: "paid" as const, sortBy: "id" as const, pageSize: SALES_REPORT_PAGE_SIZE }
+
+  const ordersQuery = useQuery<Order[]>(
+    ["orders", "sales", query],
+    async (options) => {
+      const orders: Order[] = []
+      for (let page = 1; ; page++) {
+        const result = await api.orders.getPage({ ...query, page }, options)
+        orders.push(...result.items)
+        if (page >= result.totalPages) {
+          return orders
+        }
+      }
+    },
+    { enabled: !!range.from },
+  )
+
+  return {
+    summary: summarizeSales(ordersQuery.data ?? []),
+    isLoading: ordersQuery.isLoading,
+    error: ordersQuery.error,
+    refetch: ordersQuery.refetch,
+  }
+}
+
+export default usePayments
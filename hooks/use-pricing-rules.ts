@@ -0,0 +1,72 @@
+"use client"
+
+import useApi from "./use-api"
+import useQuery from "./use-query"
+import type { CreatePricingRuleRequest, PricingRule } from "@/lib/api"
+
+/**
+ * Custom hook for the pricing rules, used to preview discounts and by managers to edit the rules
+ * @returns Object with the rules, loading and error states, and rule management methods
+ */
+export function usePricingRules() {
+  const { isLoading: isSaving, error, fieldErrors, clearError, executeApiCall, api } = useApi()
+  const rulesQuery = useQuery<PricingRule[]>(["pricing-rules"], (options) => api.pricingRules.getAll(options))
+  const rules = rulesQuery.data ?? []
+
+  /**
+   * Create a pricing rule
+   * @param ruleData - New rule
+   * @returns Created rule if successful, null otherwise
+   */
+  const createRule = async (ruleData: CreatePricingRuleRequest): Promise<PricingRule | null> => {
+    const result = await executeApiCall((options) => api.pricingRules.create(ruleData, options))
+    if (result) {
+      rulesQuery.setData((current = []) => [...current, result])
+    }
+    return result
+  }
+
+  /**
+   * Update a pricing rule
+   * @param id - Rule ID
+   * @param ruleData - Fields to change
+   * @returns Updated rule if successful, null otherwise
+   */
+  const updateRule = async (id: number, ruleData: Partial<CreatePricingRuleRequest>): Promise<PricingRule | null> => {
+    const result = await executeApiCall((options) => api.pricingRules.update(id, ruleData, options))
+    if (result) {
+      rulesQuery.setData((current = []) => current.map((rule) => (rule.id === id ? result : rule)))
+    }
+    return result
+  }
+
+  /**
+   * Delete a pricing rule
+   * @param id - Rule ID
+   * @returns True if successful, false otherwise
+   */
+  const deleteRule = async (id: number): Promise<boolean> => {
+    const success = await executeApiCall(async (options) => {
+      await api.pricingRules.delete(id, options)
+      return true
+    })
+    if (success) {
+      rulesQuery.setData((current = []) => current.filter((rule) => rule.id !== id))
+    }
+    return !!success
+  }
+
+  return {
+    rules,
+    isLoading: rulesQuery.isLoading,
+    isSaving,
+    error: error || rulesQuery.error,
+    fieldErrors,
+    clearError,
+    createRule,
+    updateRule,
+    deleteRule,
+  }
+}
+
+export default usePricingRules
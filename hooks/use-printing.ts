@@ -0,0 +1,61 @@
+"use client"
+
+import { useState } from "react"
+import useApi from "./use-api"
+import useQuery from "./use-query"
+import useCafeSettings from "./use-cafe-settings"
+import { printKitchenTickets, printReceipt, type KitchenPrintResult, type PrintResult } from "@/lib/printers"
+import type { Order, OrderItem, Product } from "@/lib/api"
+
+/**
+ * Custom hook for printing receipts and kitchen tickets on the printers of the cafe settings
+ * @returns Object with the printing state, the last error, and print actions
+ */
+export function usePrinting() {
+  const { api } = useApi()
+  const { settings } = useCafeSettings()
+  const { data: products = [] } = useQuery<Product[]>(["products"], (options) => api.products.getAll(undefined, options))
+  const [isPrinting, setIsPrinting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const runPrint = async <T>(print: () => Promise<T>): Promise<T | null> => {
+    setIsPrinting(true)
+    setError(null)
+    try {
+      return await print()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Printing failed")
+      return null
+    } finally {
+      setIsPrinting(false)
+    }
+  }
+
+  /**
+   * Print the receipt of an order
+   * @param order - Order
+   * @returns Printer used, or null if printing failed
+   */
+  const printOrderReceipt = (order: Order): Promise<PrintResult | null> => {
+    return runPrint(() => printReceipt(order, settings))
+  }
+
+  /**
+   * Print kitchen tickets for an order, routed to the printers by product category
+   * @param order - Order
+   * @param items - Items to print; all items that have not been voided if omitted
+   * @returns Printers used and the items no printer takes, or null if printing failed
+   */
+  const printOrderTickets = (order: Order, items?: OrderItem[]): Promise<KitchenPrintResult | null> => {
+    return runPrint(() => printKitchenTickets(order, settings, products, items))
+  }
+
+  return {
+    isPrinting,
+    error,
+    printReceipt: printOrderReceipt,
+    printKitchenTickets: printOrderTickets,
+  }
+}
+
+export default usePrinting
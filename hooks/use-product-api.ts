@@ -9,7 +9,7 @@ import type { Product } from "@/lib/api"
  * @returns Object with products, loading state, error state, and product management methods
  */
 export function useProductApi() {
-  const { isLoading, error, executeApiCall, api } = useApi()
+  const { isLoading, error, apiError, fieldErrors, retryAttempt, clearError, cancel, executeApiCall, api } = useApi()
   const [products, setProducts] = useState<Product[]>([])
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([])
   const [currentCategory, setCurrentCategory] = useState<string | null>(null)
@@ -32,7 +32,7 @@ export function useProductApi() {
    * Load all products from API
    */
   const loadProducts = async () => {
-    const result = await executeApiCall(() => api.products.getAll())
+    const result = await executeApiCall((options) => api.products.getAll(undefined, options), { key: "products" })
     if (result) {
       setProducts(result)
     }
@@ -44,7 +44,7 @@ export function useProductApi() {
    */
   const loadProductsByCategory = async (category: string) => {
     setCurrentCategory(category)
-    const result = await executeApiCall(() => api.products.getByCategory(category))
+    const result = await executeApiCall((options) => api.products.getByCategory(category, options), { key: "products" })
     if (result) {
       // Update filtered products but keep the full product list intact
       setFilteredProducts(result)
@@ -135,6 +135,11 @@ export function useProductApi() {
     allProducts: products,
     isLoading,
     error,
+    apiError,
+    fieldErrors,
+    retryAttempt,
+    clearError,
+    cancel,
     loadProducts,
     loadProductsByCategory,
     createProduct,
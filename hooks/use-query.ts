@@ -0,0 +1,75 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react"
+import queryCache, { DEFAULT_STALE_TIME, hashQueryKey, type QueryFetcher, type QueryKey } from "@/lib/query-cache"
+
+export interface UseQueryOptions {
+  /** Set to false to skip fetching, e.g. until a required parameter is known */
+  enabled?: boolean
+  /** Maximum age in milliseconds of cached data that is served without revalidating */
+  staleTime?: number
+}
+
+/**
+ * Custom hook for reading a resource through the shared query cache
+ * Cached data is returned immediately and revalidated in the background when stale.
+ * @param key - Query key, e.g. ["products", { category }]
+ * @param fetcher - Function that loads the data from the API, passing the given options on
+ * @param options - Query options
+ * @returns Object with the data, loading and error states, and cache helpers
+ */
+export function useQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: UseQueryOptions = {}) {
+  const { enabled = true, staleTime = DEFAULT_STALE_TIME } = options
+  const hash = hashQueryKey(key)
+
+  // Always call the latest fetcher without resubscribing on every render
+  const fetcherRef = useRef(fetcher)
+  fetcherRef.current = fetcher
+  const keyRef = useRef(key)
+  keyRef.current = key
+
+  const subscribe = useCallback((listener: () => void) => queryCache.subscribe(keyRef.current, listener), [hash])
+  const getSnapshot = useCallback(() => queryCache.getState<T>(keyRef.current), [hash])
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
+
+  /**
+   * Fetch the query now, regardless of how fresh the cached data is
+   * @returns Promise with the data, or null if the request failed
+   */
+  const refetch = useCallback(async (): Promise<T | null> => {
+    try {
+      return await queryCache.fetch(keyRef.current, (requestOptions) => fetcherRef.current(requestOptions))
+    } catch {
+      return null
+    }
+  }, [hash])
+
+  // Fetch on mount and whenever the key changes, unless the cached data is still fresh
+  useEffect(() => {
+    if (enabled && queryCache.isStale(keyRef.current, staleTime)) {
+      refetch()
+    }
+  }, [hash, enabled, staleTime, refetch])
+
+  /**
+   * Update the cached data locally, e.g. with the result of a mutation
+   * @param updater - New data, or a function computing it from the cached data
+   */
+  const setData = useCallback(
+    (updater: T | ((current: T | undefined) => T)) => queryCache.setData<T>(keyRef.current, updater),
+    [hash],
+  )
+
+  return {
+    data: state.data,
+    apiError: state.error ?? null,
+    error: state.error?.message ?? null,
+    isLoading: state.data === undefined && (state.isFetching || (enabled && !state.error)),
+    isFetching: state.isFetching,
+    retryAttempt: state.retryAttempt ?? null,
+    refetch,
+    setData,
+  }
+}
+
+export default useQuery
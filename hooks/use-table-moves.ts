@@ -0,0 +1,88 @@
+"use client"
+
+import useApi from "./use-api"
+import { getTableStatusForOrders } from "@/lib/table-moves"
+import type { Order, SplitOrderResult } from "@/lib/api"
+
+/**
+ * Custom hook for moving orders between tables: transferring an order, merging the orders of two
+ * tables, and splitting items off into a new order. The tables involved are set to occupied,
+ * reserved or available afterwards, by the orders left on them. That update runs on its own, so a
+ * move that succeeded is not reported as failed when a table status could not be saved.
+ * @returns Object with loading and error states, and the move actions
+ */
+export function useTableMoves() {
+  const { isLoading: isMoving, error, fieldErrors, clearError, executeApiCall, api } = useApi()
+  const { error: tableStatusError, executeApiCall: executeStatusCall } = useApi()
+
+  /**
+   * Update the status of tables to match the orders on them
+   * @param tableIds - Tables to update; null for orders without a table
+   */
+  const syncTableStatuses = async (tableIds: (number | null | undefined)[]): Promise<void> => {
+    const ids = [...new Set(tableIds)].filter((id): id is number => !!id)
+    await executeStatusCall(async (options) => {
+      for (const id of ids) {
+        const orders = await api.orders.getByTable(id, options)
+        await api.tables.updateStatus(id, getTableStatusForOrders(orders), options)
+      }
+    })
+  }
+
+  /**
+   * Move an order to another table
+   * @param order - Open order
+   * @param tableId - Table to move it to
+   * @returns The moved order, or null if it failed
+   */
+  const transferOrder = async (order: Order, tableId: number): Promise<Order | null> => {
+    const moved = await executeApiCall((options) => api.orders.transfer(order.id, { tableId }, options))
+    if (moved) {
+      await syncTableStatuses([order.tableId, tableId])
+    }
+    return moved
+  }
+
+  /**
+   * Merge all open orders of two tables into one order
+   * @param fromTableId - Table the guests come from; it is left without orders
+   * @param toTableId - Table the guests join
+   * @returns The merged order, or null if it failed
+   */
+  const mergeTables = async (fromTableId: number, toTableId: number): Promise<Order | null> => {
+    const merged = await executeApiCall((options) => api.orders.mergeTables({ fromTableId, toTableId }, options))
+    if (merged) {
+      await syncTableStatuses([fromTableId, toTableId])
+    }
+    return merged
+  }
+
+  /**
+   * Move items of an order to a new order
+   * @param order - Open order
+   * @param itemIds - Items to move
+   * @param tableId - Table of the new order; the table of the order if omitted
+   * @returns The order the items were taken from and the new order, or null if it failed
+   */
+  const splitOrder = async (order: Order, itemIds: number[], tableId?: number): Promise<SplitOrderResult | null> => {
+    const result = await executeApiCall((options) => api.orders.split(order.id, { itemIds, tableId }, options))
+    if (result) {
+      await syncTableStatuses([order.tableId, result.newOrder.tableId])
+    }
+    return result
+  }
+
+  return {
+    isMoving,
+    error,
+    /** The move succeeded but a table status could not be updated */
+    tableStatusError: tableStatusError && `The table status could not be updated: ${tableStatusError}`,
+    fieldErrors,
+    clearError,
+    transferOrder,
+    mergeTables,
+    splitOrder,
+  }
+}
+
+export default useTableMoves
@@ -0,0 +1,118 @@
+import type { Order, OrderAdjustment, OrderItem, RefundReasonCode, VoidReasonCode } from "./api"
+import { getStatusInfo } from "./order-lifecycle"
+import { getChargedItems, getItemsAmount, roundMoney } from "./payments"
+
+/**
+ * Voids and refunds
+ * Orders are never deleted to take them back. Before an order is paid, a whole order or one of its
+ * items is voided: the voided lines stay on the order, struck through, and are no longer charged.
+ * After it is paid, the order or an item is refunded: the total stays what was charged and the
+ * money handed back is recorded next to it. Both need a reason code, and staff need a manager to
+ * enter their PIN. Every void and refund is kept on the order as an adjustment.
+ */
+
+export const VOID_REASONS: Record<VoidReasonCode, string> = {
+  entered_by_mistake: "Entered by mistake",
+  guest_changed_mind: "Guest changed their mind",
+  kitchen_error: "Kitchen error",
+  out_of_stock: "Out of stock",
+  other: "Other",
+}
+
+export const REFUND_REASONS: Record<RefundReasonCode, string> = {
+  quality_issue: "Quality issue",
+  wrong_item: "Wrong item served",
+  long_wait: "Long wait",
+  overcharged: "Overcharged",
+  other: "Other",
+}
+
+/**
+ * Get the label of the reason of a void or refund
+ * @param adjustment - Void or refund
+ * @returns Label, or the code itself for codes this version does not know
+ */
+export const getReasonLabel = (adjustment: Pick<OrderAdjustment, "kind" | "reasonCode">): string => {
+  const labels: Record<string, string> = adjustment.kind === "void" ? VOID_REASONS : REFUND_REASONS
+  return labels[adjustment.reasonCode] ?? adjustment.reasonCode
+}
+
+/**
+ * Check if a whole order can be voided
+ * @param order - Order
+ * @returns True while the order is open and nothing has been paid on it
+ */
+export const canVoidOrder = (order: Order): boolean => {
+  return getStatusInfo(order.status).isOpen && !order.amountPaid
+}
+
+/**
+ * Check if an item can be voided; the backend also refuses items that have been paid for
+ * @param order - Order
+ * @param item - Item of the order
+ * @returns True while the order is open and the item has not been voided
+ */
+export const canVoidItem = (order: Order, item: OrderItem): boolean => {
+  return getStatusInfo(order.status).isOpen && !item.voided
+}
+
+/**
+ * Get the amount that can still be refunded on an order
+ * @param order - Order
+ * @returns Amount paid less the refunds given so far
+ */
+export const getRefundableAmount = (order: Order): number => {
+  return Math.max(0, roundMoney((order.amountPaid ?? 0) - (order.refundedAmount ?? 0)))
+}
+
+/**
+ * Check if an order can be refunded
+ * @param order - Order
+ * @returns True once the order is paid, until everything has been refunded
+ */
+export const canRefundOrder = (order: Order): boolean => {
+  return order.status === "paid" && getRefundableAmount(order) > 0
+}
+
+/**
+ * Check if an item can be refunded
+ * @param order - Order
+ * @param item - Item of the order
+ * @returns True if the order can be refunded and the item was charged and not refunded yet
+ */
+export const canRefundItem = (order: Order, item: OrderItem): boolean => {
+  return canRefundOrder(order) && !item.voided && !item.refunded
+}
+
+/**
+ * Get the amount an item is refunded
+ * Items are refunded their share of the order total, including discounts, service charge and tax.
+ * The last item not refunded yet gets what is left, so refunding every item adds up to the amount paid.
+ * @param order - Paid order
+ * @param item - Item to refund
+ * @param decimals - Decimals of the currency
+ * @returns Amount to hand back
+ */
+export const getItemRefundAmount = (order: Order, item: OrderItem, decimals: number): number => {
+  const refundable = getRefundableAmount(order)
+  const remaining = getChargedItems(order).filter((candidate) => !candidate.refunded)
+  if (remaining.length === 1 && remaining[0].id === item.id) {
+    return refundable
+  }
+  return Math.min(refundable, getItemsAmount(order, [{ itemId: item.id, quantity: item.quantity }], decimals))
+}
+
+/**
+ * Describe what a void or refund took back, e.g. "Voided 2 × Latte" or "Refunded order"
+ * @param adjustment - Void or refund
+ * @param order - Order it belongs to, for the name of the item
+ * @returns Description
+ */
+export const describeAdjustment = (adjustment: OrderAdjustment, order: Order): string => {
+  const action = adjustment.kind === "void" ? "Voided" : "Refunded"
+  if (adjustment.itemId == null) {
+    return `${action} order`
+  }
+  const item = order.items.find((candidate) => candidate.id === adjustment.itemId)
+  return item ? `${action} ${item.quantity} × ${item.productName}` : `${action} item`
+}
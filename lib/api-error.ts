@@ -0,0 +1,192 @@
+import axios, { type AxiosError } from "axios"
+
+/**
+ * Error codes an ApiError can carry
+ */
+export type ApiErrorCode =
+  | "network"
+  | "timeout"
+  | "canceled"
+  | "validation"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "rate_limited"
+  | "server"
+  | "invalid_response"
+  | "unknown"
+
+interface ApiErrorOptions {
+  status?: number
+  code: ApiErrorCode
+  details?: Record<string, string>
+  retryable?: boolean
+  cause?: unknown
+}
+
+/**
+ * Shape of the error bodies returned by the .NET backend. Both our own `{ error, details }`
+ * envelope and ASP.NET ProblemDetails (`{ title, errors }`) are understood.
+ */
+interface ErrorResponseBody {
+  error?: string
+  code?: string
+  message?: string
+  title?: string
+  details?: string | Record<string, string | string[]>
+  errors?: Record<string, string | string[]>
+}
+
+const STATUS_CODES: Record<number, ApiErrorCode> = {
+  400: "validation",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  422: "validation",
+  429: "rate_limited",
+}
+
+const DEFAULT_MESSAGES: Record<ApiErrorCode, string> = {
+  network: "Cannot connect to the server. Please check your connection or try again later.",
+  timeout: "The server took too long to respond. Please try again.",
+  canceled: "The request was cancelled.",
+  validation: "Bad request. Please check your input.",
+  unauthorized: "Unauthorized. Please log in again.",
+  forbidden: "Forbidden. You do not have permission to access this resource.",
+  not_found: "Resource not found.",
+  conflict: "This change conflicts with the current state. Please refresh and try again.",
+  rate_limited: "Too many requests. Please wait a moment and try again.",
+  server: "Server error. Please try again later.",
+  invalid_response: "The server sent a response in an unexpected format.",
+  unknown: "An unknown error occurred",
+}
+
+/**
+ * Convert a server field name (e.g. "Price" or "items[0].ProductId") to the camelCase name the
+ * forms use (e.g. "price" or "items[0].productId")
+ */
+const normalizeFieldName = (field: string): string => {
+  return field
+    .replace(/^\$\./, "")
+    .split(".")
+    .map((part) => part.charAt(0).toLowerCase() + part.slice(1))
+    .join(".")
+}
+
+const normalizeDetails = (
+  details: Record<string, string | string[]> | undefined,
+): Record<string, string> | undefined => {
+  if (!details || typeof details !== "object") {
+    return undefined
+  }
+
+  const normalized: Record<string, string> = {}
+  Object.entries(details).forEach(([field, messages]) => {
+    normalized[normalizeFieldName(field)] = Array.isArray(messages) ? messages.join(" ") : String(messages)
+  })
+  return normalized
+}
+
+/**
+ * Typed error for every failed API call
+ * Carries the HTTP status, a stable error code, per-field validation details and whether the
+ * request is worth retrying, so callers can react to the kind of failure instead of a string.
+ */
+export class ApiError extends Error {
+  readonly status?: number
+  readonly code: ApiErrorCode
+  readonly details?: Record<string, string>
+  readonly retryable: boolean
+  readonly cause?: unknown
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message)
+    this.name = "ApiError"
+    this.status = options.status
+    this.code = options.code
+    this.details = options.details
+    this.retryable = options.retryable ?? false
+    this.cause = options.cause
+  }
+
+  /**
+   * Check if the server rejected specific fields
+   */
+  get isValidationError(): boolean {
+    return this.code === "validation" && !!this.details && Object.keys(this.details).length > 0
+  }
+
+  /**
+   * Convert any error thrown by an API call into an ApiError
+   * @param error - Error object from API call
+   * @returns ApiError describing the failure
+   */
+  static from(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error
+    }
+
+    if (axios.isCancel(error)) {
+      return new ApiError(DEFAULT_MESSAGES.canceled, { code: "canceled", cause: error })
+    }
+
+    if (axios.isAxiosError(error)) {
+      return ApiError.fromAxiosError(error)
+    }
+
+    const message = error instanceof Error ? error.message : DEFAULT_MESSAGES.unknown
+    return new ApiError(message, { code: "unknown", cause: error })
+  }
+
+  private static fromAxiosError(error: AxiosError): ApiError {
+    // Handle network errors first
+    if (error.message === "Network Error" || error.code === "ERR_NETWORK") {
+      return new ApiError(DEFAULT_MESSAGES.network, { code: "network", retryable: true, cause: error })
+    }
+
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new ApiError(DEFAULT_MESSAGES.timeout, { code: "timeout", retryable: true, cause: error })
+    }
+
+    // Handle HTTP errors
+    if (error.response) {
+      const status = error.response.status
+      const code: ApiErrorCode = STATUS_CODES[status] || (status >= 500 ? "server" : "unknown")
+      const data = error.response.data
+      // A null body is an object too
+      const body = (data && typeof data === "object" ? data : {}) as ErrorResponseBody
+
+      const details = normalizeDetails(typeof body.details === "object" ? body.details : body.errors)
+      const message =
+        body.error ||
+        (typeof body.details === "string" ? body.details : undefined) ||
+        body.message ||
+        (details ? Object.values(details).join(", ") : undefined) ||
+        body.title ||
+        (code === "unknown" ? `Error: ${status}` : DEFAULT_MESSAGES[code])
+
+      return new ApiError(message, {
+        status,
+        code,
+        details,
+        retryable: status >= 500 || status === 429,
+        cause: error,
+      })
+    }
+
+    // Handle request errors
+    if (error.request) {
+      return new ApiError("Network error. Please check your connection.", {
+        code: "network",
+        retryable: true,
+        cause: error,
+      })
+    }
+
+    return new ApiError(error.message || DEFAULT_MESSAGES.unknown, { code: "unknown", cause: error })
+  }
+}
+
+export default ApiError
@@ -1,12 +1,77 @@
-import axios, { type AxiosError } from "axios"
-
-/**
- * Base API configuration
- * Change the baseURL to match your .NET backend API URL
- * For local development, this might be something like http://localhost:5000/api
- * For production, this would be your deployed API URL
- */
-const API_BASE_URL = "https://cafemanagement-production.up.railway.app/api"
+import type { z } from "zod"
+import axios, { type AxiosError, type GenericAbortSignal, type InternalAxiosRequestConfig } from "axios"
+import apiConfig, { type RetryPolicy } from "./config"
+import { mockAdapter } from "./mock-backend"
+import queryCache from "./query-cache"
+import {
+  authResponseSchema,
+  cafeSettingsSchema,
+  cursorPageSchema,
+  managerApprovalSchema,
+  orderItemSchema,
+  orderSchema,
+  pagedResultSchema,
+  paymentResultSchema,
+  paymentSchema,
+  pricingRuleSchema,
+  productSchema,
+  refreshTokenResponseSchema,
+  refundSchema,
+  splitOrderResultSchema,
+  tableSchema,
+  tableWithOrderSchema,
+  userSchema,
+} from "./schemas"
+import type {
+  AddOrderItemRequest,
+  AuthResponse,
+  CafeSettings,
+  CreateOrderRequest,
+  CreatePaymentRequest,
+  CreatePricingRuleRequest,
+  CreateProductRequest,
+  CreateTablePaymentRequest,
+  CreateTableRequest,
+  LoginRequest,
+  CursorPage,
+  ManagerApproval,
+  MergeTablesRequest,
+  ManualDiscountRequest,
+  Order,
+  OrderCursorQuery,
+  OrderItem,
+  OrderPageQuery,
+  OrderStatus,
+  PagedResult,
+  Payment,
+  PaymentFilter,
+  PaymentResult,
+  PricingRule,
+  Product,
+  RefreshTokenResponse,
+  Refund,
+  RefundRequest,
+  RegisterRequest,
+  SplitOrderRequest,
+  SplitOrderResult,
+  Table,
+  TableWithOrder,
+  TransferOrderRequest,
+  UpdateCafeSettingsRequest,
+  User,
+  VoidRequest,
+} from "./schemas"
+import ApiError from "./api-error"
+
+export { ApiError, type ApiErrorCode } from "./api-error"
+export {
+  ITEM_NOTE_MAX_LENGTH,
+  MAX_CURRENCY_DECIMALS,
+  ORDER_NOTE_MAX_LENGTH,
+  PAPER_WIDTHS,
+  REFUND_REASON_CODES,
+  VOID_REASON_CODES,
+} from "./schemas"
 
 /**
  * Token management functions
@@ -25,10 +90,39 @@ export const tokenService = {
     }
   },
 
+  getRefreshToken: (): string | null => {
+    if (typeof window !== "undefined") {
+      return localStorage.getItem("refresh_token")
+    }
+    return null
+  },
+
+  setRefreshToken: (refreshToken: string): void => {
+    if (typeof window !== "undefined") {
+      localStorage.setItem("refresh_token", refreshToken)
+    }
+  },
+
+  /**
+   * Store the tokens returned by login, register or refresh
+   */
+  setTokens: (token: string, refreshToken?: string): void => {
+    tokenService.setToken(token)
+    if (refreshToken) {
+      tokenService.setRefreshToken(refreshToken)
+    }
+  },
+
+  /**
+   * Remove both the access token and the refresh token, ending the session
+   */
   removeToken: (): void => {
     if (typeof window !== "undefined") {
       localStorage.removeItem("auth_token")
+      localStorage.removeItem("refresh_token")
     }
+    // Cached responses belong to the session that fetched them
+    queryCache.clear()
   },
 
   isAuthenticated: (): boolean => {
@@ -40,22 +134,119 @@ export const tokenService = {
  * Axios instance with default configuration
  */
 const api = axios.create({
-  baseURL: API_BASE_URL,
+  baseURL: apiConfig.getBaseUrl(),
   headers: {
     "Content-Type": "application/json",
   },
   timeout: 20000, // 10 seconds
 })
 
+declare module "axios" {
+  interface AxiosRequestConfig {
+    /** Set once a request has been replayed after a token refresh */
+    _authRetried?: boolean
+    /** Retry policy override for this request, or false to disable retries */
+    retry?: Partial<RetryPolicy> | false
+    /** Called before each retry of this request */
+    onRetry?: (attempt: number, maxAttempts: number, error: ApiError) => void
+    /** Number of retries already made for this request */
+    _retryCount?: number
+    /** Key that lets the server recognise a replayed mutation; sent as the Idempotency-Key header */
+    idempotencyKey?: string
+    /** Set to false to reject a 401 without signing out and sending the user to the login page */
+    authRedirect?: boolean
+  }
+}
+
+/**
+ * Per-call request options accepted by every API method
+ */
+export interface RequestOptions {
+  /** Abort signal to cancel the request */
+  signal?: AbortSignal
+  /** Retry policy override, or false to disable retries */
+  retry?: Partial<RetryPolicy> | false
+  /** Called before each retry with the upcoming attempt number */
+  onRetry?: (attempt: number, maxAttempts: number, error: ApiError) => void
+  /** Idempotency key for mutations; the server applies a request with a known key only once */
+  idempotencyKey?: string
+  /** Set to false for requests made for guests, who are not signed in, so a 401 stays on the page */
+  authRedirect?: boolean
+}
+
+/**
+ * Generate an idempotency key (crypto.randomUUID is missing on plain-HTTP LAN addresses)
+ */
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * Token refresh state
+ * Only one refresh call is made at a time; every request that fails with 401 (or is sent) while it
+ * is running waits for the same promise and is then replayed with the new access token.
+ */
+let refreshPromise: Promise<string> | null = null
+
 /**
- * Request interceptor to add auth token to requests
+ * Exchange the refresh token for a new access token
+ * @returns Promise with the new access token
+ */
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = tokenService.getRefreshToken()
+    refreshPromise = (
+      refreshToken ? authApi.refresh(refreshToken) : Promise.reject(new Error("No refresh token available"))
+    )
+      .then((response) => response.token)
+      .finally(() => {
+        refreshPromise = null
+      })
+  }
+  return refreshPromise
+}
+
+/**
+ * Send the user to the login page, remembering where they were
+ */
+const redirectToLogin = (): void => {
+  if (typeof window !== "undefined" && window.location.pathname !== "/login") {
+    const returnUrl = window.location.pathname + window.location.search
+    window.location.href = `/login?returnUrl=${encodeURIComponent(returnUrl)}`
+  }
+}
+
+// Auth endpoints answer 401 for bad credentials; those must never trigger a refresh
+const isAuthEndpoint = (url?: string): boolean => {
+  return !!url && /^\/?auth\/(login|register|refresh)/.test(url)
+}
+
+/**
+ * Request interceptor to resolve the active backend and add auth token to requests
  */
 api.interceptors.request.use(
-  (config) => {
+  async (config) => {
+    // Resolved per request so a profile switch on the settings screen applies immediately
+    config.baseURL = apiConfig.getBaseUrl()
+    if (apiConfig.isMock()) {
+      config.adapter = mockAdapter
+    }
+
+    // Hold new requests while a refresh is running so they go out with the new token
+    if (refreshPromise && !isAuthEndpoint(config.url)) {
+      await refreshPromise.catch(() => undefined)
+    }
+
     const token = tokenService.getToken()
     if (token) {
       config.headers.Authorization = `Bearer ${token}`
     }
+    if (config.idempotencyKey) {
+      config.headers["Idempotency-Key"] = config.idempotencyKey
+    }
     return config
   },
   (error) => Promise.reject(error),
@@ -66,12 +257,25 @@ api.interceptors.request.use(
  */
 api.interceptors.response.use(
   (response) => response,
-  (error: AxiosError) => {
-    // Handle authentication errors
-    if (error.response?.status === 401) {
-      tokenService.removeToken()
-      if (typeof window !== "undefined") {
-        window.location.href = "/login"
+  async (error: AxiosError) => {
+    const originalRequest = error.config as InternalAxiosRequestConfig | undefined
+
+    // Handle authentication errors: try a token refresh once, then replay the request
+    if (error.response?.status === 401 && originalRequest && !isAuthEndpoint(originalRequest.url)) {
+      if (!originalRequest._authRetried && tokenService.getRefreshToken()) {
+        originalRequest._authRetried = true
+        try {
+          const token = await refreshAccessToken()
+          originalRequest.headers.Authorization = `Bearer ${token}`
+          return api(originalRequest)
+        } catch (refreshError) {
+          console.error("Token refresh failed", refreshError)
+        }
+      }
+
+      if (originalRequest.authRedirect !== false) {
+        tokenService.removeToken()
+        redirectToLogin()
       }
     }
     return Promise.reject(error)
@@ -79,111 +283,240 @@ api.interceptors.response.use(
 )
 
 /**
- * Types for API requests and responses
+ * Retry handling
+ * Idempotent requests (and mutations carrying an idempotency key) that fail with a network error, a
+ * timeout, a 5xx or a 429 are retried with exponential backoff and full jitter. A Retry-After header
+ * from the server takes precedence.
  */
-export interface ApiResponse<T> {
-  data: T
-  status: number
-  message?: string
-}
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"]
 
-// Auth Types
-export interface LoginRequest {
-  email: string
-  password: string
+/**
+ * Parse a Retry-After header (either seconds or an HTTP date)
+ * @returns Delay in milliseconds, or null if the header is missing or invalid
+ */
+const parseRetryAfter = (header: unknown): number | null => {
+  if (typeof header !== "string" || !header) {
+    return null
+  }
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
 }
 
-export interface RegisterRequest {
-  name: string
-  email: string
-  password: string
-  confirmPassword: string
+/**
+ * Compute the delay before the given retry
+ * @param retry - Retry number, starting at 1
+ * @param policy - Retry policy
+ * @param retryAfter - Retry-After header value
+ * @returns Delay in milliseconds
+ */
+const getRetryDelay = (retry: number, policy: RetryPolicy, retryAfter: unknown): number => {
+  const serverDelay = parseRetryAfter(retryAfter)
+  if (serverDelay !== null) {
+    return Math.min(serverDelay, policy.maxDelayMs)
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1))
+  return Math.round(Math.random() * ceiling)
 }
 
-export interface AuthResponse {
-  token: string
-  user: User
+/**
+ * Wait before a retry, giving up early if the request is aborted
+ */
+const waitForRetry = (delay: number, signal?: GenericAbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new axios.CanceledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort)
+      resolve()
+    }, delay)
+    signal?.addEventListener?.("abort", onAbort, { once: true })
+  })
 }
 
-// User Types
-export interface User {
-  id: number
-  name: string
-  email: string
-  role: "admin" | "manager" | "staff" | "customer"
-  status: "active" | "inactive"
-  joinedAt: string
-}
+/**
+ * Response interceptor for retrying idempotent requests
+ */
+api.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const config = error.config as InternalAxiosRequestConfig | undefined
+    const isIdempotent = IDEMPOTENT_METHODS.includes((config?.method || "get").toLowerCase()) || !!config?.idempotencyKey
+    if (!config || config.retry === false || !isIdempotent) {
+      return Promise.reject(error)
+    }
 
-// Table Types
-export interface Table {
-  id: number
-  name: string
-  capacity: number
-  status: "available" | "occupied" | "reserved"
-}
+    const apiError = ApiError.from(error)
+    const policy = { ...apiConfig.getRetryPolicy(), ...config.retry }
+    const retryCount = config._retryCount || 0
+    if (!apiError.retryable || retryCount + 1 >= policy.attempts || config.signal?.aborted) {
+      return Promise.reject(error)
+    }
 
-export interface TableWithOrder extends Table {
-  currentOrder: Order | null
-}
+    config._retryCount = retryCount + 1
+    config.onRetry?.(retryCount + 2, policy.attempts, apiError)
+    await waitForRetry(getRetryDelay(config._retryCount, policy, error.response?.headers?.["retry-after"]), config.signal)
+    return api(config)
+  },
+)
 
-export interface CreateTableRequest {
-  name: string
-  capacity: number
-  status: "available" | "occupied" | "reserved"
-}
+/**
+ * Response interceptor for keeping the query cache fresh
+ * A successful mutation invalidates every cached query of the resource it changed, taken from the
+ * first segment of the request URL (e.g. POST /orders/5/items invalidates "orders").
+ */
+api.interceptors.response.use((response) => {
+  const method = (response.config.method || "get").toLowerCase()
+  if (method !== "get") {
+    const resource = response.config.url?.replace(/^\//, "").split(/[/?]/)[0]
+    if (resource) {
+      queryCache.invalidate(resource)
+    }
+  }
+  return response
+})
 
-export interface UpdateTableStatusRequest {
-  status: "available" | "occupied" | "reserved"
+/**
+ * Types for API requests and responses
+ */
+export interface ApiResponse<T> {
+  data: T
+  status: number
+  message?: string
 }
 
-// Product Types
-export interface Product {
-  id: number
-  name: string
-  description: string
-  price: number
-  category: string
-  imageUrl: string
-}
+// Request and response types are derived from the zod schemas in lib/schemas.ts
+export type {
+  LoginRequest,
+  RegisterRequest,
+  AuthResponse,
+  RefreshTokenResponse,
+  ManagerApprovalRequest,
+  ManagerApproval,
+  User,
+  UserRole,
+  UserRef,
+  Table,
+  TableStatus,
+  TableWithOrder,
+  CreateTableRequest,
+  UpdateTableStatusRequest,
+  Product,
+  CreateProductRequest,
+  ModifierOption,
+  ModifierGroup,
+  ModifierSelection,
+  OrderItemModifier,
+  PricingRuleType,
+  PricingSchedule,
+  PricingRule,
+  CreatePricingRuleRequest,
+  AppliedDiscount,
+  ManualDiscountType,
+  ManualDiscount,
+  TaxSettings,
+  CurrencySettings,
+  Printer,
+  PrintSettings,
+  SchedulingSettings,
+  CafeSettings,
+  UpdateCafeSettingsRequest,
+  TaxLine,
+  OrderItem,
+  AddOrderItemRequest,
+  Order,
+  OrderStatus,
+  OrderType,
+  OrderCustomer,
+  OrderStatusChange,
+  AdjustmentKind,
+  OrderAdjustment,
+  CreateOrderRequest,
+  UpdateOrderStatusRequest,
+  UpdateOrderNoteRequest,
+  ApplyPromoCodeRequest,
+  ManualDiscountRequest,
+  VoidReasonCode,
+  RefundReasonCode,
+  VoidRequest,
+  RefundRequest,
+  TransferOrderRequest,
+  MergeTablesRequest,
+  SplitOrderRequest,
+  SplitOrderResult,
+  OrderSortField,
+  SortOrder,
+  OrderFilter,
+  OrderPageQuery,
+  OrderCursorQuery,
+  PageInfo,
+  PagedResult,
+  CursorPage,
+  OrderEvent,
+  PaymentMethod,
+  PaidItem,
+  CardAuthorization,
+  Payment,
+  CreatePaymentRequest,
+  CreateTablePaymentRequest,
+  PaymentFilter,
+  Refund,
+  PaymentResult,
+} from "./schemas"
 
-export interface CreateProductRequest {
-  name: string
-  description: string
-  price: number
-  category: string
-  imageUrl?: string
-}
+/**
+ * Response validation
+ * Responses are checked against their zod schema. In "warn" mode (the default outside production)
+ * contract drift is logged once per endpoint and problem; in "strict" mode the call fails with an
+ * ApiError so the drift cannot go unnoticed. The unparsed data is returned, so fields the schemas
+ * do not know yet still reach the UI.
+ */
+const reportedDrift = new Set<string>()
 
-// Order Types
-export interface OrderItem {
-  id: number
-  productId: number
-  productName: string
-  quantity: number
-  price: number
-}
+const orderPageSchema = pagedResultSchema(orderSchema)
+const orderCursorPageSchema = cursorPageSchema(orderSchema)
 
-export interface Order {
-  id: number
-  tableId: number
-  userId: number
-  status: "new" | "preparing" | "ready" | "delivered" | "paid"
-  items: OrderItem[]
-  total: number
-  orderDate: string
-}
+/**
+ * Check a response body against its schema
+ * @param schema - Expected shape of the response
+ * @param data - Response body
+ * @param endpoint - Name of the API method, used in reports
+ * @returns The response body
+ */
+const validateResponse = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, endpoint: string): T => {
+  const mode = apiConfig.getValidationMode()
+  if (mode === "off") {
+    return data as T
+  }
 
-export interface CreateOrderRequest {
-  tableId: number
-  items: {
-    productId: number
-    quantity: number
-  }[]
-}
+  const result = schema.safeParse(data)
+  if (result.success) {
+    return data as T
+  }
+
+  const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "(response)"}: ${issue.message}`)
+  if (mode === "strict") {
+    throw new ApiError(`Unexpected response from ${endpoint}: ${issues[0]}`, {
+      code: "invalid_response",
+      cause: result.error,
+    })
+  }
 
-export interface UpdateOrderStatusRequest {
-  status: "new" | "preparing" | "ready" | "delivered" | "paid"
+  const signature = `${endpoint} ${issues.join(" ")}`
+  if (!reportedDrift.has(signature)) {
+    reportedDrift.add(signature)
+    console.warn(`[api] Response of ${endpoint} does not match the API contract:\n  ${issues.join("\n  ")}`, data)
+  }
+  return data as T
 }
 
 /**
@@ -193,23 +526,39 @@ export const authApi = {
   /**
    * Login user with email and password
    * @param credentials - User login credentials
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with auth token and user data
    */
-  login: async (credentials: LoginRequest): Promise<AuthResponse> => {
-    const response = await api.post<AuthResponse>("/auth/login", credentials)
-    tokenService.setToken(response.data.token)
-    return response.data
+  login: async (credentials: LoginRequest, options?: RequestOptions): Promise<AuthResponse> => {
+    const response = await api.post<AuthResponse>("/auth/login", credentials, options)
+    const data = validateResponse(authResponseSchema, response.data, "authApi.login")
+    tokenService.setTokens(data.token, data.refreshToken)
+    return data
   },
 
   /**
    * Register a new user
    * @param userData - New user registration data
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with auth token and user data
    */
-  register: async (userData: RegisterRequest): Promise<AuthResponse> => {
-    const response = await api.post<AuthResponse>("/auth/register", userData)
-    tokenService.setToken(response.data.token)
-    return response.data
+  register: async (userData: RegisterRequest, options?: RequestOptions): Promise<AuthResponse> => {
+    const response = await api.post<AuthResponse>("/auth/register", userData, options)
+    const data = validateResponse(authResponseSchema, response.data, "authApi.register")
+    tokenService.setTokens(data.token, data.refreshToken)
+    return data
+  },
+
+  /**
+   * Exchange a refresh token for a new access token (and a rotated refresh token)
+   * @param refreshToken - Current refresh token
+   * @returns Promise with the new tokens
+   */
+  refresh: async (refreshToken: string): Promise<RefreshTokenResponse> => {
+    const response = await api.post<RefreshTokenResponse>("/auth/refresh", { refreshToken })
+    const data = validateResponse(refreshTokenResponseSchema, response.data, "authApi.refresh")
+    tokenService.setTokens(data.token, data.refreshToken)
+    return data
   },
 
   /**
@@ -218,7 +567,7 @@ export const authApi = {
    */
   logout: async (): Promise<void> => {
     try {
-      await api.post("/auth/logout")
+      await api.post("/auth/logout", { refreshToken: tokenService.getRefreshToken() })
     } catch (error) {
       // Even if the API call fails, we still want to remove the token
       console.error("Logout API call failed", error)
@@ -229,20 +578,33 @@ export const authApi = {
 
   /**
    * Get current user profile
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with user data
    */
-  getCurrentUser: async (): Promise<User> => {
-    const response = await api.get<User>("/auth/me")
-    return response.data
+  getCurrentUser: async (options?: RequestOptions): Promise<User> => {
+    const response = await api.get<User>("/auth/me", options)
+    return validateResponse(userSchema, response.data, "authApi.getCurrentUser")
+  },
+
+  /**
+   * Have a manager approve an action on this screen, e.g. a manual discount
+   * @param pin - PIN of a manager or admin
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with a short-lived approval token and the approving manager
+   */
+  requestApproval: async (pin: string, options?: RequestOptions): Promise<ManagerApproval> => {
+    const response = await api.post<ManagerApproval>("/auth/approvals", { pin }, options)
+    return validateResponse(managerApprovalSchema, response.data, "authApi.requestApproval")
   },
 
   /**
    * Check if token is valid
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with boolean indicating if token is valid
    */
-  validateToken: async (): Promise<boolean> => {
+  validateToken: async (options?: RequestOptions): Promise<boolean> => {
     try {
-      await api.get("/auth/validate")
+      await api.get("/auth/validate", options)
       return true
     } catch (error) {
       tokenService.removeToken()
@@ -259,63 +621,69 @@ export const usersApi = {
    * Get all users
    * @param role - Optional role filter
    * @param status - Optional status filter
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with array of users
    */
-  getAll: async (role?: string, status?: string): Promise<User[]> => {
+  getAll: async (role?: string, status?: string, options?: RequestOptions): Promise<User[]> => {
     const params = { role, status }
-    const response = await api.get<User[]>("/users", { params })
-    return response.data
+    const response = await api.get<User[]>("/users", { params, ...options })
+    return validateResponse(userSchema.array(), response.data, "usersApi.getAll")
   },
 
   /**
    * Get user by ID
    * @param id - User ID
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with user data
    */
-  getById: async (id: number): Promise<User> => {
-    const response = await api.get<User>(`/users/${id}`)
-    return response.data
+  getById: async (id: number, options?: RequestOptions): Promise<User> => {
+    const response = await api.get<User>(`/users/${id}`, options)
+    return validateResponse(userSchema, response.data, "usersApi.getById")
   },
 
   /**
    * Create a new user
    * @param userData - New user data
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with created user data
    */
-  create: async (userData: Omit<User, "id" | "joinedAt">): Promise<User> => {
-    const response = await api.post<User>("/users", userData)
-    return response.data
+  create: async (userData: Omit<User, "id" | "joinedAt">, options?: RequestOptions): Promise<User> => {
+    const response = await api.post<User>("/users", userData, options)
+    return validateResponse(userSchema, response.data, "usersApi.create")
   },
 
   /**
    * Update an existing user
    * @param id - User ID
    * @param userData - Updated user data
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with updated user data
    */
-  update: async (id: number, userData: Partial<User>): Promise<User> => {
-    const response = await api.put<User>(`/users/${id}`, userData)
-    return response.data
+  update: async (id: number, userData: Partial<User>, options?: RequestOptions): Promise<User> => {
+    const response = await api.put<User>(`/users/${id}`, userData, options)
+    return validateResponse(userSchema, response.data, "usersApi.update")
   },
 
   /**
    * Update user status
    * @param id - User ID
    * @param status - New status (active/inactive)
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with updated user data
    */
-  updateStatus: async (id: number, status: "active" | "inactive"): Promise<User> => {
-    const response = await api.patch<User>(`/users/${id}/status`, { status })
-    return response.data
+  updateStatus: async (id: number, status: "active" | "inactive", options?: RequestOptions): Promise<User> => {
+    const response = await api.patch<User>(`/users/${id}/status`, { status }, options)
+    return validateResponse(userSchema, response.data, "usersApi.updateStatus")
   },
 
   /**
    * Delete a user
    * @param id - User ID
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with void
    */
-  delete: async (id: number): Promise<void> => {
-    await api.delete(`/users/${id}`)
+  delete: async (id: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/users/${id}`, options)
   },
 }
 
@@ -327,83 +695,91 @@ export const tablesApi = {
    * Get all tables
    * @param status - Optional status filter
    * @param capacity - Optional minimum capacity filter
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with array of tables
    */
-  getAll: async (status?: string, capacity?: number): Promise<Table[]> => {
+  getAll: async (status?: string, capacity?: number, options?: RequestOptions): Promise<Table[]> => {
     const params = { status, capacity }
-    const response = await api.get<Table[]>("/tables", { params })
-    return response.data
+    const response = await api.get<Table[]>("/tables", { params, ...options })
+    return validateResponse(tableSchema.array(), response.data, "tablesApi.getAll")
   },
 
   /**
    * Get table by ID
    * @param id - Table ID
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with table data
    */
-  getById: async (id: number): Promise<Table> => {
-    const response = await api.get<Table>(`/tables/${id}`)
-    return response.data
+  getById: async (id: number, options?: RequestOptions): Promise<Table> => {
+    const response = await api.get<Table>(`/tables/${id}`, options)
+    return validateResponse(tableSchema, response.data, "tablesApi.getById")
   },
 
   /**
    * Get table with its current order
    * @param id - Table ID
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with table and order data
    */
-  getWithOrder: async (id: number): Promise<TableWithOrder> => {
-    const response = await api.get<TableWithOrder>(`/tables/${id}/order`)
-    return response.data
+  getWithOrder: async (id: number, options?: RequestOptions): Promise<TableWithOrder> => {
+    const response = await api.get<TableWithOrder>(`/tables/${id}/order`, options)
+    return validateResponse(tableWithOrderSchema, response.data, "tablesApi.getWithOrder")
   },
 
   /**
    * Get tables by status
    * @param status - Table status (available, occupied, reserved)
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with array of tables
    */
-  getByStatus: async (status: "available" | "occupied" | "reserved"): Promise<Table[]> => {
-    const response = await api.get<Table[]>(`/tables/status/${status}`)
-    return response.data
+  getByStatus: async (status: "available" | "occupied" | "reserved", options?: RequestOptions): Promise<Table[]> => {
+    const response = await api.get<Table[]>(`/tables/status/${status}`, options)
+    return validateResponse(tableSchema.array(), response.data, "tablesApi.getByStatus")
   },
 
   /**
    * Create a new table
    * @param tableData - New table data
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with created table data
    */
-  create: async (tableData: CreateTableRequest): Promise<Table> => {
-    const response = await api.post<Table>("/tables", tableData)
-    return response.data
+  create: async (tableData: CreateTableRequest, options?: RequestOptions): Promise<Table> => {
+    const response = await api.post<Table>("/tables", tableData, options)
+    return validateResponse(tableSchema, response.data, "tablesApi.create")
   },
 
   /**
    * Update an existing table
    * @param id - Table ID
    * @param tableData - Updated table data
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with updated table data
    */
-  update: async (id: number, tableData: Partial<Table>): Promise<Table> => {
-    const response = await api.put<Table>(`/tables/${id}`, tableData)
-    return response.data
+  update: async (id: number, tableData: Partial<Table>, options?: RequestOptions): Promise<Table> => {
+    const response = await api.put<Table>(`/tables/${id}`, tableData, options)
+    return validateResponse(tableSchema, response.data, "tablesApi.update")
   },
 
   /**
    * Update table status
    * @param id - Table ID
    * @param status - New status (available, occupied, reserved)
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with updated table data
    */
-  updateStatus: async (id: number, status: "available" | "occupied" | "reserved"): Promise<Table> => {
-    const response = await api.patch<Table>(`/tables/${id}/status`, { status })
-    return response.data
+  updateStatus: async (id: number, status: "available" | "occupied" | "reserved", options?: RequestOptions): Promise<Table> => {
+    const response = await api.patch<Table>(`/tables/${id}/status`, { status }, options)
+    return validateResponse(tableSchema, response.data, "tablesApi.updateStatus")
   },
 
   /**
    * Delete a table
    * @param id - Table ID
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with void
    */
-  delete: async (id: number): Promise<void> => {
-    await api.delete(`/tables/${id}`)
+  delete: async (id: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/tables/${id}`, options)
   },
 }
 
@@ -414,62 +790,68 @@ export const productsApi = {
   /**
    * Get all products
    * @param category - Optional category filter
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with array of products
    */
-  getAll: async (category?: string): Promise<Product[]> => {
+  getAll: async (category?: string, options?: RequestOptions): Promise<Product[]> => {
     const params = { category }
-    const response = await api.get<Product[]>("/products", { params })
-    return response.data
+    const response = await api.get<Product[]>("/products", { params, ...options })
+    return validateResponse(productSchema.array(), response.data, "productsApi.getAll")
   },
 
   /**
    * Get product by ID
    * @param id - Product ID
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with product data
    */
-  getById: async (id: number): Promise<Product> => {
-    const response = await api.get<Product>(`/products/${id}`)
-    return response.data
+  getById: async (id: number, options?: RequestOptions): Promise<Product> => {
+    const response = await api.get<Product>(`/products/${id}`, options)
+    return validateResponse(productSchema, response.data, "productsApi.getById")
   },
 
   /**
    * Get products by category
    * @param category - Product category
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with array of products
    */
-  getByCategory: async (category: string): Promise<Product[]> => {
-    const response = await api.get<Product[]>(`/products/category/${category}`)
-    return response.data
+  getByCategory: async (category: string, options?: RequestOptions): Promise<Product[]> => {
+    const response = await api.get<Product[]>(`/products/category/${category}`, options)
+    return validateResponse(productSchema.array(), response.data, "productsApi.getByCategory")
   },
 
   /**
    * Create a new product
    * @param productData - New product data
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with created product data
    */
-  create: async (productData: CreateProductRequest): Promise<Product> => {
-    const response = await api.post<Product>("/products", productData)
-    return response.data
+  create: async (productData: CreateProductRequest, options?: RequestOptions): Promise<Product> => {
+    const response = await api.post<Product>("/products", productData, options)
+    return validateResponse(productSchema, response.data, "productsApi.create")
   },
 
   /**
    * Update an existing product
    * @param id - Product ID
    * @param productData - Updated product data
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with updated product data
    */
-  update: async (id: number, productData: Partial<Product>): Promise<Product> => {
-    const response = await api.put<Product>(`/products/${id}`, productData)
-    return response.data
+  update: async (id: number, productData: Partial<Product>, options?: RequestOptions): Promise<Product> => {
+    const response = await api.put<Product>(`/products/${id}`, productData, options)
+    return validateResponse(productSchema, response.data, "productsApi.update")
   },
 
   /**
    * Delete a product
    * @param id - Product ID
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with void
    */
-  delete: async (id: number): Promise<void> => {
-    await api.delete(`/products/${id}`)
+  delete: async (id: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/products/${id}`, options)
   },
 }
 
@@ -480,176 +862,485 @@ export const ordersApi = {
   /**
    * Get all orders
    * @param status - Optional status filter
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with array of orders
    */
-  getAll: async (status?: string): Promise<Order[]> => {
+  getAll: async (status?: string, options?: RequestOptions): Promise<Order[]> => {
     const params = { status }
-    const response = await api.get<Order[]>("/orders", { params })
-    return response.data
+    const response = await api.get<Order[]>("/orders", { params, ...options })
+    return validateResponse(orderSchema.array(), response.data, "ordersApi.getAll")
+  },
+
+  /**
+   * Get the orders that are still open: scheduled, new, preparing, ready or delivered
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with array of orders
+   */
+  getOpen: async (options?: RequestOptions): Promise<Order[]> => {
+    const response = await api.get<Order[]>("/orders/open", options)
+    return validateResponse(orderSchema.array(), response.data, "ordersApi.getOpen")
   },
 
   /**
    * Get order by ID
    * @param id - Order ID
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with order data
    */
-  getById: async (id: number): Promise<Order> => {
-    const response = await api.get<Order>(`/orders/${id}`)
-    return response.data
+  getById: async (id: number, options?: RequestOptions): Promise<Order> => {
+    const response = await api.get<Order>(`/orders/${id}`, options)
+    return validateResponse(orderSchema, response.data, "ordersApi.getById")
   },
 
   /**
    * Get orders by table
    * @param tableId - Table ID
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with array of orders
    */
-  getByTable: async (tableId: number): Promise<Order[]> => {
-    const response = await api.get<Order[]>(`/orders/table/${tableId}`)
-    return response.data
+  getByTable: async (tableId: number, options?: RequestOptions): Promise<Order[]> => {
+    const response = await api.get<Order[]>(`/orders/table/${tableId}`, options)
+    return validateResponse(orderSchema.array(), response.data, "ordersApi.getByTable")
   },
 
   /**
    * Get orders by status
    * @param status - Order status
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with array of orders
    */
-  getByStatus: async (status: "new" | "preparing" | "ready" | "delivered" | "paid"): Promise<Order[]> => {
-    const response = await api.get<Order[]>(`/orders/status/${status}`)
-    return response.data
+  getByStatus: async (status: OrderStatus, options?: RequestOptions): Promise<Order[]> => {
+    const response = await api.get<Order[]>(`/orders/status/${status}`, options)
+    return validateResponse(orderSchema.array(), response.data, "ordersApi.getByStatus")
+  },
+
+  /**
+   * Get one page of orders
+   * @param query - Page number and size, filters and sort order
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the page of orders and the total count
+   */
+  getPage: async (query: OrderPageQuery = {}, options?: RequestOptions): Promise<PagedResult<Order>> => {
+    const response = await api.get<PagedResult<Order>>("/orders/paged", { params: query, ...options })
+    return validateResponse(orderPageSchema, response.data, "ordersApi.getPage")
+  },
+
+  /**
+   * Get one page of orders with a given status
+   * @param status - Order status
+   * @param query - Page number and size, other filters and sort order
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the page of orders and the total count
+   */
+  getPageByStatus: async (
+    status: OrderStatus,
+    query: OrderPageQuery = {},
+    options?: RequestOptions,
+  ): Promise<PagedResult<Order>> => {
+    return ordersApi.getPage({ ...query, status }, options)
+  },
+
+  /**
+   * Get one page of orders of a table
+   * @param tableId - Table ID
+   * @param query - Page number and size, other filters and sort order
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the page of orders and the total count
+   */
+  getPageByTable: async (
+    tableId: number,
+    query: OrderPageQuery = {},
+    options?: RequestOptions,
+  ): Promise<PagedResult<Order>> => {
+    return ordersApi.getPage({ ...query, tableId }, options)
+  },
+
+  /**
+   * Get orders after a cursor, for infinite scrolling and exports that must not skip or repeat
+   * orders while new ones arrive
+   * @param query - Cursor, page size, filters and sort order
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the orders and the cursor of the next page
+   */
+  getCursorPage: async (query: OrderCursorQuery = {}, options?: RequestOptions): Promise<CursorPage<Order>> => {
+    const response = await api.get<CursorPage<Order>>("/orders/cursor", { params: query, ...options })
+    return validateResponse(orderCursorPageSchema, response.data, "ordersApi.getCursorPage")
+  },
+
+  /**
+   * Get orders with a given status after a cursor
+   * @param status - Order status
+   * @param query - Cursor, page size, other filters and sort order
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the orders and the cursor of the next page
+   */
+  getCursorPageByStatus: async (
+    status: OrderStatus,
+    query: OrderCursorQuery = {},
+    options?: RequestOptions,
+  ): Promise<CursorPage<Order>> => {
+    return ordersApi.getCursorPage({ ...query, status }, options)
+  },
+
+  /**
+   * Get orders of a table after a cursor
+   * @param tableId - Table ID
+   * @param query - Cursor, page size, other filters and sort order
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the orders and the cursor of the next page
+   */
+  getCursorPageByTable: async (
+    tableId: number,
+    query: OrderCursorQuery = {},
+    options?: RequestOptions,
+  ): Promise<CursorPage<Order>> => {
+    return ordersApi.getCursorPage({ ...query, tableId }, options)
   },
 
   /**
    * Create a new order
    * @param orderData - New order data
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with created order data
    */
-  create: async (orderData: CreateOrderRequest): Promise<Order> => {
-    const response = await api.post<Order>("/orders", orderData)
-    return response.data
+  create: async (orderData: CreateOrderRequest, options?: RequestOptions): Promise<Order> => {
+    const response = await api.post<Order>("/orders", orderData, options)
+    return validateResponse(orderSchema, response.data, "ordersApi.create")
   },
 
   /**
    * Update order status
    * @param id - Order ID
    * @param status - New status
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with updated order data
    */
-  updateStatus: async (id: number, status: "new" | "preparing" | "ready" | "delivered" | "paid"): Promise<Order> => {
-    const response = await api.patch<Order>(`/orders/${id}/status`, { status })
-    return response.data
+  updateStatus: async (id: number, status: OrderStatus, options?: RequestOptions): Promise<Order> => {
+    const response = await api.patch<Order>(`/orders/${id}/status`, { status }, options)
+    return validateResponse(orderSchema, response.data, "ordersApi.updateStatus")
+  },
+
+  /**
+   * Update the note of an order
+   * @param id - Order ID
+   * @param note - New note; an empty string removes it
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with updated order data
+   */
+  updateNote: async (id: number, note: string, options?: RequestOptions): Promise<Order> => {
+    const response = await api.patch<Order>(`/orders/${id}/note`, { note }, options)
+    return validateResponse(orderSchema, response.data, "ordersApi.updateNote")
+  },
+
+  /**
+   * Apply a promo code to an order; the order is priced again
+   * @param id - Order ID
+   * @param promoCode - Code entered by the guest, or null to remove it
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with updated order data
+   */
+  applyPromoCode: async (id: number, promoCode: string | null, options?: RequestOptions): Promise<Order> => {
+    const response = await api.put<Order>(`/orders/${id}/promo-code`, { promoCode }, options)
+    return validateResponse(orderSchema, response.data, "ordersApi.applyPromoCode")
+  },
+
+  /**
+   * Grant a manual discount on a whole order; staff need the approval of a manager
+   * @param id - Order ID
+   * @param discount - Percentage or amount, reason and approval token
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with updated order data
+   */
+  setManualDiscount: async (id: number, discount: ManualDiscountRequest, options?: RequestOptions): Promise<Order> => {
+    const response = await api.put<Order>(`/orders/${id}/discount`, discount, options)
+    return validateResponse(orderSchema, response.data, "ordersApi.setManualDiscount")
+  },
+
+  /**
+   * Remove the manual discount of an order
+   * @param id - Order ID
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with updated order data
+   */
+  removeManualDiscount: async (id: number, options?: RequestOptions): Promise<Order> => {
+    const response = await api.delete<Order>(`/orders/${id}/discount`, options)
+    return validateResponse(orderSchema, response.data, "ordersApi.removeManualDiscount")
+  },
+
+  /**
+   * Void a whole order or one of its items before it is paid; the order is kept with the voided lines.
+   * Staff need the approval of a manager
+   * @param id - Order ID
+   * @param voidData - Item, if not the whole order, reason code, note and approval token
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with updated order data
+   */
+  void: async (id: number, voidData: VoidRequest, options?: RequestOptions): Promise<Order> => {
+    const response = await api.post<Order>(`/orders/${id}/void`, voidData, options)
+    return validateResponse(orderSchema, response.data, "ordersApi.void")
+  },
+
+  /**
+   * Refund a paid order, or one of its items. Staff need the approval of a manager
+   * @param id - Order ID
+   * @param refundData - Item, if not the whole order, reason code, note, tender and approval token
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with updated order data
+   */
+  refund: async (id: number, refundData: RefundRequest, options?: RequestOptions): Promise<Order> => {
+    const response = await api.post<Order>(`/orders/${id}/refund`, refundData, options)
+    return validateResponse(orderSchema, response.data, "ordersApi.refund")
+  },
+
+  /**
+   * Move an open order to another table
+   * @param id - Order ID
+   * @param transferData - Table to move the order to
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with updated order data
+   */
+  transfer: async (id: number, transferData: TransferOrderRequest, options?: RequestOptions): Promise<Order> => {
+    const response = await api.post<Order>(`/orders/${id}/transfer`, transferData, options)
+    return validateResponse(orderSchema, response.data, "ordersApi.transfer")
+  },
+
+  /**
+   * Merge all open orders of two tables into one order on the table the guests join
+   * @param mergeData - Table the guests come from and the table they join
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the merged order
+   */
+  mergeTables: async (mergeData: MergeTablesRequest, options?: RequestOptions): Promise<Order> => {
+    const response = await api.post<Order>("/orders/merge", mergeData, options)
+    return validateResponse(orderSchema, response.data, "ordersApi.mergeTables")
+  },
+
+  /**
+   * Move items of an open order to a new order
+   * @param id - Order ID
+   * @param splitData - Items to move, and the table of the new order if not the same
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the order the items were taken from and the new order
+   */
+  split: async (id: number, splitData: SplitOrderRequest, options?: RequestOptions): Promise<SplitOrderResult> => {
+    const response = await api.post<SplitOrderResult>(`/orders/${id}/split`, splitData, options)
+    return validateResponse(splitOrderResultSchema, response.data, "ordersApi.split")
   },
 
   /**
-   * Delete an order
+   * Delete an order for good; only managers may. Take orders back with a void or refund instead,
+   * which keeps them on record
    * @param id - Order ID
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with void
    */
-  delete: async (id: number): Promise<void> => {
-    await api.delete(`/orders/${id}`)
+  delete: async (id: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/orders/${id}`, options)
   },
 
   /**
    * Get items for an order
    * @param orderId - Order ID
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with array of order items
    */
-  getItems: async (orderId: number): Promise<OrderItem[]> => {
-    const response = await api.get<OrderItem[]>(`/orders/${orderId}/items`)
-    return response.data
+  getItems: async (orderId: number, options?: RequestOptions): Promise<OrderItem[]> => {
+    const response = await api.get<OrderItem[]>(`/orders/${orderId}/items`, options)
+    return validateResponse(orderItemSchema.array(), response.data, "ordersApi.getItems")
   },
 
   /**
    * Add item to order
    * @param orderId - Order ID
    * @param item - Order item data
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with added order item
    */
-  addItem: async (orderId: number, item: { productId: number; quantity: number }): Promise<OrderItem> => {
-    const response = await api.post<OrderItem>(`/orders/${orderId}/items`, item)
-    return response.data
+  addItem: async (orderId: number, item: AddOrderItemRequest, options?: RequestOptions): Promise<OrderItem> => {
+    const response = await api.post<OrderItem>(`/orders/${orderId}/items`, item, options)
+    return validateResponse(orderItemSchema, response.data, "ordersApi.addItem")
   },
 
   /**
    * Update order item
    * @param orderId - Order ID
    * @param itemId - Item ID
-   * @param quantity - New quantity
+   * @param quantity - New quantity; it can only be raised, items are taken back through voids
+   * @param options - Optional request options (cancellation, retry)
    * @returns Promise with updated order item
    */
-  updateItem: async (orderId: number, itemId: number, quantity: number): Promise<OrderItem> => {
-    const response = await api.put<OrderItem>(`/orders/${orderId}/items/${itemId}`, { quantity })
-    return response.data
+  updateItem: async (orderId: number, itemId: number, quantity: number, options?: RequestOptions): Promise<OrderItem> => {
+    const response = await api.put<OrderItem>(`/orders/${orderId}/items/${itemId}`, { quantity }, options)
+    return validateResponse(orderItemSchema, response.data, "ordersApi.updateItem")
   },
 
   /**
-   * Remove item from order
+   * Update the special instructions of an order item
    * @param orderId - Order ID
    * @param itemId - Item ID
-   * @returns Promise with void
+   * @param note - New note; an empty string removes it
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with updated order item
    */
-  removeItem: async (orderId: number, itemId: number): Promise<void> => {
-    await api.delete(`/orders/${orderId}/items/${itemId}`)
+  updateItemNote: async (orderId: number, itemId: number, note: string, options?: RequestOptions): Promise<OrderItem> => {
+    const response = await api.put<OrderItem>(`/orders/${orderId}/items/${itemId}`, { note }, options)
+    return validateResponse(orderItemSchema, response.data, "ordersApi.updateItemNote")
   },
 }
 
 /**
- * Error handling utility
- * @param error - Error object from API call
- * @returns Formatted error message
+ * Pricing rules API
+ * Rules give discounts automatically; see lib/pricing.ts for how orders are priced.
  */
-export const handleApiError = (error: unknown): string => {
-  if (axios.isAxiosError(error)) {
-    const axiosError = error as AxiosError<{ error?: string; details?: string | Record<string, string> }>
+export const pricingRulesApi = {
+  /**
+   * Get all pricing rules
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with array of pricing rules
+   */
+  getAll: async (options?: RequestOptions): Promise<PricingRule[]> => {
+    const response = await api.get<PricingRule[]>("/pricing-rules", options)
+    return validateResponse(pricingRuleSchema.array(), response.data, "pricingRulesApi.getAll")
+  },
 
-    // Handle network errors first
-    if (axiosError.message === "Network Error") {
-      return "Cannot connect to the server. Please check your connection or try again later."
-    }
+  /**
+   * Create a pricing rule
+   * @param ruleData - New rule
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with created rule
+   */
+  create: async (ruleData: CreatePricingRuleRequest, options?: RequestOptions): Promise<PricingRule> => {
+    const response = await api.post<PricingRule>("/pricing-rules", ruleData, options)
+    return validateResponse(pricingRuleSchema, response.data, "pricingRulesApi.create")
+  },
 
-    // Handle structured API errors
-    if (axiosError.response?.data) {
-      const { error: errorMessage, details } = axiosError.response.data as any
+  /**
+   * Update a pricing rule
+   * @param id - Rule ID
+   * @param ruleData - Fields to change, e.g. { active: false }
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with updated rule
+   */
+  update: async (
+    id: number,
+    ruleData: Partial<CreatePricingRuleRequest>,
+    options?: RequestOptions,
+  ): Promise<PricingRule> => {
+    const response = await api.put<PricingRule>(`/pricing-rules/${id}`, ruleData, options)
+    return validateResponse(pricingRuleSchema, response.data, "pricingRulesApi.update")
+  },
 
-      if (errorMessage) {
-        return errorMessage
-      }
+  /**
+   * Delete a pricing rule
+   * @param id - Rule ID
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with void
+   */
+  delete: async (id: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/pricing-rules/${id}`, options)
+  },
+}
 
-      if (details) {
-        if (typeof details === "string") {
-          return details
-        }
+/**
+ * Cafe settings API
+ * Tax and service charge; see lib/totals.ts for how they are added to orders.
+ */
+export const settingsApi = {
+  /**
+   * Get the cafe settings
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the settings
+   */
+  get: async (options?: RequestOptions): Promise<CafeSettings> => {
+    const response = await api.get<CafeSettings>("/settings", options)
+    return validateResponse(cafeSettingsSchema, response.data, "settingsApi.get")
+  },
 
-        // Handle validation errors
-        return Object.values(details).join(", ")
-      }
-    }
+  /**
+   * Update the cafe settings; open orders nobody has paid for yet are priced again
+   * @param settingsData - Settings to change
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the updated settings
+   */
+  update: async (settingsData: UpdateCafeSettingsRequest, options?: RequestOptions): Promise<CafeSettings> => {
+    const response = await api.put<CafeSettings>("/settings", settingsData, options)
+    return validateResponse(cafeSettingsSchema, response.data, "settingsApi.update")
+  },
+}
 
-    // Handle HTTP errors
-    if (axiosError.response) {
-      switch (axiosError.response.status) {
-        case 400:
-          return "Bad request. Please check your input."
-        case 401:
-          return "Unauthorized. Please log in again."
-        case 403:
-          return "Forbidden. You do not have permission to access this resource."
-        case 404:
-          return "Resource not found."
-        case 500:
-          return "Server error. Please try again later."
-        default:
-          return `Error: ${axiosError.response.status}`
-      }
-    }
+/**
+ * Payments API
+ * An order is paid in one or more payments. Once its balance reaches zero the backend closes it.
+ */
+export const paymentsApi = {
+  /**
+   * Get payments
+   * @param filter - Only payments of this order or table, or taken in this period
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with array of payments, oldest first
+   */
+  getAll: async (filter?: PaymentFilter, options?: RequestOptions): Promise<Payment[]> => {
+    const response = await api.get<Payment[]>("/payments", { params: filter, ...options })
+    return validateResponse(paymentSchema.array(), response.data, "paymentsApi.getAll")
+  },
 
-    // Handle request errors
-    if (axiosError.request) {
-      return "Network error. Please check your connection."
-    }
-  }
+  /**
+   * Get refunds
+   * @param filter - Only refunds of this order or table, or given in this period
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with array of refunds, oldest first
+   */
+  getRefunds: async (filter?: PaymentFilter, options?: RequestOptions): Promise<Refund[]> => {
+    const response = await api.get<Refund[]>("/refunds", { params: filter, ...options })
+    return validateResponse(refundSchema.array(), response.data, "paymentsApi.getRefunds")
+  },
+
+  /**
+   * Record a payment against an order
+   * @param paymentData - Order, amount, tender and, for split-by-item payments, the items paid for
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the payment and the updated order
+   */
+  create: async (paymentData: CreatePaymentRequest, options?: RequestOptions): Promise<PaymentResult> => {
+    const response = await api.post<PaymentResult>("/payments", paymentData, options)
+    return validateResponse(paymentResultSchema, response.data, "paymentsApi.create")
+  },
 
-  // Handle generic errors
-  return error instanceof Error ? error.message : "An unknown error occurred"
+  /**
+   * Record payments against several orders at once; either all of them are recorded or none
+   * @param paymentsData - One payment per order, e.g. for the items of each order paid by one card
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the payments and the updated orders
+   */
+  createMany: async (paymentsData: CreatePaymentRequest[], options?: RequestOptions): Promise<PaymentResult> => {
+    const response = await api.post<PaymentResult>("/payments/batch", { payments: paymentsData }, options)
+    return validateResponse(paymentResultSchema, response.data, "paymentsApi.createMany")
+  },
+
+  /**
+   * Record a payment against the open orders of a table; the amount settles the oldest orders first
+   * @param tableId - Table ID
+   * @param paymentData - Amount and tender; tip and cash tendered are recorded on the first payment
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with one payment per order it was applied to, and the updated orders
+   */
+  payTable: async (
+    tableId: number,
+    paymentData: CreateTablePaymentRequest,
+    options?: RequestOptions,
+  ): Promise<PaymentResult> => {
+    const response = await api.post<PaymentResult>(`/payments/table/${tableId}`, paymentData, options)
+    return validateResponse(paymentResultSchema, response.data, "paymentsApi.payTable")
+  },
+}
+
+/**
+ * Error handling utility
+ * @param error - Error object from API call
+ * @returns Formatted error message
+ */
+export const handleApiError = (error: unknown): string => {
+  return ApiError.from(error).message
 }
 
 // Export default API object with all services
@@ -659,6 +1350,9 @@ const apiService = {
   tables: tablesApi,
   products: productsApi,
   orders: ordersApi,
+  pricingRules: pricingRulesApi,
+  settings: settingsApi,
+  payments: paymentsApi,
   handleError: handleApiError,
 }
 
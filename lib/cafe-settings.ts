@@ -0,0 +1,39 @@
+import type { CafeSettings } from "./api"
+import { DEFAULT_CURRENCY } from "./money"
+
+/**
+ * Cafe settings
+ * Settings that apply to the whole cafe, kept by the backend and editable by managers. Screens
+ * use the defaults until the settings have loaded.
+ */
+
+export const DEFAULT_CAFE_SETTINGS: CafeSettings = {
+  tax: {
+    label: "VAT",
+    pricesIncludeTax: true,
+    defaultRate: 20,
+    categoryRates: {},
+  },
+  currency: DEFAULT_CURRENCY,
+  // Without printers, receipts go through the print dialog of the browser
+  printing: {
+    receiptHeader: "",
+    receiptFooter: "Thank you!",
+    printers: [],
+  },
+  scheduling: {
+    leadTimeMinutes: 15,
+  },
+  serviceChargeRate: 0,
+}
+
+/**
+ * Get the tax rate of a product category
+ * @param settings - Cafe settings
+ * @param category - Product category; products without one pay the default rate
+ * @returns Rate in percent
+ */
+export const getTaxRate = (settings: CafeSettings, category?: string | null): number => {
+  const categoryRate = category ? settings.tax.categoryRates[category] : undefined
+  return categoryRate ?? settings.tax.defaultRate
+}
@@ -0,0 +1,139 @@
+import apiConfig from "./config"
+import type { CardAuthorization } from "./api"
+
+/**
+ * Card terminals
+ * Card payments are charged on a payment terminal before the payment is recorded; the approval the
+ * terminal returns is stored with the payment. Terminal drivers are registered by name and the
+ * active one is picked with NEXT_PUBLIC_CARD_TERMINAL. The built-in "simulator" stands in for a
+ * real terminal during development and demos.
+ */
+
+export interface CardChargeRequest {
+  /** Amount to charge, tip included */
+  amount: number
+  /** Shown on the terminal and the card statement, e.g. the order number */
+  reference: string
+}
+
+/**
+ * Progress reported while a charge runs
+ */
+export type CardTerminalStatus = "waiting_for_card" | "processing"
+
+export type CardChargeResult =
+  | { status: "approved"; authorization: CardAuthorization }
+  | { status: "declined"; reason: string }
+  | { status: "cancelled" }
+
+export interface CardChargeOptions {
+  /** Aborting cancels the charge on the terminal */
+  signal?: AbortSignal
+  onStatus?: (status: CardTerminalStatus) => void
+}
+
+export interface CardTerminal {
+  id: string
+  label: string
+  /**
+   * Charge a card; resolves once the card was approved, declined or the charge was cancelled
+   */
+  charge: (request: CardChargeRequest, options?: CardChargeOptions) => Promise<CardChargeResult>
+}
+
+const drivers = new Map<string, () => CardTerminal>()
+let activeTerminal: CardTerminal | null = null
+
+/**
+ * Register a terminal driver
+ * @param name - Name used in NEXT_PUBLIC_CARD_TERMINAL
+ * @param create - Creates the terminal the first time it is needed
+ */
+export const registerCardTerminal = (name: string, create: () => CardTerminal): void => {
+  drivers.set(name, create)
+}
+
+/**
+ * Get the configured terminal
+ * @returns The active card terminal
+ */
+export const getCardTerminal = (): CardTerminal => {
+  if (!activeTerminal) {
+    const { terminal } = apiConfig.getCardTerminalOptions()
+    const create = drivers.get(terminal)
+    if (!create) {
+      throw new Error(`No card terminal driver named "${terminal}" is registered`)
+    }
+    activeTerminal = create()
+  }
+  return activeTerminal
+}
+
+const CARD_BRANDS = ["Visa", "Mastercard", "Amex"]
+
+/**
+ * Amounts ending in .51 are declined by the simulator, so the decline path can be tried out
+ */
+const SIMULATED_DECLINE_CENTS = 51
+
+/**
+ * Wait, or stop waiting once the charge is cancelled
+ * @returns False if the charge was cancelled
+ */
+const wait = (delayMs: number, signal?: AbortSignal): Promise<boolean> => {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false)
+      return
+    }
+    const timer = setTimeout(() => resolve(true), delayMs)
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer)
+        resolve(false)
+      },
+      { once: true },
+    )
+  })
+}
+
+/**
+ * Create a terminal that approves cards locally, without any hardware
+ * @param delayMs - Time spent waiting for the card, and again for the approval; taken from the
+ * configuration if omitted
+ * @returns Simulated card terminal
+ */
+export const createSimulatedTerminal = (delayMs?: number): CardTerminal => {
+  const stepDelayMs = delayMs ?? apiConfig.getCardTerminalOptions().simulatorDelayMs
+  return {
+    id: "SIM-001",
+    label: "Simulated terminal",
+    charge: async (request, options = {}) => {
+      options.onStatus?.("waiting_for_card")
+      if (!(await wait(stepDelayMs, options.signal))) {
+        return { status: "cancelled" }
+      }
+
+      options.onStatus?.("processing")
+      if (!(await wait(stepDelayMs, options.signal))) {
+        return { status: "cancelled" }
+      }
+
+      if (Math.round(request.amount * 100) % 100 === SIMULATED_DECLINE_CENTS) {
+        return { status: "declined", reason: "Insufficient funds" }
+      }
+      return {
+        status: "approved",
+        authorization: {
+          terminalId: "SIM-001",
+          authCode: String(Math.floor(100000 + Math.random() * 900000)),
+          brand: CARD_BRANDS[Math.floor(Math.random() * CARD_BRANDS.length)],
+          last4: String(Math.floor(Math.random() * 10000)).padStart(4, "0"),
+        },
+      }
+    },
+  }
+}
+
+registerCardTerminal("simulator", () => createSimulatedTerminal())
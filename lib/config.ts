@@ -0,0 +1,305 @@
+/**
+ * Runtime API configuration
+ * The backend the dashboard talks to is chosen from a named profile. The default profile and
+ * every profile URL can be set at build time through NEXT_PUBLIC_* environment variables, and
+ * the active profile can be switched at runtime from the hidden /settings screen.
+ *
+ *   NEXT_PUBLIC_API_PROFILE          - default profile (local, staging, production, mock)
+ *   NEXT_PUBLIC_API_URL_LOCAL        - base URL of the local .NET backend
+ *   NEXT_PUBLIC_API_URL_STAGING      - base URL of the staging backend
+ *   NEXT_PUBLIC_API_URL_PRODUCTION   - base URL of the production backend
+ *   NEXT_PUBLIC_MOCK_LATENCY_MS      - average latency of the in-browser mock backend
+ *   NEXT_PUBLIC_MOCK_ERROR_RATE      - share of mock requests that fail (0 to 1)
+ *   NEXT_PUBLIC_API_RETRY_ATTEMPTS   - total attempts for idempotent requests (1 disables retries)
+ *   NEXT_PUBLIC_API_RETRY_DELAY_MS   - base delay of the exponential retry backoff
+ *   NEXT_PUBLIC_API_VALIDATION       - response validation: off, warn (default in development) or strict
+ *   NEXT_PUBLIC_REALTIME_URL         - order event stream; http(s) for SSE, ws(s) for WebSocket
+ *                                      (default: <base URL>/orders/events)
+ *   NEXT_PUBLIC_REALTIME_TRANSPORT   - auto (default), sse, websocket or polling
+ *   NEXT_PUBLIC_REALTIME_POLL_MS     - polling interval used when no event stream is available
+ *   NEXT_PUBLIC_CARD_TERMINAL        - card terminal driver (default: simulator), see lib/card-terminal.ts
+ *   NEXT_PUBLIC_CARD_TERMINAL_DELAY_MS - how long the simulated terminal takes per step
+ */
+
+export type ApiProfileName = "local" | "staging" | "production" | "mock"
+
+export interface ApiProfile {
+  name: ApiProfileName
+  label: string
+  description: string
+  baseUrl: string
+  transport: "http" | "mock"
+}
+
+export interface MockOptions {
+  latencyMs: number
+  errorRate: number
+}
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one */
+  attempts: number
+  /** Delay before the first retry; doubled for every further attempt */
+  baseDelayMs: number
+  /** Upper bound for a single backoff delay, including Retry-After */
+  maxDelayMs: number
+}
+
+/**
+ * How responses are checked against the API contract in lib/schemas.ts
+ */
+export type ValidationMode = "off" | "warn" | "strict"
+
+/**
+ * How order events reach the app. "auto" picks SSE or WebSocket from the URL scheme and falls
+ * back to polling when the stream cannot be opened.
+ */
+export type RealtimeTransport = "auto" | "sse" | "websocket" | "polling"
+
+export interface RealtimeOptions {
+  transport: RealtimeTransport
+  /** URL of the order event stream */
+  url: string
+  /** Interval of the polling fallback */
+  pollIntervalMs: number
+}
+
+export interface CardTerminalOptions {
+  /** Name of the registered terminal driver */
+  terminal: string
+  /** Time the simulator waits for the card, and again for the approval */
+  simulatorDelayMs: number
+}
+
+const PROFILE_STORAGE_KEY = "api_profile"
+const CUSTOM_URL_STORAGE_KEY = "api_base_url"
+const MOCK_OPTIONS_STORAGE_KEY = "mock_options"
+
+const DEFAULT_MOCK_OPTIONS: MockOptions = {
+  latencyMs: Number(process.env.NEXT_PUBLIC_MOCK_LATENCY_MS) || 300,
+  errorRate: Number(process.env.NEXT_PUBLIC_MOCK_ERROR_RATE) || 0,
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: Number(process.env.NEXT_PUBLIC_API_RETRY_ATTEMPTS) || 3,
+  baseDelayMs: Number(process.env.NEXT_PUBLIC_API_RETRY_DELAY_MS) || 500,
+  maxDelayMs: 10000,
+}
+
+const REALTIME_TRANSPORTS: RealtimeTransport[] = ["auto", "sse", "websocket", "polling"]
+
+const DEFAULT_REALTIME_TRANSPORT: RealtimeTransport = REALTIME_TRANSPORTS.includes(
+  process.env.NEXT_PUBLIC_REALTIME_TRANSPORT as RealtimeTransport,
+)
+  ? (process.env.NEXT_PUBLIC_REALTIME_TRANSPORT as RealtimeTransport)
+  : "auto"
+
+const VALIDATION_MODES: ValidationMode[] = ["off", "warn", "strict"]
+
+const DEFAULT_VALIDATION_MODE: ValidationMode = VALIDATION_MODES.includes(
+  process.env.NEXT_PUBLIC_API_VALIDATION as ValidationMode,
+)
+  ? (process.env.NEXT_PUBLIC_API_VALIDATION as ValidationMode)
+  : process.env.NODE_ENV === "production"
+    ? "off"
+    : "warn"
+
+export const API_PROFILES: Record<ApiProfileName, ApiProfile> = {
+  local: {
+    name: "local",
+    label: "Local",
+    description: "A .NET backend running on this machine",
+    baseUrl: process.env.NEXT_PUBLIC_API_URL_LOCAL || "http://localhost:5000/api",
+    transport: "http",
+  },
+  staging: {
+    name: "staging",
+    label: "Staging",
+    description: "The shared staging backend",
+    baseUrl: process.env.NEXT_PUBLIC_API_URL_STAGING || "",
+    transport: "http",
+  },
+  production: {
+    name: "production",
+    label: "Production",
+    description: "The live backend used by the cafe",
+    baseUrl: process.env.NEXT_PUBLIC_API_URL_PRODUCTION || "https://cafemanagement-production.up.railway.app/api",
+    transport: "http",
+  },
+  mock: {
+    name: "mock",
+    label: "Mock (offline)",
+    description: "Seeded demo data stored in this browser, no backend needed",
+    baseUrl: "/mock-api",
+    transport: "mock",
+  },
+}
+
+const isProfileName = (value: string | null | undefined): value is ApiProfileName => {
+  return !!value && Object.hasOwn(API_PROFILES, value)
+}
+
+/**
+ * Default profile taken from the build environment
+ */
+const DEFAULT_PROFILE: ApiProfileName = isProfileName(process.env.NEXT_PUBLIC_API_PROFILE)
+  ? process.env.NEXT_PUBLIC_API_PROFILE
+  : "production"
+
+/**
+ * API configuration functions
+ */
+export const apiConfig = {
+  /**
+   * Get the name of the active profile
+   * @returns The profile selected on the settings screen, or the build default
+   */
+  getProfileName: (): ApiProfileName => {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem(PROFILE_STORAGE_KEY)
+      if (isProfileName(stored)) {
+        return stored
+      }
+    }
+    return DEFAULT_PROFILE
+  },
+
+  /**
+   * Get the active profile
+   * @returns Active API profile
+   */
+  getProfile: (): ApiProfile => {
+    return API_PROFILES[apiConfig.getProfileName()]
+  },
+
+  /**
+   * Switch the active profile
+   * @param name - Profile name
+   */
+  setProfile: (name: ApiProfileName): void => {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(PROFILE_STORAGE_KEY, name)
+    }
+  },
+
+  /**
+   * Get the custom base URL override, if one is set
+   * @returns Custom base URL or null
+   */
+  getCustomBaseUrl: (): string | null => {
+    if (typeof window !== "undefined") {
+      return localStorage.getItem(CUSTOM_URL_STORAGE_KEY)
+    }
+    return null
+  },
+
+  /**
+   * Override the base URL of the active profile
+   * @param url - Custom base URL, or null to clear the override
+   */
+  setCustomBaseUrl: (url: string | null): void => {
+    if (typeof window !== "undefined") {
+      if (url) {
+        localStorage.setItem(CUSTOM_URL_STORAGE_KEY, url)
+      } else {
+        localStorage.removeItem(CUSTOM_URL_STORAGE_KEY)
+      }
+    }
+  },
+
+  /**
+   * Resolve the base URL requests should be sent to
+   * @returns Base URL of the active profile, or the custom override
+   */
+  getBaseUrl: (): string => {
+    return apiConfig.getCustomBaseUrl() || apiConfig.getProfile().baseUrl
+  },
+
+  /**
+   * Check if requests are served by the in-browser mock backend
+   * @returns True when the active profile uses the mock transport
+   */
+  isMock: (): boolean => {
+    return apiConfig.getProfile().transport === "mock"
+  },
+
+  /**
+   * Get latency and error injection settings for the mock backend
+   * @returns Mock backend options
+   */
+  getMockOptions: (): MockOptions => {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem(MOCK_OPTIONS_STORAGE_KEY)
+      if (stored) {
+        try {
+          return { ...DEFAULT_MOCK_OPTIONS, ...JSON.parse(stored) }
+        } catch {
+          localStorage.removeItem(MOCK_OPTIONS_STORAGE_KEY)
+        }
+      }
+    }
+    return DEFAULT_MOCK_OPTIONS
+  },
+
+  /**
+   * Update latency and error injection settings for the mock backend
+   * @param options - Options to change
+   */
+  setMockOptions: (options: Partial<MockOptions>): void => {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(MOCK_OPTIONS_STORAGE_KEY, JSON.stringify({ ...apiConfig.getMockOptions(), ...options }))
+    }
+  },
+
+  /**
+   * Get the retry policy for idempotent requests
+   * @returns Retry policy
+   */
+  getRetryPolicy: (): RetryPolicy => {
+    return DEFAULT_RETRY_POLICY
+  },
+
+  /**
+   * Get how API responses are validated
+   * @returns Validation mode
+   */
+  getValidationMode: (): ValidationMode => {
+    return DEFAULT_VALIDATION_MODE
+  },
+
+  /**
+   * Get how order events are received
+   * @returns Realtime transport, event stream URL and polling interval
+   */
+  getRealtimeOptions: (): RealtimeOptions => {
+    return {
+      transport: DEFAULT_REALTIME_TRANSPORT,
+      url: process.env.NEXT_PUBLIC_REALTIME_URL || `${apiConfig.getBaseUrl()}/orders/events`,
+      pollIntervalMs: Number(process.env.NEXT_PUBLIC_REALTIME_POLL_MS) || 15000,
+    }
+  },
+
+  /**
+   * Get which card terminal takes card payments
+   * @returns Terminal driver name and simulator timing
+   */
+  getCardTerminalOptions: (): CardTerminalOptions => {
+    return {
+      terminal: process.env.NEXT_PUBLIC_CARD_TERMINAL || "simulator",
+      simulatorDelayMs: Number(process.env.NEXT_PUBLIC_CARD_TERMINAL_DELAY_MS) || 1200,
+    }
+  },
+
+  /**
+   * Clear any runtime selection and fall back to the build defaults
+   */
+  reset: (): void => {
+    if (typeof window !== "undefined") {
+      localStorage.removeItem(PROFILE_STORAGE_KEY)
+      localStorage.removeItem(CUSTOM_URL_STORAGE_KEY)
+      localStorage.removeItem(MOCK_OPTIONS_STORAGE_KEY)
+    }
+  },
+}
+
+export default apiConfig
@@ -0,0 +1,86 @@
+import type { Printer } from "./api"
+import { layoutTicket, type PrintedLine, type Ticket, type TicketAlign } from "./tickets"
+
+/**
+ * ESC/POS
+ * Encodes tickets for thermal receipt printers. Only the commands every ESC/POS printer knows are
+ * used: initialise, alignment, bold, double size, line feeds and a partial cut. Text is sent in the
+ * default code page of the printer, so characters outside plain ASCII are replaced.
+ */
+
+const ESC = 0x1b
+const GS = 0x1d
+const LF = 0x0a
+
+export const ESCPOS_COMMANDS = {
+  initialize: [ESC, 0x40],
+  align: (align: TicketAlign) => [ESC, 0x61, align === "center" ? 1 : align === "right" ? 2 : 0],
+  bold: (on: boolean) => [ESC, 0x45, on ? 1 : 0],
+  /** Double width and height, or normal size */
+  size: (large: boolean) => [GS, 0x21, large ? 0x11 : 0x00],
+  feed: (lines: number) => [ESC, 0x64, lines],
+  /** Feed the paper past the cutter and cut, leaving a small hinge */
+  cut: [GS, 0x56, 0x42, 0x00],
+}
+
+/** Blank lines fed before the cut, so the last line clears the cutter */
+const FEED_BEFORE_CUT = 4
+
+/**
+ * Turn text into bytes the printer can show
+ * @param text - Text
+ * @returns One byte per character; accents are dropped and other characters become "?"
+ */
+export const encodePrinterText = (text: string): number[] => {
+  return Array.from(
+    text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[\u00a0\u2007\u202f]/g, " "),
+  ).map((char) => {
+    const code = char.charCodeAt(0)
+    return code >= 0x20 && code <= 0x7e ? code : 0x3f
+  })
+}
+
+/**
+ * Encode printed lines as ESC/POS, switching styles only when they change
+ */
+const encodeLines = (lines: PrintedLine[]): number[] => {
+  const bytes: number[] = []
+  let align: TicketAlign = "left"
+  let bold = false
+  let large = false
+
+  for (const line of lines) {
+    if (line.align !== align) {
+      bytes.push(...ESCPOS_COMMANDS.align(line.align))
+      align = line.align
+    }
+    if (line.bold !== bold) {
+      bytes.push(...ESCPOS_COMMANDS.bold(line.bold))
+      bold = line.bold
+    }
+    if (line.large !== large) {
+      bytes.push(...ESCPOS_COMMANDS.size(line.large))
+      large = line.large
+    }
+    bytes.push(...encodePrinterText(line.text), LF)
+  }
+  return bytes
+}
+
+/**
+ * Encode a ticket for a thermal printer
+ * @param ticket - Receipt or kitchen ticket
+ * @param paperWidth - Paper width in millimetres; decides where lines break
+ * @returns ESC/POS byte stream, ending with a cut
+ */
+export const encodeTicket = (ticket: Ticket, paperWidth: Printer["paperWidth"]): Uint8Array => {
+  return Uint8Array.from([
+    ...ESCPOS_COMMANDS.initialize,
+    ...encodeLines(layoutTicket(ticket, paperWidth)),
+    ...ESCPOS_COMMANDS.feed(FEED_BEFORE_CUT),
+    ...ESCPOS_COMMANDS.cut,
+  ])
+}
@@ -0,0 +1,2407 @@
+import { AxiosError, AxiosHeaders, CanceledError, type AxiosResponse, type InternalAxiosRequestConfig } from "axios"
+import { z } from "zod"
+import apiConfig from "./config"
+import type {
+  CafeSettings,
+  CreatePaymentRequest,
+  CreatePricingRuleRequest,
+  CreateTablePaymentRequest,
+  ModifierGroup,
+  ModifierSelection,
+  Order,
+  OrderAdjustment,
+  OrderEvent,
+  OrderFilter,
+  OrderItem,
+  OrderStatus,
+  OrderType,
+  PaidItem,
+  Payment,
+  PricingRule,
+  Printer,
+  Product,
+  RefundRequest,
+  Refund,
+  Table,
+  User,
+  VoidRequest,
+} from "./api"
+import { getUnitPrice, resolveModifiers, validateModifierSelection } from "./modifiers"
+import {
+  addOrderItemRequestSchema,
+  applyPromoCodeRequestSchema,
+  createOrderRequestSchema,
+  createPaymentRequestSchema,
+  createPaymentsRequestSchema,
+  createPricingRuleRequestSchema,
+  createProductRequestSchema,
+  createTablePaymentRequestSchema,
+  createTableRequestSchema,
+  loginRequestSchema,
+  managerApprovalRequestSchema,
+  manualDiscountRequestSchema,
+  mergeTablesRequestSchema,
+  ORDER_NOTE_MAX_LENGTH,
+  orderCursorQuerySchema,
+  orderPageQuerySchema,
+  paymentFilterSchema,
+  productSchema,
+  refreshTokenRequestSchema,
+  refundRequestSchema,
+  registerRequestSchema,
+  splitOrderRequestSchema,
+  tableSchema,
+  transferOrderRequestSchema,
+  updateCafeSettingsRequestSchema,
+  updateOrderNoteRequestSchema,
+  updateOrderStatusRequestSchema,
+  updateTableStatusRequestSchema,
+  userSchema,
+  userStatusSchema,
+  voidRequestSchema,
+} from "./schemas"
+import { findPromoRule, priceOrder, toPricingLines } from "./pricing"
+import { calculateTotals } from "./totals"
+import { formatMoney, isSupportedLocale } from "./money"
+import { diffOrders } from "./order-events"
+import { canChangeItems, checkTransition, getStatusInfo, ORDER_STATUSES } from "./order-lifecycle"
+import { getOrderType, ORDER_TYPE_INFO, validateOrderType } from "./order-types"
+import { getFireTime, getRequestedReadyTime, isDueToFire, validateReadyTime } from "./scheduling"
+import { getItemRefundAmount, getRefundableAmount } from "./adjustments"
+import { getMergeBlocker } from "./table-moves"
+import {
+  getBalance,
+  getChange,
+  getItemsAmount,
+  getPaidQuantities,
+  getTotalBalance,
+  getUnpaidQuantity,
+  isSettled,
+  roundMoney,
+} from "./payments"
+
+/**
+ * In-browser mock backend
+ * Serves every endpoint of the .NET API from seeded data kept in localStorage, so the whole app
+ * can run without a backend. It is plugged into axios as an adapter when the "mock" profile is
+ * active, which means interceptors, error handling and hooks behave exactly as they do against
+ * the real API.
+ */
+
+const DB_STORAGE_KEY = "mock_db"
+const ACCESS_TOKEN_LIFETIME_MS = 15 * 60 * 1000
+const APPROVAL_LIFETIME_MS = 5 * 60 * 1000
+/** How long a response is replayed for a repeated idempotency key, and how many are kept */
+const IDEMPOTENT_RESPONSE_LIFETIME_MS = 24 * 60 * 60 * 1000
+const MAX_IDEMPOTENT_RESPONSES = 500
+
+interface MockUser extends User {
+  password: string
+  /** PIN managers enter to approve actions on staff screens */
+  pin?: string
+}
+
+interface MockDatabase {
+  users: MockUser[]
+  tables: Table[]
+  products: Product[]
+  orders: Order[]
+  payments: Payment[]
+  pricingRules: PricingRule[]
+  settings: CafeSettings
+  refreshTokens: { token: string; userId: number }[]
+  /** Unused manager approvals, see POST /auth/approvals */
+  approvals?: { token: string; userId: number; expiresAt: number }[]
+  /** Responses of mutations sent with an Idempotency-Key header, replayed for repeated keys */
+  idempotentResponses?: Record<string, { response: MockResponse; storedAt: number }>
+  nextIds: Record<
+    "user" | "table" | "product" | "order" | "orderItem" | "payment" | "pricingRule" | "adjustment",
+    number
+  >
+}
+
+interface MockRequest {
+  params: Record<string, string>
+  /** Query parameters as the API methods pass them; narrowed by the handlers */
+  query: Record<string, unknown>
+  /** Request body; narrowed with its schema from lib/schemas.ts, see parseBody */
+  body: unknown
+  currentUser: MockUser | null
+}
+
+interface MockResponse {
+  status: number
+  data?: unknown
+}
+
+type MockHandler = (db: MockDatabase, request: MockRequest) => MockResponse
+
+interface MockRoute {
+  method: string
+  pattern: string
+  handler: MockHandler
+}
+
+/**
+ * Seed data
+ */
+const createSeedDatabase = (): MockDatabase => {
+  const now = Date.now()
+  const minutesAgo = (minutes: number) => new Date(now - minutes * 60 * 1000).toISOString()
+
+  const size: ModifierGroup = {
+    id: "size",
+    name: "Size",
+    selection: "single",
+    required: true,
+    options: [
+      { id: "small", name: "Small", priceDelta: -0.5 },
+      { id: "regular", name: "Regular", priceDelta: 0 },
+      { id: "large", name: "Large", priceDelta: 0.75 },
+    ],
+  }
+  const milk: ModifierGroup = {
+    id: "milk",
+    name: "Milk",
+    selection: "single",
+    required: false,
+    options: [
+      { id: "whole", name: "Whole milk", priceDelta: 0 },
+      { id: "skim", name: "Skim milk", priceDelta: 0 },
+      { id: "oat", name: "Oat milk", priceDelta: 0.6 },
+      { id: "almond", name: "Almond milk", priceDelta: 0.6 },
+    ],
+  }
+  const extras: ModifierGroup = {
+    id: "extras",
+    name: "Extras",
+    selection: "multiple",
+    required: false,
+    options: [
+      { id: "extra-shot", name: "Extra shot", priceDelta: 0.8 },
+      { id: "vanilla", name: "Vanilla syrup", priceDelta: 0.5 },
+      { id: "caramel", name: "Caramel syrup", priceDelta: 0.5 },
+    ],
+  }
+  const sugar: ModifierGroup = {
+    id: "sugar",
+    name: "Sugar",
+    selection: "single",
+    required: false,
+    options: [
+      { id: "no-sugar", name: "No sugar", priceDelta: 0 },
+      { id: "one-sugar", name: "1 sugar", priceDelta: 0 },
+      { id: "two-sugars", name: "2 sugars", priceDelta: 0 },
+    ],
+  }
+
+  const products: Product[] = [
+    { id: 1, name: "Espresso", description: "A short, strong shot", price: 2.5, category: "coffee", imageUrl: "", modifierGroups: [extras, sugar] },
+    { id: 2, name: "Cappuccino", description: "Espresso with steamed milk foam", price: 3.5, category: "coffee", imageUrl: "", modifierGroups: [size, milk, extras, sugar] },
+    { id: 3, name: "Latte", description: "Espresso with plenty of steamed milk", price: 3.75, category: "coffee", imageUrl: "", modifierGroups: [size, milk, extras, sugar] },
+    { id: 4, name: "Croissant", description: "Buttery, flaky pastry", price: 2.25, category: "pastry", imageUrl: "" },
+    { id: 5, name: "Cinnamon Roll", description: "Glazed and still warm", price: 3.0, category: "pastry", imageUrl: "" },
+    { id: 6, name: "Cheesecake", description: "New York style slice", price: 4.5, category: "dessert", imageUrl: "" },
+    { id: 7, name: "Brownie", description: "Dark chocolate brownie", price: 3.25, category: "dessert", imageUrl: "" },
+    { id: 8, name: "Club Sandwich", description: "Chicken, bacon, lettuce and tomato", price: 7.5, category: "food", imageUrl: "" },
+    { id: 9, name: "Avocado Toast", description: "Sourdough with smashed avocado", price: 6.0, category: "food", imageUrl: "" },
+  ]
+
+  const item = (id: number, productId: number, quantity: number, modifiers: ModifierSelection[] = []): OrderItem => {
+    const product = products.find((p) => p.id === productId)!
+    return {
+      id,
+      productId,
+      productName: product.name,
+      quantity,
+      price: getUnitPrice(product, modifiers),
+      modifiers: resolveModifiers(product, modifiers),
+    }
+  }
+
+  const orders: Order[] = [
+    { id: 1, tableId: 2, userId: 3, status: "new", items: [item(1, 2, 2, [{ groupId: "size", optionId: "regular" }, { groupId: "milk", optionId: "oat" }]), { ...item(2, 4, 1), note: "Warmed up, please" }], total: 0, orderDate: minutesAgo(4), guestName: "Sara" },
+    { id: 2, tableId: 3, userId: 3, status: "preparing", items: [item(3, 3, 1, [{ groupId: "size", optionId: "large" }, { groupId: "extras", optionId: "extra-shot" }]), item(4, 8, 1)], total: 0, orderDate: minutesAgo(12), guestName: "Omar", note: "Birthday - bring a candle with the dessert" },
+    { id: 3, tableId: 4, userId: 3, status: "ready", items: [item(5, 1, 2)], total: 0, orderDate: minutesAgo(20), guestName: "Lina" },
+    { id: 4, tableId: 1, userId: 3, status: "paid", items: [item(6, 6, 1), item(7, 2, 1, [{ groupId: "size", optionId: "regular" }])], total: 0, orderDate: minutesAgo(90), guestName: "Karim" },
+  ]
+  const pricingRules: PricingRule[] = [
+    { id: 1, name: "Happy Hour", type: "percentage", value: 20, category: "pastry", schedule: { days: [1, 2, 3, 4, 5], startTime: "15:00", endTime: "17:00" }, active: true },
+    { id: 2, name: "Fourth Coffee Free", type: "buy_x_get_y", value: 0, buyQuantity: 3, getQuantity: 1, category: "coffee", active: true },
+    { id: 3, name: "Welcome Offer", type: "percentage", value: 10, promoCode: "WELCOME10", active: true },
+    { id: 4, name: "Staff Discount", type: "percentage", value: 25, promoCode: "STAFF25", active: true },
+    { id: 5, name: "Croissant Deal", type: "fixed", value: 0.5, productIds: [4], active: false },
+  ]
+  // Prices in Egyptian pounds and including VAT, with a reduced rate for food
+  const settings: CafeSettings = {
+    tax: { label: "VAT", pricesIncludeTax: true, defaultRate: 20, categoryRates: { food: 10 } },
+    currency: { code: "EGP", symbol: "EGP", symbolPosition: "after", decimals: 2, locale: "en-EG" },
+    // Drinks are made at the bar, which also prints the receipts; food goes to the kitchen
+    printing: {
+      receiptHeader: "Cafe Manager\n12 Nile Street, Cairo",
+      receiptFooter: "Thank you for your visit!",
+      printers: [
+        {
+          id: "bar",
+          name: "Bar",
+          connection: "browser",
+          paperWidth: 80,
+          printsReceipts: true,
+          categories: ["coffee"],
+        },
+        {
+          id: "kitchen",
+          name: "Kitchen",
+          connection: "browser",
+          paperWidth: 58,
+          printsReceipts: false,
+          categories: ["pastry", "dessert", "food"],
+        },
+      ],
+    },
+    // Scheduled orders go to the kitchen a quarter of an hour before they are due
+    scheduling: { leadTimeMinutes: 15 },
+    serviceChargeRate: 0,
+  }
+  orders.forEach((order) => recalculateTotal(order, { products, pricingRules, settings }))
+
+  // Seed orders went through every status from new up to their current one, a few minutes apart
+  orders.forEach((order) => {
+    const created = new Date(order.orderDate).getTime()
+    const steps = ORDER_STATUSES.slice(ORDER_STATUSES.indexOf("new"), ORDER_STATUSES.indexOf(order.status) + 1)
+    order.statusHistory = steps.map((to, index) => ({
+      from: index > 0 ? steps[index - 1] : null,
+      to,
+      changedAt: new Date(created + index * 3 * 60 * 1000).toISOString(),
+      changedBy: { id: 3, name: "Sam Staff" },
+    }))
+  })
+
+  // The paid order was settled by card
+  const paidOrder = orders[3]
+  paidOrder.amountPaid = paidOrder.total
+  const payments: Payment[] = [
+    {
+      id: 1,
+      orderId: paidOrder.id,
+      tableId: paidOrder.tableId,
+      amount: paidOrder.total,
+      method: "card",
+      tip: 1,
+      cardAuthorization: { terminalId: "SIM-001", authCode: "482913", brand: "Visa", last4: "4242" },
+      createdAt: paidOrder.statusHistory![paidOrder.statusHistory!.length - 1].changedAt,
+      createdBy: { id: 3, name: "Sam Staff" },
+    },
+  ]
+
+  return {
+    users: [
+      { id: 1, name: "Admin User", email: "admin@cafe.test", password: "password", pin: "0000", role: "admin", status: "active", joinedAt: minutesAgo(60 * 24 * 120) },
+      { id: 2, name: "Mona Manager", email: "manager@cafe.test", password: "password", pin: "1234", role: "manager", status: "active", joinedAt: minutesAgo(60 * 24 * 90) },
+      { id: 3, name: "Sam Staff", email: "staff@cafe.test", password: "password", role: "staff", status: "active", joinedAt: minutesAgo(60 * 24 * 30) },
+    ],
+    tables: [
+      { id: 1, name: "Table 1", capacity: 2, status: "available" },
+      { id: 2, name: "Table 2", capacity: 4, status: "occupied" },
+      { id: 3, name: "Table 3", capacity: 4, status: "occupied" },
+      { id: 4, name: "Table 4", capacity: 6, status: "occupied" },
+      { id: 5, name: "Window Seat", capacity: 2, status: "reserved" },
+    ],
+    products,
+    orders,
+    payments,
+    pricingRules,
+    settings,
+    refreshTokens: [],
+    nextIds: { user: 4, table: 6, product: 10, order: 5, orderItem: 8, payment: 2, pricingRule: 6, adjustment: 1 },
+  }
+}
+
+/**
+ * Persistence
+ */
+let memoryDb: MockDatabase | null = null
+
+const loadDatabase = (): MockDatabase => {
+  if (memoryDb) {
+    return memoryDb
+  }
+
+  if (typeof window !== "undefined") {
+    const stored = localStorage.getItem(DB_STORAGE_KEY)
+    if (stored) {
+      try {
+        memoryDb = JSON.parse(stored) as MockDatabase
+        // Databases stored before payments existed
+        memoryDb.payments ??= []
+        memoryDb.nextIds.payment ??= memoryDb.payments.length + 1
+        // Databases stored before pricing rules and manager PINs existed
+        if (!memoryDb.pricingRules) {
+          const seed = createSeedDatabase()
+          memoryDb.pricingRules = seed.pricingRules
+          memoryDb.nextIds.pricingRule = seed.nextIds.pricingRule
+          memoryDb.users.forEach((user) => {
+            user.pin ??= seed.users.find((u) => u.id === user.id)?.pin
+          })
+        }
+        // Databases stored before tax was configurable; their orders count as untaxed until repriced
+        memoryDb.settings ??= createSeedDatabase().settings
+        // Databases stored before the currency was configurable
+        memoryDb.settings.currency ??= createSeedDatabase().settings.currency
+        // Databases stored before printing was configurable
+        memoryDb.settings.printing ??= createSeedDatabase().settings.printing
+        // Databases stored before voids and refunds existed
+        memoryDb.nextIds.adjustment ??= 1
+        // Databases stored before orders could be scheduled
+        memoryDb.settings.scheduling ??= createSeedDatabase().settings.scheduling
+        // Databases stored before idempotent responses expired
+        if (Object.values(memoryDb.idempotentResponses ?? {}).some((entry) => !entry.storedAt)) {
+          memoryDb.idempotentResponses = {}
+        }
+        return memoryDb
+      } catch {
+        localStorage.removeItem(DB_STORAGE_KEY)
+      }
+    }
+  }
+
+  memoryDb = createSeedDatabase()
+  saveDatabase(memoryDb)
+  return memoryDb
+}
+
+// Firefox reports a full localStorage under its own name
+const QUOTA_ERROR_NAMES = ["QuotaExceededError", "NS_ERROR_DOM_QUOTA_REACHED"]
+
+const isQuotaExceeded = (error: unknown): boolean => {
+  return error instanceof DOMException && QUOTA_ERROR_NAMES.includes(error.name)
+}
+
+/**
+ * Store the database. When localStorage is full, it is stored without the idempotent responses,
+ * which this tab keeps in memory; if it still does not fit, the change is kept in memory only.
+ * The request has been applied either way, so it must not fail and be sent again.
+ */
+const saveDatabase = (db: MockDatabase): void => {
+  memoryDb = db
+  if (typeof window === "undefined") {
+    return
+  }
+  try {
+    localStorage.setItem(DB_STORAGE_KEY, JSON.stringify(db))
+  } catch (error) {
+    if (!isQuotaExceeded(error)) throw error
+    try {
+      localStorage.setItem(DB_STORAGE_KEY, JSON.stringify({ ...db, idempotentResponses: undefined }))
+    } catch (retryError) {
+      if (!isQuotaExceeded(retryError)) throw retryError
+      console.warn("The mock database no longer fits in localStorage; changes are kept in this tab only")
+    }
+  }
+}
+
+/**
+ * Remember the response of a mutation for its idempotency key, dropping responses that have
+ * expired and the oldest ones beyond the limit
+ */
+const storeIdempotentResponse = (db: MockDatabase, key: string, response: MockResponse): void => {
+  const now = Date.now()
+  const kept = Object.entries(db.idempotentResponses ?? {})
+    .filter(([, entry]) => now - entry.storedAt < IDEMPOTENT_RESPONSE_LIFETIME_MS)
+    .sort(([, a], [, b]) => b.storedAt - a.storedAt)
+    .slice(0, MAX_IDEMPOTENT_RESPONSES - 1)
+  db.idempotentResponses = Object.fromEntries([...kept, [key, { response, storedAt: now }]])
+}
+
+/**
+ * Discard all changes and restore the seed data
+ */
+export const resetMockDatabase = (): void => {
+  memoryDb = null
+  if (typeof window !== "undefined") {
+    localStorage.removeItem(DB_STORAGE_KEY)
+  }
+  loadDatabase()
+}
+
+/**
+ * Order events
+ * Every change to the orders is published to subscribers, standing in for the event stream of the
+ * real backend. Changes made in other tabs arrive through the storage event.
+ */
+const eventListeners = new Set<(event: OrderEvent) => void>()
+
+const publishOrderEvents = (previous: Order[], next: Order[]): void => {
+  for (const event of diffOrders(previous, next)) {
+    eventListeners.forEach((listener) => listener(event))
+  }
+}
+
+const handleStorageChange = (event: StorageEvent): void => {
+  if (event.key !== DB_STORAGE_KEY || !event.newValue) {
+    return
+  }
+  try {
+    const previous = memoryDb?.orders ?? []
+    memoryDb = JSON.parse(event.newValue) as MockDatabase
+    publishOrderEvents(previous, memoryDb.orders)
+  } catch {
+    memoryDb = null
+  }
+}
+
+/**
+ * Subscribe to order changes of the mock backend
+ * @param listener - Called with every order event
+ * @returns Function that removes the subscription
+ */
+export const subscribeMockOrderEvents = (listener: (event: OrderEvent) => void): (() => void) => {
+  if (eventListeners.size === 0 && typeof window !== "undefined") {
+    window.addEventListener("storage", handleStorageChange)
+    schedulerTimer = setInterval(runScheduler, SCHEDULER_INTERVAL_MS)
+  }
+  eventListeners.add(listener)
+  return () => {
+    eventListeners.delete(listener)
+    if (eventListeners.size === 0 && typeof window !== "undefined") {
+      window.removeEventListener("storage", handleStorageChange)
+      if (schedulerTimer) {
+        clearInterval(schedulerTimer)
+        schedulerTimer = null
+      }
+    }
+  }
+}
+
+/**
+ * Scheduler
+ * Stands in for the job of the real backend that sends scheduled orders to the kitchen at their
+ * fire time. Due orders are promoted before every request, and on a timer while anyone listens
+ * for order events, so the kitchen display picks them up without a reload.
+ */
+const SCHEDULER_INTERVAL_MS = 30 * 1000
+let schedulerTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Move scheduled orders whose fire time has come to new
+ * @returns True if any order was promoted
+ */
+const promoteScheduledOrders = (db: MockDatabase, now: number = Date.now()): boolean => {
+  const due = db.orders.filter((order) => isDueToFire(order, now))
+  due.forEach((order) => fireScheduledOrder(db, order, null))
+  return due.length > 0
+}
+
+/**
+ * Send a scheduled order to the kitchen, by the scheduler or early by staff
+ */
+const fireScheduledOrder = (db: MockDatabase, order: Order, user: MockUser | null): void => {
+  changeOrderStatus(order, "new", user)
+  // The table was held for the guests of a scheduled dine-in order
+  const table = db.tables.find((t) => t.id === order.tableId)
+  if (table?.status === "reserved") {
+    table.status = "occupied"
+  }
+}
+
+const runScheduler = (): void => {
+  const db = loadDatabase()
+  const ordersBefore: Order[] = JSON.parse(JSON.stringify(db.orders))
+  if (promoteScheduledOrders(db)) {
+    saveDatabase(db)
+    publishOrderEvents(ordersBefore, db.orders)
+  }
+}
+
+/**
+ * Helpers
+ */
+const ok = (data?: unknown): MockResponse => ({ status: 200, data })
+const created = (data: unknown): MockResponse => ({ status: 201, data })
+const noContent = (): MockResponse => ({ status: 204 })
+const fail = (status: number, error: string, details?: string | Record<string, string>): MockResponse => ({
+  status,
+  data: { error, details },
+})
+const notFound = (resource: string): MockResponse => fail(404, `${resource} not found`)
+
+const toPublicUser = ({ password, pin, ...user }: MockUser): User => user
+
+const isManager = (user: MockUser | null): boolean => user?.role === "manager" || user?.role === "admin"
+
+// Requests the API methods send without a schema of their own in lib/schemas.ts
+const createUserRequestSchema = userSchema
+  .omit({ id: true, joinedAt: true })
+  .extend({ password: z.string().min(1).optional() })
+const updateUserRequestSchema = userSchema.omit({ id: true, joinedAt: true }).partial()
+const updateUserStatusRequestSchema = z.object({ status: userStatusSchema })
+const updateTableRequestSchema = tableSchema.omit({ id: true }).partial()
+const updateProductRequestSchema = productSchema.omit({ id: true }).partial()
+const updateOrderItemRequestSchema = addOrderItemRequestSchema.pick({ quantity: true, note: true }).partial()
+
+/**
+ * Narrow a request body or query with its schema. Errors are keyed by the field they belong to,
+ * up to the first list index, e.g. "printing.printers" for a printer of the print settings.
+ * @returns The typed request, or the validation errors
+ */
+const parseBody = <T extends z.ZodTypeAny>(
+  schema: T,
+  body: unknown,
+): { data: z.infer<T> } | { errors: Record<string, string> } => {
+  const result = schema.safeParse(body)
+  if (result.success) {
+    return { data: result.data }
+  }
+  const errors: Record<string, string> = {}
+  result.error.issues.forEach((issue) => {
+    const index = issue.path.findIndex((part) => typeof part === "number")
+    const field = issue.path.slice(0, index < 0 ? undefined : index).join(".") || "body"
+    errors[field] ??= issue.message
+  })
+  return { errors }
+}
+
+/**
+ * Price an order with the pricing rules, then add service charge and tax; time windows are
+ * checked against when it was placed
+ */
+function recalculateTotal(order: Order, db: Pick<MockDatabase, "products" | "pricingRules" | "settings">): void {
+  // Voided items stay on the order but are not charged
+  const items = order.items.filter((item) => !item.voided)
+  const lines = toPricingLines(items, db.products)
+  const pricing = priceOrder(
+    lines,
+    db.pricingRules,
+    { at: new Date(order.orderDate), promoCode: order.promoCode, decimals: db.settings.currency.decimals },
+    order.manualDiscount,
+  )
+  const totals = calculateTotals(lines, pricing, db.settings)
+  order.items.forEach((item) => {
+    const discounts = item.voided ? [] : pricing.lineDiscounts[items.indexOf(item)]
+    item.discounts = discounts.length > 0 ? discounts : undefined
+  })
+  order.subtotal = totals.subtotal
+  order.discountTotal = totals.discountTotal
+  order.serviceCharge = totals.serviceCharge
+  order.taxes = totals.taxes
+  order.taxTotal = totals.taxTotal
+  order.taxIncluded = totals.taxIncluded
+  order.total = totals.total
+}
+
+/**
+ * Move an order to another status and record the change in its history
+ */
+const changeOrderStatus = (order: Order, to: OrderStatus, user: MockUser | null): void => {
+  order.statusHistory = [
+    ...(order.statusHistory || []),
+    {
+      from: order.status,
+      to,
+      changedAt: new Date().toISOString(),
+      changedBy: user && { id: user.id, name: user.name },
+    },
+  ]
+  order.status = to
+}
+
+/**
+ * Close a delivered order once nothing is left to pay
+ */
+const closeIfSettled = (order: Order, user: MockUser | null): void => {
+  if (order.status === "delivered" && isSettled(order)) {
+    changeOrderStatus(order, "paid", user)
+  }
+}
+
+/**
+ * How a payment was made, as stored on the payment
+ */
+type Tender = Pick<Payment, "method" | "tip" | "tendered" | "change" | "cardAuthorization" | "voucherCode">
+
+/**
+ * Record a payment against an order and close the order if it is now paid in full
+ */
+const recordPayment = (
+  db: MockDatabase,
+  order: Order,
+  amount: number,
+  tender: Tender,
+  user: MockUser,
+  items?: PaidItem[],
+): Payment => {
+  const payment: Payment = {
+    id: db.nextIds.payment++,
+    orderId: order.id,
+    tableId: order.tableId,
+    amount,
+    ...tender,
+    items,
+    createdAt: new Date().toISOString(),
+    createdBy: { id: user.id, name: user.name },
+  }
+  db.payments.push(payment)
+  order.amountPaid = roundMoney((order.amountPaid ?? 0) + amount)
+  closeIfSettled(order, user)
+  return payment
+}
+
+/**
+ * Check the amount and tender of a payment request
+ * @returns Validation errors, or null if the request is valid
+ */
+const validatePayment = (
+  db: MockDatabase,
+  payment: CreateTablePaymentRequest,
+  balance: number,
+): Record<string, string> | null => {
+  const { amount, tip = 0 } = payment
+  if (roundMoney(amount, db.settings.currency.decimals) > balance) {
+    return { amount: `Amount exceeds the balance of ${formatMoney(balance, db.settings.currency)}` }
+  }
+  if (payment.tendered !== undefined) {
+    if (payment.method !== "cash") {
+      return { tendered: "Only cash payments have an amount tendered" }
+    }
+    if (getChange(amount + tip, payment.tendered) === null) {
+      return { tendered: `At least ${formatMoney(roundMoney(amount + tip), db.settings.currency)} must be tendered` }
+    }
+  }
+  if (payment.method === "card" && !payment.cardAuthorization?.authCode) {
+    return { cardAuthorization: "Card payments need an approval from the card terminal" }
+  }
+  if (payment.method === "voucher" && !payment.voucherCode?.trim()) {
+    return { voucherCode: "Enter the voucher code" }
+  }
+  return null
+}
+
+/**
+ * Check a payment request against its order; when the bill is split by item, every item can only
+ * be paid for once and the amount must be what the items cost
+ * @returns Validation errors, or null if the payment can be recorded
+ */
+const validateOrderPayment = (
+  db: MockDatabase,
+  order: Order,
+  payment: CreatePaymentRequest,
+): Record<string, string> | null => {
+  const errors = validatePayment(db, payment, getBalance(order))
+  if (errors || !payment.items) {
+    return errors
+  }
+  const paidQuantities = getPaidQuantities(db.payments.filter((p) => p.orderId === order.id))
+  for (const paid of payment.items) {
+    const item = order.items.find((i) => i.id === paid.itemId)
+    if (!item || paid.quantity < 1 || paid.quantity > getUnpaidQuantity(item, paidQuantities)) {
+      return { items: `Item ${paid.itemId} has already been paid for` }
+    }
+  }
+  const { decimals } = db.settings.currency
+  const expected = Math.min(getItemsAmount(order, payment.items, decimals, paidQuantities), getBalance(order))
+  if (roundMoney(payment.amount, decimals) !== expected) {
+    return { amount: `The selected items come to ${formatMoney(expected, db.settings.currency)}` }
+  }
+  return null
+}
+
+/**
+ * Take the tender of a valid payment request
+ * @param payment - Payment request
+ * @param amount - Amount the tender covers
+ * @param decimals - Decimals of the currency, which the tip and cash tendered are rounded to
+ * @returns Tender to store; change is worked out from the cash tendered
+ */
+const getTender = (payment: CreateTablePaymentRequest, amount: number, decimals: number): Tender => {
+  const tip = roundMoney(payment.tip ?? 0, decimals)
+  const tender: Tender = { method: payment.method }
+  if (tip > 0) {
+    tender.tip = tip
+  }
+  if (payment.method === "cash" && payment.tendered !== undefined) {
+    tender.tendered = roundMoney(payment.tendered, decimals)
+    tender.change = getChange(amount + tip, tender.tendered) ?? 0
+  }
+  if (payment.method === "card") {
+    tender.cardAuthorization = payment.cardAuthorization
+  }
+  if (payment.method === "voucher") {
+    tender.voucherCode = payment.voucherCode?.trim()
+  }
+  return tender
+}
+
+/**
+ * Filter and sort orders by the query parameters of /orders/paged and /orders/cursor
+ */
+const queryOrders = (db: MockDatabase, query: OrderFilter): Order[] => {
+  const from = query.from ? Date.parse(query.from) : null
+  const to = query.to ? Date.parse(query.to) : null
+  const guestName = query.guestName?.toLowerCase()
+
+  return db.orders
+    .filter((o) => !query.status || o.status === query.status)
+    .filter((o) => !query.type || getOrderType(o) === query.type)
+    .filter((o) => !query.tableId || o.tableId === query.tableId)
+    .filter((o) => from === null || Date.parse(o.orderDate) >= from)
+    .filter((o) => to === null || Date.parse(o.orderDate) <= to)
+    .filter((o) => !guestName || (o.guestName || "").toLowerCase().includes(guestName))
+    .filter((o) => query.minTotal === undefined || o.total >= query.minTotal)
+    .sort((a, b) => compareOrders(a, b, query))
+}
+
+/**
+ * Sort key of an order: the sort field, then the ID as a tie-breaker so the order is stable
+ */
+const orderSortKey = (order: Order, query: OrderFilter): [number, number] => {
+  const field = query.sortBy || "orderDate"
+  const value = field === "orderDate" ? Date.parse(order.orderDate) : Number(order[field])
+  return [value, order.id]
+}
+
+const compareSortKeys = (a: [number, number], b: [number, number], query: OrderFilter): number => {
+  const direction = query.sortOrder === "asc" ? 1 : -1
+  return direction * (a[0] - b[0] || a[1] - b[1])
+}
+
+const compareOrders = (a: Order, b: Order, query: OrderFilter): number =>
+  compareSortKeys(orderSortKey(a, query), orderSortKey(b, query), query)
+
+const createOrderItem = (
+  db: MockDatabase,
+  productId: number,
+  quantity: number,
+  modifiers?: ModifierSelection[],
+  note?: string,
+): OrderItem | { error: string } => {
+  const product = db.products.find((p) => p.id === productId)
+  if (!product) {
+    return { error: `Product ${productId} does not exist` }
+  }
+  const modifierErrors = Object.values(validateModifierSelection(product, modifiers))
+  if (modifierErrors.length > 0) {
+    return { error: modifierErrors[0] }
+  }
+  return {
+    id: db.nextIds.orderItem++,
+    productId: product.id,
+    productName: product.name,
+    quantity,
+    price: getUnitPrice(product, modifiers),
+    modifiers: resolveModifiers(product, modifiers),
+    note: note?.trim() || undefined,
+  }
+}
+
+/**
+ * Check a pricing rule before it is stored
+ * @param rule - Rule, or the fields to change merged into the stored rule
+ * @returns Validation errors, or null if the rule is valid
+ */
+const validatePricingRule = (
+  db: MockDatabase,
+  rule: CreatePricingRuleRequest,
+  id?: number,
+): Record<string, string> | null => {
+  const errors: Record<string, string> = {}
+  if (!rule.name.trim()) {
+    errors.name = "Name is required"
+  }
+  if (rule.type === "percentage" && !(rule.value > 0 && rule.value <= 100)) {
+    errors.value = "Percentage must be between 0 and 100"
+  } else if (rule.type === "fixed" && !(rule.value > 0)) {
+    errors.value = "Amount must be greater than 0"
+  } else if (rule.type === "buy_x_get_y" && !(rule.buyQuantity && rule.getQuantity)) {
+    errors.buyQuantity = "Buy and get quantities must be at least 1"
+  }
+  const time = /^([01]\d|2[0-3]):[0-5]\d$/
+  if (rule.schedule && !(time.test(rule.schedule.startTime) && time.test(rule.schedule.endTime))) {
+    errors.schedule = "Times must be in HH:MM format"
+  }
+  const code = (rule.promoCode ?? "").trim().toUpperCase()
+  if (code && db.pricingRules.some((r) => r.id !== id && String(r.promoCode ?? "").toUpperCase() === code)) {
+    errors.promoCode = "Another rule already uses this code"
+  }
+  return Object.keys(errors).length > 0 ? errors : null
+}
+
+/**
+ * Check the printers of the print settings
+ * @returns Error message, or null if the printers are valid
+ */
+const validatePrinters = (printers: Printer[]): string | null => {
+  for (const [index, printer] of printers.entries()) {
+    const name = printer.name.trim() || `Printer ${index + 1}`
+    if (!printer.id.trim() || printers.filter((p) => p.id === printer.id).length > 1) {
+      return `${name} needs an ID of its own`
+    }
+    if (!printer.name.trim()) {
+      return `${name} needs a name`
+    }
+    if (printer.connection === "network" && !/^https?:\/\/\S+$/.test(printer.address ?? "")) {
+      return `${name} needs the URL of its print server`
+    }
+  }
+  return null
+}
+
+/**
+ * Check what the settings schema cannot, e.g. that the locale is known
+ * @returns Validation errors, or null if the settings are valid
+ */
+const validateSettings = (settings: CafeSettings): Record<string, string> | null => {
+  const errors: Record<string, string> = {}
+  if (!settings.tax.label.trim()) {
+    errors["tax.label"] = "Tax name is required"
+  }
+  if (!/^[A-Z]{3}$/.test(settings.currency.code)) {
+    errors["currency.code"] = "Currency code must be 3 letters, e.g. EGP"
+  }
+  if (!settings.currency.symbol.trim()) {
+    errors["currency.symbol"] = "Currency symbol is required"
+  }
+  if (!isSupportedLocale(settings.currency.locale)) {
+    errors["currency.locale"] = "Unknown locale"
+  }
+  const printerError = validatePrinters(settings.printing.printers)
+  if (printerError) {
+    errors["printing.printers"] = printerError
+  }
+  return Object.keys(errors).length > 0 ? errors : null
+}
+
+/**
+ * Use up a manager approval
+ * @param token - Approval token from POST /auth/approvals
+ * @returns Manager who gave the approval, or null if the token is unknown or expired
+ */
+const consumeApproval = (db: MockDatabase, token: unknown): MockUser | null => {
+  const approval = (db.approvals || []).find((a) => a.token === token)
+  db.approvals = (db.approvals || []).filter((a) => a !== approval && a.expiresAt > Date.now())
+  if (!approval || approval.expiresAt < Date.now()) {
+    return null
+  }
+  return db.users.find((u) => u.id === approval.userId && u.status === "active") || null
+}
+
+/**
+ * Check the reason of a void or refund request
+ * @returns Validation errors, or null if the request is valid
+ */
+const validateAdjustment = (request: VoidRequest | RefundRequest): Record<string, string> | null => {
+  if (request.reasonCode === "other" && !request.note?.trim()) {
+    return { note: "Describe the reason" }
+  }
+  return null
+}
+
+/**
+ * Keep a void or refund on the order
+ */
+const recordAdjustment = (
+  db: MockDatabase,
+  order: Order,
+  adjustment: Pick<OrderAdjustment, "kind" | "itemId" | "amount" | "method" | "reasonCode" | "note">,
+  approver: MockUser,
+  user: MockUser,
+): void => {
+  order.adjustments = [
+    ...(order.adjustments || []),
+    {
+      ...adjustment,
+      id: db.nextIds.adjustment++,
+      note: adjustment.note?.trim() || undefined,
+      approvedBy: { id: approver.id, name: approver.name },
+      createdBy: { id: user.id, name: user.name },
+      createdAt: new Date().toISOString(),
+    },
+  ]
+}
+
+/**
+ * Issue an access token and a rotating refresh token. Access tokens carry their expiry so the
+ * client's refresh flow can be exercised without a backend.
+ */
+const issueTokens = (db: MockDatabase, user: MockUser): { token: string; refreshToken: string } => {
+  const refreshToken = `mock-refresh-${user.id}-${Math.random().toString(36).slice(2)}`
+  db.refreshTokens = [...(db.refreshTokens || []), { token: refreshToken, userId: user.id }]
+  return { token: `mock-token-${user.id}-${Date.now() + ACCESS_TOKEN_LIFETIME_MS}`, refreshToken }
+}
+
+const userFromToken = (db: MockDatabase, authorization: unknown): MockUser | null => {
+  const match = typeof authorization === "string" ? authorization.match(/^Bearer mock-token-(\d+)-(\d+)$/) : null
+  if (!match || Number(match[2]) < Date.now()) {
+    return null
+  }
+  return db.users.find((u) => u.id === Number(match[1])) || null
+}
+
+/**
+ * Route handlers
+ */
+const routes: MockRoute[] = [
+  // Auth
+  {
+    method: "post",
+    pattern: "/auth/login",
+    handler: (db, { body }) => {
+      const parsed = parseBody(loginRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const { email, password } = parsed.data
+      const user = db.users.find((u) => u.email === email && u.password === password)
+      if (!user) {
+        return fail(401, "Invalid email or password")
+      }
+      if (user.status !== "active") {
+        return fail(403, "This account has been deactivated")
+      }
+      return ok({ ...issueTokens(db, user), user: toPublicUser(user) })
+    },
+  },
+  {
+    method: "post",
+    pattern: "/auth/register",
+    handler: (db, { body }) => {
+      const parsed = parseBody(registerRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const request = parsed.data
+      if (request.password !== request.confirmPassword) {
+        return fail(400, "Validation failed", { confirmPassword: "Passwords do not match" })
+      }
+      if (db.users.some((u) => u.email === request.email)) {
+        return fail(409, "A user with this email already exists")
+      }
+      const user: MockUser = {
+        id: db.nextIds.user++,
+        name: request.name,
+        email: request.email,
+        password: request.password,
+        role: "customer",
+        status: "active",
+        joinedAt: new Date().toISOString(),
+      }
+      db.users.push(user)
+      return created({ ...issueTokens(db, user), user: toPublicUser(user) })
+    },
+  },
+  {
+    method: "post",
+    pattern: "/auth/refresh",
+    handler: (db, { body }) => {
+      const parsed = parseBody(refreshTokenRequestSchema, body)
+      const refreshToken = "data" in parsed ? parsed.data.refreshToken : null
+      const stored = (db.refreshTokens || []).find((t) => t.token === refreshToken)
+      const user = stored && db.users.find((u) => u.id === stored.userId && u.status === "active")
+      if (!stored || !user) {
+        return fail(401, "Invalid refresh token")
+      }
+      // Rotation: a refresh token can only be used once
+      db.refreshTokens = db.refreshTokens.filter((t) => t !== stored)
+      return ok(issueTokens(db, user))
+    },
+  },
+  {
+    method: "post",
+    pattern: "/auth/logout",
+    handler: (db, { body }) => {
+      // Logging out without a refresh token still succeeds
+      const parsed = parseBody(refreshTokenRequestSchema, body)
+      if ("data" in parsed) {
+        db.refreshTokens = (db.refreshTokens || []).filter((t) => t.token !== parsed.data.refreshToken)
+      }
+      return noContent()
+    },
+  },
+  {
+    method: "post",
+    pattern: "/auth/approvals",
+    handler: (db, { body, currentUser }) => {
+      if (!currentUser) {
+        return fail(401, "Not authenticated")
+      }
+      const parsed = parseBody(managerApprovalRequestSchema, body)
+      const pin = "data" in parsed ? parsed.data.pin : null
+      const manager = db.users.find((u) => isManager(u) && u.status === "active" && !!u.pin && u.pin === pin)
+      if (!manager) {
+        return fail(403, "Invalid manager PIN")
+      }
+      const approval = {
+        token: `mock-approval-${manager.id}-${Math.random().toString(36).slice(2)}`,
+        userId: manager.id,
+        expiresAt: Date.now() + APPROVAL_LIFETIME_MS,
+      }
+      db.approvals = [...(db.approvals || []), approval]
+      return created({
+        approvalToken: approval.token,
+        approvedBy: { id: manager.id, name: manager.name },
+        expiresAt: new Date(approval.expiresAt).toISOString(),
+      })
+    },
+  },
+  {
+    method: "get",
+    pattern: "/auth/me",
+    handler: (_db, { currentUser }) => (currentUser ? ok(toPublicUser(currentUser)) : fail(401, "Not authenticated")),
+  },
+  {
+    method: "get",
+    pattern: "/auth/validate",
+    handler: (_db, { currentUser }) => (currentUser ? ok({ valid: true }) : fail(401, "Invalid token")),
+  },
+
+  // Users
+  {
+    method: "get",
+    pattern: "/users",
+    handler: (db, { query }) =>
+      ok(
+        db.users
+          .filter((u) => !query.role || u.role === query.role)
+          .filter((u) => !query.status || u.status === query.status)
+          .map(toPublicUser),
+      ),
+  },
+  {
+    method: "get",
+    pattern: "/users/:id",
+    handler: (db, { params }) => {
+      const user = db.users.find((u) => u.id === Number(params.id))
+      return user ? ok(toPublicUser(user)) : notFound("User")
+    },
+  },
+  {
+    method: "post",
+    pattern: "/users",
+    handler: (db, { body }) => {
+      const parsed = parseBody(createUserRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const { password, ...request } = parsed.data
+      if (db.users.some((u) => u.email === request.email)) {
+        return fail(409, "A user with this email already exists")
+      }
+      const user: MockUser = {
+        ...request,
+        id: db.nextIds.user++,
+        password: password || "password",
+        joinedAt: new Date().toISOString(),
+      }
+      db.users.push(user)
+      return created(toPublicUser(user))
+    },
+  },
+  {
+    method: "put",
+    pattern: "/users/:id",
+    handler: (db, { params, body }) => {
+      const user = db.users.find((u) => u.id === Number(params.id))
+      if (!user) {
+        return notFound("User")
+      }
+      const parsed = parseBody(updateUserRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      Object.assign(user, parsed.data)
+      return ok(toPublicUser(user))
+    },
+  },
+  {
+    method: "patch",
+    pattern: "/users/:id/status",
+    handler: (db, { params, body }) => {
+      const user = db.users.find((u) => u.id === Number(params.id))
+      if (!user) {
+        return notFound("User")
+      }
+      const parsed = parseBody(updateUserStatusRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      user.status = parsed.data.status
+      return ok(toPublicUser(user))
+    },
+  },
+  {
+    method: "delete",
+    pattern: "/users/:id",
+    handler: (db, { params }) => {
+      const index = db.users.findIndex((u) => u.id === Number(params.id))
+      if (index < 0) {
+        return notFound("User")
+      }
+      db.users.splice(index, 1)
+      return noContent()
+    },
+  },
+
+  // Tables
+  {
+    method: "get",
+    pattern: "/tables",
+    handler: (db, { query }) =>
+      ok(
+        db.tables
+          .filter((t) => !query.status || t.status === query.status)
+          .filter((t) => !query.capacity || t.capacity >= Number(query.capacity)),
+      ),
+  },
+  {
+    method: "get",
+    pattern: "/tables/status/:status",
+    handler: (db, { params }) => ok(db.tables.filter((t) => t.status === params.status)),
+  },
+  {
+    method: "get",
+    pattern: "/tables/:id/order",
+    handler: (db, { params }) => {
+      const table = db.tables.find((t) => t.id === Number(params.id))
+      if (!table) {
+        return notFound("Table")
+      }
+      const currentOrder =
+        db.orders.find((o) => o.tableId === table.id && getStatusInfo(o.status).isOpen) || null
+      return ok({ ...table, currentOrder })
+    },
+  },
+  {
+    method: "get",
+    pattern: "/tables/:id",
+    handler: (db, { params }) => {
+      const table = db.tables.find((t) => t.id === Number(params.id))
+      return table ? ok(table) : notFound("Table")
+    },
+  },
+  {
+    method: "post",
+    pattern: "/tables",
+    handler: (db, { body }) => {
+      const parsed = parseBody(createTableRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const table: Table = { ...parsed.data, id: db.nextIds.table++ }
+      db.tables.push(table)
+      return created(table)
+    },
+  },
+  {
+    method: "put",
+    pattern: "/tables/:id",
+    handler: (db, { params, body }) => {
+      const table = db.tables.find((t) => t.id === Number(params.id))
+      if (!table) {
+        return notFound("Table")
+      }
+      const parsed = parseBody(updateTableRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      Object.assign(table, parsed.data)
+      return ok(table)
+    },
+  },
+  {
+    method: "patch",
+    pattern: "/tables/:id/status",
+    handler: (db, { params, body }) => {
+      const table = db.tables.find((t) => t.id === Number(params.id))
+      if (!table) {
+        return notFound("Table")
+      }
+      const parsed = parseBody(updateTableStatusRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      table.status = parsed.data.status
+      return ok(table)
+    },
+  },
+  {
+    method: "delete",
+    pattern: "/tables/:id",
+    handler: (db, { params }) => {
+      const index = db.tables.findIndex((t) => t.id === Number(params.id))
+      if (index < 0) {
+        return notFound("Table")
+      }
+      if (db.orders.some((o) => o.tableId === Number(params.id) && getStatusInfo(o.status).isOpen)) {
+        return fail(409, "Table has open orders")
+      }
+      db.tables.splice(index, 1)
+      return noContent()
+    },
+  },
+
+  // Products
+  {
+    method: "get",
+    pattern: "/products",
+    handler: (db, { query }) => ok(db.products.filter((p) => !query.category || p.category === query.category)),
+  },
+  {
+    method: "get",
+    pattern: "/products/category/:category",
+    handler: (db, { params }) => ok(db.products.filter((p) => p.category === params.category)),
+  },
+  {
+    method: "get",
+    pattern: "/products/:id",
+    handler: (db, { params }) => {
+      const product = db.products.find((p) => p.id === Number(params.id))
+      return product ? ok(product) : notFound("Product")
+    },
+  },
+  {
+    method: "post",
+    pattern: "/products",
+    handler: (db, { body }) => {
+      const parsed = parseBody(createProductRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const request = parsed.data
+      if (request.price <= 0) {
+        return fail(400, "Validation failed", { price: "Price must be greater than 0" })
+      }
+      const product: Product = {
+        ...request,
+        id: db.nextIds.product++,
+        imageUrl: request.imageUrl || "",
+        modifierGroups: request.modifierGroups || [],
+      }
+      db.products.push(product)
+      return created(product)
+    },
+  },
+  {
+    method: "put",
+    pattern: "/products/:id",
+    handler: (db, { params, body }) => {
+      const product = db.products.find((p) => p.id === Number(params.id))
+      if (!product) {
+        return notFound("Product")
+      }
+      const parsed = parseBody(updateProductRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      if (parsed.data.price !== undefined && parsed.data.price <= 0) {
+        return fail(400, "Validation failed", { price: "Price must be greater than 0" })
+      }
+      Object.assign(product, parsed.data)
+      return ok(product)
+    },
+  },
+  {
+    method: "delete",
+    pattern: "/products/:id",
+    handler: (db, { params }) => {
+      const index = db.products.findIndex((p) => p.id === Number(params.id))
+      if (index < 0) {
+        return notFound("Product")
+      }
+      db.products.splice(index, 1)
+      return noContent()
+    },
+  },
+
+  // Cafe settings
+  {
+    method: "get",
+    pattern: "/settings",
+    handler: (db) => ok(db.settings),
+  },
+  {
+    method: "put",
+    pattern: "/settings",
+    handler: (db, { body, currentUser }) => {
+      if (!isManager(currentUser)) {
+        return fail(403, "Only managers can change the cafe settings")
+      }
+      const parsed = parseBody(updateCafeSettingsRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const updated: CafeSettings = { ...db.settings, ...parsed.data }
+      const errors = validateSettings(updated)
+      if (errors) {
+        return fail(400, "Validation failed", errors)
+      }
+      updated.tax.label = updated.tax.label.trim()
+      updated.currency.symbol = updated.currency.symbol.trim()
+      updated.printing.printers = updated.printing.printers.map((printer) => ({
+        ...printer,
+        name: printer.name.trim(),
+        address: printer.connection === "network" ? printer.address : null,
+      }))
+      db.settings = updated
+      // Open orders nobody has paid for yet get the new tax and service charge
+      db.orders
+        .filter((order) => getStatusInfo(order.status).isOpen && !order.amountPaid)
+        .forEach((order) => recalculateTotal(order, db))
+      // Scheduled orders go to the kitchen the new lead time before they are due
+      db.orders
+        .filter((order) => order.status === "scheduled" && order.readyAt)
+        .forEach((order) => {
+          order.fireAt = getFireTime(order.readyAt!, db.settings)
+        })
+      promoteScheduledOrders(db)
+      return ok(db.settings)
+    },
+  },
+
+  // Pricing rules
+  {
+    method: "get",
+    pattern: "/pricing-rules",
+    handler: (db) => ok(db.pricingRules),
+  },
+  {
+    method: "post",
+    pattern: "/pricing-rules",
+    handler: (db, { body, currentUser }) => {
+      if (!isManager(currentUser)) {
+        return fail(403, "Only managers can change pricing rules")
+      }
+      const parsed = parseBody(createPricingRuleRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const request = parsed.data
+      const errors = validatePricingRule(db, request)
+      if (errors) {
+        return fail(400, "Validation failed", errors)
+      }
+      const rule: PricingRule = {
+        ...request,
+        id: db.nextIds.pricingRule++,
+        name: request.name.trim(),
+        promoCode: request.promoCode?.trim().toUpperCase() || undefined,
+      }
+      db.pricingRules.push(rule)
+      return created(rule)
+    },
+  },
+  {
+    method: "put",
+    pattern: "/pricing-rules/:id",
+    handler: (db, { params, body, currentUser }) => {
+      const rule = db.pricingRules.find((r) => r.id === Number(params.id))
+      if (!rule) {
+        return notFound("Pricing rule")
+      }
+      if (!isManager(currentUser)) {
+        return fail(403, "Only managers can change pricing rules")
+      }
+      const parsed = parseBody(createPricingRuleRequestSchema.partial(), body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const updated: PricingRule = { ...rule, ...parsed.data }
+      const errors = validatePricingRule(db, updated, rule.id)
+      if (errors) {
+        return fail(400, "Validation failed", errors)
+      }
+      Object.assign(rule, updated, { promoCode: updated.promoCode?.trim().toUpperCase() || undefined })
+      return ok(rule)
+    },
+  },
+  {
+    method: "delete",
+    pattern: "/pricing-rules/:id",
+    handler: (db, { params, currentUser }) => {
+      const index = db.pricingRules.findIndex((r) => r.id === Number(params.id))
+      if (index < 0) {
+        return notFound("Pricing rule")
+      }
+      if (!isManager(currentUser)) {
+        return fail(403, "Only managers can change pricing rules")
+      }
+      db.pricingRules.splice(index, 1)
+      return noContent()
+    },
+  },
+
+  // Orders
+  {
+    method: "get",
+    pattern: "/orders",
+    handler: (db, { query }) => ok(db.orders.filter((o) => !query.status || o.status === query.status)),
+  },
+  {
+    method: "get",
+    pattern: "/orders/open",
+    handler: (db) => ok(db.orders.filter((o) => getStatusInfo(o.status).isOpen)),
+  },
+  {
+    method: "get",
+    pattern: "/orders/paged",
+    handler: (db, { query }) => {
+      const parsed = parseBody(orderPageQuerySchema, query)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const { page = 1, pageSize = 20 } = parsed.data
+      const orders = queryOrders(db, parsed.data)
+      return ok({
+        items: orders.slice((page - 1) * pageSize, page * pageSize),
+        page,
+        pageSize,
+        totalCount: orders.length,
+        totalPages: Math.ceil(orders.length / pageSize),
+      })
+    },
+  },
+  {
+    method: "get",
+    pattern: "/orders/cursor",
+    handler: (db, { query: rawQuery }) => {
+      const parsed = parseBody(orderCursorQuerySchema, rawQuery)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const query = parsed.data
+      const limit = query.limit ?? 20
+      let orders = queryOrders(db, query)
+      if (query.cursor) {
+        // The cursor is the sort key of the last order of the previous page
+        let after: [number, number]
+        try {
+          after = JSON.parse(atob(query.cursor))
+        } catch {
+          return fail(400, "Invalid cursor", { cursor: "The cursor is not valid" })
+        }
+        orders = orders.filter((o) => compareSortKeys(orderSortKey(o, query), after, query) > 0)
+      }
+      const items = orders.slice(0, limit)
+      const last = items[items.length - 1]
+      return ok({
+        items,
+        nextCursor: orders.length > limit && last ? btoa(JSON.stringify(orderSortKey(last, query))) : null,
+      })
+    },
+  },
+  {
+    method: "get",
+    pattern: "/orders/table/:tableId",
+    handler: (db, { params }) => ok(db.orders.filter((o) => o.tableId === Number(params.tableId))),
+  },
+  {
+    method: "get",
+    pattern: "/orders/status/:status",
+    handler: (db, { params }) => ok(db.orders.filter((o) => o.status === params.status)),
+  },
+  {
+    method: "get",
+    pattern: "/orders/:id",
+    handler: (db, { params }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      return order ? ok(order) : notFound("Order")
+    },
+  },
+  {
+    method: "post",
+    pattern: "/orders",
+    handler: (db, { body, currentUser }) => {
+      const parsed = parseBody(createOrderRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const request = parsed.data
+      const typeErrors = validateOrderType(request)
+      if (Object.keys(typeErrors).length > 0) {
+        return fail(400, "Validation failed", typeErrors)
+      }
+      const type: OrderType = request.type ?? "dine_in"
+      const table = ORDER_TYPE_INFO[type].needsTable ? db.tables.find((t) => t.id === request.tableId) : null
+      if (table === undefined) {
+        return fail(400, "Validation failed", { tableId: "Table does not exist" })
+      }
+      const readyAt = getRequestedReadyTime(request)
+      const readyTimeError = readyAt ? validateReadyTime(readyAt) : null
+      if (readyTimeError) {
+        return fail(400, "Validation failed", { [request.readyAt ? "readyAt" : "pickupTime"]: readyTimeError })
+      }
+      const promoRule = request.promoCode ? findPromoRule(db.pricingRules, request.promoCode) : undefined
+      if (request.promoCode && !promoRule) {
+        return fail(400, "Validation failed", { promoCode: "Unknown or expired promo code" })
+      }
+
+      const items: OrderItem[] = []
+      for (const requested of request.items) {
+        const item = createOrderItem(db, requested.productId, requested.quantity, requested.modifiers, requested.note)
+        if ("error" in item) {
+          return fail(400, "Validation failed", { items: item.error })
+        }
+        items.push(item)
+      }
+
+      const order: Order = {
+        id: db.nextIds.order++,
+        type,
+        tableId: table?.id ?? null,
+        userId: currentUser?.id || 0,
+        status: "new",
+        items,
+        total: 0,
+        orderDate: new Date().toISOString(),
+        guestName: request.guestName ?? (table ? undefined : request.customer?.name.trim()),
+        customer:
+          table || !request.customer
+            ? undefined
+            : {
+                name: request.customer.name.trim(),
+                phone: request.customer.phone.trim(),
+                address: type === "delivery" ? request.customer.address?.trim() : undefined,
+              },
+        pickupTime: type === "pickup" && request.pickupTime ? new Date(request.pickupTime).toISOString() : undefined,
+        readyAt: readyAt ? new Date(readyAt).toISOString() : undefined,
+        fireAt: readyAt ? getFireTime(readyAt, db.settings) : undefined,
+        note: request.note?.trim() || undefined,
+        promoCode: promoRule?.promoCode,
+      }
+      // Orders not due in the kitchen yet wait as scheduled
+      if (order.fireAt && Date.parse(order.fireAt) > Date.now()) {
+        order.status = "scheduled"
+      }
+      order.statusHistory = [
+        {
+          from: null,
+          to: order.status,
+          changedAt: order.orderDate,
+          changedBy: currentUser && { id: currentUser.id, name: currentUser.name },
+        },
+      ]
+      recalculateTotal(order, db)
+      db.orders.push(order)
+      if (table) {
+        table.status = order.status === "scheduled" ? "reserved" : "occupied"
+      }
+      return created(order)
+    },
+  },
+  {
+    method: "patch",
+    pattern: "/orders/:id/status",
+    handler: (db, { params, body, currentUser }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      if (!order) {
+        return notFound("Order")
+      }
+      const parsed = parseBody(updateOrderStatusRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      if (!currentUser) {
+        return fail(401, "Not authenticated")
+      }
+
+      const { status } = parsed.data
+      const rejection = checkTransition(order.status, status, currentUser.role)
+      if (rejection) {
+        return fail(rejection.reason === "forbidden" ? 403 : 409, rejection.message)
+      }
+      if (status === "paid" && !isSettled(order)) {
+        const balance = formatMoney(getBalance(order), db.settings.currency)
+        return fail(409, `Order #${order.id} has a balance of ${balance}. Record a payment first.`)
+      }
+
+      if (order.status === "scheduled") {
+        fireScheduledOrder(db, order, currentUser)
+      } else {
+        changeOrderStatus(order, status, currentUser)
+      }
+      // Orders paid in advance are closed as soon as they are delivered
+      closeIfSettled(order, currentUser)
+      return ok(order)
+    },
+  },
+  {
+    method: "patch",
+    pattern: "/orders/:id/note",
+    handler: (db, { params, body }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      if (!order) {
+        return notFound("Order")
+      }
+      const parsed = parseBody(updateOrderNoteRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      order.note = parsed.data.note.trim() || undefined
+      return ok(order)
+    },
+  },
+  {
+    method: "put",
+    pattern: "/orders/:id/promo-code",
+    handler: (db, { params, body }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      if (!order) {
+        return notFound("Order")
+      }
+      if (!getStatusInfo(order.status).isOpen) {
+        return fail(409, `Order #${order.id} has been ${order.status} and can no longer be discounted`)
+      }
+      const parsed = parseBody(applyPromoCodeRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const { promoCode } = parsed.data
+      if (promoCode) {
+        const rule = findPromoRule(db.pricingRules, promoCode)
+        if (!rule) {
+          return fail(400, "Validation failed", { promoCode: "Unknown or expired promo code" })
+        }
+        order.promoCode = rule.promoCode
+      } else {
+        order.promoCode = undefined
+      }
+      recalculateTotal(order, db)
+      return ok(order)
+    },
+  },
+  {
+    method: "put",
+    pattern: "/orders/:id/discount",
+    handler: (db, { params, body, currentUser }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      if (!order) {
+        return notFound("Order")
+      }
+      if (!currentUser) {
+        return fail(401, "Not authenticated")
+      }
+      if (!getStatusInfo(order.status).isOpen) {
+        return fail(409, `Order #${order.id} has been ${order.status} and can no longer be discounted`)
+      }
+      const parsed = parseBody(manualDiscountRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const discount = parsed.data
+      if (discount.type === "percentage" && discount.value > 100) {
+        return fail(400, "Validation failed", { value: "Enter a percentage up to 100 or an amount greater than 0" })
+      }
+      if (!discount.reason.trim()) {
+        return fail(400, "Validation failed", { reason: "Give a reason for the discount" })
+      }
+      // Staff need a manager to approve the discount
+      const approver = isManager(currentUser) ? currentUser : consumeApproval(db, discount.approvalToken)
+      if (!approver) {
+        return fail(403, "A manager needs to approve this discount")
+      }
+      order.manualDiscount = {
+        type: discount.type,
+        value: discount.value,
+        reason: discount.reason.trim(),
+        approvedBy: { id: approver.id, name: approver.name },
+      }
+      recalculateTotal(order, db)
+      return ok(order)
+    },
+  },
+  {
+    method: "delete",
+    pattern: "/orders/:id/discount",
+    handler: (db, { params }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      if (!order) {
+        return notFound("Order")
+      }
+      if (!getStatusInfo(order.status).isOpen) {
+        return fail(409, `Order #${order.id} has been ${order.status} and can no longer be changed`)
+      }
+      order.manualDiscount = undefined
+      recalculateTotal(order, db)
+      return ok(order)
+    },
+  },
+  {
+    method: "post",
+    pattern: "/orders/:id/void",
+    handler: (db, { params, body, currentUser }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      if (!order) {
+        return notFound("Order")
+      }
+      if (!currentUser) {
+        return fail(401, "Not authenticated")
+      }
+      if (order.status === "paid") {
+        return fail(409, `Order #${order.id} has been paid; refund it instead`)
+      }
+      if (order.status === "voided") {
+        return fail(409, `Order #${order.id} has already been voided`)
+      }
+      const parsed = parseBody(voidRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const request = parsed.data
+      const errors = validateAdjustment(request)
+      if (errors) {
+        return fail(400, "Validation failed", errors)
+      }
+
+      const item = request.itemId !== undefined ? order.items.find((i) => i.id === request.itemId) : undefined
+      if (request.itemId !== undefined && !item) {
+        return notFound("Order item")
+      }
+      if (item?.voided) {
+        return fail(409, `${item.productName} has already been voided`)
+      }
+      if (!item && order.amountPaid) {
+        return fail(409, `Order #${order.id} has payments; void single items or refund it once it is paid`)
+      }
+      if (item && order.amountPaid) {
+        // A void cannot take back what has been paid for
+        if (getPaidQuantities(db.payments.filter((p) => p.orderId === order.id))[item.id]) {
+          return fail(409, `${item.productName} has been paid for and cannot be voided`)
+        }
+        const preview: Order = { ...order, items: order.items.map((i) => ({ ...i, voided: i.voided || i === item })) }
+        recalculateTotal(preview, db)
+        if (preview.total < order.amountPaid) {
+          return fail(409, `Voiding ${item.productName} would leave less to pay than has been paid`)
+        }
+      }
+
+      // Staff need a manager to approve the void
+      const approver = isManager(currentUser) ? currentUser : consumeApproval(db, request.approvalToken)
+      if (!approver) {
+        return fail(403, "A manager needs to approve this void")
+      }
+      const totalBefore = order.total
+      ;(item ? [item] : order.items).forEach((i) => {
+        i.voided = true
+      })
+      recalculateTotal(order, db)
+      recordAdjustment(
+        db,
+        order,
+        {
+          kind: "void",
+          itemId: item?.id ?? null,
+          amount: roundMoney(totalBefore - order.total),
+          reasonCode: request.reasonCode,
+          note: request.note,
+        },
+        approver,
+        currentUser,
+      )
+      // An order with nothing left on it is voided as a whole
+      if (order.items.every((i) => i.voided)) {
+        changeOrderStatus(order, "voided", currentUser)
+      }
+      return ok(order)
+    },
+  },
+  {
+    method: "post",
+    pattern: "/orders/:id/refund",
+    handler: (db, { params, body, currentUser }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      if (!order) {
+        return notFound("Order")
+      }
+      if (!currentUser) {
+        return fail(401, "Not authenticated")
+      }
+      if (order.status !== "paid") {
+        return fail(409, `Order #${order.id} has not been paid; void it instead`)
+      }
+      const parsed = parseBody(refundRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const request = parsed.data
+      const errors = validateAdjustment(request)
+      if (errors) {
+        return fail(400, "Validation failed", errors)
+      }
+
+      const item = request.itemId !== undefined ? order.items.find((i) => i.id === request.itemId) : undefined
+      if (request.itemId !== undefined && !item) {
+        return notFound("Order item")
+      }
+      if (item?.voided || item?.refunded) {
+        return fail(409, `${item.productName} has already been ${item.voided ? "voided" : "refunded"}`)
+      }
+      const amount = item ? getItemRefundAmount(order, item, db.settings.currency.decimals) : getRefundableAmount(order)
+      if (!(amount > 0)) {
+        return fail(409, `Order #${order.id} has been refunded in full`)
+      }
+
+      // Staff need a manager to approve the refund
+      const approver = isManager(currentUser) ? currentUser : consumeApproval(db, request.approvalToken)
+      if (!approver) {
+        return fail(403, "A manager needs to approve this refund")
+      }
+      ;(item ? [item] : order.items.filter((i) => !i.voided)).forEach((i) => {
+        i.refunded = true
+      })
+      order.refundedAmount = roundMoney((order.refundedAmount ?? 0) + amount)
+      recordAdjustment(
+        db,
+        order,
+        {
+          kind: "refund",
+          itemId: item?.id ?? null,
+          amount,
+          method: request.method,
+          reasonCode: request.reasonCode,
+          note: request.note,
+        },
+        approver,
+        currentUser,
+      )
+      return ok(order)
+    },
+  },
+  {
+    method: "post",
+    pattern: "/orders/:id/transfer",
+    handler: (db, { params, body }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      if (!order) {
+        return notFound("Order")
+      }
+      if (!getStatusInfo(order.status).isOpen) {
+        return fail(409, `Order #${order.id} has been ${order.status} and can no longer be moved`)
+      }
+      const parsed = parseBody(transferOrderRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const table = db.tables.find((t) => t.id === parsed.data.tableId)
+      if (!table) {
+        return fail(400, "Validation failed", { tableId: "Table does not exist" })
+      }
+      if (order.tableId === table.id) {
+        return fail(400, "Validation failed", { tableId: `The order is already at ${table.name}` })
+      }
+      // Takeaway guests who decide to stay become dine-in guests
+      order.type = "dine_in"
+      order.tableId = table.id
+      return ok(order)
+    },
+  },
+  {
+    method: "post",
+    pattern: "/orders/merge",
+    handler: (db, { body }) => {
+      const parsed = parseBody(mergeTablesRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const from = db.tables.find((t) => t.id === parsed.data.fromTableId)
+      const to = db.tables.find((t) => t.id === parsed.data.toTableId)
+      if (!from) {
+        return fail(400, "Validation failed", { fromTableId: "Table does not exist" })
+      }
+      if (!to) {
+        return fail(400, "Validation failed", { toTableId: "Table does not exist" })
+      }
+      if (from.id === to.id) {
+        return fail(400, "Validation failed", { toTableId: "Choose another table to merge with" })
+      }
+      const byDate = (a: Order, b: Order) => Date.parse(a.orderDate) - Date.parse(b.orderDate)
+      const byCreatedAt = (a: OrderAdjustment, b: OrderAdjustment) => Date.parse(a.createdAt) - Date.parse(b.createdAt)
+      const openOrdersOf = (table: Table) =>
+        db.orders.filter((o) => o.tableId === table.id && getStatusInfo(o.status).isOpen).sort(byDate)
+      const sourceOrders = openOrdersOf(from)
+      if (sourceOrders.length === 0) {
+        return fail(409, `${from.name} has no open orders to merge`)
+      }
+      const orders = [...openOrdersOf(to), ...sourceOrders]
+      const blocker = getMergeBlocker(orders)
+      if (blocker) {
+        return fail(409, blocker)
+      }
+
+      // Everything goes into the oldest order of the table the guests join
+      const [merged, ...others] = orders
+      merged.type = "dine_in"
+      merged.tableId = to.id
+      merged.items = orders.flatMap((o) => o.items)
+      // Voids follow their items
+      const adjustments = orders.flatMap((o) => o.adjustments ?? [])
+      merged.adjustments = adjustments.length > 0 ? adjustments.sort(byCreatedAt) : undefined
+      merged.guestName = merged.guestName || others.find((o) => o.guestName)?.guestName
+      merged.promoCode = merged.promoCode ?? others.find((o) => o.promoCode)?.promoCode
+      const notes = orders.map((o) => o.note).filter(Boolean)
+      merged.note = notes.length > 0 ? notes.join("; ").slice(0, ORDER_NOTE_MAX_LENGTH) : undefined
+      merged.mergedOrderIds = [
+        ...orders.flatMap((o) => o.mergedOrderIds ?? []),
+        ...others.map((o) => o.id),
+      ]
+      recalculateTotal(merged, db)
+      db.orders = db.orders.filter((o) => !others.includes(o))
+      return ok(merged)
+    },
+  },
+  {
+    method: "post",
+    pattern: "/orders/:id/split",
+    handler: (db, { params, body, currentUser }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      if (!order) {
+        return notFound("Order")
+      }
+      if (!getStatusInfo(order.status).isOpen) {
+        return fail(409, `Order #${order.id} has been ${order.status} and can no longer be split`)
+      }
+      if (order.amountPaid) {
+        return fail(409, `Order #${order.id} has payments and cannot be split`)
+      }
+      const parsed = parseBody(splitOrderRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const { itemIds, tableId } = parsed.data
+      const items = order.items.filter((i) => itemIds.includes(i.id))
+      if (items.length === 0 || items.length !== new Set(itemIds).size) {
+        return fail(400, "Validation failed", { itemIds: "Select items of this order to move" })
+      }
+      if (items.some((i) => i.voided)) {
+        return fail(400, "Validation failed", { itemIds: "Voided items stay on their order" })
+      }
+      const remaining = order.items.filter((i) => !items.includes(i))
+      if (!remaining.some((i) => !i.voided)) {
+        return fail(400, "Validation failed", { itemIds: "Leave at least one item on the order" })
+      }
+      const table = tableId ? db.tables.find((t) => t.id === tableId) : null
+      if (table === undefined) {
+        return fail(400, "Validation failed", { tableId: "Table does not exist" })
+      }
+
+      const newOrder: Order = {
+        id: db.nextIds.order++,
+        type: table ? "dine_in" : order.type,
+        tableId: table ? table.id : order.tableId,
+        userId: currentUser?.id || order.userId,
+        guestName: order.guestName,
+        customer: order.customer,
+        pickupTime: order.pickupTime,
+        readyAt: order.readyAt,
+        fireAt: order.fireAt,
+        status: order.status,
+        items,
+        total: 0,
+        // Keep the date of the order so the items are priced as they were
+        orderDate: order.orderDate,
+        statusHistory: [
+          {
+            from: null,
+            to: order.status,
+            changedAt: new Date().toISOString(),
+            changedBy: currentUser && { id: currentUser.id, name: currentUser.name },
+          },
+        ],
+      }
+      order.items = remaining
+      recalculateTotal(order, db)
+      recalculateTotal(newOrder, db)
+      db.orders.push(newOrder)
+      return created({ order, newOrder })
+    },
+  },
+  {
+    method: "delete",
+    pattern: "/orders/:id",
+    handler: (db, { params, currentUser }) => {
+      const index = db.orders.findIndex((o) => o.id === Number(params.id))
+      if (index < 0) {
+        return notFound("Order")
+      }
+      if (!isManager(currentUser)) {
+        return fail(403, "Only managers can delete orders; void the order instead")
+      }
+      db.orders.splice(index, 1)
+      return noContent()
+    },
+  },
+  {
+    method: "get",
+    pattern: "/orders/:id/items",
+    handler: (db, { params }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      return order ? ok(order.items) : notFound("Order")
+    },
+  },
+  {
+    method: "post",
+    pattern: "/orders/:id/items",
+    handler: (db, { params, body }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      if (!order) {
+        return notFound("Order")
+      }
+      if (!canChangeItems(order.status)) {
+        return fail(409, `Order #${order.id} is ${order.status}; items can no longer be added`)
+      }
+      const parsed = parseBody(addOrderItemRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const { productId, quantity, modifiers, note } = parsed.data
+      const item = createOrderItem(db, productId, quantity, modifiers, note)
+      if ("error" in item) {
+        return fail(400, "Validation failed", { productId: item.error })
+      }
+      order.items.push(item)
+      recalculateTotal(order, db)
+      return created(item)
+    },
+  },
+  {
+    method: "put",
+    pattern: "/orders/:id/items/:itemId",
+    handler: (db, { params, body }) => {
+      const order = db.orders.find((o) => o.id === Number(params.id))
+      const item = order?.items.find((i) => i.id === Number(params.itemId))
+      if (!order || !item) {
+        return notFound("Order item")
+      }
+      const parsed = parseBody(updateOrderItemRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      // Quantity and note can be changed separately; notes until the order is closed
+      const { quantity, note } = parsed.data
+      if (quantity !== undefined && !canChangeItems(order.status)) {
+        return fail(409, `Order #${order.id} is ${order.status}; quantities can no longer be changed`)
+      }
+      // Items are only ever taken back through a void, which keeps the reason and the approval
+      if (quantity !== undefined && quantity < item.quantity) {
+        return fail(409, "Void the item instead of lowering its quantity")
+      }
+      if (note !== undefined && !getStatusInfo(order.status).isOpen) {
+        return fail(409, `Order #${order.id} has been ${order.status} and can no longer be changed`)
+      }
+      if (quantity !== undefined) {
+        item.quantity = quantity
+      }
+      if (note !== undefined) {
+        item.note = note.trim() || undefined
+      }
+      recalculateTotal(order, db)
+      return ok(item)
+    },
+  },
+
+  // Payments
+  {
+    method: "get",
+    pattern: "/payments",
+    handler: (db, { query }) => {
+      const parsed = parseBody(paymentFilterSchema, query)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const { orderId, tableId, from, to } = parsed.data
+      let payments = db.payments
+      if (orderId) {
+        payments = payments.filter((p) => p.orderId === orderId)
+      }
+      if (tableId) {
+        payments = payments.filter((p) => p.tableId === tableId)
+      }
+      if (from) {
+        payments = payments.filter((p) => Date.parse(p.createdAt) >= Date.parse(from))
+      }
+      if (to) {
+        payments = payments.filter((p) => Date.parse(p.createdAt) < Date.parse(to))
+      }
+      return ok(payments)
+    },
+  },
+  {
+    method: "get",
+    pattern: "/refunds",
+    handler: (db, { query }) => {
+      const parsed = parseBody(paymentFilterSchema, query)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const { orderId, tableId, from, to } = parsed.data
+      let refunds: Refund[] = db.orders.flatMap((order) =>
+        (order.adjustments || [])
+          .filter((adjustment) => adjustment.kind === "refund")
+          .map((adjustment) => ({ ...adjustment, orderId: order.id, tableId: order.tableId })),
+      )
+      if (orderId) {
+        refunds = refunds.filter((r) => r.orderId === orderId)
+      }
+      if (tableId) {
+        refunds = refunds.filter((r) => r.tableId === tableId)
+      }
+      if (from) {
+        refunds = refunds.filter((r) => Date.parse(r.createdAt) >= Date.parse(from))
+      }
+      if (to) {
+        refunds = refunds.filter((r) => Date.parse(r.createdAt) < Date.parse(to))
+      }
+      return ok(refunds.sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt)))
+    },
+  },
+  {
+    method: "post",
+    pattern: "/payments",
+    handler: (db, { body, currentUser }) => {
+      if (!currentUser) {
+        return fail(401, "Not authenticated")
+      }
+      const parsed = parseBody(createPaymentRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const request = parsed.data
+      const order = db.orders.find((o) => o.id === request.orderId)
+      if (!order) {
+        return notFound("Order")
+      }
+      const errors = validateOrderPayment(db, order, request)
+      if (errors) {
+        return fail(400, "Validation failed", errors)
+      }
+
+      const { decimals } = db.settings.currency
+      const amount = roundMoney(request.amount, decimals)
+      const tender = getTender(request, amount, decimals)
+      const payment = recordPayment(db, order, amount, tender, currentUser, request.items)
+      return created({ payments: [payment], orders: [order] })
+    },
+  },
+  {
+    method: "post",
+    pattern: "/payments/batch",
+    handler: (db, { body, currentUser }) => {
+      if (!currentUser) {
+        return fail(401, "Not authenticated")
+      }
+      const parsed = parseBody(createPaymentsRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const requests = parsed.data.payments
+      const orderIds = requests.map((request) => request.orderId)
+      if (new Set(orderIds).size !== orderIds.length) {
+        return fail(400, "Validation failed", { payments: "Each order can only be paid once per request" })
+      }
+
+      // Every payment is checked before any is recorded, so they are recorded all together or not at all
+      const orders: Order[] = []
+      for (const request of requests) {
+        const order = db.orders.find((o) => o.id === request.orderId)
+        if (!order) {
+          return notFound("Order")
+        }
+        const errors = validateOrderPayment(db, order, request)
+        if (errors) {
+          return fail(400, "Validation failed", errors)
+        }
+        orders.push(order)
+      }
+
+      const { decimals } = db.settings.currency
+      const payments = requests.map((request, index) => {
+        const amount = roundMoney(request.amount, decimals)
+        const tender = getTender(request, amount, decimals)
+        return recordPayment(db, orders[index], amount, tender, currentUser, request.items)
+      })
+      return created({ payments, orders })
+    },
+  },
+  {
+    method: "post",
+    pattern: "/payments/table/:tableId",
+    handler: (db, { params, body, currentUser }) => {
+      if (!currentUser) {
+        return fail(401, "Not authenticated")
+      }
+      // Oldest orders are settled first
+      const openOrders = db.orders
+        .filter((o) => o.tableId === Number(params.tableId) && getBalance(o) > 0)
+        .sort((a, b) => a.orderDate.localeCompare(b.orderDate))
+      if (openOrders.length === 0) {
+        return fail(400, "Validation failed", { amount: "The table has nothing left to pay" })
+      }
+      const parsed = parseBody(createTablePaymentRequestSchema, body)
+      if ("errors" in parsed) {
+        return fail(400, "Validation failed", parsed.errors)
+      }
+      const request = parsed.data
+      const errors = validatePayment(db, request, getTotalBalance(openOrders))
+      if (errors) {
+        return fail(400, "Validation failed", errors)
+      }
+
+      // The first payment carries the tip and the cash handed over, so tendered stays amount plus
+      // tip plus change on every payment; the others were paid exactly
+      const { decimals } = db.settings.currency
+      let remaining = roundMoney(request.amount, decimals)
+      const tender = getTender(request, remaining, decimals)
+      const payments: Payment[] = []
+      const orders: Order[] = []
+      for (const order of openOrders) {
+        if (remaining <= 0) break
+        const amount = Math.min(remaining, getBalance(order))
+        const isFirst = payments.length === 0
+        const orderTender: Tender = isFirst
+          ? { ...tender, tendered: tender.tendered && roundMoney(amount + (tender.tip ?? 0) + (tender.change ?? 0)) }
+          : { method: tender.method, cardAuthorization: tender.cardAuthorization, voucherCode: tender.voucherCode }
+        payments.push(recordPayment(db, order, amount, orderTender, currentUser))
+        orders.push(order)
+        remaining = roundMoney(remaining - amount)
+      }
+      return created({ payments, orders })
+    },
+  },
+]
+
+/**
+ * Match a request path against a route pattern
+ * @param pattern - Route pattern such as /orders/:id/items
+ * @param path - Request path
+ * @returns Path parameters if the route matches, null otherwise
+ */
+const matchRoute = (pattern: string, path: string): Record<string, string> | null => {
+  const patternParts = pattern.split("/").filter(Boolean)
+  const pathParts = path.split("/").filter(Boolean)
+  if (patternParts.length !== pathParts.length) {
+    return null
+  }
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(":")) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i])
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null
+    }
+  }
+  return params
+}
+
+/**
+ * Wait for the simulated network latency (jittered by ±50%)
+ */
+const simulateLatency = (latencyMs: number, signal?: AbortSignal | { aborted?: boolean }): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new CanceledError())
+    }
+    const delay = latencyMs * (0.5 + Math.random())
+    const timer = setTimeout(() => {
+      if (signal && "removeEventListener" in signal) {
+        signal.removeEventListener("abort", onAbort)
+      }
+      resolve()
+    }, delay)
+    if (signal && "addEventListener" in signal) {
+      signal.addEventListener("abort", onAbort, { once: true })
+    }
+  })
+}
+
+/**
+ * Axios adapter that routes requests to the mock backend
+ * @param config - Axios request config
+ * @returns Promise with the mock response
+ */
+export const mockAdapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+  const { latencyMs, errorRate } = apiConfig.getMockOptions()
+  await simulateLatency(latencyMs, config.signal)
+
+  const method = (config.method || "get").toLowerCase()
+  const path = (config.url || "").split("?")[0]
+
+  // Error injection: a third of the injected failures never reach the server, a third are server
+  // errors, and a third lose the response after the server has applied the request
+  const injected = errorRate > 0 && Math.random() < errorRate ? Math.floor(Math.random() * 3) : null
+  if (injected === 0) {
+    throw new AxiosError("Network Error", AxiosError.ERR_NETWORK, config, {})
+  }
+  if (injected === 1) {
+    return settle(config, fail(503, "Injected failure from the mock backend"))
+  }
+
+  runScheduler()
+  const db = loadDatabase()
+  for (const route of routes) {
+    if (route.method !== method) continue
+    const params = matchRoute(route.pattern, path)
+    if (!params) continue
+
+    // A mutation replayed with a known idempotency key gets the original response again
+    const idempotencyKey = method !== "get" ? config.headers?.["Idempotency-Key"] : undefined
+    const replayed = idempotencyKey ? db.idempotentResponses?.[String(idempotencyKey)] : undefined
+    if (replayed && Date.now() - replayed.storedAt < IDEMPOTENT_RESPONSE_LIFETIME_MS) {
+      return settle(config, replayed.response)
+    }
+
+    // Handlers change orders in place, so keep a copy to derive the order events from
+    const ordersBefore: Order[] | null = method !== "get" ? JSON.parse(JSON.stringify(db.orders)) : null
+
+    const body = typeof config.data === "string" && config.data ? JSON.parse(config.data) : config.data
+    const response = route.handler(db, {
+      params,
+      query: config.params || {},
+      body,
+      currentUser: userFromToken(db, config.headers?.Authorization),
+    })
+
+    if (idempotencyKey && response.status < 400) {
+      storeIdempotentResponse(db, String(idempotencyKey), response)
+    }
+    if (ordersBefore) {
+      saveDatabase(db)
+      publishOrderEvents(ordersBefore, db.orders)
+    }
+    if (injected === 2) {
+      throw new AxiosError("Network Error", AxiosError.ERR_NETWORK, config, {})
+    }
+    return settle(config, response)
+  }
+
+  return settle(config, fail(404, `No mock route for ${method.toUpperCase()} ${path}`))
+}
+
+/**
+ * Turn a mock response into an axios response, rejecting non-2xx statuses like axios does
+ */
+const settle = (config: InternalAxiosRequestConfig, mockResponse: MockResponse): AxiosResponse => {
+  const response: AxiosResponse = {
+    data: mockResponse.data === undefined ? "" : JSON.parse(JSON.stringify(mockResponse.data)),
+    status: mockResponse.status,
+    statusText: String(mockResponse.status),
+    headers: new AxiosHeaders({ "content-type": "application/json" }),
+    config,
+    request: {},
+  }
+
+  if (mockResponse.status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${mockResponse.status}`,
+      mockResponse.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response,
+    )
+  }
+  return response
+}
+
+export default mockAdapter
@@ -0,0 +1,146 @@
+import type { CurrencySettings, ModifierGroup, ModifierSelection, OrderItemModifier, Product } from "./api"
+import { formatMoney } from "./money"
+
+/**
+ * Product modifiers
+ * Products can carry modifier groups (size, milk, extras, ...). A group is either single or
+ * multiple select and may be required. Guests and staff pick options when ordering; the server
+ * stores the resolved options and the adjusted unit price on the order item.
+ */
+
+/**
+ * Generate an ID for a new modifier group or option
+ */
+export const createModifierId = (): string => {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Check a selection against the modifier groups of a product
+ * @param product - Product being ordered
+ * @param selections - Chosen options
+ * @returns Error message per group ID; empty if the selection is valid
+ */
+export const validateModifierSelection = (
+  product: Product,
+  selections: ModifierSelection[] = [],
+): Record<string, string> => {
+  const errors: Record<string, string> = {}
+  const groups = product.modifierGroups || []
+
+  for (const selection of selections) {
+    const group = groups.find((candidate) => candidate.id === selection.groupId)
+    if (!group || !group.options.some((option) => option.id === selection.optionId)) {
+      errors[selection.groupId] = `${product.name} has no such option`
+    }
+  }
+
+  for (const group of groups) {
+    const chosen = selections.filter((selection) => selection.groupId === group.id)
+    if (group.required && chosen.length === 0) {
+      errors[group.id] = `Please choose a ${group.name.toLowerCase()}`
+    } else if (group.selection === "single" && chosen.length > 1) {
+      errors[group.id] = `Choose only one ${group.name.toLowerCase()}`
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Turn a selection into the modifiers stored on an order item
+ * @param product - Product being ordered
+ * @param selections - Chosen options; unknown options are skipped
+ * @returns Resolved modifiers in the order of the product's groups
+ */
+export const resolveModifiers = (product: Product, selections: ModifierSelection[] = []): OrderItemModifier[] => {
+  return (product.modifierGroups || []).flatMap((group) =>
+    group.options
+      .filter((option) =>
+        selections.some((selection) => selection.groupId === group.id && selection.optionId === option.id),
+      )
+      .map((option) => ({
+        groupId: group.id,
+        groupName: group.name,
+        optionId: option.id,
+        optionName: option.name,
+        priceDelta: option.priceDelta,
+      })),
+  )
+}
+
+/**
+ * Get the unit price of a product with the chosen options
+ * @param product - Product being ordered
+ * @param selections - Chosen options
+ * @returns Base price plus the price deltas of the options
+ */
+export const getUnitPrice = (product: Product, selections: ModifierSelection[] = []): number => {
+  const price = resolveModifiers(product, selections).reduce((sum, modifier) => sum + modifier.priceDelta, product.price)
+  // Avoid floating point noise such as 4.1000000000000005
+  return Math.round(price * 100) / 100
+}
+
+/**
+ * Build the default selection of a product: the first option of every required single-select group
+ * @param product - Product being ordered
+ * @returns Preselected options
+ */
+export const getDefaultSelection = (product: Product): ModifierSelection[] => {
+  return (product.modifierGroups || [])
+    .filter((group) => group.required && group.selection === "single" && group.options.length > 0)
+    .map((group) => ({ groupId: group.id, optionId: group.options[0].id }))
+}
+
+/**
+ * Build a key identifying a product with a particular selection, e.g. to merge equal cart lines
+ * @param productId - Product ID
+ * @param selections - Chosen options
+ * @returns Key that is equal for equal selections regardless of their order
+ */
+export const getSelectionKey = (productId: number, selections: ModifierSelection[] = []): string => {
+  const options = selections.map((selection) => `${selection.groupId}:${selection.optionId}`).sort()
+  return [productId, ...options].join("|")
+}
+
+/**
+ * Describe the modifiers of an item for display
+ * @param modifiers - Resolved modifiers
+ * @returns Option names separated by commas, e.g. "Large, Oat milk, Extra shot"
+ */
+export const formatModifiers = (modifiers: OrderItemModifier[] = []): string => {
+  return modifiers.map((modifier) => modifier.optionName).join(", ")
+}
+
+/**
+ * Describe a price delta for display
+ * @param priceDelta - Price difference
+ * @param currency - Currency settings of the cafe
+ * @returns Text such as "+5.00 EGP", or an empty string for no difference
+ */
+export const formatPriceDelta = (priceDelta: number, currency?: CurrencySettings): string => {
+  if (priceDelta === 0) {
+    return ""
+  }
+  return `${priceDelta > 0 ? "+" : "-"}${formatMoney(Math.abs(priceDelta), currency)}`
+}
+
+/**
+ * Check modifier groups being edited before they are saved
+ * @param groups - Modifier groups
+ * @returns Error message, or null if the groups are valid
+ */
+export const validateModifierGroups = (groups: ModifierGroup[] = []): string | null => {
+  for (const group of groups) {
+    if (!group.name.trim()) {
+      return "Every modifier group needs a name"
+    }
+    if (group.options.length === 0) {
+      return `${group.name} needs at least one option`
+    }
+    if (group.options.some((option) => !option.name.trim())) {
+      return `Every option of ${group.name} needs a name`
+    }
+  }
+  return null
+}
@@ -0,0 +1,84 @@
+import type { CurrencySettings } from "./api"
+
+/**
+ * Money formatting
+ * Every amount shown to guests and staff goes through formatMoney, so the currency of the cafe is
+ * set in one place: its symbol and where it goes, the number of decimals, and the locale that
+ * groups the digits. Amounts are worked out in the minor unit of the currency, see roundMoney in
+ * lib/payments.ts.
+ */
+
+/** Currency used until the cafe settings have loaded */
+export const DEFAULT_CURRENCY: CurrencySettings = {
+  code: "EGP",
+  symbol: "EGP",
+  symbolPosition: "after",
+  decimals: 2,
+  locale: "en-EG",
+}
+
+const numberFormats = new Map<string, Intl.NumberFormat>()
+
+/**
+ * Check that a locale is one the browser can format numbers in
+ * @param locale - Locale, e.g. "en-EG"
+ * @returns True if the locale is well formed and supported
+ */
+export const isSupportedLocale = (locale: string): boolean => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0
+  } catch {
+    return false
+  }
+}
+
+const getNumberFormat = (currency: CurrencySettings): Intl.NumberFormat => {
+  const key = `${currency.locale}:${currency.decimals}`
+  let format = numberFormats.get(key)
+  if (!format) {
+    const locale = isSupportedLocale(currency.locale) ? currency.locale : DEFAULT_CURRENCY.locale
+    format = new Intl.NumberFormat(locale, {
+      minimumFractionDigits: currency.decimals,
+      maximumFractionDigits: currency.decimals,
+    })
+    numberFormats.set(key, format)
+  }
+  return format
+}
+
+/**
+ * Format an amount for display
+ * @param amount - Amount
+ * @param currency - Currency settings of the cafe
+ * @returns Text such as "1,250.00 EGP" or "$4.50"
+ */
+export const formatMoney = (amount: number, currency: CurrencySettings = DEFAULT_CURRENCY): string => {
+  const rounded = Number(amount.toFixed(currency.decimals))
+  const sign = rounded < 0 ? "-" : ""
+  const number = getNumberFormat(currency).format(Math.abs(rounded))
+  if (currency.symbolPosition === "after") {
+    return `${sign}${number} ${currency.symbol}`
+  }
+  // Letter symbols such as "EGP" need a space before the number; "$4.50" does not
+  const space = /[A-Za-z]$/.test(currency.symbol) ? " " : ""
+  return `${sign}${currency.symbol}${space}${number}`
+}
+
+/**
+ * Write an amount the way number inputs expect it, without symbol or grouping
+ * @param amount - Amount
+ * @param currency - Currency settings of the cafe
+ * @returns Text such as "12.50"
+ */
+export const toAmountInput = (amount: number, currency: CurrencySettings = DEFAULT_CURRENCY): string => {
+  return amount.toFixed(currency.decimals)
+}
+
+/**
+ * Get the step of number inputs for amounts
+ * @param currency - Currency settings of the cafe
+ * @returns Smallest unit of the currency, e.g. "0.01"
+ */
+export const getAmountStep = (currency: CurrencySettings = DEFAULT_CURRENCY): string => {
+  return currency.decimals > 0 ? (1 / 10 ** currency.decimals).toFixed(currency.decimals) : "1"
+}
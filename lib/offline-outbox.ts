@@ -0,0 +1,289 @@
+import {
+  ordersApi,
+  ApiError,
+  createIdempotencyKey,
+  type AddOrderItemRequest,
+  type CreateOrderRequest,
+  type Order,
+  type OrderItem,
+  type RequestOptions,
+} from "./api"
+
+/**
+ * Offline outbox
+ * Order mutations that cannot reach the server (dropped Wi-Fi, server errors) are persisted to
+ * IndexedDB and replayed in their original order once the connection returns. Every mutation gets
+ * an idempotency key when it is first attempted and keeps it for every replay, so a request that
+ * did reach the server before the connection dropped is never applied twice.
+ */
+
+export type OutboxMutation =
+  | { type: "createOrder"; payload: CreateOrderRequest }
+  | { type: "addItem"; payload: AddOrderItemRequest & { orderId: number } }
+
+export type OutboxEntry = OutboxMutation & {
+  /** Idempotency key sent with every attempt */
+  id: string
+  /** IndexedDB key, assigned on insert; entries are replayed in this order */
+  seq?: number
+  createdAt: string
+  status: "pending" | "failed"
+  attempts: number
+  lastError?: string
+}
+
+export interface OutboxState {
+  entries: OutboxEntry[]
+  isSyncing: boolean
+}
+
+/**
+ * Result of a mutation sent through the outbox: either the server response, or the entry that
+ * was queued for later
+ */
+export type OutboxResult<T> = { queued: false; data: T } | { queued: true; entry: OutboxEntry }
+
+const DB_NAME = "cafe-offline"
+const DB_VERSION = 1
+const STORE_NAME = "outbox"
+const SYNC_INTERVAL_MS = 30 * 1000
+
+let dbPromise: Promise<IDBDatabase> | null = null
+let syncPromise: Promise<void> | null = null
+let isSyncing = false
+let autoSyncStarted = false
+const listeners = new Set<(state: OutboxState) => void>()
+
+const isSupported = (): boolean => typeof window !== "undefined" && "indexedDB" in window
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "seq", autoIncrement: true })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * Run a single request against the outbox store and resolve once its transaction has committed
+ */
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = operation(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+const notify = async (): Promise<void> => {
+  const entries = await offlineOutbox.list()
+  listeners.forEach((listener) => listener({ entries, isSyncing }))
+}
+
+/**
+ * Send a mutation to the server
+ */
+const send = (mutation: OutboxMutation, options: RequestOptions): Promise<Order | OrderItem> => {
+  switch (mutation.type) {
+    case "createOrder":
+      return ordersApi.create(mutation.payload, options)
+    case "addItem": {
+      const { orderId, ...item } = mutation.payload
+      return ordersApi.addItem(orderId, item, options)
+    }
+  }
+}
+
+/**
+ * Offline outbox functions
+ */
+export const offlineOutbox = {
+  /**
+   * Get all queued mutations
+   * @returns Promise with the entries in replay order
+   */
+  list: async (): Promise<OutboxEntry[]> => {
+    if (!isSupported()) {
+      return []
+    }
+    return runTransaction("readonly", (store) => store.getAll() as IDBRequest<OutboxEntry[]>)
+  },
+
+  /**
+   * Persist a mutation for later replay
+   * @param mutation - Mutation to queue
+   * @param id - Idempotency key already used for the mutation, if any
+   * @returns Promise with the queued entry
+   */
+  enqueue: async (mutation: OutboxMutation, id: string = createIdempotencyKey()): Promise<OutboxEntry> => {
+    const entry: OutboxEntry = {
+      ...mutation,
+      id,
+      createdAt: new Date().toISOString(),
+      status: "pending",
+      attempts: 0,
+    }
+    const seq = await runTransaction("readwrite", (store) => store.add(entry))
+    await notify()
+    return { ...entry, seq: Number(seq) }
+  },
+
+  /**
+   * Drop a queued mutation without sending it
+   * @param entry - Entry to discard
+   */
+  discard: async (entry: OutboxEntry): Promise<void> => {
+    if (entry.seq !== undefined) {
+      await runTransaction("readwrite", (store) => store.delete(entry.seq!))
+      await notify()
+    }
+  },
+
+  /**
+   * Send a mutation now, or queue it if the server cannot be reached. Mutations are also queued
+   * while older ones are still waiting, so they are never applied out of order.
+   * @param mutation - Mutation to send
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the server response or the queued entry
+   */
+  submit: async <T extends Order | OrderItem>(
+    mutation: OutboxMutation,
+    options?: RequestOptions,
+  ): Promise<OutboxResult<T>> => {
+    const id = createIdempotencyKey()
+    if (!isSupported()) {
+      return { queued: false, data: (await send(mutation, { ...options, idempotencyKey: id })) as T }
+    }
+
+    const waiting = (await offlineOutbox.list()).some((entry) => entry.status === "pending")
+    if (!waiting) {
+      try {
+        return { queued: false, data: (await send(mutation, { ...options, idempotencyKey: id })) as T }
+      } catch (error) {
+        // Only failures the server may recover from are worth replaying
+        if (!ApiError.from(error).retryable) {
+          throw error
+        }
+      }
+    }
+
+    const entry = await offlineOutbox.enqueue(mutation, id)
+    offlineOutbox.sync()
+    return { queued: true, entry }
+  },
+
+  /**
+   * Create an order, queueing it while offline
+   * @param orderData - New order data
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the created order or the queued entry
+   */
+  createOrder: (orderData: CreateOrderRequest, options?: RequestOptions): Promise<OutboxResult<Order>> => {
+    return offlineOutbox.submit<Order>({ type: "createOrder", payload: orderData }, options)
+  },
+
+  /**
+   * Add an item to an order, queueing it while offline
+   * @param orderId - Order ID
+   * @param item - Order item data
+   * @param options - Optional request options (cancellation, retry)
+   * @returns Promise with the added item or the queued entry
+   */
+  addItem: (
+    orderId: number,
+    item: AddOrderItemRequest,
+    options?: RequestOptions,
+  ): Promise<OutboxResult<OrderItem>> => {
+    return offlineOutbox.submit<OrderItem>({ type: "addItem", payload: { orderId, ...item } }, options)
+  },
+
+  /**
+   * Replay pending mutations in order. Stops at the first failure the server may recover from
+   * (the next sync continues there); mutations the server rejects are marked as failed.
+   * @returns Promise that resolves when the replay has finished
+   */
+  sync: (): Promise<void> => {
+    if (!isSupported()) {
+      return Promise.resolve()
+    }
+    if (!syncPromise) {
+      syncPromise = (async () => {
+        isSyncing = true
+        await notify()
+        try {
+          for (const entry of await offlineOutbox.list()) {
+            if (entry.status !== "pending") {
+              continue
+            }
+            try {
+              await send(entry, { idempotencyKey: entry.id, retry: false })
+              await runTransaction("readwrite", (store) => store.delete(entry.seq!))
+            } catch (error) {
+              const apiError = ApiError.from(error)
+              const updated: OutboxEntry = {
+                ...entry,
+                attempts: entry.attempts + 1,
+                lastError: apiError.message,
+                status: apiError.retryable ? "pending" : "failed",
+              }
+              await runTransaction("readwrite", (store) => store.put(updated))
+              if (apiError.retryable) {
+                break
+              }
+            }
+          }
+        } catch (error) {
+          console.error("Outbox sync failed", error)
+        } finally {
+          isSyncing = false
+          syncPromise = null
+          await notify()
+        }
+      })()
+    }
+    return syncPromise
+  },
+
+  /**
+   * Subscribe to changes of the outbox
+   * @param listener - Called with the entries and sync state after every change
+   * @returns Function that removes the subscription
+   */
+  subscribe: (listener: (state: OutboxState) => void): (() => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+
+  /**
+   * Replay the outbox when the browser comes back online and periodically while entries wait.
+   * Safe to call more than once.
+   */
+  startAutoSync: (): void => {
+    if (!isSupported() || autoSyncStarted) {
+      return
+    }
+    autoSyncStarted = true
+    window.addEventListener("online", () => offlineOutbox.sync())
+    setInterval(async () => {
+      if (navigator.onLine && (await offlineOutbox.list()).some((entry) => entry.status === "pending")) {
+        offlineOutbox.sync()
+      }
+    }, SYNC_INTERVAL_MS)
+    offlineOutbox.sync()
+  },
+}
+
+export default offlineOutbox
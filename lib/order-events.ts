@@ -0,0 +1,72 @@
+import type { Order, OrderEvent } from "./api"
+
+/**
+ * Order events
+ * Helpers shared by every source of order events: the mock backend and the polling fallback
+ * derive events by comparing order lists, and consumers fold incoming events into the orders
+ * they hold.
+ */
+
+/**
+ * Describe the changes between two snapshots of the orders as events
+ * @param previous - Orders before the change
+ * @param next - Orders after the change
+ * @returns Events in the order created, changed, deleted
+ */
+export const diffOrders = (previous: Order[], next: Order[]): OrderEvent[] => {
+  const previousById = new Map(previous.map((order) => [order.id, order]))
+  const nextIds = new Set(next.map((order) => order.id))
+  const events: OrderEvent[] = []
+
+  for (const order of next) {
+    const before = previousById.get(order.id)
+    if (!before) {
+      events.push({ type: "order.created", order })
+    } else if (before.status !== order.status) {
+      events.push({ type: "order.status_changed", order, previousStatus: before.status })
+    } else if (
+      JSON.stringify(before.items) !== JSON.stringify(order.items) ||
+      before.total !== order.total ||
+      JSON.stringify(before.taxes) !== JSON.stringify(order.taxes) ||
+      before.amountPaid !== order.amountPaid ||
+      before.note !== order.note ||
+      before.promoCode !== order.promoCode ||
+      JSON.stringify(before.manualDiscount) !== JSON.stringify(order.manualDiscount)
+    ) {
+      events.push({ type: "order.item_changed", order })
+    }
+  }
+
+  for (const order of previous) {
+    if (!nextIds.has(order.id)) {
+      events.push({ type: "order.deleted", orderId: order.id, tableId: order.tableId ?? undefined })
+    }
+  }
+
+  return events
+}
+
+/**
+ * Apply an event to a list of orders
+ * @param orders - Current orders
+ * @param event - Order event
+ * @returns New list with the order added, replaced or removed
+ */
+export const applyOrderEvent = (orders: Order[], event: OrderEvent): Order[] => {
+  if (event.type === "order.deleted") {
+    return orders.filter((order) => order.id !== event.orderId)
+  }
+  const exists = orders.some((order) => order.id === event.order.id)
+  return exists
+    ? orders.map((order) => (order.id === event.order.id ? event.order : order))
+    : [...orders, event.order]
+}
+
+/**
+ * Get the table an event belongs to
+ * @param event - Order event
+ * @returns Table ID, or undefined if the event does not say or the order has no table
+ */
+export const getEventTableId = (event: OrderEvent): number | undefined => {
+  return event.type === "order.deleted" ? event.tableId : (event.order.tableId ?? undefined)
+}
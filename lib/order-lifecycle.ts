@@ -0,0 +1,160 @@
+import type { Order, OrderStatus, OrderStatusChange, UserRole } from "./api"
+
+/**
+ * Order lifecycle
+ * The single definition of the order states, which status changes are allowed, who may make them,
+ * and how each state is presented. Pages, the kitchen display and the mock backend all read from
+ * here instead of keeping their own switch statements.
+ *
+ *   scheduled ──► new              (at the fire time of the order, see lib/scheduling.ts, or sent early)
+ *   new ──► preparing ──► ready ──► delivered ──► paid
+ *   new ──► ready                  (the kitchen bumps a ticket straight through)
+ *   ready ──► preparing            (sent back to the kitchen, managers only)
+ *   any open status ──► voided     (by voiding the order, see lib/adjustments.ts; not a status change)
+ */
+
+export interface OrderStatusInfo {
+  label: string
+  /** Tailwind classes of the status badge */
+  badgeClassName: string
+  /** Open orders still need work from the kitchen or the floor */
+  isOpen: boolean
+}
+
+export interface OrderTransition {
+  from: OrderStatus
+  to: OrderStatus
+  /** Button label of the action */
+  label: string
+  /** Roles allowed to perform the transition */
+  roles: UserRole[]
+  /** Moves the order back instead of forward */
+  isReversal?: boolean
+}
+
+const STAFF_ROLES: UserRole[] = ["admin", "manager", "staff"]
+const MANAGER_ROLES: UserRole[] = ["admin", "manager"]
+
+export const ORDER_STATUSES: OrderStatus[] = ["scheduled", "new", "preparing", "ready", "delivered", "paid"]
+
+export const ORDER_STATUS_INFO: Record<OrderStatus, OrderStatusInfo> = {
+  scheduled: { label: "Scheduled", badgeClassName: "bg-cyan-500", isOpen: true },
+  new: { label: "New", badgeClassName: "bg-blue-500", isOpen: true },
+  preparing: { label: "Preparing", badgeClassName: "bg-yellow-500", isOpen: true },
+  ready: { label: "Ready", badgeClassName: "bg-green-500", isOpen: true },
+  delivered: { label: "Delivered", badgeClassName: "bg-purple-500", isOpen: true },
+  paid: { label: "Paid", badgeClassName: "bg-gray-500", isOpen: false },
+  voided: { label: "Voided", badgeClassName: "bg-red-500", isOpen: false },
+}
+
+export const ORDER_TRANSITIONS: OrderTransition[] = [
+  // Scheduled orders move on by themselves at their fire time; staff can send one early
+  { from: "scheduled", to: "new", label: "Send to Kitchen Now", roles: STAFF_ROLES },
+  { from: "new", to: "preparing", label: "Start Preparing", roles: STAFF_ROLES },
+  // The kitchen may bump a ticket straight to ready
+  { from: "new", to: "ready", label: "Mark as Ready", roles: STAFF_ROLES },
+  { from: "preparing", to: "ready", label: "Mark as Ready", roles: STAFF_ROLES },
+  { from: "ready", to: "delivered", label: "Mark as Delivered", roles: STAFF_ROLES },
+  { from: "ready", to: "preparing", label: "Send Back to Kitchen", roles: MANAGER_ROLES, isReversal: true },
+  { from: "delivered", to: "paid", label: "Mark as Paid", roles: STAFF_ROLES },
+]
+
+/**
+ * Get how a status is presented
+ * @param status - Order status
+ * @returns Label and colours, or a neutral fallback for unknown values
+ */
+export const getStatusInfo = (status: string): OrderStatusInfo => {
+  return ORDER_STATUS_INFO[status as OrderStatus] || { label: "Unknown", badgeClassName: "", isOpen: false }
+}
+
+/**
+ * Check if a role can approve actions that need a manager, such as manual discounts
+ * @param role - Role of the current user
+ * @returns True for managers and admins; other users need a manager to enter their PIN
+ */
+export const isManagerRole = (role?: UserRole): boolean => {
+  return !!role && MANAGER_ROLES.includes(role)
+}
+
+/**
+ * Get the transitions out of a status
+ * @param from - Current status
+ * @param role - Only include transitions this role may perform; all transitions if omitted
+ * @returns Allowed transitions, forward moves first
+ */
+export const getAllowedTransitions = (from: OrderStatus, role?: UserRole): OrderTransition[] => {
+  return ORDER_TRANSITIONS.filter(
+    (transition) => transition.from === from && (!role || transition.roles.includes(role)),
+  ).sort((a, b) => Number(!!a.isReversal) - Number(!!b.isReversal))
+}
+
+/**
+ * Get the regular next step of an order, e.g. for a one-click "advance" button
+ * @param from - Current status
+ * @param role - Role of the current user
+ * @returns The next forward transition along the main flow, or null at the end of the flow
+ */
+export const getNextTransition = (from: OrderStatus, role?: UserRole): OrderTransition | null => {
+  const next = ORDER_STATUSES[ORDER_STATUSES.indexOf(from) + 1]
+  return getAllowedTransitions(from, role).find((transition) => transition.to === next) || null
+}
+
+/**
+ * Check a status change against the lifecycle
+ * @param from - Current status
+ * @param to - Requested status
+ * @param role - Role of the user making the change; the role check is skipped if omitted
+ * @returns Null if the change is allowed, otherwise why it is not
+ */
+export const checkTransition = (
+  from: OrderStatus,
+  to: OrderStatus,
+  role?: UserRole,
+): { reason: "invalid" | "forbidden"; message: string } | null => {
+  const transition = ORDER_TRANSITIONS.find((candidate) => candidate.from === from && candidate.to === to)
+  if (!transition) {
+    return {
+      reason: "invalid",
+      message: `An order cannot go from ${getStatusInfo(from).label} to ${getStatusInfo(to).label}`,
+    }
+  }
+  if (role && !transition.roles.includes(role)) {
+    return { reason: "forbidden", message: `Only ${transition.roles.join(", ")} users can ${transition.label.toLowerCase()}` }
+  }
+  return null
+}
+
+/**
+ * Check if a status change is allowed
+ * @param from - Current status
+ * @param to - Requested status
+ * @param role - Role of the user making the change
+ * @returns True if the lifecycle allows the change
+ */
+export const canTransition = (from: OrderStatus, to: OrderStatus, role?: UserRole): boolean => {
+  return checkTransition(from, to, role) === null
+}
+
+/**
+ * Check if items can be added to an order, or their quantity raised. Items are never removed or
+ * lowered: they are taken back through a void, whatever the status.
+ * @param status - Status of the order
+ * @returns True until the kitchen has started on the order
+ */
+export const canChangeItems = (status: OrderStatus): boolean => {
+  return status === "new" || status === "scheduled"
+}
+
+/**
+ * Get the status history of an order, oldest first. Orders created before history was recorded
+ * get a single entry for their creation.
+ * @param order - Order
+ * @returns Status changes
+ */
+export const getStatusHistory = (order: Order): OrderStatusChange[] => {
+  if (order.statusHistory && order.statusHistory.length > 0) {
+    return order.statusHistory
+  }
+  return [{ from: null, to: "new", changedAt: order.orderDate }]
+}
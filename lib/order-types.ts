@@ -0,0 +1,91 @@
+import type { CreateOrderRequest, Order, OrderType } from "./api"
+
+/**
+ * Order types
+ * Dine-in orders belong to a table. Takeaway orders are taken at the counter, pickup orders are
+ * collected at a set time, and deliveries go to the address of the customer; these have no table,
+ * and carry the name and phone number of the customer instead. Orders without a type are dine-in.
+ */
+
+export interface OrderTypeInfo {
+  label: string
+  /** Tailwind classes of the type badge */
+  badgeClassName: string
+  /** The order belongs to a table instead of a customer */
+  needsTable: boolean
+}
+
+export const ORDER_TYPES: OrderType[] = ["dine_in", "takeaway", "pickup", "delivery"]
+
+export const ORDER_TYPE_INFO: Record<OrderType, OrderTypeInfo> = {
+  dine_in: { label: "Dine-in", badgeClassName: "bg-slate-500", needsTable: true },
+  takeaway: { label: "Takeaway", badgeClassName: "bg-orange-500", needsTable: false },
+  pickup: { label: "Pickup", badgeClassName: "bg-teal-500", needsTable: false },
+  delivery: { label: "Delivery", badgeClassName: "bg-indigo-500", needsTable: false },
+}
+
+/**
+ * Get the type of an order
+ * @param order - Order
+ * @returns Type, dine-in for orders placed before order types existed
+ */
+export const getOrderType = (order: Pick<Order, "type">): OrderType => {
+  return order.type ?? "dine_in"
+}
+
+/**
+ * Get how the type of an order is presented
+ * @param order - Order
+ * @returns Label and colours
+ */
+export const getOrderTypeInfo = (order: Pick<Order, "type">): OrderTypeInfo => {
+  return ORDER_TYPE_INFO[getOrderType(order)]
+}
+
+/**
+ * Get where an order goes, e.g. "Table 3" or "Takeaway"
+ * @param order - Order
+ * @returns Table of a dine-in order, or the label of its type
+ */
+export const getOrderLocation = (order: Pick<Order, "type" | "tableId">): string => {
+  const info = getOrderTypeInfo(order)
+  return info.needsTable ? `Table ${order.tableId}` : info.label
+}
+
+/**
+ * Check the fields a new order needs for its type
+ * @param request - Order to create
+ * @returns Error messages by field, empty if the order can be placed
+ */
+export const validateOrderType = (request: CreateOrderRequest): Record<string, string> => {
+  const errors: Record<string, string> = {}
+  const type = request.type ?? "dine_in"
+  if (!ORDER_TYPE_INFO[type]) {
+    errors.type = `Type must be one of ${ORDER_TYPES.join(", ")}`
+    return errors
+  }
+  if (ORDER_TYPE_INFO[type].needsTable) {
+    if (!request.tableId) {
+      errors.tableId = "Please select a table"
+    }
+    return errors
+  }
+
+  if (!request.customer?.name?.trim()) {
+    errors["customer.name"] = "Enter the name of the customer"
+  }
+  if (!request.customer?.phone?.trim()) {
+    errors["customer.phone"] = "Enter a phone number"
+  }
+  if (type === "delivery" && !request.customer?.address?.trim()) {
+    errors["customer.address"] = "Enter the delivery address"
+  }
+  if (type === "pickup") {
+    if (!request.pickupTime) {
+      errors.pickupTime = "Choose a pickup time"
+    } else if (Number.isNaN(Date.parse(request.pickupTime))) {
+      errors.pickupTime = "Pickup time is not a valid date"
+    }
+  }
+  return errors
+}
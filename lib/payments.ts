@@ -0,0 +1,247 @@
+import type { Order, OrderItem, PaidItem, Payment, PaymentMethod, Refund } from "./api"
+import { MAX_CURRENCY_DECIMALS } from "./schemas"
+
+/**
+ * Payments
+ * An order can be paid in several payments: in full, split evenly between guests, split by the
+ * items each guest had, or in custom amounts. The backend keeps the amount paid on the order and
+ * closes the order once its balance reaches zero. These helpers work out balances and splits for
+ * the checkout screens and the mock backend.
+ *
+ * Every payment records its tender: cash (with the amount handed over and the change given), card
+ * (with the terminal's approval) or voucher (with its code). A tip is recorded on top of the
+ * amount and never reduces the balance. The tenders of a day add up to the cash reconciliation.
+ * Refunds given in cash come out of the drawer again.
+ *
+ * Amounts are rounded to the minor unit of the currency of the cafe, e.g. cents for two decimals.
+ * Amounts worked out from percentages or shares are rounded with the decimals of the currency;
+ * sums and differences of amounts that already are in the currency only need floating point noise
+ * cleared, which rounding to the most decimals any currency has does.
+ */
+
+/**
+ * Round an amount to the minor unit of the currency
+ * @param amount - Amount
+ * @param decimals - Decimals of the currency; omit for sums and differences of amounts in the currency
+ * @returns Amount with at most that many decimals
+ */
+export const roundMoney = (amount: number, decimals: number = MAX_CURRENCY_DECIMALS): number => {
+  const factor = 10 ** decimals
+  return Math.round(amount * factor) / factor
+}
+
+/**
+ * Get the amount still to be paid for an order
+ * @param order - Order
+ * @returns Total minus the payments recorded so far, never negative
+ */
+export const getBalance = (order: Order): number => {
+  return Math.max(0, roundMoney(order.total - (order.amountPaid ?? 0)))
+}
+
+/**
+ * Get the amount still to be paid for several orders, e.g. all open orders of a table
+ * @param orders - Orders
+ * @returns Sum of the balances
+ */
+export const getTotalBalance = (orders: Order[]): number => {
+  return roundMoney(orders.reduce((sum, order) => sum + getBalance(order), 0))
+}
+
+/**
+ * Check if an order has been paid in full
+ * @param order - Order
+ * @returns True if nothing is left to pay
+ */
+export const isSettled = (order: Order): boolean => {
+  return getBalance(order) === 0
+}
+
+/**
+ * Split an amount evenly. Minor units that cannot be split are added to the first shares, so the
+ * shares always add up to the amount.
+ * @param amount - Amount to split
+ * @param count - Number of shares
+ * @param decimals - Decimals of the currency
+ * @returns Amount of every share
+ */
+export const splitEvenly = (amount: number, count: number, decimals: number): number[] => {
+  if (count < 1) {
+    return []
+  }
+  const factor = 10 ** decimals
+  const units = Math.round(amount * factor)
+  const base = Math.floor(units / count)
+  const remainder = units - base * count
+  return Array.from({ length: count }, (_, index) => (base + (index < remainder ? 1 : 0)) / factor)
+}
+
+/**
+ * Count how many of each item have been paid for by split-by-item payments
+ * @param payments - Payments of the order
+ * @returns Paid quantity per item ID
+ */
+export const getPaidQuantities = (payments: Payment[]): Record<number, number> => {
+  const quantities: Record<number, number> = {}
+  for (const payment of payments) {
+    for (const item of payment.items || []) {
+      quantities[item.itemId] = (quantities[item.itemId] || 0) + item.quantity
+    }
+  }
+  return quantities
+}
+
+/**
+ * Get the quantity of an item nobody has paid for yet
+ * @param item - Order item
+ * @param paidQuantities - Result of getPaidQuantities
+ * @returns Unpaid quantity
+ */
+export const getUnpaidQuantity = (item: OrderItem, paidQuantities: Record<number, number>): number => {
+  return Math.max(0, item.quantity - (paidQuantities[item.id] || 0))
+}
+
+/**
+ * Get the items a guest is charged for
+ * @param order - Order
+ * @returns Items that have not been voided; refunded items were charged and are included
+ */
+export const getChargedItems = (order: Order): OrderItem[] => {
+  return order.items.filter((item) => !item.voided)
+}
+
+/**
+ * Get what an order line costs
+ * @param item - Order item
+ * @returns Unit price times quantity, less the discounts of pricing rules
+ */
+export const getLineTotal = (item: OrderItem): number => {
+  const discount = (item.discounts || []).reduce((sum, applied) => sum + applied.amount, 0)
+  return Math.max(0, roundMoney(item.price * item.quantity - discount))
+}
+
+/**
+ * Get the price of a selection of items
+ * Items pay their share of the order total, so the order discount, the service charge and any tax
+ * added on top are shared across the items in proportion to what they cost.
+ * @param order - Order the items belong to
+ * @param items - Items and quantities being paid for
+ * @param decimals - Decimals of the currency
+ * @param paidQuantities - Result of getPaidQuantities; if the items are the last ones unpaid, they
+ * pay the balance, so the shares never leave anything open
+ * @returns Share of the order total; unknown and voided items count as zero
+ */
+export const getItemsAmount = (
+  order: Order,
+  items: PaidItem[],
+  decimals: number,
+  paidQuantities?: Record<number, number>,
+): number => {
+  const chargedItems = getChargedItems(order)
+  if (
+    paidQuantities &&
+    items.length > 0 &&
+    chargedItems.every((item) => {
+      const selected = items.find((paid) => paid.itemId === item.id)?.quantity ?? 0
+      return selected >= getUnpaidQuantity(item, paidQuantities)
+    })
+  ) {
+    return getBalance(order)
+  }
+  const linesTotal = chargedItems.reduce((sum, item) => sum + getLineTotal(item), 0)
+  if (linesTotal <= 0) {
+    return 0
+  }
+  const itemsTotal = items.reduce((sum, paid) => {
+    const item = chargedItems.find((candidate) => candidate.id === paid.itemId)
+    return sum + (item ? (getLineTotal(item) / item.quantity) * paid.quantity : 0)
+  }, 0)
+  return roundMoney((itemsTotal / linesTotal) * order.total, decimals)
+}
+
+/**
+ * Get the change to hand back for a cash payment
+ * @param due - Amount plus tip
+ * @param tendered - Cash handed over
+ * @returns Change, or null if not enough cash was handed over
+ */
+export const getChange = (due: number, tendered: number): number | null => {
+  const change = roundMoney(tendered - due)
+  return change < 0 ? null : change
+}
+
+const CASH_DENOMINATIONS = [5, 10, 20, 50, 100]
+
+/**
+ * Suggest amounts a guest is likely to hand over, for one-tap cash entry
+ * @param due - Amount plus tip
+ * @returns The exact amount followed by the next round amounts, at most four
+ */
+export const getCashSuggestions = (due: number): number[] => {
+  const suggestions = [roundMoney(due)]
+  for (const denomination of CASH_DENOMINATIONS) {
+    const rounded = Math.ceil(due / denomination) * denomination
+    if (rounded > due && !suggestions.includes(rounded)) {
+      suggestions.push(rounded)
+    }
+  }
+  return suggestions.slice(0, 4)
+}
+
+export interface TenderTotals {
+  count: number
+  /** Sum of the amounts applied to orders */
+  amount: number
+  tips: number
+}
+
+export interface TenderSummary {
+  byMethod: Record<PaymentMethod, TenderTotals>
+  total: TenderTotals
+  /** Refunds handed back per method */
+  refundsByMethod: Record<PaymentMethod, number>
+  refundTotal: number
+  /** Cash that should have gone into the drawer: cash amounts and cash tips, after change and cash refunds */
+  expectedCash: number
+  /** Change handed back from the drawer */
+  changeGiven: number
+}
+
+/**
+ * Add up payments per tender, e.g. for the end-of-day cash reconciliation
+ * @param payments - Payments of the period
+ * @param refunds - Refunds of the period
+ * @returns Totals per method and overall, and the cash expected in the drawer
+ */
+export const summarizeTenders = (payments: Payment[], refunds: Refund[] = []): TenderSummary => {
+  const empty = (): TenderTotals => ({ count: 0, amount: 0, tips: 0 })
+  const summary: TenderSummary = {
+    byMethod: { cash: empty(), card: empty(), voucher: empty() },
+    total: empty(),
+    refundsByMethod: { cash: 0, card: 0, voucher: 0 },
+    refundTotal: 0,
+    expectedCash: 0,
+    changeGiven: 0,
+  }
+
+  for (const payment of payments) {
+    for (const totals of [summary.byMethod[payment.method], summary.total]) {
+      totals.count += 1
+      totals.amount = roundMoney(totals.amount + payment.amount)
+      totals.tips = roundMoney(totals.tips + (payment.tip ?? 0))
+    }
+    if (payment.method === "cash") {
+      summary.changeGiven = roundMoney(summary.changeGiven + (payment.change ?? 0))
+    }
+  }
+  for (const refund of refunds) {
+    const method = refund.method ?? "cash"
+    summary.refundsByMethod[method] = roundMoney(summary.refundsByMethod[method] + refund.amount)
+    summary.refundTotal = roundMoney(summary.refundTotal + refund.amount)
+  }
+  summary.expectedCash = roundMoney(
+    summary.byMethod.cash.amount + summary.byMethod.cash.tips - summary.refundsByMethod.cash,
+  )
+
+  return summary
+}
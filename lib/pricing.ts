@@ -0,0 +1,281 @@
+import type { AppliedDiscount, CurrencySettings, ManualDiscount, PricingRule, PricingSchedule, Product } from "./api"
+import { formatMoney } from "./money"
+import { roundMoney } from "./payments"
+
+/**
+ * Pricing rules
+ * Discounts are worked out from pricing rules: a percentage or a fixed amount off, or buy X get Y
+ * free, limited to a category or to products, to a time window such as happy hour, or to guests
+ * who enter a promo code. Rules do not stack; every line gets the single best discount of the rules
+ * in effect. A manager can grant a manual discount on top, which applies to the whole order.
+ *
+ * The backend prices orders with these rules when items are added or changed; the cart and the
+ * order screens use the same helpers to preview the discounts before the order is sent.
+ */
+
+/** A line to price: the product, how many and what one unit costs including its modifiers */
+export interface PricingLine {
+  productId: number
+  category?: string
+  quantity: number
+  unitPrice: number
+}
+
+export interface PricingContext {
+  /** Time the order is placed, checked against the time windows of the rules */
+  at: Date
+  promoCode?: string | null
+  /** Decimals of the currency, which discounts are rounded to */
+  decimals: number
+}
+
+export interface OrderPricing {
+  /** Discounts per line, in the order of the lines */
+  lineDiscounts: AppliedDiscount[][]
+  /** Sum of unit price times quantity */
+  subtotal: number
+  /** Sum of the line discounts */
+  ruleDiscount: number
+  manualDiscount: number
+  discountTotal: number
+  total: number
+}
+
+export const PRICING_RULE_TYPE_LABELS: Record<PricingRule["type"], string> = {
+  percentage: "Percentage off",
+  fixed: "Amount off each",
+  buy_x_get_y: "Buy X get Y free",
+}
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+const normalizeCode = (code: string | null | undefined): string => (code || "").trim().toUpperCase()
+
+/**
+ * Check if a time falls into a schedule
+ * @param schedule - Days and time window; windows past midnight continue on the next day
+ * @param at - Time to check, in local time
+ * @returns True if the schedule covers the time
+ */
+export const isWithinSchedule = (schedule: PricingSchedule, at: Date): boolean => {
+  const start = toMinutes(schedule.startTime)
+  const end = toMinutes(schedule.endTime)
+  const minutes = at.getHours() * 60 + at.getMinutes()
+  const spansMidnight = end <= start
+  // After midnight the window belongs to the day it started on
+  const isAfterMidnight = spansMidnight && minutes < end
+  const day = isAfterMidnight ? (at.getDay() + 6) % 7 : at.getDay()
+
+  if (schedule.days && schedule.days.length > 0 && !schedule.days.includes(day)) {
+    return false
+  }
+  return spansMidnight ? minutes >= start || minutes < end : minutes >= start && minutes < end
+}
+
+/**
+ * Check if a rule gives discounts in a context
+ * @param rule - Pricing rule
+ * @param context - Time of the order and the promo code entered
+ * @returns True if the rule is active, its time window is open and its promo code was entered
+ */
+export const isRuleInEffect = (rule: PricingRule, context: Pick<PricingContext, "at" | "promoCode">): boolean => {
+  if (!rule.active) {
+    return false
+  }
+  if (rule.schedule && !isWithinSchedule(rule.schedule, context.at)) {
+    return false
+  }
+  return !rule.promoCode || normalizeCode(rule.promoCode) === normalizeCode(context.promoCode)
+}
+
+/**
+ * Check if a rule covers the product of a line
+ * @param rule - Pricing rule
+ * @param line - Line to price
+ * @returns True if the line is in the rule's category and product list, if it has them
+ */
+export const ruleAppliesTo = (rule: PricingRule, line: PricingLine): boolean => {
+  if (rule.category && rule.category !== line.category) {
+    return false
+  }
+  return !rule.productIds || rule.productIds.length === 0 || rule.productIds.includes(line.productId)
+}
+
+/**
+ * Find the rule a promo code unlocks
+ * @param rules - Pricing rules
+ * @param code - Code entered by the guest, case-insensitive
+ * @returns Active rule with the code, or undefined if the code is unknown
+ */
+export const findPromoRule = (rules: PricingRule[], code: string | null | undefined): PricingRule | undefined => {
+  const normalized = normalizeCode(code)
+  return normalized ? rules.find((rule) => rule.active && normalizeCode(rule.promoCode) === normalized) : undefined
+}
+
+/**
+ * Work out the discount of one rule on every line
+ * Buy X get Y counts the units of all covered lines together and makes the cheapest ones free.
+ */
+const getRuleDiscounts = (rule: PricingRule, lines: PricingLine[]): number[] => {
+  if (rule.type === "percentage") {
+    const percentage = Math.min(rule.value, 100) / 100
+    return lines.map((line) => (ruleAppliesTo(rule, line) ? line.unitPrice * line.quantity * percentage : 0))
+  }
+  if (rule.type === "fixed") {
+    return lines.map((line) => (ruleAppliesTo(rule, line) ? Math.min(rule.value, line.unitPrice) * line.quantity : 0))
+  }
+
+  const discounts = lines.map(() => 0)
+  const buy = rule.buyQuantity ?? 0
+  const get = rule.getQuantity ?? 0
+  if (buy < 1 || get < 1) {
+    return discounts
+  }
+  const units = lines
+    .flatMap((line, index) => (ruleAppliesTo(rule, line) ? Array(line.quantity).fill(index) : []))
+    .sort((a: number, b: number) => lines[a].unitPrice - lines[b].unitPrice)
+  const freeUnits = Math.floor(units.length / (buy + get)) * get
+  units.slice(0, freeUnits).forEach((index: number) => {
+    discounts[index] += lines[index].unitPrice
+  })
+  return discounts
+}
+
+/**
+ * Work out the discounts of the lines of an order
+ * @param lines - Lines to price
+ * @param rules - Pricing rules
+ * @param context - Time of the order and the promo code entered
+ * @returns The best discount of each line, as a list that is empty if no rule applies
+ */
+export const getLineDiscounts = (
+  lines: PricingLine[],
+  rules: PricingRule[],
+  context: PricingContext,
+): AppliedDiscount[][] => {
+  const inEffect = rules.filter((rule) => isRuleInEffect(rule, context))
+  const discountsByRule = inEffect.map((rule) => getRuleDiscounts(rule, lines))
+
+  return lines.map((_, index) => {
+    let best: AppliedDiscount | null = null
+    for (const [ruleIndex, rule] of inEffect.entries()) {
+      const amount = roundMoney(discountsByRule[ruleIndex][index], context.decimals)
+      if (amount > 0 && (!best || amount > best.amount)) {
+        best = { ruleId: rule.id, name: rule.name, amount }
+      }
+    }
+    return best ? [best] : []
+  })
+}
+
+/**
+ * Work out a manual discount
+ * @param discount - Percentage or fixed amount
+ * @param amount - Amount the discount applies to, after the line discounts
+ * @param decimals - Decimals of the currency
+ * @returns Discount, never more than the amount
+ */
+export const getManualDiscountAmount = (
+  discount: Pick<ManualDiscount, "type" | "value">,
+  amount: number,
+  decimals: number,
+): number => {
+  const value = discount.type === "percentage" ? (amount * Math.min(discount.value, 100)) / 100 : discount.value
+  return roundMoney(Math.min(Math.max(0, value), amount), decimals)
+}
+
+/**
+ * Price an order
+ * @param lines - Lines to price
+ * @param rules - Pricing rules
+ * @param context - Time of the order and the promo code entered
+ * @param manualDiscount - Manual discount on the whole order, if one was granted
+ * @returns Line discounts, subtotal, discounts and total
+ */
+export const priceOrder = (
+  lines: PricingLine[],
+  rules: PricingRule[],
+  context: PricingContext,
+  manualDiscount?: Pick<ManualDiscount, "type" | "value"> | null,
+): OrderPricing => {
+  const lineDiscounts = getLineDiscounts(lines, rules, context)
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0))
+  const ruleDiscount = roundMoney(lineDiscounts.flat().reduce((sum, discount) => sum + discount.amount, 0))
+  const manual = manualDiscount
+    ? getManualDiscountAmount(manualDiscount, roundMoney(subtotal - ruleDiscount), context.decimals)
+    : 0
+  const discountTotal = roundMoney(ruleDiscount + manual)
+
+  return {
+    lineDiscounts,
+    subtotal,
+    ruleDiscount,
+    manualDiscount: manual,
+    discountTotal,
+    total: Math.max(0, roundMoney(subtotal - discountTotal)),
+  }
+}
+
+/**
+ * Turn items into lines to price
+ * @param items - Items with their product, quantity and unit price
+ * @param products - Products, to look up the category of every item
+ * @returns Lines in the order of the items
+ */
+export const toPricingLines = (
+  items: { productId: number; quantity: number; price: number }[],
+  products: Product[],
+): PricingLine[] => {
+  return items.map((item) => ({
+    productId: item.productId,
+    category: products.find((product) => product.id === item.productId)?.category,
+    quantity: item.quantity,
+    unitPrice: item.price,
+  }))
+}
+
+/**
+ * Describe a rule for lists, e.g. "20% off pastry · Mon-Fri 15:00-17:00 · code HAPPY"
+ * @param rule - Pricing rule
+ * @param currency - Currency settings of the cafe, for fixed discounts
+ * @returns Short description of the discount and its conditions
+ */
+export const describeRule = (rule: PricingRule, currency?: CurrencySettings): string => {
+  const discount =
+    rule.type === "percentage"
+      ? `${rule.value}% off`
+      : rule.type === "fixed"
+        ? `${formatMoney(rule.value, currency)} off each`
+        : `Buy ${rule.buyQuantity} get ${rule.getQuantity} free`
+  const parts = [rule.category ? `${discount} ${rule.category}` : discount]
+
+  if (rule.productIds && rule.productIds.length > 0) {
+    parts.push(`${rule.productIds.length} product${rule.productIds.length === 1 ? "" : "s"}`)
+  }
+  if (rule.schedule) {
+    const days = rule.schedule.days?.length ? rule.schedule.days.map((day) => WEEKDAY_LABELS[day]).join(", ") : "Daily"
+    parts.push(`${days} ${rule.schedule.startTime}-${rule.schedule.endTime}`)
+  }
+  if (rule.promoCode) {
+    parts.push(`code ${normalizeCode(rule.promoCode)}`)
+  }
+  return parts.join(" · ")
+}
+
+/**
+ * Describe a manual discount, e.g. "10% off" or "5.00 EGP off"
+ * @param discount - Manual discount
+ * @param currency - Currency settings of the cafe, for fixed discounts
+ * @returns Short description
+ */
+export const describeManualDiscount = (
+  discount: Pick<ManualDiscount, "type" | "value">,
+  currency?: CurrencySettings,
+): string => {
+  return discount.type === "percentage" ? `${discount.value}% off` : `${formatMoney(discount.value, currency)} off`
+}
@@ -0,0 +1,235 @@
+import type { CafeSettings, Order, OrderItem, Printer, Product } from "./api"
+import { encodeTicket } from "./escpos"
+import { getChargedItems } from "./payments"
+import { buildKitchenTicket, buildReceipt, getTicketColumns, layoutTicket, type Ticket } from "./tickets"
+
+/**
+ * Printers
+ * Managers set up the printers of the cafe in the settings: which one prints receipts, and which
+ * product categories each one gets kitchen tickets for, e.g. coffee on the bar printer and food in
+ * the kitchen. Printer drivers are registered by connection type:
+ *
+ *   browser - renders the ticket as HTML and opens the print dialog of the browser
+ *   network - sends the ESC/POS bytes to the print server at the address of the printer; run
+ *             scripts/printer-simulator.mjs to write tickets to files instead of a real printer
+ *
+ * When a network printer cannot be reached, the ticket is printed through the browser instead so
+ * the order is not held up.
+ */
+
+export interface PrinterDriver {
+  /**
+   * Print a ticket; rejects if the printer did not accept it
+   */
+  print: (ticket: Ticket, printer: Printer) => Promise<void>
+}
+
+export interface PrintResult {
+  printer: Printer
+  /** The printer could not be reached and the ticket went to the browser instead */
+  usedFallback: boolean
+}
+
+export interface KitchenPrintResult {
+  printed: PrintResult[]
+  /** Items whose category no printer takes */
+  unrouted: OrderItem[]
+}
+
+/** Used for receipts while no printer has been set up for them */
+export const BROWSER_PRINTER: Printer = {
+  id: "browser",
+  name: "Browser",
+  connection: "browser",
+  paperWidth: 80,
+  printsReceipts: true,
+  categories: [],
+}
+
+const drivers = new Map<Printer["connection"], PrinterDriver>()
+
+/**
+ * Register a printer driver
+ * @param connection - Connection type of the printers it prints on
+ * @param driver - Driver
+ */
+export const registerPrinterDriver = (connection: Printer["connection"], driver: PrinterDriver): void => {
+  drivers.set(connection, driver)
+}
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+/**
+ * Render a ticket as HTML with the same line breaks as on a thermal printer
+ * @param ticket - Receipt or kitchen ticket
+ * @param paperWidth - Paper width in millimetres
+ * @returns Complete HTML document, sized for the paper
+ */
+export const renderTicketHtml = (ticket: Ticket, paperWidth: Printer["paperWidth"]): string => {
+  const lines = layoutTicket(ticket, paperWidth)
+    .map((line) => {
+      const style = [`text-align:${line.align}`, line.bold && "font-weight:bold", line.large && "font-size:200%"]
+      return `<div style="${style.filter(Boolean).join(";")}">${escapeHtml(line.text) || "&nbsp;"}</div>`
+    })
+    .join("\n")
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(ticket.title)}</title>
+<style>
+@page { size: ${paperWidth}mm auto; margin: 0; }
+body { margin: 0; padding: 2mm; font-family: monospace; font-size: 12px; }
+.ticket { width: ${getTicketColumns(paperWidth)}ch; white-space: pre; }
+</style>
+</head>
+<body><div class="ticket">
+${lines}
+</div></body>
+</html>`
+}
+
+/**
+ * Print through the print dialog of the browser, from a hidden frame so the page stays as it is
+ */
+const browserDriver: PrinterDriver = {
+  print: (ticket, printer) => {
+    return new Promise((resolve, reject) => {
+      if (typeof document === "undefined") {
+        reject(new Error("Printing through the browser needs a browser"))
+        return
+      }
+      const frame = document.createElement("iframe")
+      frame.style.position = "fixed"
+      frame.style.width = "0"
+      frame.style.height = "0"
+      frame.style.border = "0"
+      frame.srcdoc = renderTicketHtml(ticket, printer.paperWidth)
+      frame.onload = () => {
+        frame.contentWindow?.focus()
+        frame.contentWindow?.print()
+        // The dialog blocks until it is closed; give the browser a moment before removing the frame
+        setTimeout(() => frame.remove(), 1000)
+        resolve()
+      }
+      document.body.appendChild(frame)
+    })
+  },
+}
+
+/**
+ * Send the ESC/POS bytes to the print server of the printer
+ */
+const networkDriver: PrinterDriver = {
+  print: async (ticket, printer) => {
+    if (!printer.address) {
+      throw new Error(`${printer.name} has no print server address`)
+    }
+    const response = await fetch(printer.address, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "X-Printer-Id": printer.id,
+        "X-Paper-Width": String(printer.paperWidth),
+        "X-Print-Job": encodeURIComponent(ticket.title),
+      },
+      body: encodeTicket(ticket, printer.paperWidth),
+    })
+    if (!response.ok) {
+      throw new Error(`${printer.name} did not accept the ticket (${response.status})`)
+    }
+  },
+}
+
+registerPrinterDriver("browser", browserDriver)
+registerPrinterDriver("network", networkDriver)
+
+/**
+ * Print a ticket on a printer, falling back to the browser if the printer cannot be reached
+ * @param ticket - Receipt or kitchen ticket
+ * @param printer - Printer from the settings
+ * @returns Printer used and whether the fallback was needed; rejects if the browser failed too
+ */
+export const printTicket = async (ticket: Ticket, printer: Printer): Promise<PrintResult> => {
+  const driver = drivers.get(printer.connection)
+  try {
+    if (!driver) {
+      throw new Error(`No printer driver for "${printer.connection}" is registered`)
+    }
+    await driver.print(ticket, printer)
+    return { printer, usedFallback: false }
+  } catch (error) {
+    if (printer.connection === "browser") {
+      throw error
+    }
+    await browserDriver.print(ticket, printer)
+    return { printer, usedFallback: true }
+  }
+}
+
+/**
+ * Get the printer for receipts
+ * @param settings - Cafe settings
+ * @returns First printer that prints receipts, or the browser
+ */
+export const getReceiptPrinter = (settings: CafeSettings): Printer => {
+  return settings.printing.printers.find((printer) => printer.printsReceipts) ?? BROWSER_PRINTER
+}
+
+/**
+ * Work out which printer makes which items
+ * @param items - Items to send to the kitchen
+ * @param printers - Printers from the settings
+ * @param products - Products, for the category of each item
+ * @returns Items by printer, in the order of the printers, and the items no printer takes
+ */
+export const routeKitchenItems = (
+  items: OrderItem[],
+  printers: Printer[],
+  products: Product[],
+): { routes: { printer: Printer; items: OrderItem[] }[]; unrouted: OrderItem[] } => {
+  const getCategory = (item: OrderItem) => products.find((product) => product.id === item.productId)?.category
+  const routes = printers
+    .map((printer) => ({
+      printer,
+      items: items.filter((item) => printer.categories.includes(getCategory(item) ?? "")),
+    }))
+    .filter((route) => route.items.length > 0)
+  const unrouted = items.filter((item) => !routes.some((route) => route.items.includes(item)))
+  return { routes, unrouted }
+}
+
+/**
+ * Print the receipt of an order
+ * @param order - Order
+ * @param settings - Cafe settings
+ * @returns Printer used
+ */
+export const printReceipt = (order: Order, settings: CafeSettings): Promise<PrintResult> => {
+  return printTicket(buildReceipt(order, settings), getReceiptPrinter(settings))
+}
+
+/**
+ * Print kitchen tickets for the items of an order, one per printer
+ * @param order - Order
+ * @param settings - Cafe settings
+ * @param products - Products, for the category of each item
+ * @param items - Items to print; all items of the order that have not been voided if omitted
+ * @returns Printers used and the items no printer takes
+ */
+export const printKitchenTickets = async (
+  order: Order,
+  settings: CafeSettings,
+  products: Product[],
+  items: OrderItem[] = getChargedItems(order),
+): Promise<KitchenPrintResult> => {
+  const { routes, unrouted } = routeKitchenItems(items, settings.printing.printers, products)
+  const printed: PrintResult[] = []
+  for (const route of routes) {
+    printed.push(await printTicket(buildKitchenTicket(order, route.items, route.printer.name), route.printer))
+  }
+  return { printed, unrouted }
+}
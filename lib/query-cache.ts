@@ -0,0 +1,227 @@
+import ApiError from "./api-error"
+import type { RequestOptions } from "./api"
+
+/**
+ * Shared query cache
+ * Responses are cached under a key made of the resource name and the request parameters, e.g.
+ * ["products", { category: "coffee" }]. Concurrent requests for the same key share one promise,
+ * cached data is served instantly and revalidated in the background once it is stale, and
+ * mutations invalidate every key of the resources they touch.
+ */
+
+export type QueryKey = readonly [resource: string, ...params: unknown[]]
+
+export interface QueryState<T> {
+  data?: T
+  error?: ApiError
+  /** Time of the last successful fetch, 0 if never fetched or invalidated */
+  updatedAt: number
+  isFetching: boolean
+  /** Progress of the current fetch while it is being retried */
+  retryAttempt?: { attempt: number; maxAttempts: number }
+}
+
+/**
+ * Function loading a query; pass the options on to the API method
+ */
+export type QueryFetcher<T> = (options: RequestOptions) => Promise<T>
+
+interface QueryEntry<T> {
+  key: QueryKey
+  state: QueryState<T>
+  promise?: Promise<T>
+  fetcher?: QueryFetcher<T>
+  listeners: Set<() => void>
+  /** Invalidated while a fetch was in flight; its response may predate the mutation */
+  invalidatedInFlight?: boolean
+}
+
+/** Data younger than this is served without revalidating */
+export const DEFAULT_STALE_TIME = 30 * 1000
+
+const EMPTY_STATE: QueryState<never> = { updatedAt: 0, isFetching: false }
+
+const entries = new Map<string, QueryEntry<unknown>>()
+
+/**
+ * Mutations of one resource that change another resource on the server
+ * (e.g. creating an order occupies its table, a payment closes the order)
+ */
+const RELATED_RESOURCES: Record<string, string[]> = {
+  orders: ["tables"],
+  payments: ["orders", "tables"],
+}
+
+/**
+ * Serialize a query key, sorting object keys so equal params give equal hashes
+ */
+export const hashQueryKey = (key: QueryKey): string => {
+  return JSON.stringify(key, (_, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.keys(value)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, name) => {
+            if (value[name] !== undefined) {
+              sorted[name] = value[name]
+            }
+            return sorted
+          }, {})
+      : value,
+  )
+}
+
+const getEntry = <T>(key: QueryKey): QueryEntry<T> => {
+  const hash = hashQueryKey(key)
+  let entry = entries.get(hash) as QueryEntry<T> | undefined
+  if (!entry) {
+    entry = { key, state: EMPTY_STATE, listeners: new Set() }
+    entries.set(hash, entry as QueryEntry<unknown>)
+  }
+  return entry
+}
+
+const setState = <T>(entry: QueryEntry<T>, state: Partial<QueryState<T>>): void => {
+  entry.state = { ...entry.state, ...state }
+  entry.listeners.forEach((listener) => listener())
+}
+
+/**
+ * Query cache functions
+ */
+export const queryCache = {
+  /**
+   * Get the cached state of a query
+   * @param key - Query key
+   * @returns Current state; the same object until the state changes
+   */
+  getState: <T>(key: QueryKey): QueryState<T> => {
+    return (entries.get(hashQueryKey(key))?.state as QueryState<T>) || EMPTY_STATE
+  },
+
+  /**
+   * Get cached data of a query
+   * @param key - Query key
+   * @returns Cached data, or undefined if nothing is cached
+   */
+  getData: <T>(key: QueryKey): T | undefined => {
+    return queryCache.getState<T>(key).data
+  },
+
+  /**
+   * Check if a query needs to be (re)fetched
+   * @param key - Query key
+   * @param staleTime - Maximum age of fresh data in milliseconds
+   * @returns True if there is no data or the data is older than staleTime
+   */
+  isStale: (key: QueryKey, staleTime: number = DEFAULT_STALE_TIME): boolean => {
+    const { updatedAt } = queryCache.getState(key)
+    return !updatedAt || Date.now() - updatedAt > staleTime
+  },
+
+  /**
+   * Fetch a query, sharing the request with any identical one already in flight
+   * @param key - Query key
+   * @param fetcher - Function performing the request; kept for revalidation after invalidation
+   * @returns Promise with the fetched data
+   */
+  fetch: <T>(key: QueryKey, fetcher: QueryFetcher<T>): Promise<T> => {
+    const entry = getEntry<T>(key)
+    entry.fetcher = fetcher
+    if (entry.promise) {
+      return entry.promise
+    }
+
+    const onRetry = (attempt: number, maxAttempts: number) => setState(entry, { retryAttempt: { attempt, maxAttempts } })
+    const promise = fetcher({ onRetry })
+      .then((data) => {
+        const updatedAt = entry.invalidatedInFlight ? 0 : Date.now()
+        setState(entry, { data, error: undefined, updatedAt, isFetching: false, retryAttempt: undefined })
+        return data
+      })
+      .catch((err) => {
+        // Keep the previous data so the page can still show something
+        setState(entry, { error: ApiError.from(err), isFetching: false, retryAttempt: undefined })
+        throw err
+      })
+      .finally(() => {
+        entry.promise = undefined
+        // Fetch again so the data includes the mutation that landed meanwhile
+        if (entry.invalidatedInFlight) {
+          entry.invalidatedInFlight = false
+          if (entry.listeners.size > 0 && entry.fetcher) {
+            queryCache.fetch(entry.key, entry.fetcher).catch(() => {
+              // The error is stored on the entry
+            })
+          }
+        }
+      })
+
+    entry.promise = promise
+    setState(entry, { isFetching: true })
+    return promise
+  },
+
+  /**
+   * Replace or update cached data, e.g. with the result of a mutation
+   * @param key - Query key
+   * @param updater - New data, or a function computing it from the cached data
+   */
+  setData: <T>(key: QueryKey, updater: T | ((current: T | undefined) => T)): void => {
+    const entry = getEntry<T>(key)
+    const data =
+      typeof updater === "function" ? (updater as (current: T | undefined) => T)(entry.state.data) : updater
+    setState(entry, { data, updatedAt: entry.state.updatedAt || Date.now() })
+  },
+
+  /**
+   * Subscribe to changes of a query
+   * @param key - Query key
+   * @param listener - Called whenever the state of the query changes
+   * @returns Function that removes the subscription
+   */
+  subscribe: (key: QueryKey, listener: () => void): (() => void) => {
+    const entry = getEntry(key)
+    entry.listeners.add(listener)
+    return () => {
+      entry.listeners.delete(listener)
+    }
+  },
+
+  /**
+   * Mark every query of a resource (and of the resources it affects) as stale. Queries that are
+   * currently displayed are refetched in the background; those with a fetch in flight are fetched
+   * again once it finishes.
+   * @param resource - Resource name, the first element of the query keys
+   */
+  invalidate: (resource: string): void => {
+    const resources = [resource, ...(RELATED_RESOURCES[resource] || [])]
+    entries.forEach((entry) => {
+      if (!resources.includes(entry.key[0])) {
+        return
+      }
+      entry.state = { ...entry.state, updatedAt: 0 }
+      if (entry.promise) {
+        entry.invalidatedInFlight = true
+      } else if (entry.listeners.size > 0 && entry.fetcher) {
+        queryCache.fetch(entry.key, entry.fetcher).catch(() => {
+          // The error is stored on the entry
+        })
+      }
+    })
+  },
+
+  /**
+   * Drop all cached data, e.g. after logout or when switching backends
+   */
+  clear: (): void => {
+    entries.forEach((entry, hash) => {
+      if (entry.listeners.size > 0) {
+        setState(entry, { data: undefined, error: undefined, updatedAt: 0 })
+      } else {
+        entries.delete(hash)
+      }
+    })
+  },
+}
+
+export default queryCache
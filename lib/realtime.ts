@@ -0,0 +1,369 @@
+import apiConfig, { type RealtimeTransport } from "./config"
+import { ApiError, ordersApi, tokenService, type Order, type OrderEvent } from "./api"
+import { diffOrders, getEventTableId } from "./order-events"
+import { subscribeMockOrderEvents } from "./mock-backend"
+import { orderEventSchema } from "./schemas"
+
+/**
+ * Realtime order updates
+ * One shared connection per scope delivers order events to its subscribers: staff screens follow
+ * every order of the cafe, the guest page only the orders of its table. The event stream of the
+ * backend is read over Server-Sent Events or a WebSocket; when it cannot be opened the client falls
+ * back to polling the orders and diffing them, so subscribers receive the same events either way.
+ * Polling pauses while the tab is hidden. While polling, the stream is retried in the background.
+ * The mock profile publishes its events in-process.
+ */
+
+/**
+ * State of the connection: "live" while events are pushed, "polling" while the fallback runs
+ */
+export type RealtimeStatus = "offline" | "connecting" | "live" | "polling"
+
+/**
+ * Message delivered to subscribers. "resync" follows a reconnect: events may have been missed,
+ * so subscribers should reload what they show.
+ */
+export type RealtimeMessage = OrderEvent | { type: "resync" }
+
+type PushTransport = Exclude<RealtimeTransport, "auto" | "polling">
+
+/** Failed connection attempts before falling back to polling */
+const MAX_PUSH_FAILURES = 3
+const RECONNECT_BASE_DELAY_MS = 1000
+/** Interval of stream reconnection attempts while polling */
+const PUSH_RETRY_INTERVAL_MS = 60 * 1000
+
+/**
+ * Pick the push transport for the configured URL, or null if only polling is possible
+ */
+const resolvePushTransport = (transport: RealtimeTransport, url: string): PushTransport | null => {
+  if (transport === "polling" || typeof window === "undefined") {
+    return null
+  }
+  if (transport !== "auto") {
+    return transport
+  }
+  if (/^wss?:/.test(url)) {
+    return typeof WebSocket !== "undefined" ? "websocket" : null
+  }
+  return typeof EventSource !== "undefined" ? "sse" : null
+}
+
+/**
+ * Add the table scope and the access token to the stream URL; neither EventSource nor WebSocket
+ * can send headers
+ */
+const getStreamUrl = (url: string, tableId?: number): string => {
+  const params = new URLSearchParams()
+  if (tableId) {
+    params.set("tableId", String(tableId))
+  }
+  const token = tokenService.getToken()
+  if (token) {
+    params.set("access_token", token)
+  }
+  const query = params.toString()
+  return query ? `${url}${url.includes("?") ? "&" : "?"}${query}` : url
+}
+
+/**
+ * Open the event stream
+ * @returns Function that closes it
+ */
+const openPush = (
+  transport: PushTransport,
+  url: string,
+  onMessage: (raw: string) => void,
+  onOpen: () => void,
+  onFail: () => void,
+): (() => void) => {
+  if (transport === "sse") {
+    const source = new EventSource(url)
+    source.onopen = onOpen
+    source.onmessage = (event) => onMessage(event.data)
+    // EventSource reconnects on its own forever; close it so failures count towards the fallback
+    source.onerror = () => {
+      source.close()
+      onFail()
+    }
+    return () => source.close()
+  }
+
+  const socket = new WebSocket(url.replace(/^http/, "ws"))
+  let closedByUs = false
+  socket.onopen = onOpen
+  socket.onmessage = (event) => onMessage(String(event.data))
+  socket.onclose = () => {
+    if (!closedByUs) {
+      onFail()
+    }
+  }
+  return () => {
+    closedByUs = true
+    socket.close()
+  }
+}
+
+/**
+ * Fetch an order that is no longer open, to tell a closed order from a deleted one
+ * @returns The order, or null if it was deleted
+ */
+const fetchClosedOrder = async (order: Order): Promise<Order | null> => {
+  try {
+    return await ordersApi.getById(order.id, { retry: false })
+  } catch (error) {
+    if (ApiError.from(error).code === "not_found") {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Connection delivering the events of one scope: every order of the cafe, or the orders of one
+ * table. Guests only ever open a table scope, so they never receive the orders of other guests.
+ */
+interface Channel {
+  subscribe: (listener: (message: RealtimeMessage) => void) => () => void
+  getStatus: () => RealtimeStatus
+  subscribeStatus: (listener: (status: RealtimeStatus) => void) => () => void
+}
+
+/**
+ * Create the connection for a scope
+ * @param tableId - Table whose orders are delivered; every order of the cafe if omitted
+ */
+const createChannel = (tableId?: number): Channel => {
+  const listeners = new Set<(message: RealtimeMessage) => void>()
+  const statusListeners = new Set<(status: RealtimeStatus) => void>()
+
+  let status: RealtimeStatus = "offline"
+  let pushFailures = 0
+  let hasConnected = false
+  let closePush: (() => void) | null = null
+  let stopPolling: (() => void) | null = null
+  let stopMock: (() => void) | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+  const setStatus = (next: RealtimeStatus): void => {
+    if (status !== next) {
+      status = next
+      statusListeners.forEach((listener) => listener(status))
+    }
+  }
+
+  const dispatch = (message: RealtimeMessage): void => {
+    listeners.forEach((listener) => listener(message))
+  }
+
+  /**
+   * Validate an event received from the stream and pass it on
+   */
+  const dispatchRaw = (raw: string): void => {
+    try {
+      const result = orderEventSchema.safeParse(JSON.parse(raw))
+      if (result.success) {
+        dispatch(result.data)
+      } else {
+        console.warn("Ignoring malformed order event", result.error.issues)
+      }
+    } catch {
+      console.warn("Ignoring order event that is not JSON", raw)
+    }
+  }
+
+  /**
+   * Fetch the orders of the scope. A table scope reads the orders of the table without the login
+   * redirect, as guests are not signed in; orders that leave it were moved away or deleted, and
+   * are reported as deleted from the table.
+   */
+  const fetchOrders = async (previous: Order[] | null): Promise<Order[]> => {
+    if (tableId) {
+      return ordersApi.getByTable(tableId, { retry: false, authRedirect: false })
+    }
+    const orders = await ordersApi.getOpen({ retry: false })
+    if (!previous) {
+      return orders
+    }
+    // Orders that left the open list were closed or deleted
+    const openIds = new Set(orders.map((order) => order.id))
+    const closed = await Promise.all(previous.filter((order) => !openIds.has(order.id)).map(fetchClosedOrder))
+    return [...orders, ...closed.filter((order): order is Order => !!order)]
+  }
+
+  /**
+   * Poll the orders and publish the differences between consecutive snapshots
+   * @returns Function that stops polling
+   */
+  const startPolling = (intervalMs: number): (() => void) => {
+    let previous: Order[] | null = null
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let stopped = false
+
+    const poll = async () => {
+      // Nobody is looking; catch up once the tab is visible again
+      const isHidden = typeof document !== "undefined" && document.visibilityState === "hidden"
+      try {
+        if (!isHidden) {
+          const orders = await fetchOrders(previous)
+          if (stopped) return
+          if (previous) {
+            diffOrders(previous, orders).forEach(dispatch)
+          }
+          previous = orders
+        }
+      } catch {
+        // Try again on the next tick
+      }
+      if (!stopped) {
+        timer = setTimeout(poll, intervalMs)
+      }
+    }
+
+    setStatus("polling")
+    poll()
+    return () => {
+      stopped = true
+      if (timer) clearTimeout(timer)
+    }
+  }
+
+  const connectPush = (transport: PushTransport): void => {
+    const { url, pollIntervalMs } = apiConfig.getRealtimeOptions()
+    if (!stopPolling) {
+      setStatus("connecting")
+    }
+
+    closePush = openPush(
+      transport,
+      getStreamUrl(url, tableId),
+      dispatchRaw,
+      () => {
+        pushFailures = 0
+        stopPolling?.()
+        stopPolling = null
+        setStatus("live")
+        // Anything that happened while disconnected was missed
+        if (hasConnected) {
+          dispatch({ type: "resync" })
+        }
+        hasConnected = true
+      },
+      () => {
+        closePush = null
+        pushFailures++
+        if (pushFailures >= MAX_PUSH_FAILURES && !stopPolling) {
+          stopPolling = startPolling(pollIntervalMs)
+          hasConnected = true
+        }
+        const delay = stopPolling ? PUSH_RETRY_INTERVAL_MS : RECONNECT_BASE_DELAY_MS * 2 ** (pushFailures - 1)
+        reconnectTimer = setTimeout(() => connectPush(transport), delay)
+      },
+    )
+  }
+
+  const connect = (): void => {
+    if (apiConfig.isMock()) {
+      stopMock = subscribeMockOrderEvents((event) => {
+        if (!tableId || getEventTableId(event) === tableId) {
+          dispatch(event)
+        }
+      })
+      setStatus("live")
+      return
+    }
+
+    const { transport, url, pollIntervalMs } = apiConfig.getRealtimeOptions()
+    const pushTransport = resolvePushTransport(transport, url)
+    if (pushTransport) {
+      connectPush(pushTransport)
+    } else {
+      stopPolling = startPolling(pollIntervalMs)
+    }
+  }
+
+  const disconnect = (): void => {
+    if (reconnectTimer) clearTimeout(reconnectTimer)
+    closePush?.()
+    stopPolling?.()
+    stopMock?.()
+    reconnectTimer = closePush = stopPolling = stopMock = null
+    pushFailures = 0
+    hasConnected = false
+    setStatus("offline")
+  }
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener)
+      if (listeners.size === 1) {
+        connect()
+      }
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0) {
+          disconnect()
+        }
+      }
+    },
+    getStatus: () => status,
+    subscribeStatus: (listener) => {
+      statusListeners.add(listener)
+      return () => {
+        statusListeners.delete(listener)
+      }
+    },
+  }
+}
+
+const channels = new Map<string, Channel>()
+
+/**
+ * Get the connection of a scope, creating it on first use
+ */
+const getChannel = (tableId?: number): Channel => {
+  const key = tableId ? `table:${tableId}` : "all"
+  let channel = channels.get(key)
+  if (!channel) {
+    channel = createChannel(tableId)
+    channels.set(key, channel)
+  }
+  return channel
+}
+
+/**
+ * Realtime functions
+ */
+export const realtime = {
+  /**
+   * Receive order events. The connection is opened for the first subscriber and closed when the
+   * last one leaves.
+   * @param listener - Called with every order event and after reconnects
+   * @param tableId - Only receive the orders of this table
+   * @returns Function that removes the subscription
+   */
+  subscribe: (listener: (message: RealtimeMessage) => void, tableId?: number): (() => void) => {
+    return getChannel(tableId).subscribe(listener)
+  },
+
+  /**
+   * Get the state of the connection
+   * @param tableId - Table of the connection; the cafe-wide one if omitted
+   * @returns Current realtime status
+   */
+  getStatus: (tableId?: number): RealtimeStatus => {
+    return getChannel(tableId).getStatus()
+  },
+
+  /**
+   * Subscribe to changes of the connection state
+   * @param listener - Called with the new status
+   * @param tableId - Table of the connection; the cafe-wide one if omitted
+   * @returns Function that removes the subscription
+   */
+  subscribeStatus: (listener: (status: RealtimeStatus) => void, tableId?: number): (() => void) => {
+    return getChannel(tableId).subscribeStatus(listener)
+  },
+}
+
+export default realtime
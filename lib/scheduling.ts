@@ -0,0 +1,89 @@
+import type { CafeSettings, CreateOrderRequest, Order } from "./api"
+
+/**
+ * Scheduled orders
+ * Guests can order ahead for a time they want the order ready, e.g. a coffee for 8:15 on their way
+ * in. Such an order is held as "scheduled", out of the kitchen queue, until its fire time: the
+ * ready time less the lead time from the settings. At the fire time it becomes a new order like
+ * any other. The backend promotes due orders; staff can also send one early. Orders whose ready
+ * time is closer than the lead time go to the kitchen straight away.
+ */
+
+/** How far ahead an order can be scheduled */
+export const MAX_SCHEDULE_DAYS = 7
+
+/**
+ * Get the time an order should be ready at
+ * @param request - Order to create
+ * @returns Requested ready time, the pickup time of a pickup order, or undefined to make it now
+ */
+export const getRequestedReadyTime = (
+  request: Pick<CreateOrderRequest, "readyAt" | "pickupTime">,
+): string | undefined => {
+  return request.readyAt ?? request.pickupTime ?? undefined
+}
+
+/**
+ * Get the time a scheduled order goes to the kitchen
+ * @param readyAt - Requested ready time (ISO 8601)
+ * @param settings - Cafe settings, for the lead time
+ * @returns Fire time (ISO 8601)
+ */
+export const getFireTime = (readyAt: string, settings: Pick<CafeSettings, "scheduling">): string => {
+  return new Date(Date.parse(readyAt) - settings.scheduling.leadTimeMinutes * 60 * 1000).toISOString()
+}
+
+/**
+ * Check if a scheduled order is due to go to the kitchen
+ * @param order - Order
+ * @param now - Current time in milliseconds
+ * @returns True for scheduled orders whose fire time has come
+ */
+export const isDueToFire = (order: Pick<Order, "status" | "fireAt">, now: number = Date.now()): boolean => {
+  return order.status === "scheduled" && !!order.fireAt && Date.parse(order.fireAt) <= now
+}
+
+/**
+ * Get the time an order reached the kitchen, which its ticket is timed from
+ * @param order - Order
+ * @returns When a scheduled order was sent to the kitchen, or the order date of any other order (ISO 8601)
+ */
+export const getKitchenTime = (order: Pick<Order, "orderDate" | "statusHistory">): string => {
+  const fired = order.statusHistory?.find((change) => change.from === "scheduled" && change.to === "new")
+  return fired?.changedAt ?? order.orderDate
+}
+
+/**
+ * Check a requested ready time
+ * @param readyAt - Requested ready time (ISO 8601)
+ * @param now - Current time in milliseconds
+ * @returns Error message, or null if the order can be scheduled for this time
+ */
+export const validateReadyTime = (readyAt: string, now: number = Date.now()): string | null => {
+  const time = Date.parse(readyAt)
+  if (Number.isNaN(time)) {
+    return "Time is not a valid date"
+  }
+  if (time < now) {
+    return "That time has already passed"
+  }
+  if (time > now + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+    return `Orders can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead`
+  }
+  return null
+}
+
+/**
+ * Describe how long until a time, e.g. "in 1h 05m" or "now"
+ * @param time - Time (ISO 8601)
+ * @param now - Current time in milliseconds
+ * @returns Description
+ */
+export const formatTimeUntil = (time: string, now: number = Date.now()): string => {
+  const minutes = Math.ceil((Date.parse(time) - now) / (60 * 1000))
+  if (minutes <= 0) {
+    return "now"
+  }
+  const hours = Math.floor(minutes / 60)
+  return hours > 0 ? `in ${hours}h ${String(minutes % 60).padStart(2, "0")}m` : `in ${minutes}m`
+}
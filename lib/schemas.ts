@@ -0,0 +1,700 @@
+import { z } from "zod"
+
+/**
+ * API contract
+ * Zod schemas for every request and response of the .NET backend. The TypeScript types used
+ * throughout the app are derived from these schemas, so the compile-time types and the runtime
+ * checks in lib/api.ts cannot drift apart.
+ */
+
+// Shared enums
+export const userRoleSchema = z.enum(["admin", "manager", "staff", "customer"])
+export const userStatusSchema = z.enum(["active", "inactive"])
+export const tableStatusSchema = z.enum(["available", "occupied", "reserved"])
+export const orderStatusSchema = z.enum(["scheduled", "new", "preparing", "ready", "delivered", "paid", "voided"])
+export const paymentMethodSchema = z.enum(["cash", "card", "voucher"])
+export const orderTypeSchema = z.enum(["dine_in", "takeaway", "pickup", "delivery"])
+
+// User schemas
+export const userSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  email: z.string(),
+  role: userRoleSchema,
+  status: userStatusSchema,
+  joinedAt: z.string(),
+})
+
+/** User who made a change */
+export const userRefSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+})
+
+// Auth schemas
+export const loginRequestSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+})
+
+export const registerRequestSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email(),
+  password: z.string().min(1),
+  confirmPassword: z.string().min(1),
+})
+
+export const authResponseSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string().optional(),
+  user: userSchema,
+})
+
+export const refreshTokenRequestSchema = z.object({
+  refreshToken: z.string(),
+})
+
+export const refreshTokenResponseSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string().optional(),
+})
+
+/** A manager's PIN, entered on a staff member's screen to approve an action */
+export const managerApprovalRequestSchema = z.object({
+  pin: z.string().min(4),
+})
+
+export const managerApprovalSchema = z.object({
+  /** Short-lived token sent along with the approved action */
+  approvalToken: z.string(),
+  approvedBy: userRefSchema,
+  expiresAt: z.string(),
+})
+
+// Modifier schemas
+export const modifierOptionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** Added to the product price when chosen; may be negative */
+  priceDelta: z.number(),
+})
+
+export const modifierGroupSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** "single" allows one option (e.g. size), "multiple" any number (e.g. extras) */
+  selection: z.enum(["single", "multiple"]),
+  /** A required group needs a choice before the product can be ordered */
+  required: z.boolean(),
+  options: z.array(modifierOptionSchema),
+})
+
+/** A chosen option, as sent when ordering */
+export const modifierSelectionSchema = z.object({
+  groupId: z.string(),
+  optionId: z.string(),
+})
+
+/** A chosen option, as stored on an order item */
+export const orderItemModifierSchema = modifierSelectionSchema.extend({
+  groupName: z.string(),
+  optionName: z.string(),
+  priceDelta: z.number(),
+})
+
+// Product schemas
+export const productSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  description: z.string(),
+  price: z.number().nonnegative(),
+  category: z.string(),
+  imageUrl: z.string(),
+  modifierGroups: z.array(modifierGroupSchema).optional(),
+})
+
+export const createProductRequestSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  price: z.number().nonnegative(),
+  category: z.string().min(1),
+  imageUrl: z.string().optional(),
+  modifierGroups: z.array(modifierGroupSchema).optional(),
+})
+
+// Pricing schemas
+export const pricingRuleTypeSchema = z.enum(["percentage", "fixed", "buy_x_get_y"])
+
+/** Recurring time window, e.g. happy hour on weekdays */
+export const pricingScheduleSchema = z.object({
+  /** Days of the week, 0 is Sunday; every day if missing */
+  days: z.array(z.number().int().min(0).max(6)).optional(),
+  /** Local start time, HH:MM */
+  startTime: z.string().regex(/^\d{2}:\d{2}$/),
+  /** Local end time, HH:MM, exclusive */
+  endTime: z.string().regex(/^\d{2}:\d{2}$/),
+})
+
+export const pricingRuleSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  type: pricingRuleTypeSchema,
+  /** Percent off for "percentage", amount off every unit for "fixed"; unused for "buy_x_get_y" */
+  value: z.number().nonnegative(),
+  /** "buy_x_get_y": for every buyQuantity units, getQuantity more are free */
+  buyQuantity: z.number().int().positive().optional(),
+  getQuantity: z.number().int().positive().optional(),
+  /** Only products of this category */
+  category: z.string().nullish(),
+  /** Only these products */
+  productIds: z.array(z.number().int()).optional(),
+  /** Only within this time window */
+  schedule: pricingScheduleSchema.nullish(),
+  /** Only once the guest enters this code */
+  promoCode: z.string().nullish(),
+  active: z.boolean(),
+})
+
+export const createPricingRuleRequestSchema = pricingRuleSchema.omit({ id: true })
+
+/** Discount a pricing rule gave on an order item */
+export const appliedDiscountSchema = z.object({
+  ruleId: z.number().int(),
+  name: z.string(),
+  amount: z.number().nonnegative(),
+})
+
+export const manualDiscountTypeSchema = z.enum(["percentage", "fixed"])
+
+/** Discount a manager granted on a whole order, e.g. for a complaint */
+export const manualDiscountSchema = z.object({
+  type: manualDiscountTypeSchema,
+  value: z.number().positive(),
+  reason: z.string(),
+  approvedBy: userRefSchema.nullish(),
+})
+
+// Cafe settings schemas
+const percentSchema = z.number().min(0).max(100)
+
+export const taxSettingsSchema = z.object({
+  /** Name of the tax on bills and receipts, e.g. "VAT" */
+  label: z.string().min(1),
+  /** Menu prices already include the tax; otherwise it is added on top */
+  pricesIncludeTax: z.boolean(),
+  /** Rate in percent for products whose category has no rate of its own */
+  defaultRate: percentSchema,
+  /** Rates in percent by product category, e.g. a reduced rate for food */
+  categoryRates: z.record(z.string(), percentSchema),
+})
+
+/** Most digits a currency has after the decimal separator */
+export const MAX_CURRENCY_DECIMALS = 3
+
+export const currencySettingsSchema = z.object({
+  /** ISO 4217 code, e.g. "EGP" */
+  code: z.string().length(3),
+  /** Symbol shown with amounts, e.g. "$" or "EGP" */
+  symbol: z.string().min(1),
+  symbolPosition: z.enum(["before", "after"]),
+  /** Digits after the decimal separator */
+  decimals: z.number().int().min(0).max(MAX_CURRENCY_DECIMALS),
+  /** Locale used to group digits and pick the decimal separator, e.g. "en-EG" */
+  locale: z.string().min(2),
+})
+
+export const PAPER_WIDTHS = [58, 80] as const
+
+export const printerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  /** "browser" prints through the print dialog; "network" sends ESC/POS to a print server */
+  connection: z.enum(["browser", "network"]),
+  /** URL of the print server of a network printer */
+  address: z.string().nullish(),
+  paperWidth: z.union([z.literal(PAPER_WIDTHS[0]), z.literal(PAPER_WIDTHS[1])]),
+  /** Customer receipts are printed here */
+  printsReceipts: z.boolean(),
+  /** Product categories whose kitchen tickets are printed here, e.g. coffee on the bar printer */
+  categories: z.array(z.string()),
+})
+
+export const printSettingsSchema = z.object({
+  /** Printed at the top of receipts, e.g. the name and address of the cafe */
+  receiptHeader: z.string(),
+  /** Printed at the bottom of receipts */
+  receiptFooter: z.string(),
+  printers: z.array(printerSchema),
+})
+
+export const schedulingSettingsSchema = z.object({
+  /** Minutes before the requested ready time that a scheduled order is sent to the kitchen */
+  leadTimeMinutes: z.number().int().min(0).max(240),
+})
+
+export const cafeSettingsSchema = z.object({
+  tax: taxSettingsSchema,
+  currency: currencySettingsSchema,
+  printing: printSettingsSchema,
+  scheduling: schedulingSettingsSchema,
+  /** Service charge in percent of the goods after discounts; 0 turns it off */
+  serviceChargeRate: percentSchema,
+})
+
+export const updateCafeSettingsRequestSchema = cafeSettingsSchema.partial()
+
+/** Tax of all the goods taxed at one rate */
+export const taxLineSchema = z.object({
+  label: z.string(),
+  rate: z.number().nonnegative(),
+  /** Goods at this rate after discounts, as priced on the menu */
+  taxableAmount: z.number().nonnegative(),
+  amount: z.number().nonnegative(),
+})
+
+// Order schemas
+export const ITEM_NOTE_MAX_LENGTH = 140
+export const ORDER_NOTE_MAX_LENGTH = 500
+export const VOID_REASON_CODES = [
+  "entered_by_mistake",
+  "guest_changed_mind",
+  "kitchen_error",
+  "out_of_stock",
+  "other",
+] as const
+export const REFUND_REASON_CODES = ["quality_issue", "wrong_item", "long_wait", "overcharged", "other"] as const
+
+export const orderItemSchema = z.object({
+  id: z.number().int(),
+  productId: z.number().int(),
+  productName: z.string(),
+  quantity: z.number().int().positive(),
+  /** Unit price including the price deltas of the modifiers */
+  price: z.number().nonnegative(),
+  modifiers: z.array(orderItemModifierSchema).optional(),
+  /** Special instructions, e.g. "no ice" */
+  note: z.string().nullish(),
+  /** Discounts of pricing rules on this line; the line costs price times quantity minus these */
+  discounts: z.array(appliedDiscountSchema).optional(),
+  /** Taken off the order before payment; the line stays on the order but is not charged */
+  voided: z.boolean().optional(),
+  /** Paid for and then refunded */
+  refunded: z.boolean().optional(),
+})
+
+export const addOrderItemRequestSchema = z.object({
+  productId: z.number().int().positive(),
+  quantity: z.number().int().positive(),
+  modifiers: z.array(modifierSelectionSchema).optional(),
+  note: z.string().max(ITEM_NOTE_MAX_LENGTH).optional(),
+})
+
+export const adjustmentKindSchema = z.enum(["void", "refund"])
+
+/** A void or refund of a whole order or of one item, kept on the order for the record */
+export const orderAdjustmentSchema = z.object({
+  id: z.number().int(),
+  kind: adjustmentKindSchema,
+  /** Item voided or refunded; null for the whole order */
+  itemId: z.number().int().nullish(),
+  /** Amount taken off the total by a void, or handed back by a refund */
+  amount: z.number().nonnegative(),
+  /** How a refund was handed back */
+  method: paymentMethodSchema.optional(),
+  /** One of VOID_REASON_CODES or REFUND_REASON_CODES */
+  reasonCode: z.string(),
+  note: z.string().nullish(),
+  approvedBy: userRefSchema.nullish(),
+  createdBy: userRefSchema.nullish(),
+  createdAt: z.string(),
+})
+
+export const orderStatusChangeSchema = z.object({
+  /** Previous status, null for the creation of the order */
+  from: orderStatusSchema.nullable(),
+  to: orderStatusSchema,
+  changedAt: z.string(),
+  changedBy: userRefSchema.nullish(),
+})
+
+/** Who a takeaway, pickup or delivery order is for */
+export const orderCustomerSchema = z.object({
+  name: z.string().min(1),
+  phone: z.string().min(1),
+  /** Required for deliveries */
+  address: z.string().nullish(),
+})
+
+export const orderSchema = z.object({
+  id: z.number().int(),
+  /** Missing means dine-in, for orders placed before order types existed */
+  type: orderTypeSchema.optional(),
+  /** Table of a dine-in order; null for the other order types */
+  tableId: z.number().int().nullish(),
+  userId: z.number().int(),
+  guestName: z.string().nullish(),
+  /** Contact of a takeaway, pickup or delivery order */
+  customer: orderCustomerSchema.nullish(),
+  /** When a pickup order is collected, or a delivery is due (ISO 8601) */
+  pickupTime: z.string().nullish(),
+  /** When a scheduled order should be ready (ISO 8601) */
+  readyAt: z.string().nullish(),
+  /** When a scheduled order goes to the kitchen: the ready time less the lead time (ISO 8601) */
+  fireAt: z.string().nullish(),
+  /** Note for the whole order, e.g. "birthday candle on the cake" */
+  note: z.string().nullish(),
+  status: orderStatusSchema,
+  items: z.array(orderItemSchema),
+  /** Sum of price times quantity, before discounts */
+  subtotal: z.number().nonnegative().optional(),
+  /** Line discounts plus the manual discount */
+  discountTotal: z.number().nonnegative().optional(),
+  promoCode: z.string().nullish(),
+  manualDiscount: manualDiscountSchema.nullish(),
+  serviceCharge: z.number().nonnegative().optional(),
+  /** Tax by rate; included in the prices or added to the total, see taxIncluded */
+  taxes: z.array(taxLineSchema).optional(),
+  taxTotal: z.number().nonnegative().optional(),
+  taxIncluded: z.boolean().optional(),
+  /** Amount to pay: goods after discounts, plus service charge and any tax not included in the prices */
+  total: z.number().nonnegative(),
+  /** Sum of the payments recorded against the order; missing means nothing has been paid */
+  amountPaid: z.number().nonnegative().optional(),
+  /** Sum of the refunds; the total stays what was charged */
+  refundedAmount: z.number().nonnegative().optional(),
+  /** Voids and refunds, oldest first */
+  adjustments: z.array(orderAdjustmentSchema).optional(),
+  orderDate: z.string(),
+  /** Status changes, oldest first; missing on backends that do not record them */
+  statusHistory: z.array(orderStatusChangeSchema).optional(),
+  /** Orders whose items were merged into this one when their tables joined */
+  mergedOrderIds: z.array(z.number().int()).optional(),
+})
+
+export const createOrderRequestSchema = z.object({
+  /** Dine-in if omitted */
+  type: orderTypeSchema.optional(),
+  /** Required for dine-in orders */
+  tableId: z.number().int().positive().optional(),
+  guestName: z.string().optional(),
+  /** Required for the other order types; deliveries also need the address */
+  customer: orderCustomerSchema.optional(),
+  /** Required for pickup orders */
+  pickupTime: z.string().optional(),
+  /** Schedules the order to be ready at this time; pickup orders are ready at their pickup time if omitted */
+  readyAt: z.string().optional(),
+  note: z.string().max(ORDER_NOTE_MAX_LENGTH).optional(),
+  promoCode: z.string().optional(),
+  items: z.array(addOrderItemRequestSchema).min(1),
+})
+
+export const updateOrderStatusRequestSchema = z.object({
+  status: orderStatusSchema,
+})
+
+export const updateOrderNoteRequestSchema = z.object({
+  note: z.string().max(ORDER_NOTE_MAX_LENGTH),
+})
+
+export const applyPromoCodeRequestSchema = z.object({
+  /** Null removes the code */
+  promoCode: z.string().nullable(),
+})
+
+export const manualDiscountRequestSchema = z.object({
+  type: manualDiscountTypeSchema,
+  value: z.number().positive(),
+  reason: z.string().min(1),
+  /** Approval of a manager; not needed when a manager applies the discount */
+  approvalToken: z.string().optional(),
+})
+
+export const voidRequestSchema = z.object({
+  /** Item to void; the whole order is voided if omitted */
+  itemId: z.number().int().optional(),
+  reasonCode: z.enum(VOID_REASON_CODES),
+  note: z.string().max(ITEM_NOTE_MAX_LENGTH).optional(),
+  /** Approval of a manager; not needed when a manager voids */
+  approvalToken: z.string().optional(),
+})
+
+export const refundRequestSchema = z.object({
+  /** Item to refund; everything not refunded yet is refunded if omitted */
+  itemId: z.number().int().optional(),
+  reasonCode: z.enum(REFUND_REASON_CODES),
+  note: z.string().max(ITEM_NOTE_MAX_LENGTH).optional(),
+  /** How the money is handed back */
+  method: paymentMethodSchema,
+  /** Approval of a manager; not needed when a manager refunds */
+  approvalToken: z.string().optional(),
+})
+
+export const transferOrderRequestSchema = z.object({
+  /** Table to move the order to; takeaway, pickup and delivery orders become dine-in */
+  tableId: z.number().int().positive(),
+})
+
+export const mergeTablesRequestSchema = z.object({
+  /** Table whose open orders move over */
+  fromTableId: z.number().int().positive(),
+  /** Table the guests join */
+  toTableId: z.number().int().positive(),
+})
+
+export const splitOrderRequestSchema = z.object({
+  /** Items to move to the new order */
+  itemIds: z.array(z.number().int()).min(1),
+  /** Table of the new order; the table of the order if omitted */
+  tableId: z.number().int().positive().optional(),
+})
+
+export const splitOrderResultSchema = z.object({
+  /** Order the items were taken from */
+  order: orderSchema,
+  /** New order holding the selected items */
+  newOrder: orderSchema,
+})
+
+// Order list query schemas
+export const orderSortFieldSchema = z.enum(["orderDate", "total", "id", "tableId"])
+export const sortOrderSchema = z.enum(["asc", "desc"])
+
+export const orderFilterSchema = z.object({
+  status: orderStatusSchema.optional(),
+  type: orderTypeSchema.optional(),
+  tableId: z.number().int().positive().optional(),
+  /** Earliest order date (ISO 8601), inclusive */
+  from: z.string().optional(),
+  /** Latest order date (ISO 8601), inclusive */
+  to: z.string().optional(),
+  /** Case-insensitive substring of the guest name */
+  guestName: z.string().optional(),
+  minTotal: z.number().nonnegative().optional(),
+  sortBy: orderSortFieldSchema.optional(),
+  sortOrder: sortOrderSchema.optional(),
+})
+
+export const orderPageQuerySchema = orderFilterSchema.extend({
+  page: z.number().int().positive().optional(),
+  pageSize: z.number().int().positive().max(100).optional(),
+})
+
+export const orderCursorQuerySchema = orderFilterSchema.extend({
+  /** Opaque cursor from the previous page; omit for the first page */
+  cursor: z.string().optional(),
+  limit: z.number().int().positive().max(100).optional(),
+})
+
+// Pagination envelopes
+export const pageInfoSchema = z.object({
+  page: z.number().int().positive(),
+  pageSize: z.number().int().positive(),
+  totalCount: z.number().int().nonnegative(),
+  totalPages: z.number().int().nonnegative(),
+})
+
+export const cursorInfoSchema = z.object({
+  /** Cursor of the next page, or null on the last page */
+  nextCursor: z.string().nullable(),
+})
+
+/**
+ * Schema of one page of a paginated list
+ * @param itemSchema - Schema of the list items
+ */
+export const pagedResultSchema = <T extends z.ZodTypeAny>(itemSchema: T) =>
+  pageInfoSchema.extend({ items: z.array(itemSchema) })
+
+/**
+ * Schema of one page of a cursor-paginated list
+ * @param itemSchema - Schema of the list items
+ */
+export const cursorPageSchema = <T extends z.ZodTypeAny>(itemSchema: T) =>
+  cursorInfoSchema.extend({ items: z.array(itemSchema) })
+
+// Realtime order events
+export const orderEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("order.created"), order: orderSchema }),
+  z.object({ type: z.literal("order.status_changed"), order: orderSchema, previousStatus: orderStatusSchema.optional() }),
+  z.object({ type: z.literal("order.item_changed"), order: orderSchema }),
+  z.object({ type: z.literal("order.deleted"), orderId: z.number().int(), tableId: z.number().int().optional() }),
+])
+
+// Payment schemas
+export const paidItemSchema = z.object({
+  itemId: z.number().int(),
+  quantity: z.number().int().positive(),
+})
+
+/** Approval returned by the card terminal, see lib/card-terminal.ts */
+export const cardAuthorizationSchema = z.object({
+  terminalId: z.string(),
+  authCode: z.string(),
+  brand: z.string().optional(),
+  last4: z.string().optional(),
+})
+
+/** How the guest paid; shared by payments and payment requests */
+const tenderFields = {
+  method: paymentMethodSchema,
+  /** Tip on top of the amount; it is not applied to the order balance */
+  tip: z.number().nonnegative().optional(),
+  /** Cash handed over; missing means the guest paid the exact amount */
+  tendered: z.number().positive().optional(),
+  /** Required for card payments */
+  cardAuthorization: cardAuthorizationSchema.optional(),
+  /** Required for voucher payments */
+  voucherCode: z.string().optional(),
+}
+
+export const paymentSchema = z.object({
+  id: z.number().int(),
+  orderId: z.number().int(),
+  /** Null for orders not taken at a table */
+  tableId: z.number().int().nullish(),
+  amount: z.number().positive(),
+  ...tenderFields,
+  /** Cash handed back; tendered is always amount plus tip plus change */
+  change: z.number().nonnegative().optional(),
+  /** Items paid for when the bill is split by item */
+  items: z.array(paidItemSchema).optional(),
+  createdAt: z.string(),
+  createdBy: userRefSchema.nullish(),
+})
+
+export const createPaymentRequestSchema = z.object({
+  orderId: z.number().int().positive(),
+  amount: z.number().positive(),
+  ...tenderFields,
+  items: z.array(paidItemSchema).optional(),
+})
+
+/** Payments against several orders, recorded all together or not at all */
+export const createPaymentsRequestSchema = z.object({
+  payments: z.array(createPaymentRequestSchema).min(1),
+})
+
+export const createTablePaymentRequestSchema = z.object({
+  amount: z.number().positive(),
+  ...tenderFields,
+})
+
+export const paymentFilterSchema = z.object({
+  orderId: z.number().int().optional(),
+  tableId: z.number().int().optional(),
+  /** Only payments taken at or after this ISO date-time */
+  from: z.string().optional(),
+  /** Only payments taken before this ISO date-time */
+  to: z.string().optional(),
+})
+
+/** A refund with the order it was given on, e.g. for the cash reconciliation */
+export const refundSchema = orderAdjustmentSchema.extend({
+  orderId: z.number().int(),
+  tableId: z.number().int().nullish(),
+})
+
+/** Payments recorded by one request and the orders they were applied to */
+export const paymentResultSchema = z.object({
+  payments: z.array(paymentSchema),
+  orders: z.array(orderSchema),
+})
+
+// Table schemas
+export const tableSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  capacity: z.number().int().positive(),
+  status: tableStatusSchema,
+})
+
+export const tableWithOrderSchema = tableSchema.extend({
+  currentOrder: orderSchema.nullable(),
+})
+
+export const createTableRequestSchema = z.object({
+  name: z.string().min(1),
+  capacity: z.number().int().positive(),
+  status: tableStatusSchema,
+})
+
+export const updateTableStatusRequestSchema = z.object({
+  status: tableStatusSchema,
+})
+
+// Derived types
+export type UserRole = z.infer<typeof userRoleSchema>
+export type TableStatus = z.infer<typeof tableStatusSchema>
+export type OrderStatus = z.infer<typeof orderStatusSchema>
+export type OrderType = z.infer<typeof orderTypeSchema>
+export type User = z.infer<typeof userSchema>
+export type LoginRequest = z.infer<typeof loginRequestSchema>
+export type RegisterRequest = z.infer<typeof registerRequestSchema>
+export type AuthResponse = z.infer<typeof authResponseSchema>
+export type RefreshTokenResponse = z.infer<typeof refreshTokenResponseSchema>
+export type UserRef = z.infer<typeof userRefSchema>
+export type ManagerApprovalRequest = z.infer<typeof managerApprovalRequestSchema>
+export type ManagerApproval = z.infer<typeof managerApprovalSchema>
+export type ModifierOption = z.infer<typeof modifierOptionSchema>
+export type ModifierGroup = z.infer<typeof modifierGroupSchema>
+export type ModifierSelection = z.infer<typeof modifierSelectionSchema>
+export type OrderItemModifier = z.infer<typeof orderItemModifierSchema>
+export type Product = z.infer<typeof productSchema>
+export type CreateProductRequest = z.infer<typeof createProductRequestSchema>
+export type PricingRuleType = z.infer<typeof pricingRuleTypeSchema>
+export type PricingSchedule = z.infer<typeof pricingScheduleSchema>
+export type PricingRule = z.infer<typeof pricingRuleSchema>
+export type CreatePricingRuleRequest = z.infer<typeof createPricingRuleRequestSchema>
+export type AppliedDiscount = z.infer<typeof appliedDiscountSchema>
+export type ManualDiscountType = z.infer<typeof manualDiscountTypeSchema>
+export type ManualDiscount = z.infer<typeof manualDiscountSchema>
+export type TaxSettings = z.infer<typeof taxSettingsSchema>
+export type CurrencySettings = z.infer<typeof currencySettingsSchema>
+export type Printer = z.infer<typeof printerSchema>
+export type PrintSettings = z.infer<typeof printSettingsSchema>
+export type SchedulingSettings = z.infer<typeof schedulingSettingsSchema>
+export type CafeSettings = z.infer<typeof cafeSettingsSchema>
+export type UpdateCafeSettingsRequest = z.infer<typeof updateCafeSettingsRequestSchema>
+export type TaxLine = z.infer<typeof taxLineSchema>
+export type OrderItem = z.infer<typeof orderItemSchema>
+export type AddOrderItemRequest = z.infer<typeof addOrderItemRequestSchema>
+export type OrderStatusChange = z.infer<typeof orderStatusChangeSchema>
+export type AdjustmentKind = z.infer<typeof adjustmentKindSchema>
+export type OrderAdjustment = z.infer<typeof orderAdjustmentSchema>
+export type OrderCustomer = z.infer<typeof orderCustomerSchema>
+export type Order = z.infer<typeof orderSchema>
+export type CreateOrderRequest = z.infer<typeof createOrderRequestSchema>
+export type UpdateOrderStatusRequest = z.infer<typeof updateOrderStatusRequestSchema>
+export type UpdateOrderNoteRequest = z.infer<typeof updateOrderNoteRequestSchema>
+export type ApplyPromoCodeRequest = z.infer<typeof applyPromoCodeRequestSchema>
+export type ManualDiscountRequest = z.infer<typeof manualDiscountRequestSchema>
+export type VoidReasonCode = (typeof VOID_REASON_CODES)[number]
+export type RefundReasonCode = (typeof REFUND_REASON_CODES)[number]
+export type VoidRequest = z.infer<typeof voidRequestSchema>
+export type RefundRequest = z.infer<typeof refundRequestSchema>
+export type TransferOrderRequest = z.infer<typeof transferOrderRequestSchema>
+export type MergeTablesRequest = z.infer<typeof mergeTablesRequestSchema>
+export type SplitOrderRequest = z.infer<typeof splitOrderRequestSchema>
+export type SplitOrderResult = z.infer<typeof splitOrderResultSchema>
+export type OrderSortField = z.infer<typeof orderSortFieldSchema>
+export type SortOrder = z.infer<typeof sortOrderSchema>
+export type OrderFilter = z.infer<typeof orderFilterSchema>
+export type OrderPageQuery = z.infer<typeof orderPageQuerySchema>
+export type OrderCursorQuery = z.infer<typeof orderCursorQuerySchema>
+export type PageInfo = z.infer<typeof pageInfoSchema>
+export type PagedResult<T> = PageInfo & { items: T[] }
+export type CursorPage<T> = z.infer<typeof cursorInfoSchema> & { items: T[] }
+export type OrderEvent = z.infer<typeof orderEventSchema>
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>
+export type PaidItem = z.infer<typeof paidItemSchema>
+export type CardAuthorization = z.infer<typeof cardAuthorizationSchema>
+export type Payment = z.infer<typeof paymentSchema>
+export type CreatePaymentRequest = z.infer<typeof createPaymentRequestSchema>
+export type CreateTablePaymentRequest = z.infer<typeof createTablePaymentRequestSchema>
+export type PaymentFilter = z.infer<typeof paymentFilterSchema>
+export type Refund = z.infer<typeof refundSchema>
+export type PaymentResult = z.infer<typeof paymentResultSchema>
+export type Table = z.infer<typeof tableSchema>
+export type TableWithOrder = z.infer<typeof tableWithOrderSchema>
+export type CreateTableRequest = z.infer<typeof createTableRequestSchema>
+export type UpdateTableStatusRequest = z.infer<typeof updateTableStatusRequestSchema>
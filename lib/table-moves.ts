@@ -0,0 +1,75 @@
+import type { Order, Table } from "./api"
+import { getStatusInfo } from "./order-lifecycle"
+import { getChargedItems } from "./payments"
+
+/**
+ * Moving orders between tables
+ * When guests change tables, their open order is transferred to the new table; a takeaway order
+ * can be transferred to a table too, when the guests decide to stay. When two tables join, all
+ * open orders of both become one order on the table the guests join, keeping their voids. Only
+ * orders in the same status are merged, so no item skips the kitchen or is made twice. Items of an
+ * order can be split off into a new order, e.g. for a guest who moves to another table. Orders
+ * that have been paid on cannot be merged or split, as the payments belong to the items they paid
+ * for.
+ */
+
+/**
+ * Check if an order can be moved to another table
+ * @param order - Order
+ * @returns True while the order is open
+ */
+export const canTransferOrder = (order: Order): boolean => {
+  return getStatusInfo(order.status).isOpen
+}
+
+/**
+ * Check if items of an order can be split off into a new order
+ * @param order - Order
+ * @returns True while the order is open, nothing has been paid and it has more than one item
+ */
+export const canSplitOrder = (order: Order): boolean => {
+  return getStatusInfo(order.status).isOpen && !order.amountPaid && getChargedItems(order).length > 1
+}
+
+/**
+ * Get why the open orders of two tables cannot be merged into one
+ * @param orders - Open orders of both tables
+ * @returns Reason, or null if they can be merged
+ */
+export const getMergeBlocker = (orders: Order[]): string | null => {
+  for (const order of orders) {
+    if (order.status === "scheduled") {
+      return `Order #${order.id} is scheduled; send it to the kitchen first`
+    }
+    if (order.amountPaid) {
+      return `Order #${order.id} has payments and cannot be merged`
+    }
+    if (order.manualDiscount) {
+      return `Order #${order.id} has a discount; remove it before merging`
+    }
+  }
+  const [first] = orders
+  const other = orders.find((order) => order.status !== first.status)
+  if (other) {
+    const firstStatus = getStatusInfo(first.status).label.toLowerCase()
+    const otherStatus = getStatusInfo(other.status).label.toLowerCase()
+    return (
+      `Order #${first.id} is ${firstStatus} and order #${other.id} is ${otherStatus}; ` +
+      "only orders in the same status can be merged"
+    )
+  }
+  return null
+}
+
+/**
+ * Get the status a table should have for the orders on it
+ * @param orders - Orders of the table
+ * @returns Occupied while an order is being served, reserved while orders are only scheduled, else available
+ */
+export const getTableStatusForOrders = (orders: Order[]): Table["status"] => {
+  const open = orders.filter((order) => getStatusInfo(order.status).isOpen)
+  if (open.some((order) => order.status !== "scheduled")) {
+    return "occupied"
+  }
+  return open.length > 0 ? "reserved" : "available"
+}
@@ -0,0 +1,333 @@
+import type { CafeSettings, CurrencySettings, Order, OrderItem, Printer } from "./api"
+import { formatModifiers } from "./modifiers"
+import { formatMoney } from "./money"
+import { getOrderLocation } from "./order-types"
+import { getBalance, getChargedItems } from "./payments"
+import { describeManualDiscount } from "./pricing"
+import { describeTax, getOrderTotals } from "./totals"
+
+/**
+ * Tickets
+ * Receipts for guests and kitchen tickets for the bar and the kitchen are built as a list of lines
+ * first, independent of the printer. layoutTicket then breaks the lines to the number of characters
+ * that fit on the paper, and the result is either encoded as ESC/POS (lib/escpos.ts) or shown as
+ * HTML for the print dialog of the browser (lib/printers.ts).
+ */
+
+export type TicketAlign = "left" | "center" | "right"
+
+export type TicketLine =
+  | { type: "text"; text: string; align?: TicketAlign; bold?: boolean; large?: boolean }
+  /** Text on the left and an amount on the right, e.g. an item and its price */
+  | { type: "row"; left: string; right: string; bold?: boolean; large?: boolean }
+  | { type: "divider" }
+  | { type: "feed"; lines: number }
+
+export interface Ticket {
+  kind: "receipt" | "kitchen" | "test"
+  /** Names the print job, e.g. "Receipt #12" */
+  title: string
+  lines: TicketLine[]
+}
+
+/**
+ * A line as printed: already broken to the width of the paper
+ */
+export interface PrintedLine {
+  text: string
+  align: TicketAlign
+  bold: boolean
+  /** Printed at double width and height */
+  large: boolean
+}
+
+/** Characters per line of the standard font */
+const COLUMNS_BY_PAPER_WIDTH: Record<Printer["paperWidth"], number> = {
+  58: 32,
+  80: 48,
+}
+
+/**
+ * Get the number of characters that fit on a line
+ * @param paperWidth - Paper width in millimetres
+ * @param large - Double width text, which fits half as many characters
+ * @returns Characters per line
+ */
+export const getTicketColumns = (paperWidth: Printer["paperWidth"], large = false): number => {
+  const columns = COLUMNS_BY_PAPER_WIDTH[paperWidth]
+  return large ? Math.floor(columns / 2) : columns
+}
+
+/**
+ * Break a paragraph into lines of at most a given width, at spaces where possible
+ */
+const wrapWords = (paragraph: string, width: number): string[] => {
+  const lines: string[] = []
+  let line = ""
+  for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+    let rest = word
+    while (rest.length > width) {
+      if (line) {
+        lines.push(line)
+        line = ""
+      }
+      lines.push(rest.slice(0, width))
+      rest = rest.slice(width)
+    }
+    if (!rest) continue
+    if (line && line.length + 1 + rest.length > width) {
+      lines.push(line)
+      line = rest
+    } else {
+      line = line ? `${line} ${rest}` : rest
+    }
+  }
+  // An empty paragraph is kept as an empty line
+  if (line || lines.length === 0) {
+    lines.push(line)
+  }
+  return lines
+}
+
+/**
+ * Break text into lines of at most a given width; lines that start indented keep the indent
+ * when they wrap
+ */
+const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = []
+  for (const paragraph of text.split("\n")) {
+    const indent = paragraph.match(/^ */)?.[0].slice(0, width - 1) ?? ""
+    const wrapped = wrapWords(paragraph, width - indent.length)
+    lines.push(...wrapped.map((line) => `${indent}${line}`))
+  }
+  return lines
+}
+
+/**
+ * Break the lines of a ticket to the width of the paper
+ * @param ticket - Ticket
+ * @param paperWidth - Paper width in millimetres
+ * @returns Lines as printed; rows are padded so the right text ends at the edge
+ */
+export const layoutTicket = (ticket: Ticket, paperWidth: Printer["paperWidth"]): PrintedLine[] => {
+  const printed: PrintedLine[] = []
+
+  for (const line of ticket.lines) {
+    if (line.type === "divider") {
+      printed.push({ text: "-".repeat(getTicketColumns(paperWidth)), align: "left", bold: false, large: false })
+    } else if (line.type === "feed") {
+      for (let i = 0; i < line.lines; i++) {
+        printed.push({ text: "", align: "left", bold: false, large: false })
+      }
+    } else if (line.type === "text") {
+      const style = { align: line.align ?? "left", bold: !!line.bold, large: !!line.large }
+      for (const text of wrapText(line.text, getTicketColumns(paperWidth, line.large))) {
+        printed.push({ text, ...style })
+      }
+    } else {
+      // The amount stays on the first line; the text wraps in the space left of it
+      const columns = getTicketColumns(paperWidth, line.large)
+      const right = line.right.slice(0, columns)
+      const leftWidth = Math.max(1, columns - right.length - 1)
+      const style = { align: "left" as const, bold: !!line.bold, large: !!line.large }
+      wrapText(line.left, leftWidth).forEach((left, index) => {
+        const text = index === 0 ? `${left.padEnd(columns - right.length)}${right}` : left
+        printed.push({ text, ...style })
+      })
+    }
+  }
+
+  return printed
+}
+
+/**
+ * Write a date the same way on every printer, e.g. "2026-10-19 14:05"
+ */
+const formatTicketDate = (value: string): string => {
+  const date = new Date(value)
+  const pad = (n: number) => String(n).padStart(2, "0")
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+/**
+ * Thermal printers only print plain characters, so a symbol such as "€" is printed as its code
+ */
+const getTicketCurrency = (currency: CurrencySettings): CurrencySettings => {
+  return /^[\x20-\x7e]+$/.test(currency.symbol) ? currency : { ...currency, symbol: currency.code }
+}
+
+/**
+ * Contact, address and pickup time of an order not taken at a table
+ */
+const getCustomerLines = (order: Order): TicketLine[] => {
+  const lines: TicketLine[] = []
+  if (order.customer) {
+    lines.push({ type: "text", text: `Phone: ${order.customer.phone}` })
+    if (order.customer.address) {
+      lines.push({ type: "text", text: `Deliver to: ${order.customer.address}` })
+    }
+  }
+  if (order.pickupTime) {
+    lines.push({ type: "text", text: `Pickup: ${formatTicketDate(order.pickupTime)}` })
+  }
+  return lines
+}
+
+const getItemLabel = (item: OrderItem): string => `${item.quantity} x ${item.productName}`
+
+/**
+ * Build the receipt of an order
+ * @param order - Order, with its stored totals
+ * @param settings - Cafe settings, for the currency and the receipt header and footer
+ * @returns Receipt ticket
+ */
+export const buildReceipt = (order: Order, settings: CafeSettings): Ticket => {
+  const currency = getTicketCurrency(settings.currency)
+  const money = (amount: number) => formatMoney(amount, currency)
+  const totals = getOrderTotals(order)
+  const lines: TicketLine[] = []
+
+  settings.printing.receiptHeader
+    .split("\n")
+    .filter((text) => text.trim())
+    .forEach((text, index) => lines.push({ type: "text", text, align: "center", bold: index === 0 }))
+  lines.push({ type: "divider" })
+  lines.push({ type: "row", left: `Order #${order.id}`, right: formatTicketDate(order.orderDate) })
+  const location = getOrderLocation(order)
+  lines.push({ type: "text", text: order.guestName ? `${location} - ${order.guestName}` : location })
+  lines.push(...getCustomerLines(order))
+  lines.push({ type: "divider" })
+
+  // Voided items are not charged and left off the receipt
+  for (const item of getChargedItems(order)) {
+    lines.push({ type: "row", left: getItemLabel(item), right: money(item.price * item.quantity) })
+    if (item.modifiers && item.modifiers.length > 0) {
+      lines.push({ type: "text", text: `  ${formatModifiers(item.modifiers)}` })
+    }
+    for (const discount of item.discounts ?? []) {
+      lines.push({ type: "row", left: `  ${discount.name}`, right: `-${money(discount.amount)}` })
+    }
+    if (item.quantity > 1) {
+      lines.push({ type: "text", text: `  ${money(item.price)} each` })
+    }
+  }
+  lines.push({ type: "divider" })
+
+  lines.push({ type: "row", left: "Subtotal", right: money(totals.subtotal) })
+  if (totals.ruleDiscount > 0) {
+    lines.push({ type: "row", left: "Discounts", right: `-${money(totals.ruleDiscount)}` })
+  }
+  if (order.manualDiscount && totals.manualDiscount > 0) {
+    const label = describeManualDiscount(order.manualDiscount, currency)
+    lines.push({ type: "row", left: `Order discount (${label})`, right: `-${money(totals.manualDiscount)}` })
+  }
+  if (totals.serviceCharge > 0) {
+    lines.push({ type: "row", left: "Service charge", right: money(totals.serviceCharge) })
+  }
+  if (!totals.taxIncluded) {
+    totals.taxes.forEach((tax) => lines.push({ type: "row", left: describeTax(tax), right: money(tax.amount) }))
+  }
+  lines.push({ type: "row", left: "TOTAL", right: money(totals.total), bold: true })
+  if (totals.taxIncluded) {
+    totals.taxes.forEach((tax) =>
+      lines.push({ type: "row", left: `Includes ${describeTax(tax)}`, right: money(tax.amount) }),
+    )
+  }
+
+  if (order.amountPaid) {
+    lines.push({ type: "divider" })
+    lines.push({ type: "row", left: "Paid", right: money(order.amountPaid) })
+    const balance = getBalance(order)
+    if (balance > 0) {
+      lines.push({ type: "row", left: "Balance due", right: money(balance), bold: true })
+    }
+  }
+
+  const refunds = (order.adjustments ?? []).filter((adjustment) => adjustment.kind === "refund")
+  if (refunds.length > 0) {
+    lines.push({ type: "divider" })
+    for (const refund of refunds) {
+      const item = order.items.find((candidate) => candidate.id === refund.itemId)
+      const left = `Refund ${item ? getItemLabel(item) : "order"}`
+      lines.push({ type: "row", left, right: `-${money(refund.amount)}` })
+    }
+  }
+
+  if (settings.printing.receiptFooter.trim()) {
+    lines.push({ type: "feed", lines: 1 })
+    lines.push({ type: "text", text: settings.printing.receiptFooter, align: "center" })
+  }
+
+  return { kind: "receipt", title: `Receipt #${order.id}`, lines }
+}
+
+/**
+ * Build the kitchen ticket of some items of an order, without prices
+ * @param order - Order
+ * @param items - Items made at the station, e.g. the drinks for the bar
+ * @param station - Name of the station, printed at the top
+ * @returns Kitchen ticket
+ */
+export const buildKitchenTicket = (order: Order, items: OrderItem[], station: string): Ticket => {
+  const lines: TicketLine[] = [
+    { type: "text", text: station.toUpperCase(), align: "center", bold: true },
+    { type: "text", text: getOrderLocation(order), align: "center", bold: true, large: true },
+    { type: "row", left: `Order #${order.id}`, right: formatTicketDate(order.orderDate) },
+  ]
+  if (order.guestName) {
+    lines.push({ type: "text", text: `Guest: ${order.guestName}` })
+  }
+  if (order.pickupTime) {
+    lines.push({ type: "text", text: `Pickup: ${formatTicketDate(order.pickupTime)}`, bold: true })
+  } else if (order.readyAt) {
+    lines.push({ type: "text", text: `Ready at: ${formatTicketDate(order.readyAt)}`, bold: true })
+  }
+  lines.push({ type: "divider" })
+
+  for (const item of items) {
+    lines.push({ type: "text", text: getItemLabel(item), bold: true })
+    if (item.modifiers && item.modifiers.length > 0) {
+      lines.push({ type: "text", text: `  ${formatModifiers(item.modifiers)}` })
+    }
+    if (item.note) {
+      lines.push({ type: "text", text: `  ** ${item.note}`, bold: true })
+    }
+  }
+
+  if (order.note) {
+    lines.push({ type: "divider" })
+    lines.push({ type: "text", text: `Note: ${order.note}`, bold: true })
+  }
+
+  return { kind: "kitchen", title: `${station} #${order.id}`, lines }
+}
+
+/**
+ * Build a test page for a printer, with a ruler to check that lines use the full width
+ * @param printer - Printer being set up
+ * @returns Test ticket
+ */
+export const buildTestTicket = (printer: Printer): Ticket => {
+  const columns = getTicketColumns(printer.paperWidth)
+  const ruler = Array.from({ length: columns }, (_, i) => String((i + 1) % 10)).join("")
+  const categories = printer.categories.length > 0 ? printer.categories.join(", ") : "none"
+
+  return {
+    kind: "test",
+    title: `Test ${printer.name}`,
+    lines: [
+      { type: "text", text: printer.name, align: "center", bold: true, large: true },
+      { type: "text", text: "Test page", align: "center" },
+      { type: "divider" },
+      { type: "row", left: "Paper", right: `${printer.paperWidth}mm, ${columns} characters` },
+      { type: "row", left: "Receipts", right: printer.printsReceipts ? "yes" : "no" },
+      { type: "row", left: "Kitchen tickets", right: categories },
+      { type: "divider" },
+      { type: "text", text: ruler },
+      { type: "text", text: "Bold text", bold: true },
+      { type: "text", text: "Large text", large: true },
+      { type: "text", text: "Right aligned", align: "right" },
+    ],
+  }
+}
@@ -0,0 +1,180 @@
+import type { CafeSettings, Order, TaxLine } from "./api"
+import { getTaxRate } from "./cafe-settings"
+import { getChargedItems, getLineTotal, roundMoney } from "./payments"
+import type { OrderPricing, PricingLine } from "./pricing"
+
+/**
+ * Order totals
+ * Every bill adds up the same way: the subtotal of the menu prices, less the discounts, plus the
+ * service charge, plus the tax when menu prices do not include it. Tax is worked out per rate on
+ * the goods after discounts; a manual discount on the whole order is shared across the lines in
+ * proportion to what they cost, so every rate gets its part of it. The service charge is not taxed.
+ *
+ * The backend stores the totals on the order. The cart and the order screens use the same
+ * calculator to preview them, and receipts and reports read them back with getOrderTotals.
+ */
+
+export interface OrderTotals {
+  /** Sum of unit price times quantity */
+  subtotal: number
+  /** Discounts of pricing rules */
+  ruleDiscount: number
+  manualDiscount: number
+  discountTotal: number
+  serviceCharge: number
+  /** Tax by rate, highest rate first */
+  taxes: TaxLine[]
+  taxTotal: number
+  /** The tax is part of the prices and not added to the total */
+  taxIncluded: boolean
+  total: number
+}
+
+/**
+ * Work out the totals of an order
+ * @param lines - Lines priced, with their category
+ * @param pricing - Discounts from priceOrder for the same lines
+ * @param settings - Tax and service charge settings
+ * @returns Subtotal, discounts, service charge, tax and total
+ */
+export const calculateTotals = (lines: PricingLine[], pricing: OrderPricing, settings: CafeSettings): OrderTotals => {
+  const lineAmounts = lines.map((line, index) => {
+    const discount = pricing.lineDiscounts[index]?.reduce((sum, applied) => sum + applied.amount, 0) ?? 0
+    return Math.max(0, line.unitPrice * line.quantity - discount)
+  })
+  const beforeManualDiscount = lineAmounts.reduce((sum, amount) => sum + amount, 0)
+  // Goods after all discounts; the manual discount is shared across the lines
+  const goods = pricing.total
+  const share = beforeManualDiscount > 0 ? goods / beforeManualDiscount : 0
+
+  const taxableByRate = new Map<number, number>()
+  lines.forEach((line, index) => {
+    const rate = getTaxRate(settings, line.category)
+    taxableByRate.set(rate, (taxableByRate.get(rate) ?? 0) + lineAmounts[index] * share)
+  })
+
+  const taxIncluded = settings.tax.pricesIncludeTax
+  const { decimals } = settings.currency
+  const taxes: TaxLine[] = [...taxableByRate.entries()]
+    .filter(([rate, taxable]) => rate > 0 && taxable > 0)
+    .sort(([a], [b]) => b - a)
+    .map(([rate, taxable]) => ({
+      label: settings.tax.label,
+      rate,
+      taxableAmount: roundMoney(taxable, decimals),
+      amount: roundMoney(taxIncluded ? (taxable * rate) / (100 + rate) : (taxable * rate) / 100, decimals),
+    }))
+  const taxTotal = roundMoney(taxes.reduce((sum, tax) => sum + tax.amount, 0))
+  const serviceCharge = roundMoney((goods * settings.serviceChargeRate) / 100, decimals)
+
+  return {
+    subtotal: pricing.subtotal,
+    ruleDiscount: pricing.ruleDiscount,
+    manualDiscount: pricing.manualDiscount,
+    discountTotal: pricing.discountTotal,
+    serviceCharge,
+    taxes,
+    taxTotal,
+    taxIncluded,
+    total: roundMoney(goods + serviceCharge + (taxIncluded ? 0 : taxTotal)),
+  }
+}
+
+/**
+ * Read the totals the backend stored on an order
+ * @param order - Order; orders stored before tax was configured count as untaxed
+ * @returns Subtotal, discounts, service charge, tax and total
+ */
+export const getOrderTotals = (order: Order): OrderTotals => {
+  const items = getChargedItems(order)
+  const ruleDiscount = roundMoney(
+    items.reduce((sum, item) => sum + item.price * item.quantity - getLineTotal(item), 0),
+  )
+  const discountTotal = order.discountTotal ?? ruleDiscount
+  const subtotal = order.subtotal ?? roundMoney(items.reduce((sum, item) => sum + item.price * item.quantity, 0))
+
+  return {
+    subtotal,
+    ruleDiscount,
+    manualDiscount: Math.max(0, roundMoney(discountTotal - ruleDiscount)),
+    discountTotal,
+    serviceCharge: order.serviceCharge ?? 0,
+    taxes: order.taxes ?? [],
+    taxTotal: order.taxTotal ?? 0,
+    taxIncluded: order.taxIncluded ?? true,
+    total: order.total,
+  }
+}
+
+/**
+ * Describe a tax line, e.g. "VAT 20%"
+ * @param tax - Tax line
+ * @returns Label and rate
+ */
+export const describeTax = (tax: Pick<TaxLine, "label" | "rate">): string => {
+  return `${tax.label} ${tax.rate}%`
+}
+
+export interface SalesSummary {
+  orderCount: number
+  subtotal: number
+  discountTotal: number
+  serviceCharge: number
+  /** Tax by label and rate across all the orders */
+  taxes: TaxLine[]
+  taxTotal: number
+  /** Sales without tax and service charge */
+  netSales: number
+  total: number
+  /** Handed back to guests; the totals above are what was charged */
+  refundTotal: number
+}
+
+/**
+ * Add up the totals of several orders, e.g. for the tax report of a day
+ * @param orders - Orders to add up
+ * @returns Sums of the totals, with the tax by rate
+ */
+export const summarizeSales = (orders: Order[]): SalesSummary => {
+  const taxes = new Map<string, TaxLine>()
+  const summary: SalesSummary = {
+    orderCount: orders.length,
+    subtotal: 0,
+    discountTotal: 0,
+    serviceCharge: 0,
+    taxes: [],
+    taxTotal: 0,
+    netSales: 0,
+    total: 0,
+    refundTotal: 0,
+  }
+
+  for (const order of orders) {
+    const totals = getOrderTotals(order)
+    summary.subtotal += totals.subtotal
+    summary.discountTotal += totals.discountTotal
+    summary.serviceCharge += totals.serviceCharge
+    summary.taxTotal += totals.taxTotal
+    summary.total += totals.total
+    summary.refundTotal += order.refundedAmount ?? 0
+    for (const tax of totals.taxes) {
+      const key = describeTax(tax)
+      const sum = taxes.get(key) ?? { ...tax, taxableAmount: 0, amount: 0 }
+      sum.taxableAmount += tax.taxableAmount
+      sum.amount += tax.amount
+      taxes.set(key, sum)
+    }
+  }
+
+  summary.taxes = [...taxes.values()]
+    .map((tax) => ({ ...tax, taxableAmount: roundMoney(tax.taxableAmount), amount: roundMoney(tax.amount) }))
+    .sort((a, b) => b.rate - a.rate)
+  summary.subtotal = roundMoney(summary.subtotal)
+  summary.discountTotal = roundMoney(summary.discountTotal)
+  summary.serviceCharge = roundMoney(summary.serviceCharge)
+  summary.taxTotal = roundMoney(summary.taxTotal)
+  summary.total = roundMoney(summary.total)
+  summary.refundTotal = roundMoney(summary.refundTotal)
+  summary.netSales = roundMoney(summary.total - summary.taxTotal - summary.serviceCharge)
+  return summary
+}
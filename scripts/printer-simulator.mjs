@@ -0,0 +1,176 @@
+#!/usr/bin/env node
+/**
+ * Stand-in for an ESC/POS network printer
+ * Lets ticket layouts (lib/tickets.ts, lib/escpos.ts) be checked without a thermal printer. It has
+ * no dependencies. Every ticket it receives is written to the output directory twice: the raw
+ * ESC/POS bytes (.bin), and a text preview (.txt) that shows the ticket as the printer would lay
+ * it out, with double size text spaced out and the cut marked.
+ *
+ *   POST /print    Print a ticket; the body is the ESC/POS byte stream
+ *   GET  /health   Number of tickets printed so far
+ *
+ * Usage:
+ *   node scripts/printer-simulator.mjs [--port 9100] [--out print-output] [--quiet]
+ *   node scripts/printer-simulator.mjs --decode ticket.bin [--width 80]
+ *
+ * Add a printer with the "network" connection and the address http://localhost:9100/print on the
+ * Printers page. The app sends the printer ID, paper width and job title in the X-Printer-Id,
+ * X-Paper-Width and X-Print-Job headers. --decode prints the preview of a saved .bin file instead
+ * of starting the server; --quiet stops previews from being echoed to the console.
+ */
+
+import { createServer } from "node:http"
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { join, resolve } from "node:path"
+
+const ESC = 0x1b
+const GS = 0x1d
+const LF = 0x0a
+/** Characters per line of the standard font */
+const COLUMNS_BY_PAPER_WIDTH = { 58: 32, 80: 48 }
+
+const args = process.argv.slice(2)
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`)
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback
+}
+const port = Number(option("port", process.env.PORT || 9100))
+const outDir = resolve(option("out", "print-output"))
+const quiet = args.includes("--quiet")
+
+/**
+ * Decoding
+ * Understands the commands lib/escpos.ts sends; any other command byte is skipped.
+ */
+const decodeEscPos = (bytes, paperWidth) => {
+  const columns = COLUMNS_BY_PAPER_WIDTH[paperWidth] ?? COLUMNS_BY_PAPER_WIDTH[80]
+  const lines = []
+  let text = ""
+  let align = "left"
+  let large = false
+
+  const flush = () => {
+    const shown = large ? text.split("").join(" ") : text
+    const padding = Math.max(0, columns - shown.length)
+    const indent = align === "center" ? Math.floor(padding / 2) : align === "right" ? padding : 0
+    lines.push(`${" ".repeat(indent)}${shown}`.trimEnd())
+    text = ""
+  }
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i]
+    if (byte === ESC) {
+      const command = bytes[++i]
+      if (command === 0x40) {
+        align = "left"
+        large = false
+      } else if (command === 0x61) {
+        align = ["left", "center", "right"][bytes[++i]] ?? "left"
+      } else if (command === 0x45) {
+        i++
+      } else if (command === 0x64) {
+        const count = bytes[++i]
+        for (let n = 0; n < count; n++) flush()
+      }
+    } else if (byte === GS) {
+      const command = bytes[++i]
+      if (command === 0x21) {
+        large = bytes[++i] !== 0
+      } else if (command === 0x56) {
+        const mode = bytes[++i]
+        if (mode === 0x41 || mode === 0x42) i++
+        if (text) flush()
+        lines.push("- - - - - - - - cut - - - - - - - -")
+      }
+    } else if (byte === LF) {
+      flush()
+    } else {
+      text += String.fromCharCode(byte)
+    }
+  }
+  if (text) flush()
+
+  const border = `+${"-".repeat(columns)}+`
+  const framed = lines.map((line) => (line.startsWith("- -") ? line : `|${line.padEnd(columns)}|`))
+  return [border, ...framed, border].join("\n")
+}
+
+if (args.includes("--decode")) {
+  const file = option("decode")
+  if (!file) {
+    console.error("Usage: node scripts/printer-simulator.mjs --decode ticket.bin [--width 80]")
+    process.exit(1)
+  }
+  console.log(decodeEscPos(readFileSync(file), Number(option("width", 80))))
+  process.exit(0)
+}
+
+/**
+ * Server
+ */
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, X-Printer-Id, X-Paper-Width, X-Print-Job",
+}
+
+const sendJson = (response, status, body) => {
+  response.writeHead(status, { ...corsHeaders, "Content-Type": "application/json" })
+  response.end(JSON.stringify(body))
+}
+
+let printed = 0
+
+const server = createServer((request, response) => {
+  const { pathname } = new URL(request.url, `http://${request.headers.host}`)
+
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, corsHeaders)
+    response.end()
+    return
+  }
+
+  if (request.method === "GET" && pathname === "/health") {
+    sendJson(response, 200, { printed, outDir })
+    return
+  }
+
+  if (request.method === "POST" && pathname === "/print") {
+    const chunks = []
+    request.on("data", (chunk) => chunks.push(chunk))
+    request.on("end", () => {
+      const bytes = Buffer.concat(chunks)
+      if (bytes.length === 0) {
+        sendJson(response, 400, { error: "Body must be an ESC/POS byte stream" })
+        return
+      }
+      const printerId = String(request.headers["x-printer-id"] || "printer").replace(/[^\w-]/g, "_")
+      const paperWidth = Number(request.headers["x-paper-width"]) || 80
+      const title = decodeURIComponent(String(request.headers["x-print-job"] || "Ticket"))
+      const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${printerId}`
+      const preview = decodeEscPos(bytes, paperWidth)
+
+      mkdirSync(outDir, { recursive: true })
+      writeFileSync(join(outDir, `${name}.bin`), bytes)
+      writeFileSync(join(outDir, `${name}.txt`), `${title} (${paperWidth}mm)\n${preview}\n`)
+      printed++
+
+      console.log(`#${printed} ${title} on ${printerId}, ${bytes.length} bytes -> ${name}.txt`)
+      if (!quiet) console.log(preview)
+      sendJson(response, 202, { file: `${name}.bin` })
+    })
+    return
+  }
+
+  sendJson(response, 404, { error: `No route for ${request.method} ${pathname}` })
+})
+
+server.listen(port, () => {
+  console.log(`Printer simulator listening on port ${port}`)
+  console.log(`  Print:   POST http://localhost:${port}/print`)
+  console.log(`  Output:  ${outDir}`)
+})
+
+const shutdown = () => server.close(() => process.exit(0))
+process.on("SIGINT", shutdown)
+process.on("SIGTERM", shutdown)
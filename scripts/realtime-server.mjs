@@ -0,0 +1,280 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the order event stream of the .NET backend
+ * Lets the realtime layer (lib/realtime.ts) be tested without the backend. It has no
+ * dependencies and speaks both transports the app understands:
+ *
+ *   GET  /events    Server-Sent Events stream
+ *   GET  /ws        WebSocket stream
+ *                   Both take ?tableId=<id> to receive only the orders of one table, as the guest
+ *                   page of a table does
+ *   POST /publish   Broadcast an order event (or an array of events) to the clients it concerns
+ *   GET  /health    Number of connected clients
+ *
+ * Usage:
+ *   node scripts/realtime-server.mjs [--port 5050] [--demo] [--interval 4000]
+ *
+ * --demo generates made-up orders and moves them through the kitchen. Point the app at the
+ * server with NEXT_PUBLIC_REALTIME_URL=http://localhost:5050/events (SSE) or
+ * ws://localhost:5050/ws (WebSocket). Events can also be published by hand:
+ *
+ *   curl -X POST localhost:5050/publish -d '{"type":"order.deleted","orderId":1,"tableId":1}'
+ */
+
+import { createServer } from "node:http"
+import { createHash } from "node:crypto"
+
+const EVENT_TYPES = ["order.created", "order.status_changed", "order.item_changed", "order.deleted"]
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+const HEARTBEAT_MS = 15000
+
+const args = process.argv.slice(2)
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`)
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback
+}
+const port = Number(option("port", process.env.PORT || 5050))
+const demo = args.includes("--demo")
+const demoInterval = Number(option("interval", 4000))
+
+// Connected clients, each with the table it is scoped to (null for every order)
+const sseClients = new Map()
+const socketClients = new Map()
+let eventId = 0
+
+/**
+ * Transports
+ */
+const encodeFrame = (text) => {
+  const payload = Buffer.from(text)
+  const length = payload.length
+  let header
+  if (length < 126) {
+    header = Buffer.from([0x81, length])
+  } else if (length < 65536) {
+    header = Buffer.alloc(4)
+    header[0] = 0x81
+    header[1] = 126
+    header.writeUInt16BE(length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[0] = 0x81
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(length), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+const getTableScope = (searchParams) => {
+  const tableId = Number(searchParams.get("tableId"))
+  return Number.isInteger(tableId) && tableId > 0 ? tableId : null
+}
+
+const getEventTableId = (event) => (event.type === "order.deleted" ? event.tableId : event.order.tableId) ?? null
+
+const broadcast = (event) => {
+  const data = JSON.stringify(event)
+  const tableId = getEventTableId(event)
+  const receives = (scope) => scope === null || scope === tableId
+  eventId++
+  for (const [response, scope] of sseClients) {
+    if (receives(scope)) response.write(`id: ${eventId}\ndata: ${data}\n\n`)
+  }
+  const frame = encodeFrame(data)
+  for (const [socket, scope] of socketClients) {
+    if (receives(scope)) socket.write(frame)
+  }
+  console.log(`#${eventId} ${event.type} -> ${sseClients.size + socketClients.size} client(s)`)
+}
+
+const isOrderEvent = (event) =>
+  !!event &&
+  EVENT_TYPES.includes(event.type) &&
+  (event.type === "order.deleted" ? Number.isInteger(event.orderId) : !!event.order && Number.isInteger(event.order.id))
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+}
+
+const sendJson = (response, status, body) => {
+  response.writeHead(status, { ...corsHeaders, "Content-Type": "application/json" })
+  response.end(JSON.stringify(body))
+}
+
+const server = createServer((request, response) => {
+  const { pathname, searchParams } = new URL(request.url, `http://${request.headers.host}`)
+
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, corsHeaders)
+    response.end()
+    return
+  }
+
+  if (request.method === "GET" && pathname === "/events") {
+    response.writeHead(200, {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    })
+    response.write("retry: 2000\n\n")
+    sseClients.set(response, getTableScope(searchParams))
+    request.on("close", () => sseClients.delete(response))
+    return
+  }
+
+  if (request.method === "GET" && pathname === "/health") {
+    sendJson(response, 200, { sse: sseClients.size, websocket: socketClients.size, demo })
+    return
+  }
+
+  if (request.method === "POST" && pathname === "/publish") {
+    let body = ""
+    request.on("data", (chunk) => (body += chunk))
+    request.on("end", () => {
+      let events
+      try {
+        const parsed = JSON.parse(body)
+        events = Array.isArray(parsed) ? parsed : [parsed]
+      } catch {
+        sendJson(response, 400, { error: "Body must be JSON" })
+        return
+      }
+      const invalid = events.findIndex((event) => !isOrderEvent(event))
+      if (invalid >= 0) {
+        sendJson(response, 400, { error: `Event ${invalid} is not an order event`, details: EVENT_TYPES })
+        return
+      }
+      events.forEach(broadcast)
+      sendJson(response, 202, { delivered: events.length })
+    })
+    return
+  }
+
+  sendJson(response, 404, { error: `No route for ${request.method} ${pathname}` })
+})
+
+server.on("upgrade", (request, socket) => {
+  const { pathname, searchParams } = new URL(request.url, `http://${request.headers.host}`)
+  const key = request.headers["sec-websocket-key"]
+  if (pathname !== "/ws" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n")
+    return
+  }
+
+  const accept = createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64")
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  )
+  socketClients.set(socket, getTableScope(searchParams))
+
+  // Clients only ever send control frames; answer pings and honour close
+  socket.on("data", (data) => {
+    const opcode = data[0] & 0x0f
+    if (opcode === 0x8) {
+      socket.end(Buffer.from([0x88, 0]))
+    } else if (opcode === 0x9) {
+      socket.write(Buffer.from([0x8a, 0]))
+    }
+  })
+  socket.on("close", () => socketClients.delete(socket))
+  socket.on("error", () => socketClients.delete(socket))
+})
+
+// Keep idle connections from being dropped by proxies
+setInterval(() => {
+  for (const response of sseClients.keys()) {
+    response.write(": heartbeat\n\n")
+  }
+  for (const socket of socketClients.keys()) {
+    socket.write(Buffer.from([0x89, 0]))
+  }
+}, HEARTBEAT_MS).unref()
+
+/**
+ * Demo mode: a few tables ordering and the kitchen working through the orders
+ */
+const DEMO_PRODUCTS = [
+  { id: 1, name: "Espresso", price: 2.5 },
+  { id: 2, name: "Cappuccino", price: 3.5 },
+  { id: 3, name: "Croissant", price: 2.75 },
+  { id: 4, name: "Blueberry Muffin", price: 3.0 },
+]
+const NEXT_STATUS = { new: "preparing", preparing: "ready", ready: "delivered", delivered: "paid" }
+const demoOrders = []
+let nextOrderId = 1000
+let nextItemId = 1000
+
+const pick = (list) => list[Math.floor(Math.random() * list.length)]
+
+const createDemoItem = () => {
+  const product = pick(DEMO_PRODUCTS)
+  return {
+    id: nextItemId++,
+    productId: product.id,
+    productName: product.name,
+    quantity: 1 + Math.floor(Math.random() * 2),
+    price: product.price,
+  }
+}
+
+const withTotal = (order) => ({
+  ...order,
+  total: Math.round(order.items.reduce((sum, item) => sum + item.price * item.quantity, 0) * 100) / 100,
+})
+
+const runDemoStep = () => {
+  const roll = Math.random()
+  if (demoOrders.length === 0 || roll < 0.35) {
+    const order = withTotal({
+      id: nextOrderId++,
+      tableId: 1 + Math.floor(Math.random() * 6),
+      userId: 1,
+      guestName: pick(["Alex", "Sam", "Jordan", null]),
+      status: "new",
+      items: [createDemoItem()],
+      orderDate: new Date().toISOString(),
+    })
+    demoOrders.push(order)
+    broadcast({ type: "order.created", order })
+    return
+  }
+
+  const index = Math.floor(Math.random() * demoOrders.length)
+  const order = demoOrders[index]
+  if (roll < 0.5 && order.status === "new") {
+    demoOrders[index] = withTotal({ ...order, items: [...order.items, createDemoItem()] })
+    broadcast({ type: "order.item_changed", order: demoOrders[index] })
+    return
+  }
+
+  demoOrders[index] = { ...order, status: NEXT_STATUS[order.status] }
+  broadcast({ type: "order.status_changed", order: demoOrders[index], previousStatus: order.status })
+  if (demoOrders[index].status === "paid") {
+    demoOrders.splice(index, 1)
+  }
+}
+
+server.listen(port, () => {
+  console.log(`Order event server listening on port ${port}`)
+  console.log(`  SSE:       http://localhost:${port}/events`)
+  console.log(`  WebSocket: ws://localhost:${port}/ws`)
+  console.log(`  Publish:   POST http://localhost:${port}/publish`)
+  if (demo) {
+    console.log(`  Demo mode: one event every ${demoInterval} ms`)
+    setInterval(runDemoStep, demoInterval)
+  }
+})
+
+const shutdown = () => {
+  for (const response of sseClients.keys()) response.end()
+  for (const socket of socketClients.keys()) socket.destroy()
+  server.close(() => process.exit(0))
+}
+process.on("SIGINT", shutdown)
+process.on("SIGTERM", shutdown)